@@ -0,0 +1,17 @@
+// Run west of UTC, where reading a date-only string in local time moves 1 January into the
+// year before. Set here because tests only see a copy of process.env.
+process.env.TZ = 'America/New_York';
+
+module.exports = {
+    preset: 'ts-jest',
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    // Helpers and fixtures sit next to the tests in __tests__ directories
+    testMatch: ['**/__tests__/**/*.test.ts'],
+    moduleNameMapper: {
+      '^@/(.*)$': '<rootDir>/src/$1',
+    },
+    transform: {
+      '^.+\\.tsx?$': 'ts-jest',
+    },
+  };
@@ -6,7 +6,10 @@ import userRoutes from './routes/user.routes';
 import searchRoutes from './routes/search.routes';
 import savedSearchRoutes from './routes/saved-search.routes';
 import preferencesRoutes from './routes/preferences.routes';
-import { CacheService } from './services/cache';
+import adminRoutes from './routes/admin.routes';
+import databaseRoutes from './routes/database.routes';
+import recordRoutes from './routes/record.routes';
+import { ICache } from './services/cache';
 import { Logger } from './services/logger';
 import { DatabaseService } from './services/database/database.service';
 import compression from 'compression';
@@ -15,7 +18,7 @@ import { Config } from './config/types';
 export interface AppConfig {
   logger: Logger;
   databaseService: DatabaseService;
-  cacheService: CacheService
+  cacheService: ICache;
   env: Config;
   NODE_ENV: string;
   CORS_ORIGIN: string;
@@ -129,6 +132,9 @@ export class App {
     this.app.use('/api', searchRoutes);
     this.app.use('/api/saved-searches', savedSearchRoutes);
     this.app.use('/api/preferences', preferencesRoutes);
+    this.app.use('/api/admin', adminRoutes);
+    this.app.use('/api/databases', databaseRoutes);
+    this.app.use('/api/records', recordRoutes);
 
     this.app.use((_req: Request, res: Response) => {
       res.status(404).json({
@@ -1,5 +1,6 @@
 // backend/src/config/index.ts
-import { DatabaseConfig, RedisConfig, Config } from './types';
+import path from 'path';
+import { DatabaseConfig, RedisConfig, CacheConfig, AlertsConfig, ConnectorsConfig, AdminConfig, Config } from './types';
 import jwt from 'jsonwebtoken';
 // Load environment variables with proper precedence
 function getEnvVar(key: string, defaultValue?: string): string {
@@ -41,12 +42,48 @@ const redisConfig: RedisConfig = {
   password: getEnvVar('REDIS_PASSWORD', undefined)
 };
 
+// Build the cache config; without REDIS_URL everything falls back to in-process storage
+const cacheDriver = getEnvVar('CACHE_DRIVER', process.env.REDIS_URL ? 'redis' : 'memory');
+const cacheConfig: CacheConfig = {
+  driver: cacheDriver === 'redis' ? 'redis' : 'memory',
+  maxEntries: getEnvVarAsNumber('CACHE_MAX_ENTRIES', 10000)
+};
+
+// Build the saved search alerts config
+const alertsConfig: AlertsConfig = {
+  enabled: getEnvVarAsBoolean('SAVED_SEARCH_ALERTS_ENABLED', true),
+  intervalMinutes: getEnvVarAsNumber('SAVED_SEARCH_ALERT_INTERVAL_MINUTES', 15)
+};
+
+// Build the search connector config; relative paths resolve against the working directory
+const connectorsConfig: ConnectorsConfig = {
+  configPath: path.resolve(getEnvVar('DATABASES_CONFIG_PATH', 'config/databases.json')),
+  circuitBreaker: {
+    windowMs: getEnvVarAsNumber('CIRCUIT_BREAKER_WINDOW_SECONDS', 60) * 1000,
+    minimumRequests: getEnvVarAsNumber('CIRCUIT_BREAKER_MIN_REQUESTS', 5),
+    errorThreshold: getEnvVarAsNumber('CIRCUIT_BREAKER_ERROR_PERCENT', 50) / 100,
+    openMs: getEnvVarAsNumber('CIRCUIT_BREAKER_OPEN_SECONDS', 30) * 1000
+  }
+};
+
+// Build the admin config
+const adminConfig: AdminConfig = {
+  userIds: getEnvVar('ADMIN_USER_IDS')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean)
+};
+
 // Create the full configuration object
 export const config: Config = {
   env: getEnvVar('NODE_ENV', 'development'),
   port: getEnvVarAsNumber('PORT', 3001),
   db: dbConfig,
   redis: redisConfig,
+  cache: cacheConfig,
+  alerts: alertsConfig,
+  connectors: connectorsConfig,
+  admin: adminConfig,
   cors: {
     origin: getEnvVar('CORS_ORIGIN', '*')
   },
@@ -20,11 +20,39 @@ export interface DatabaseConfig {
     password?: string;
   }
   
+  export interface CacheConfig {
+    driver: 'redis' | 'memory';
+    maxEntries: number;  // Size bound for the in-memory cache
+  }
+  
+  export interface AlertsConfig {
+    enabled: boolean;
+    intervalMinutes: number;  // How often the scheduler looks for due saved searches
+  }
+  
+  export interface ConnectorsConfig {
+    configPath: string;  // Declarative database connector config
+    circuitBreaker: {
+      windowMs: number;  // Rolling window for the error rate
+      minimumRequests: number;  // Calls needed in the window before a circuit can open
+      errorThreshold: number;  // Error rate (0-1) that opens the circuit
+      openMs: number;  // How long a tripped connector is skipped before a trial request
+    };
+  }
+  
+  export interface AdminConfig {
+    userIds: string[];  // Users allowed to call the /api/admin endpoints
+  }
+  
   export interface Config {
     env: string;
     port: number;
     db: DatabaseConfig;
     redis: RedisConfig;
+    cache: CacheConfig;
+    alerts: AlertsConfig;
+    connectors: ConnectorsConfig;
+    admin: AdminConfig;
     cors: {
       origin: string;
     };
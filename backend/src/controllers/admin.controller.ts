@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { ConnectorConfigService } from '../services/search/databases/connector-config.service';
+import { SearchCacheService } from '../services/search/search.cache.service';
+import { Logger } from '../services/logger';
+import { AuthenticatedRequest } from '../types/auth.types';
+
+export class AdminController {
+  constructor(
+    private readonly connectorConfigService: ConnectorConfigService,
+    private readonly searchCache: SearchCacheService,
+    private readonly logger: Logger
+  ) {}
+
+  getDatabases = async (_req: Request, res: Response): Promise<void> => {
+    res.json({
+      status: 'success',
+      data: this.connectorConfigService.getConfigured()
+    });
+  };
+
+  /**
+   * Re-read the connector config and swap the registered connectors without a restart.
+   * Cached searches of connectors that were changed or removed are dropped.
+   */
+  reloadDatabases = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { databases, changed } = this.connectorConfigService.load();
+      if (changed.length) {
+        await this.searchCache.invalidateForDatabases(changed);
+      }
+
+      this.logger.info('Database connectors reloaded', {
+        userId: (req as AuthenticatedRequest).user.userId,
+        databases: databases.map(database => database.id),
+        changed
+      });
+
+      res.json({
+        status: 'success',
+        data: databases
+      });
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to reload database connectors', error);
+
+      // A bad config is rejected as a whole; the previous connectors stay registered
+      if (error.message.startsWith('Invalid database config') || error.message.startsWith('Database config not found')) {
+        res.status(400).json({
+          status: 'error',
+          message: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to reload database connectors'
+      });
+    }
+  };
+
+  /**
+   * Drop cached searches and citation lists, e.g. DELETE /api/admin/search-cache?databases=pubmed,crossref.
+   * Without `databases` the whole search cache is cleared.
+   */
+  clearSearchCache = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const databaseIds = typeof req.query.databases === 'string'
+        ? req.query.databases.split(',').map(id => id.trim()).filter(Boolean)
+        : [];
+
+      if (databaseIds.length) {
+        await this.searchCache.invalidateForDatabases(databaseIds);
+      } else {
+        await this.searchCache.clearAll();
+      }
+
+      this.logger.info('Search cache cleared', {
+        userId: (req as AuthenticatedRequest).user.userId,
+        databases: databaseIds.length ? databaseIds : 'all'
+      });
+
+      res.json({
+        status: 'success',
+        data: { databases: databaseIds.length ? databaseIds : 'all' }
+      });
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to clear search cache', error);
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to clear search cache'
+      });
+    }
+  };
+}
@@ -0,0 +1,55 @@
+// backend/src/controllers/database.controller.ts
+import { Request, Response } from 'express';
+import { DatabaseStatus } from '@thinkleap/shared/types/search';
+import { DatabaseRegistry } from '../services/search/databases/registry';
+import { Logger } from '../services/logger';
+import { AuthenticatedRequest } from '../types/auth.types';
+
+export class DatabaseController {
+  constructor(
+    private readonly registry: DatabaseRegistry,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * List every registered search source with its features and current health
+   */
+  listDatabases = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = (req as AuthenticatedRequest).user.userId;
+
+      const databases = await Promise.all(
+        this.registry.getAllDatabases().map(async (connector): Promise<DatabaseStatus> => {
+          const [enabled, hasAccess] = await Promise.all([
+            connector.isEnabled(),
+            connector.validateAccess(userId).catch(() => false)
+          ]);
+          const { state, errorRate, requests, latencyMs, retryAt } = this.registry.getHealth(connector.id);
+
+          return {
+            id: connector.id,
+            name: connector.name,
+            enabled,
+            available: enabled && hasAccess && state !== 'open',
+            authType: connector.authType,
+            features: connector.features,
+            health: { state, errorRate, requests, latencyMs, retryAt }
+          };
+        })
+      );
+
+      res.json({
+        status: 'success',
+        data: databases
+      });
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to list databases', error);
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to list databases'
+      });
+    }
+  };
+}
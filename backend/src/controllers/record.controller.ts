@@ -0,0 +1,171 @@
+// backend/src/controllers/record.controller.ts
+import { Request, Response } from 'express';
+import { CitationDirection } from '@thinkleap/shared/types/record';
+import { SearchService } from '../services/search/search.service';
+import { CitationGraphService } from '../services/search/citation-graph.service';
+import { Logger } from '../services/logger';
+
+// Citations returned when the request doesn't ask for a number, and the most it may ask for
+const DEFAULT_CITATION_LIMIT = 50;
+const MAX_CITATION_LIMIT = 200;
+
+// Likewise for similar articles
+const DEFAULT_SIMILAR_LIMIT = 10;
+const MAX_SIMILAR_LIMIT = 50;
+
+export class RecordController {
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly citationGraphService: CitationGraphService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Full record of one result, e.g. GET /api/records/crossref/10.1000%2Fxyz
+   */
+  getRecord = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const databaseId = req.params.databaseId as string;
+      const id = req.params.id as string;
+
+      const record = await this.searchService.getRecord(req.user.userId, databaseId, id);
+
+      if (!record) {
+        res.status(404).json({
+          error: 'Record not found'
+        });
+        return;
+      }
+
+      res.json(record);
+    } catch (error) {
+      this.logger.error('Record request failed', error as Error, {
+        databaseId: req.params.databaseId,
+        id: req.params.id
+      });
+
+      if (error instanceof Error && error.message.startsWith('Unknown database')) {
+        res.status(404).json({
+          error: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'An error occurred while fetching the record'
+      });
+    }
+  };
+
+  /**
+   * Works the record cites
+   */
+  getReferences = async (req: Request, res: Response): Promise<void> => {
+    await this.respondWithCitations(req, res, 'references');
+  };
+
+  /**
+   * Works citing the record
+   */
+  getCitations = async (req: Request, res: Response): Promise<void> => {
+    await this.respondWithCitations(req, res, 'citations');
+  };
+
+  /**
+   * Records most like this one, ranked by similarity score
+   */
+  getSimilar = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const limit = Math.min(
+        Math.max(1, parseInt(req.query.limit as string) || DEFAULT_SIMILAR_LIMIT),
+        MAX_SIMILAR_LIMIT
+      );
+
+      const similar = await this.searchService.findSimilar(
+        req.user.userId,
+        req.params.databaseId as string,
+        req.params.id as string,
+        limit
+      );
+
+      if (!similar) {
+        res.status(404).json({
+          error: 'Record not found'
+        });
+        return;
+      }
+
+      res.json(similar);
+    } catch (error) {
+      this.logger.error('Similar articles request failed', error as Error, {
+        databaseId: req.params.databaseId,
+        id: req.params.id
+      });
+
+      if (error instanceof Error && error.message.startsWith('Unknown database')) {
+        res.status(404).json({
+          error: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'An error occurred while fetching similar articles'
+      });
+    }
+  };
+
+  private async respondWithCitations(req: Request, res: Response, direction: CitationDirection): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const limit = Math.min(
+        Math.max(1, parseInt(req.query.limit as string) || DEFAULT_CITATION_LIMIT),
+        MAX_CITATION_LIMIT
+      );
+
+      const citations = await this.citationGraphService.getCitations(
+        req.user.userId,
+        req.params.databaseId as string,
+        req.params.id as string,
+        direction,
+        limit
+      );
+
+      res.json(citations);
+    } catch (error) {
+      this.logger.error('Citation request failed', error as Error, {
+        databaseId: req.params.databaseId,
+        id: req.params.id,
+        direction
+      });
+
+      if (error instanceof Error && (
+        error.message.startsWith('Unknown database') ||
+        error.message === 'Record not found'
+      )) {
+        res.status(404).json({
+          error: error.message
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: `An error occurred while fetching ${direction}`
+      });
+    }
+  }
+}
@@ -6,7 +6,8 @@ import { AuthenticatedRequest } from '../types/auth.types';
 import { 
   CreateSavedSearchDTO, 
   UpdateSavedSearchDTO, 
-  SavedSearchQueryOptions 
+  SavedSearchQueryOptions,
+  ALERT_FREQUENCIES
 } from '@thinkleap/shared/types/saved-search';
 
 export class SavedSearchController {
@@ -23,9 +24,18 @@ export class SavedSearchController {
         name: req.body.name,
         description: req.body.description,
         query: req.body.query,
-        filters: req.body.filters || {}
+        filters: req.body.filters || {},
+        alertFrequency: req.body.alertFrequency
       };
 
+      if (data.alertFrequency && !ALERT_FREQUENCIES.includes(data.alertFrequency)) {
+        res.status(400).json({
+          status: 'error',
+          message: `Invalid alert frequency. Expected one of: ${ALERT_FREQUENCIES.join(', ')}`
+        });
+        return;
+      }
+
       const savedSearch = await this.savedSearchService.create(userId, data);
       
       res.status(201).json({
@@ -125,9 +135,18 @@ export class SavedSearchController {
       const data: UpdateSavedSearchDTO = {
         name: req.body.name,
         description: req.body.description,
-        filters: req.body.filters
+        filters: req.body.filters,
+        alertFrequency: req.body.alertFrequency
       };
 
+      if (data.alertFrequency && !ALERT_FREQUENCIES.includes(data.alertFrequency)) {
+        res.status(400).json({
+          status: 'error',
+          message: `Invalid alert frequency. Expected one of: ${ALERT_FREQUENCIES.join(', ')}`
+        });
+        return;
+      }
+
       const savedSearch = await this.savedSearchService.update(id, userId, data);
       
       res.json({
@@ -218,4 +237,67 @@ export class SavedSearchController {
       });
     }
   };
+
+   getNewResults = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const userId = (req as AuthenticatedRequest).user.userId;
+
+      const results = await this.savedSearchService.getNewResults(id, userId);
+
+      res.json({
+        status: 'success',
+        data: results
+      });
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to fetch new saved search results', error, {
+        userId: (req as AuthenticatedRequest).user.userId,
+        searchId: req.params.id
+      });
+
+      if (error.message === 'Saved search not found') {
+        res.status(404).json({
+          status: 'error',
+          message: 'Saved search not found'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to fetch new results'
+      });
+    }
+  };
+
+   markResultsSeen = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const id = req.params.id as string;
+      const userId = (req as AuthenticatedRequest).user.userId;
+
+      await this.savedSearchService.markResultsSeen(id, userId);
+
+      res.status(204).send();
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to mark saved search results as seen', error, {
+        userId: (req as AuthenticatedRequest).user.userId,
+        searchId: req.params.id
+      });
+
+      if (error.message === 'Saved search not found') {
+        res.status(404).json({
+          status: 'error',
+          message: 'Saved search not found'
+        });
+        return;
+      }
+
+      res.status(500).json({
+        status: 'error',
+        message: 'Failed to mark results as seen'
+      });
+    }
+  };
 }
\ No newline at end of file
@@ -1,71 +1,250 @@
 import { Request, Response } from 'express';
+import { Readable, pipeline } from 'stream';
 import { SearchService } from '../services/search/search.service';
-import { SearchQuery } from '@thinkleap/shared/types/search';
+import { SearchExportService } from '../services/search/export.service';
+import { UserPreferencesService } from '../services/user/preferences.service';
+import { SearchQuery, SearchStreamEvent, SortOrder, SORT_ORDERS } from '@thinkleap/shared/types/search';
+import { ExportRequest, EXPORT_FORMATS } from '@thinkleap/shared/types/export';
+import { UserPreferences } from '@thinkleap/shared/types/user-preferences';
 import { Logger } from '../services/logger';
 
+// Maps the stored preference onto an explicit sort order
+const PREFERENCE_SORT_ORDERS: Record<UserPreferences['search']['defaultSortOrder'], SortOrder> = {
+  relevance: 'relevance',
+  date: 'date_desc',
+  citations: 'citations'
+};
+
+// Upper bound on records written by a single export
+const MAX_EXPORT_RESULTS = 1000;
+
 export class SearchController {
   constructor(
     private readonly searchService: SearchService,
+    private readonly preferencesService: UserPreferencesService,
+    private readonly exportService: SearchExportService,
     private readonly logger: Logger
   ) {}
 
-  async search(req: Request, res: Response): Promise<void> {
+  search = async (req: Request, res: Response): Promise<void> => {
     try {
-        if (!req.user) {
-            res.status(401).json({ error: 'User not authenticated' });
-            return;
-          }
-      // Validate and parse query parameters
-      const filters = req.query.filters ? JSON.parse(req.query.filters as string) : undefined;
-      const page = Math.max(1, parseInt(req.query.page as string) || 1);
-      const limit = Math.min(
-        Math.max(1, parseInt(req.query.limit as string) || 20),
-        100 // Maximum results per page
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      // Get user ID from auth middleware
+      const userId = req.user.userId;
+      const { query, databases } = await this.parseSearchRequest(req, userId);
+
+      const results = await this.searchService.search(
+        userId,
+        query,
+        databases
       );
 
-      const query: SearchQuery = {
-        term: req.query.q as string,
-        filters,
-        pagination: { page, limit }
-      };
+      res.json(results);
+    } catch (error) {
+      this.logger.error('Search request failed', error as Error);
+
+      const { status, message } = this.describeSearchError(error);
+      res.status(status).json({
+        error: message
+      });
+    }
+  };
+
+  /**
+   * Server-Sent Events version of `search`: one `source` or `source-error` event per
+   * database as it answers, then a `summary` event with the merged page.
+   */
+  searchStream = async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ error: 'User not authenticated' });
+      return;
+    }
+
+    const userId = req.user.userId;
+    let parsed: { query: SearchQuery; databases?: string[] };
+    try {
+      parsed = await this.parseSearchRequest(req, userId);
+    } catch (error) {
+      this.logger.error('Search stream request failed', error as Error);
+
+      const { status, message } = this.describeSearchError(error);
+      res.status(status).json({
+        error: message
+      });
+      return;
+    }
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
 
-      // Validate search term
-      if (!query.term || query.term.trim().length === 0) {
+    // Connectors can't be cancelled, so a closed connection only stops the writes
+    let closed = false;
+    req.on('close', () => {
+      closed = true;
+    });
+
+    const send = (event: SearchStreamEvent) => {
+      if (closed) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      // Push the event past the compression middleware right away
+      (res as Response & { flush?: () => void }).flush?.();
+    };
+
+    try {
+      const response = await this.searchService.search(userId, parsed.query, parsed.databases, { onSource: send });
+      send({ type: 'summary', data: response });
+    } catch (error) {
+      this.logger.error('Search stream failed', error as Error);
+      send({ type: 'error', data: { message: this.describeSearchError(error).message } });
+    } finally {
+      res.end();
+    }
+  };
+
+  /**
+   * Preview what a query turns into for each database, with lint warnings, without running it
+   */
+  translate = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const body = req.body as Partial<SearchQuery>;
+
+      if (typeof body?.term !== 'string' || !body.term.trim()) {
         res.status(400).json({
           error: 'Search term is required'
         });
         return;
       }
 
-      // Parse databases parameter
-      const databases = req.query.databases
-        ? (req.query.databases as string).split(',')
-        : undefined;
+      if (body.sortBy && !SORT_ORDERS.includes(body.sortBy)) {
+        res.status(400).json({
+          error: `Invalid sort order. Expected one of: ${SORT_ORDERS.join(', ')}`
+        });
+        return;
+      }
+
+      const translation = await this.searchService.translate(req.user.userId, {
+        term: body.term.trim(),
+        filters: body.filters,
+        sortBy: body.sortBy,
+        pagination: { page: 1, limit: 20 }
+      });
+
+      res.json(translation);
+    } catch (error) {
+      this.logger.error('Query translation failed', error as Error);
+
+      res.status(500).json({
+        error: 'An error occurred while translating the query'
+      });
+    }
+  };
+
+  exportResults = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'User not authenticated' });
+        return;
+      }
+
+      const body = req.body as ExportRequest;
+      const options = body?.options;
+
+      if (!options || !EXPORT_FORMATS.includes(options.format)) {
+        res.status(400).json({
+          error: `Invalid export format. Expected one of: ${EXPORT_FORMATS.join(', ')}`
+        });
+        return;
+      }
+
+      const hasIds = Array.isArray(body.resultIds) && body.resultIds.length > 0;
+      const hasQuery = typeof body.query === 'string' && body.query.trim().length > 0;
+
+      if (!hasIds && !hasQuery) {
+        res.status(400).json({
+          error: 'Either resultIds or a search query is required'
+        });
+        return;
+      }
+
+      if (hasIds && body.resultIds!.length > MAX_EXPORT_RESULTS) {
+        res.status(400).json({
+          error: `At most ${MAX_EXPORT_RESULTS} results can be exported at once`
+        });
+        return;
+      }
+
+      if (body.sortBy && !SORT_ORDERS.includes(body.sortBy)) {
+        res.status(400).json({
+          error: `Invalid sort order. Expected one of: ${SORT_ORDERS.join(', ')}`
+        });
+        return;
+      }
 
-      // Get user ID from auth middleware
       const userId = req.user.userId;
 
-      this.logger.debug('Processing search request', {
+      this.exportService.validateOptions(options);
+      const fileInfo = this.exportService.getFileInfo(options.format);
+
+      this.logger.debug('Processing export request', {
         userId,
-        query: query.term,
-        page,
-        limit,
-        databases
+        format: options.format,
+        resultIds: body.resultIds?.length,
+        query: body.query
       });
 
-      const results = await this.searchService.search(
-        userId,
-        query,
-        databases
+      const results = hasIds
+        ? await this.searchService.fetchRecords(userId, body.resultIds!)
+        : await this.searchService.collectResults(
+            userId,
+            {
+              term: body.query!,
+              filters: body.filters,
+              sortBy: body.sortBy || await this.getDefaultSortOrder(userId),
+              pagination: { page: 1, limit: 100 }
+            },
+            body.databases,
+            MAX_EXPORT_RESULTS
+          );
+
+      res.setHeader('Content-Type', fileInfo.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="search-results.${fileInfo.extension}"`
       );
 
-      res.json(results);
+      // Records are serialized as they are written, so a failure can come after the headers went
+      // out. pipeline then closes the connection, and the client sees an incomplete download
+      // rather than a truncated file.
+      pipeline(Readable.from(this.exportService.stream(results, options)), res, error => {
+        if (error) {
+          this.logger.error('Export stream failed', error, { userId, format: options.format });
+        }
+      });
     } catch (error) {
-      this.logger.error('Search request failed', error as Error);
+      this.logger.error('Export request failed', error as Error);
 
-      if (error instanceof SyntaxError) {
+      if (error instanceof Error && (
+        error.message.startsWith('Unsupported export') ||
+        error.message.startsWith('Invalid result id') ||
+        error.message.startsWith('Invalid query') ||
+        error.message.startsWith('Unknown database')
+      )) {
         res.status(400).json({
-          error: 'Invalid filter format'
+          error: error.message
         });
         return;
       }
@@ -78,8 +257,99 @@ export class SearchController {
       }
 
       res.status(500).json({
-        error: 'An error occurred while processing your search'
+        error: 'An error occurred while exporting results'
       });
     }
   };
+
+  /**
+   * Build the search query from the query string shared by `search` and `searchStream`
+   */
+  private async parseSearchRequest(
+    req: Request,
+    userId: string
+  ): Promise<{ query: SearchQuery; databases?: string[] }> {
+    // Validate and parse query parameters
+    const filters = req.query.filters ? JSON.parse(req.query.filters as string) : undefined;
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const limit = Math.min(
+      Math.max(1, parseInt(req.query.limit as string) || 20),
+      100 // Maximum results per page
+    );
+
+    const requestedSort = req.query.sortBy as string | undefined;
+    if (requestedSort && !SORT_ORDERS.includes(requestedSort as SortOrder)) {
+      throw new Error(`Invalid sort order. Expected one of: ${SORT_ORDERS.join(', ')}`);
+    }
+
+    const query: SearchQuery = {
+      term: req.query.q as string,
+      filters,
+      pagination: { page, limit },
+      cursor: req.query.cursor as string | undefined
+    };
+
+    // Validate search term
+    if (!query.term || query.term.trim().length === 0) {
+      throw new Error('Search term is required');
+    }
+
+    query.sortBy = (requestedSort as SortOrder | undefined)
+      || await this.getDefaultSortOrder(userId);
+
+    // Parse databases parameter
+    const databases = req.query.databases
+      ? (req.query.databases as string).split(',')
+      : undefined;
+
+    this.logger.debug('Processing search request', {
+      userId,
+      query: query.term,
+      page,
+      limit,
+      sortBy: query.sortBy,
+      databases
+    });
+
+    return { query, databases };
+  }
+
+  /**
+   * Map a failed search onto the status and message sent to the client
+   */
+  private describeSearchError(error: unknown): { status: number; message: string } {
+    if (error instanceof SyntaxError) {
+      return { status: 400, message: 'Invalid filter format' };
+    }
+
+    if (error instanceof Error && (
+      error.message === 'Search term is required' ||
+      error.message === 'Invalid pagination cursor' ||
+      error.message.startsWith('Invalid sort order') ||
+      error.message.startsWith('Invalid query') ||
+      error.message.startsWith('Requested page is too deep')
+    )) {
+      return { status: 400, message: error.message };
+    }
+
+    if (error instanceof Error && error.message === 'No enabled databases available for search') {
+      return { status: 400, message: 'No databases available for search' };
+    }
+
+    return { status: 500, message: 'An error occurred while processing your search' };
+  }
+
+  /**
+   * Fall back to relevance when the stored preference cannot be read
+   */
+  private async getDefaultSortOrder(userId: string): Promise<SortOrder> {
+    try {
+      const preferences = await this.preferencesService.getPreferences(userId);
+      return PREFERENCE_SORT_ORDERS[preferences.search.defaultSortOrder] || 'relevance';
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to load default sort order', error, { userId });
+      return 'relevance';
+    }
+  }
 }
\ No newline at end of file
@@ -6,26 +6,16 @@ dotenv.config();
 
 import { config } from './config';
 import { Logger } from './services/logger';
-import { CacheService } from './services/cache';
-import { DatabaseService } from './services/database/database.service';
+import { getServices } from './services';
 import { App } from './app';
-
-// DatabaseConfig is now directly formatted for the DatabaseService
-const dbConfig = {
-  user: config.db.user,
-  host: config.db.host,
-  database: config.db.name,
-  password: config.db.password,
-  port: config.db.port,
-};
+import { savedSearchAlertService } from './routes/saved-search.routes';
 
 async function startServer() {
   const logger = new Logger();
 
   try {
-    // Initialize services
-    const cacheService = new CacheService(config.redis.url);
-    const databaseService = DatabaseService.getInstance(dbConfig, logger);
+    // Initialize services; the route modules share these instances, including the cache
+    const { cacheService, databaseService } = getServices();
 
     // Wait for database connection
     await databaseService.connect();
@@ -46,9 +36,14 @@ async function startServer() {
       logger.info(`Server started on port ${port} in ${config.env} mode`);
     });
 
+    if (config.alerts.enabled) {
+      savedSearchAlertService.start(config.alerts.intervalMinutes * 60 * 1000);
+    }
+
     // Handle shutdown
     process.on('SIGTERM', async () => {
       logger.info('SIGTERM received, shutting down gracefully');
+      savedSearchAlertService.stop();
       await databaseService.disconnect();
       process.exit(0);
     });
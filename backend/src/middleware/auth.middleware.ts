@@ -3,6 +3,7 @@ import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { TokenService } from '../services/auth/token.service';
 import { RegisterUserDTO, AuthResponse, AuthErrorType, AuthenticatedRequest, AuthenticatedUser, createAuthError } from '../types/auth.types';
 import rateLimit from 'express-rate-limit';
+import { config } from '../config';
 
 declare module 'express' {
   interface Request {
@@ -43,6 +44,26 @@ export const authenticateToken: RequestHandler = (
   }
 };
 
+// Must run after authenticateToken
+export const requireAdmin: RequestHandler = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const userId = (req as AuthenticatedRequest).user?.userId;
+
+  if (!userId || !config.admin.userIds.includes(userId)) {
+      res.status(403).json({
+          success: false,
+          message: 'Admin access required',
+          error: createAuthError(AuthErrorType.VALIDATION, 'Admin access required')
+      });
+      return;
+  }
+
+  next();
+};
+
 export const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 5, // 5 attempts
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { RateLimiterRedis } from 'rate-limiter-flexible';
 import Redis from 'ioredis';
+import { config } from '../config';
 
 export interface RateLimitOptions {
   windowMs: number;
@@ -12,11 +13,11 @@ export interface RateLimitOptions {
 }
 
 export const createRateLimiter = (options: RateLimitOptions) => {
-  // Get redisUrl from options or environment
-  const redisUrl = options.redisUrl || process.env.REDIS_URL;
+  // Get redisUrl from options, or from config when Redis is the configured cache driver
+  const redisUrl = options.redisUrl || (config.cache.driver === 'redis' ? config.redis.url : undefined);
   
   if (!redisUrl) {
-    console.warn('REDIS_URL is not defined. Using memory rate limiter instead.');
+    console.warn('Redis is not configured. Using memory rate limiter instead.');
     
     // Simple in-memory rate limiting as fallback
     const ipHits: Record<string, { count: number, resetTime: number }> = {};
@@ -2,6 +2,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { RateLimiterRedis } from 'rate-limiter-flexible';
 import Redis from 'ioredis';
+import { config } from '../config';
 
 interface RateLimitOptions {
   windowMs: number;
@@ -10,11 +11,11 @@ interface RateLimitOptions {
 }
 
 export const rateLimit = (options: RateLimitOptions) => {
-  const redisUrl = process.env.REDIS_URL;
+  const redisUrl = config.cache.driver === 'redis' ? config.redis.url : undefined;
   const keyPrefix = options.keyPrefix || 'rate_limit';
   
   if (!redisUrl) {
-    console.warn('REDIS_URL is not defined. Using memory rate limiter instead.');
+    console.warn('Redis is not configured. Using memory rate limiter instead.');
     
     // Simple in-memory rate limiting as fallback
     const ipHits: Record<string, { count: number, resetTime: number }> = {};
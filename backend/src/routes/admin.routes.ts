@@ -0,0 +1,25 @@
+// backend/src/routes/admin.routes.ts
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { getServices } from '../services';
+import { Logger } from '../services/logger';
+import { authenticateToken, requireAdmin } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Initialize services
+const logger = new Logger();
+const { connectorConfigService, searchCache } = getServices();
+
+// Initialize controller
+const adminController = new AdminController(connectorConfigService, searchCache, logger);
+
+// Protect all routes
+router.use(authenticateToken, requireAdmin);
+
+// Routes
+router.get('/databases', adminController.getDatabases);
+router.post('/databases/reload', adminController.reloadDatabases);
+router.delete('/search-cache', adminController.clearSearchCache);
+
+export default router;
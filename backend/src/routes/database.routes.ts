@@ -0,0 +1,23 @@
+// backend/src/routes/database.routes.ts
+import { Router } from 'express';
+import { DatabaseController } from '../controllers/database.controller';
+import { getServices } from '../services';
+import { Logger } from '../services/logger';
+import { authenticateToken } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Initialize services
+const logger = new Logger();
+const { databaseRegistry } = getServices();
+
+// Initialize controller
+const databaseController = new DatabaseController(databaseRegistry, logger);
+
+// Protect all routes
+router.use(authenticateToken);
+
+// Routes
+router.get('/', databaseController.listDatabases);
+
+export default router;
@@ -0,0 +1,27 @@
+// backend/src/routes/record.routes.ts
+import { Router } from 'express';
+import { RecordController } from '../controllers/record.controller';
+import { getServices } from '../services';
+import { Logger } from '../services/logger';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { searchRateLimiter } from '@/middleware/extended-rate-limit.middleware';
+
+const router = Router();
+
+// Initialize services
+const logger = new Logger();
+const { searchService, citationGraphService } = getServices();
+
+// Initialize controller
+const recordController = new RecordController(searchService, citationGraphService, logger);
+
+// Protect all routes
+router.use(authenticateToken);
+
+// Routes; ids containing slashes (DOIs) must be URL-encoded
+router.get('/:databaseId/:id', searchRateLimiter, recordController.getRecord);
+router.get('/:databaseId/:id/references', searchRateLimiter, recordController.getReferences);
+router.get('/:databaseId/:id/citations', searchRateLimiter, recordController.getCitations);
+router.get('/:databaseId/:id/similar', searchRateLimiter, recordController.getSimilar);
+
+export default router;
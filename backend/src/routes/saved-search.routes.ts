@@ -3,9 +3,10 @@ import { Router } from 'express';
 import { SavedSearchController } from '../controllers/saved-search.controller';
 import { SavedSearchService } from '../services/search/saved-search.service';
 import { DatabaseService } from '../services/database/database.service';
-import { SearchService } from '../services/search/search.service';
-import { CacheService } from '../services/cache';
-import { SearchCacheService } from '../services/search/search.cache.service';
+import { getServices } from '../services';
+import { SavedSearchAlertService } from '../services/search/saved-search-alert.service';
+import { UserPreferencesService } from '../services/user/preferences.service';
+import { EmailService } from '../services/email/email.service';
 import { Logger } from '../services/logger';
 import { AuditLogService } from '../services/audit/audit-log.service';
 import { authenticateToken } from '../middleware/auth.middleware';
@@ -23,18 +24,7 @@ const dbConfig = {
 // Initialize services
 const logger = new Logger();
 const databaseService = DatabaseService.getInstance(dbConfig, logger);
-const cacheService = new CacheService(process.env.REDIS_URL || 'redis://localhost:6379');
-const searchCacheService = new SearchCacheService(cacheService, logger);
-
-// Initialize search service
-const searchService = new SearchService(
-  logger,
-  cacheService,
-  searchCacheService,
-  {
-    PUBMED_API_KEY: process.env.PUBMED_API_KEY
-  }
-);
+const { searchService } = getServices();
 
 // Initialize AuditLogService
 const auditLogService = new AuditLogService(databaseService, logger);
@@ -47,6 +37,15 @@ const savedSearchService = new SavedSearchService(
   auditLogService
 );
 
+// Alerts re-run saved searches in the background; started from the server entry point
+export const savedSearchAlertService = new SavedSearchAlertService(
+  databaseService,
+  searchService,
+  new UserPreferencesService(databaseService, logger),
+  new EmailService(),
+  logger
+);
+
 // Now correctly initialize the controller with just what it needs
 const savedSearchController = new SavedSearchController(
   savedSearchService,
@@ -63,5 +62,7 @@ router.get('/:id', savedSearchController.findOne);
 router.put('/:id', savedSearchController.update);
 router.delete('/:id', savedSearchController.delete);
 router.post('/:id/execute', savedSearchController.execute);
+router.get('/:id/new-results', savedSearchController.getNewResults);
+router.post('/:id/new-results/seen', savedSearchController.markResultsSeen);
 
 export default router;
\ No newline at end of file
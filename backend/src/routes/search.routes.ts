@@ -1,10 +1,10 @@
 // backend/src/routes/search.routes.ts
 import { Router } from 'express';
 import { SearchController } from '../controllers/search.controller';
-import { SearchService } from '../services/search/search.service';
-import { SearchCacheService } from '../services/search/search.cache.service';
+import { SearchExportService } from '../services/search/export.service';
+import { UserPreferencesService } from '../services/user/preferences.service';
 import { DatabaseService } from '../services/database/database.service';
-import { CacheService } from '../services/cache';
+import { getServices } from '../services';
 import { Logger } from '../services/logger';
 import { authenticateToken } from '../middleware/auth.middleware';
 import { rateLimit } from '../middleware/rate-limit.middleware';
@@ -25,17 +25,10 @@ const dbConfig = {
 // Initialize services
 const logger = new Logger();
 const databaseService = DatabaseService.getInstance(dbConfig, logger);
-const cacheService = new CacheService(process.env.REDIS_URL || 'redis://localhost:6379');
-const searchCache = new SearchCacheService(cacheService, logger);
-const searchService = new SearchService(
-  logger,
-  cacheService,
-  searchCache,
-  {
-    PUBMED_API_KEY: process.env.PUBMED_API_KEY
-  }
-);
-const searchController = new SearchController(searchService, logger);
+const { searchService } = getServices();
+const preferencesService = new UserPreferencesService(databaseService, logger);
+const exportService = new SearchExportService(logger);
+const searchController = new SearchController(searchService, preferencesService, exportService, logger);
 
 // Apply rate limiting to search endpoint
 const searchRateLimit = rateLimit({
@@ -48,5 +41,8 @@ router.use(authenticateToken);
 
 // Routes
 router.get('/search', searchRateLimiter, searchController.search);
+router.get('/search/stream', searchRateLimiter, searchController.searchStream);
+router.post('/search/translate', searchRateLimiter, searchController.translate);
+router.post('/search/export', searchRateLimiter, searchController.exportResults);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,16 @@
+// backend/src/services/cache/cache.factory.ts
+import { Config } from '../../config/types';
+import { ICache } from './types';
+import { CacheService } from './cache.service';
+import { MemoryCacheService } from './memory-cache.service';
+
+/**
+ * Create the cache backend selected by config: Redis when configured, otherwise an in-process LRU
+ */
+export function createCache(config: Config): ICache {
+  if (config.cache.driver === 'redis') {
+    return new CacheService(config.redis.url);
+  }
+
+  return new MemoryCacheService({ maxEntries: config.cache.maxEntries });
+}
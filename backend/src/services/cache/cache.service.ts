@@ -1,25 +1,29 @@
 // backend/src/services/cache/cache.service.ts
 import Redis from 'ioredis';
-import { CacheService1, CacheOptions } from './types';
+import { ICache, CacheOptions, CacheEntry } from './types';
 
 
-
-export interface ICache {
-  get<T>(key: string): Promise<T | null>;
-  set<T>(key: string, value: T, options?: CacheOptions): Promise<void>;
-  delete(key: string): Promise<void>;
-  exists(key: string): Promise<boolean>;
+interface WrappedValue<T> {
+  data: T;
+  expires: number;
 }
 
 export class CacheService implements ICache {
   private readonly redis: Redis;
   private readonly defaultTTL = 3600; // 1 hour default TTL
+  private readonly defaultStaleTTL = 86400; // Serve stale data for up to a day while revalidating
+  private readonly revalidateLockTTL = 30;
 
   constructor(redisUrl: string) {
     this.redis = new Redis(redisUrl);
   }
 
   async get<T>(key: string, options: CacheOptions = {}): Promise<T | null> {
+    const entry = await this.getEntry<T>(key, options);
+    return entry ? entry.value : null;
+  }
+
+  async getEntry<T>(key: string, options: CacheOptions = {}): Promise<CacheEntry<T> | null> {
     const value = await this.redis.get(key);
     if (!value) return null;
     
@@ -27,28 +31,44 @@ export class CacheService implements ICache {
       const parsed = JSON.parse(value);
       
       // Check if we have the wrapped format with expiration
-      if (parsed.data && parsed.expires) {
-        // If stale-while-revalidate is enabled and data is expired
-        if (options.staleWhileRevalidate && parsed.expires < Date.now()) {
-          // Return stale data but trigger background refresh
-          setTimeout(() => this.redis.publish('cache:refresh', key), 0);
-          return parsed.data as T;
+      if (this.isWrapped<T>(parsed)) {
+        if (parsed.expires >= Date.now()) {
+          return { value: parsed.data, stale: false, expiresAt: parsed.expires };
+        }
+
+        // Expired data is only served when the caller accepts stale values
+        if (!options.staleWhileRevalidate) {
+          return null;
         }
-        
-        return parsed.data as T;
+
+        // Return stale data but trigger background refresh
+        this.triggerRevalidation(key, options);
+        return { value: parsed.data, stale: true, expiresAt: parsed.expires };
       }
       
       // Fallback for older cache format
-      return parsed as T;
+      return { value: parsed as T, stale: false };
     } catch {
       return null;
     }
   }
 
   async set<T>(key: string, value: T, options: CacheOptions = {}): Promise<void> {
-    const serializedValue = JSON.stringify(value);
     const ttl = options.ttl ?? this.defaultTTL;
 
+    // Stale-while-revalidate entries carry their own expiry and outlive it in Redis
+    if (options.staleWhileRevalidate && ttl > 0) {
+      const wrapped: WrappedValue<T> = {
+        data: value,
+        expires: Date.now() + ttl * 1000
+      };
+      const staleTtl = options.staleTtl ?? this.defaultStaleTTL;
+      await this.redis.setex(key, ttl + staleTtl, JSON.stringify(wrapped));
+      return;
+    }
+
+    const serializedValue = JSON.stringify(value);
+
     if (ttl > 0) {
       await this.redis.setex(key, ttl, serializedValue);
     } else {
@@ -60,8 +80,71 @@ export class CacheService implements ICache {
     await this.redis.del(key);
   }
 
+  async deleteMany(keys: string[]): Promise<void> {
+    if (!keys.length) return;
+    await this.redis.del(...keys);
+  }
+
+  async deletePattern(pattern: string): Promise<number> {
+    let cursor = '0';
+    let deleted = 0;
+
+    // SCAN rather than KEYS so large keyspaces don't block Redis
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+      cursor = next;
+      if (keys.length) {
+        deleted += await this.redis.del(...keys);
+      }
+    } while (cursor !== '0');
+
+    return deleted;
+  }
+
   async exists(key: string): Promise<boolean> {
     const result = await this.redis.exists(key);
     return result === 1;
   }
-}
\ No newline at end of file
+
+  async addToSet(key: string, members: string[], ttl?: number): Promise<void> {
+    if (!members.length) return;
+
+    const pipeline = this.redis.pipeline().sadd(key, ...members);
+    if (ttl && ttl > 0) {
+      pipeline.expire(key, ttl);
+    }
+    await pipeline.exec();
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    return this.redis.smembers(key);
+  }
+
+  private isWrapped<T>(value: unknown): value is WrappedValue<T> {
+    return typeof value === 'object'
+      && value !== null
+      && 'data' in value
+      && typeof (value as WrappedValue<T>).expires === 'number';
+  }
+
+  /**
+   * Run the caller's revalidation once across processes, guarded by a short-lived lock
+   */
+  private triggerRevalidation(key: string, options: CacheOptions): void {
+    const revalidate = options.revalidate;
+    if (!revalidate) return;
+
+    const lockKey = `${key}:revalidating`;
+    setTimeout(async () => {
+      try {
+        const acquired = await this.redis.set(lockKey, '1', 'EX', this.revalidateLockTTL, 'NX');
+        if (acquired) {
+          await revalidate();
+          await this.redis.del(lockKey);
+        }
+      } catch {
+        // Revalidation is best effort; the stale entry stays until it expires
+      }
+    }, 0);
+  }
+}
@@ -1,4 +1,6 @@
 // backend/src/services/cache/index.ts
 export * from './types';
 export * from './cache.service';
-export { CacheService } from './cache.service';
\ No newline at end of file
+export * from './memory-cache.service';
+export * from './cache.factory';
+export { CacheService } from './cache.service';
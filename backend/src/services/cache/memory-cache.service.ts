@@ -0,0 +1,192 @@
+// backend/src/services/cache/memory-cache.service.ts
+import { ICache, CacheOptions, CacheEntry } from './types';
+
+interface MemoryEntry {
+  value: unknown;
+  members?: Set<string>;
+  expiresAt?: number;  // When the entry stops being fresh
+  evictAt?: number;  // When the entry is dropped entirely (after any stale window)
+}
+
+export interface MemoryCacheOptions {
+  maxEntries?: number;
+}
+
+/**
+ * In-process LRU cache for running without Redis (dev, tests, single instance deployments).
+ * Entries are held by reference, so values are cloned on the way in and out.
+ */
+export class MemoryCacheService implements ICache {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly revalidating = new Set<string>();
+  private readonly maxEntries: number;
+  private readonly defaultTTL = 3600; // 1 hour default TTL
+  private readonly defaultStaleTTL = 86400; // Serve stale data for up to a day while revalidating
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+  }
+
+  async get<T>(key: string, options: CacheOptions = {}): Promise<T | null> {
+    const entry = await this.getEntry<T>(key, options);
+    return entry ? entry.value : null;
+  }
+
+  async getEntry<T>(key: string, options: CacheOptions = {}): Promise<CacheEntry<T> | null> {
+    const entry = this.touch(key);
+    if (!entry || entry.members) return null;
+
+    const value = this.clone(entry.value) as T;
+    if (entry.expiresAt === undefined || entry.expiresAt >= Date.now()) {
+      return { value, stale: false, expiresAt: entry.expiresAt };
+    }
+
+    // Expired data is only served when the caller accepts stale values
+    if (!options.staleWhileRevalidate) {
+      return null;
+    }
+
+    this.triggerRevalidation(key, options);
+    return { value, stale: true, expiresAt: entry.expiresAt };
+  }
+
+  async set<T>(key: string, value: T, options: CacheOptions = {}): Promise<void> {
+    const ttl = options.ttl ?? this.defaultTTL;
+    const now = Date.now();
+    const entry: MemoryEntry = { value: this.clone(value) };
+
+    if (ttl > 0) {
+      entry.expiresAt = now + ttl * 1000;
+      // Stale-while-revalidate entries outlive their expiry, matching the Redis implementation
+      const staleTtl = options.staleWhileRevalidate ? options.staleTtl ?? this.defaultStaleTTL : 0;
+      entry.evictAt = entry.expiresAt + staleTtl * 1000;
+    }
+
+    this.store(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async deleteMany(keys: string[]): Promise<void> {
+    keys.forEach(key => this.entries.delete(key));
+  }
+
+  async deletePattern(pattern: string): Promise<number> {
+    const matcher = this.compilePattern(pattern);
+    let deleted = 0;
+
+    Array.from(this.entries.keys()).forEach(key => {
+      if (matcher.test(key) && this.entries.delete(key)) {
+        deleted++;
+      }
+    });
+
+    return deleted;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.touch(key) !== undefined;
+  }
+
+  async addToSet(key: string, members: string[], ttl?: number): Promise<void> {
+    if (!members.length) return;
+
+    const existing = this.touch(key);
+    const set = existing?.members || new Set<string>();
+    members.forEach(member => set.add(member));
+
+    const entry: MemoryEntry = { value: null, members: set, evictAt: existing?.evictAt };
+    if (ttl && ttl > 0) {
+      entry.evictAt = Date.now() + ttl * 1000;
+    }
+
+    this.store(key, entry);
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    const entry = this.touch(key);
+    return entry?.members ? Array.from(entry.members) : [];
+  }
+
+  /**
+   * Look up a live entry and mark it as most recently used
+   */
+  private touch(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.evictAt !== undefined && entry.evictAt < Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Map preserves insertion order, so re-inserting moves the key to the young end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  private store(key: string, entry: MemoryEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+  }
+
+  /**
+   * Drop expired entries first, then the least recently used ones, until within bounds
+   */
+  private evict(): void {
+    if (this.entries.size <= this.maxEntries) return;
+
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.evictAt !== undefined && entry.evictAt < now) {
+        this.entries.delete(key);
+      }
+    });
+
+    const keys = this.entries.keys();
+    while (this.entries.size > this.maxEntries) {
+      const oldest = keys.next();
+      if (oldest.done) break;
+      this.entries.delete(oldest.value);
+    }
+  }
+
+  private compilePattern(pattern: string): RegExp {
+    const source = pattern
+      .split('')
+      .map(char => {
+        if (char === '*') return '.*';
+        if (char === '?') return '.';
+        return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+
+  private clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+  }
+
+  /**
+   * Run the caller's revalidation at most once at a time per key
+   */
+  private triggerRevalidation(key: string, options: CacheOptions): void {
+    const revalidate = options.revalidate;
+    if (!revalidate || this.revalidating.has(key)) return;
+
+    this.revalidating.add(key);
+    setTimeout(async () => {
+      try {
+        await revalidate();
+      } catch {
+        // Revalidation is best effort; the stale entry stays until it expires
+      } finally {
+        this.revalidating.delete(key);
+      }
+    }, 0);
+  }
+}
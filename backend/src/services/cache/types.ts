@@ -2,6 +2,29 @@
 export interface CacheOptions {
     ttl?: number;  // Time to live in seconds
     staleWhileRevalidate?: boolean;
+    staleTtl?: number;  // How long past `ttl` stale data may still be served, in seconds
+    revalidate?: () => Promise<void>;  // Runs in the background when stale data is served
+  }
+
+  export interface CacheEntry<T> {
+    value: T;
+    stale: boolean;
+    expiresAt?: number;
+  }
+  
+  /**
+   * Storage-agnostic cache used by services; backed by Redis or an in-process LRU
+   */
+  export interface ICache {
+    get<T>(key: string, options?: CacheOptions): Promise<T | null>;
+    getEntry<T>(key: string, options?: CacheOptions): Promise<CacheEntry<T> | null>;
+    set<T>(key: string, value: T, options?: CacheOptions): Promise<void>;
+    delete(key: string): Promise<void>;
+    deleteMany(keys: string[]): Promise<void>;
+    deletePattern(pattern: string): Promise<number>;  // Redis-style glob, e.g. `search:*`
+    exists(key: string): Promise<boolean>;
+    addToSet(key: string, members: string[], ttl?: number): Promise<void>;
+    getSetMembers(key: string): Promise<string[]>;
   }
   
   export interface CacheService1 {
@@ -1,4 +1,13 @@
 // backend/src/services/email/email.service.ts
+import { SearchResult } from '@thinkleap/shared/types/search';
+
+export interface SavedSearchDigestEntry {
+    savedSearchId: string;
+    name: string;
+    query: string;
+    newResults: SearchResult[];
+}
+
 export class EmailService {
     async sendVerificationEmail(email: string, token: string): Promise<void> {
         // For now, just log the email details
@@ -23,4 +32,16 @@ export class EmailService {
       
       return Promise.resolve();
     }
+
+    async sendSavedSearchDigest(email: string, entries: SavedSearchDigestEntry[]): Promise<void> {
+      const total = entries.reduce((sum, entry) => sum + entry.newResults.length, 0);
+      console.log('Saved search digest would be sent to:', email);
+      console.log(`With ${total} new results across ${entries.length} saved searches:`);
+      entries.forEach(entry => {
+        console.log(`  ${entry.name} (${entry.query}): ${entry.newResults.length} new`);
+        entry.newResults.slice(0, 5).forEach(result => console.log(`    - ${result.title}`));
+      });
+
+      return Promise.resolve();
+    }
   }
\ No newline at end of file
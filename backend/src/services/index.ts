@@ -1,13 +1,25 @@
 // backend/src/services/index.ts
 import { config } from '../config';
 import { Logger } from './logger';
-import { CacheService } from './cache';
+import { ICache, createCache } from './cache';
+import { createOutboundRateLimiter } from './rate-limit';
 import { DatabaseService } from './database/database.service';
+import { DatabaseRegistry } from './search/databases/registry';
+import { createConnectorFactories } from './search/databases/connector.factory';
+import { ConnectorConfigService } from './search/databases/connector-config.service';
+import { SearchCacheService } from './search/search.cache.service';
+import { SearchService } from './search/search.service';
+import { CitationGraphService } from './search/citation-graph.service';
 
 // Services singleton
 let databaseService: DatabaseService | null = null;
-let cacheService: CacheService | null = null;
+let cacheService: ICache | null = null;
 let logger: Logger | null = null;
+let databaseRegistry: DatabaseRegistry | null = null;
+let connectorConfigService: ConnectorConfigService | null = null;
+let searchCache: SearchCacheService | null = null;
+let searchService: SearchService | null = null;
+let citationGraphService: CitationGraphService | null = null;
 
 // Format the database config
 const dbConfig = {
@@ -21,19 +33,65 @@ const dbConfig = {
 // Initialize services
 export function initServices() {
   logger = new Logger();
-  cacheService = new CacheService(config.redis.url);
+  cacheService = createCache(config);
   databaseService = DatabaseService.getInstance(dbConfig, logger);
+
+  // One registry backs every search; the admin reload endpoint repopulates it in place
+  databaseRegistry = new DatabaseRegistry(logger, config.connectors.circuitBreaker);
+  connectorConfigService = new ConnectorConfigService(
+    databaseRegistry,
+    createConnectorFactories(),
+    { configPath: config.connectors.configPath, env: config.env },
+    { logger, cacheService, rateLimiter: createOutboundRateLimiter(config) }
+  );
+  connectorConfigService.load();
+
+  searchCache = new SearchCacheService(cacheService, logger);
+  searchService = new SearchService(
+    logger,
+    cacheService,
+    searchCache,
+    databaseRegistry
+  );
+  citationGraphService = new CitationGraphService(logger, searchCache, databaseRegistry);
   
-  return { logger, cacheService, databaseService };
+  return {
+    logger,
+    cacheService,
+    databaseService,
+    databaseRegistry,
+    connectorConfigService,
+    searchCache,
+    searchService,
+    citationGraphService
+  };
 }
 
 // Get initialized services
 export function getServices() {
-  if (!databaseService || !cacheService || !logger) {
+  if (
+    !databaseService ||
+    !cacheService ||
+    !logger ||
+    !databaseRegistry ||
+    !connectorConfigService ||
+    !searchCache ||
+    !searchService ||
+    !citationGraphService
+  ) {
     return initServices();
   }
   
-  return { logger, cacheService, databaseService };
+  return {
+    logger,
+    cacheService,
+    databaseService,
+    databaseRegistry,
+    connectorConfigService,
+    searchCache,
+    searchService,
+    citationGraphService
+  };
 }
 
 // Clean up services
@@ -41,4 +99,4 @@ export async function cleanupServices() {
   if (databaseService) {
     await databaseService.disconnect();
   }
-}
\ No newline at end of file
+}
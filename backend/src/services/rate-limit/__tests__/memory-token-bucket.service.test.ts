@@ -0,0 +1,61 @@
+// backend/src/services/rate-limit/__tests__/memory-token-bucket.service.test.ts
+import { MemoryTokenBucketService } from '../memory-token-bucket.service';
+
+describe('MemoryTokenBucketService', () => {
+  const options = { requestsPerSecond: 2, burstLimit: 2 };
+  let now: number;
+  let limiter: MemoryTokenBucketService;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    limiter = new MemoryTokenBucketService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets a burst through, then queues requests at the refill rate', async () => {
+    expect(await limiter.reserve('pubmed', options)).toBe(0);
+    expect(await limiter.reserve('pubmed', options)).toBe(0);
+    expect(await limiter.reserve('pubmed', options)).toBe(500);
+    expect(await limiter.reserve('pubmed', options)).toBe(1000);
+  });
+
+  it('refills over time, up to the burst limit', async () => {
+    await limiter.reserve('pubmed', options);
+    await limiter.reserve('pubmed', options);
+
+    now += 500;
+    expect(await limiter.reserve('pubmed', options)).toBe(0);
+
+    now += 60_000;
+    expect(await limiter.reserve('pubmed', options)).toBe(0);
+    expect(await limiter.reserve('pubmed', options)).toBe(0);
+    expect(await limiter.reserve('pubmed', options)).toBe(500);
+  });
+
+  it('keeps a bucket per key', async () => {
+    await limiter.reserve('pubmed', options);
+    await limiter.reserve('pubmed', options);
+
+    expect(await limiter.reserve('crossref', options)).toBe(0);
+  });
+
+  it('holds every request back while paused', async () => {
+    await limiter.pause('pubmed', 3000);
+
+    expect(await limiter.reserve('pubmed', options)).toBe(3500);
+
+    now += 3000;
+    expect(await limiter.reserve('pubmed', options)).toBe(1000);
+  });
+
+  it('does not shorten a longer pause', async () => {
+    await limiter.pause('pubmed', 5000);
+    await limiter.pause('pubmed', 1000);
+
+    expect(await limiter.reserve('pubmed', options)).toBe(5500);
+  });
+});
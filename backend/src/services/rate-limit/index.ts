@@ -0,0 +1,5 @@
+// backend/src/services/rate-limit/index.ts
+export * from './types';
+export * from './redis-token-bucket.service';
+export * from './memory-token-bucket.service';
+export * from './rate-limiter.factory';
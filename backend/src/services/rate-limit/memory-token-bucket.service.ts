@@ -0,0 +1,40 @@
+// backend/src/services/rate-limit/memory-token-bucket.service.ts
+import { IOutboundRateLimiter, TokenBucketOptions } from './types';
+
+interface BucketState {
+  tokens: number;  // Negative while requests are queued
+  refillFrom: number;  // Refill starts here; in the future while paused
+}
+
+/**
+ * Token bucket kept in process, for running without Redis. Limits are per process.
+ */
+export class MemoryTokenBucketService implements IOutboundRateLimiter {
+  private readonly buckets = new Map<string, BucketState>();
+
+  async reserve(key: string, options: TokenBucketOptions): Promise<number> {
+    const now = Date.now();
+    const rate = options.requestsPerSecond / 1000;
+    const bucket = this.buckets.get(key) || { tokens: options.burstLimit, refillFrom: now };
+
+    if (now > bucket.refillFrom) {
+      bucket.tokens = Math.min(options.burstLimit, bucket.tokens + (now - bucket.refillFrom) * rate);
+      bucket.refillFrom = now;
+    }
+
+    bucket.tokens -= 1;
+    this.buckets.set(key, bucket);
+
+    const wait = bucket.refillFrom - now;
+    return bucket.tokens < 0 ? wait + Math.ceil(-bucket.tokens / rate) : wait;
+  }
+
+  async pause(key: string, delayMs: number): Promise<void> {
+    const resumeAt = Date.now() + delayMs;
+    const bucket = this.buckets.get(key);
+
+    if (!bucket || resumeAt > bucket.refillFrom) {
+      this.buckets.set(key, { tokens: 0, refillFrom: resumeAt });
+    }
+  }
+}
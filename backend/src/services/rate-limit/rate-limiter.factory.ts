@@ -0,0 +1,16 @@
+// backend/src/services/rate-limit/rate-limiter.factory.ts
+import { Config } from '../../config/types';
+import { IOutboundRateLimiter } from './types';
+import { RedisTokenBucketService } from './redis-token-bucket.service';
+import { MemoryTokenBucketService } from './memory-token-bucket.service';
+
+/**
+ * Share outbound limits through Redis when it is the configured cache, otherwise limit per process
+ */
+export function createOutboundRateLimiter(config: Config): IOutboundRateLimiter {
+  if (config.cache.driver === 'redis') {
+    return new RedisTokenBucketService(config.redis.url);
+  }
+
+  return new MemoryTokenBucketService();
+}
@@ -0,0 +1,69 @@
+// backend/src/services/rate-limit/redis-token-bucket.service.ts
+import Redis from 'ioredis';
+import { IOutboundRateLimiter, TokenBucketOptions } from './types';
+
+// Keep idle buckets around long enough to remember a recent burst
+const IDLE_TTL_MS = 60000;
+
+// Both scripts use the Redis clock so processes with skewed clocks share one timeline.
+// `refill_from` lies in the future while the bucket is paused.
+const RESERVE_SCRIPT = `
+local rate = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'refill_from')
+local tokens = tonumber(state[1]) or burst
+local refill_from = tonumber(state[2]) or now
+if now > refill_from then
+  tokens = math.min(burst, tokens + (now - refill_from) * rate)
+  refill_from = now
+end
+tokens = tokens - 1
+local wait = refill_from - now
+if tokens < 0 then
+  wait = wait + math.ceil(-tokens / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'refill_from', tostring(refill_from))
+redis.call('PEXPIRE', KEYS[1], wait + tonumber(ARGV[3]))
+return wait
+`;
+
+const PAUSE_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local resume_at = now + tonumber(ARGV[1])
+local refill_from = tonumber(redis.call('HGET', KEYS[1], 'refill_from')) or 0
+if resume_at > refill_from then
+  redis.call('HSET', KEYS[1], 'tokens', '0', 'refill_from', tostring(resume_at))
+  redis.call('PEXPIRE', KEYS[1], tonumber(ARGV[1]) + tonumber(ARGV[2]))
+end
+return 0
+`;
+
+/**
+ * Token bucket stored in Redis, so every backend process draws from the same budget
+ */
+export class RedisTokenBucketService implements IOutboundRateLimiter {
+  private readonly redis: Redis;
+
+  constructor(redisUrl: string, private readonly keyPrefix = 'ratelimit:outbound:') {
+    this.redis = new Redis(redisUrl);
+  }
+
+  async reserve(key: string, options: TokenBucketOptions): Promise<number> {
+    const wait = await this.redis.eval(
+      RESERVE_SCRIPT,
+      1,
+      this.keyPrefix + key,
+      options.requestsPerSecond / 1000,
+      options.burstLimit,
+      IDLE_TTL_MS
+    );
+    return Number(wait) || 0;
+  }
+
+  async pause(key: string, delayMs: number): Promise<void> {
+    await this.redis.eval(PAUSE_SCRIPT, 1, this.keyPrefix + key, Math.ceil(delayMs), IDLE_TTL_MS);
+  }
+}
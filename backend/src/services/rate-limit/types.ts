@@ -0,0 +1,22 @@
+// backend/src/services/rate-limit/types.ts
+
+export interface TokenBucketOptions {
+  requestsPerSecond: number;  // Refill rate
+  burstLimit: number;  // Bucket size
+}
+
+/**
+ * Outbound request limiter. Callers reserve a slot and wait for it instead of being rejected,
+ * so requests queue up behind each other at the configured rate.
+ */
+export interface IOutboundRateLimiter {
+  /**
+   * Take one token from the bucket, returning how long (ms) to wait before sending the request
+   */
+  reserve(key: string, options: TokenBucketOptions): Promise<number>;
+
+  /**
+   * Hold back every request on `key` for `delayMs`, e.g. when upstream answered 429 with Retry-After
+   */
+  pause(key: string, delayMs: number): Promise<void>;
+}
@@ -0,0 +1,111 @@
+// backend/src/services/search/__tests__/deduplication.service.test.ts
+import { SearchResult } from '@thinkleap/shared/types/search';
+import { Logger } from '../../logger';
+import { SearchDeduplicationService } from '../deduplication.service';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+const result = (id: string, databaseId: string, overrides: Partial<SearchResult> = {}): SearchResult => ({
+  id,
+  databaseId,
+  title: 'CRISPR screens identify regulators of T cell exhaustion',
+  authors: [{ name: 'Jane Smith' }, { name: 'Wei Chen' }],
+  publicationDate: new Date('2021-03-04'),
+  metadata: {},
+  ...overrides
+});
+
+describe('SearchDeduplicationService', () => {
+  const deduplicator = new SearchDeduplicationService(logger);
+
+  it('merges records sharing a DOI regardless of how it is written', () => {
+    const { results, duplicatesRemoved } = deduplicator.deduplicate([
+      result('1', 'pubmed', { doi: '10.1000/ABC', title: 'One title' }),
+      result('W1', 'openalex', { doi: 'https://doi.org/10.1000/abc', title: 'Another title' })
+    ]);
+
+    expect(duplicatesRemoved).toBe(1);
+    expect(results[0].sources).toEqual([
+      { databaseId: 'pubmed', id: '1' },
+      { databaseId: 'openalex', id: 'W1' }
+    ]);
+  });
+
+  it('merges records by PMID and by arXiv id without version', () => {
+    const { duplicatesRemoved } = deduplicator.deduplicate([
+      result('123', 'pubmed', { title: 'A' }),
+      result('PMC9', 'europe-pmc', { title: 'B', metadata: { pmid: '123' } }),
+      result('2101.00001v2', 'arxiv', { title: 'C', metadata: { arxivId: '2101.00001v2' } }),
+      result('S2', 'semantic-scholar', { title: 'D', metadata: { arxivId: '2101.00001' } })
+    ]);
+
+    expect(duplicatesRemoved).toBe(2);
+  });
+
+  it('merges near-identical titles by the same first author', () => {
+    const { duplicatesRemoved } = deduplicator.deduplicate([
+      result('1', 'pubmed'),
+      result('2', 'crossref', {
+        title: 'CRISPR screens identify regulators of T-cell exhaustion.',
+        authors: [{ name: 'Smith, Jane' }]
+      })
+    ]);
+
+    expect(duplicatesRemoved).toBe(1);
+  });
+
+  it('keeps similar titles by different first authors apart', () => {
+    const { duplicatesRemoved } = deduplicator.deduplicate([
+      result('1', 'pubmed'),
+      result('2', 'crossref', { authors: [{ name: 'Maria Garcia' }] })
+    ]);
+
+    expect(duplicatesRemoved).toBe(0);
+  });
+
+  it('matches titles dated up to a year apart, but not further', () => {
+    const online = result('1', 'pubmed', { publicationDate: new Date('2020-12-15') });
+
+    expect(deduplicator.deduplicate([online, result('2', 'crossref', { publicationDate: new Date('2021-01-01') })])
+      .duplicatesRemoved).toBe(1);
+    expect(deduplicator.deduplicate([online, result('2', 'crossref', { publicationDate: new Date('2022-01-01') })])
+      .duplicatesRemoved).toBe(0);
+  });
+
+  it('reads years in UTC', () => {
+    // Midnight UTC on 1 January is still the previous year in the zone the tests run in
+    const newYear = result('1', 'pubmed', { publicationDate: new Date('2021-01-01T00:00:00Z') });
+    const older = result('2', 'crossref', { publicationDate: new Date('2019-06-01T00:00:00Z') });
+
+    expect(deduplicator.deduplicate([newYear, older]).duplicatesRemoved).toBe(0);
+  });
+
+  it('builds the merged record from the most complete one and fills gaps from the rest', () => {
+    const sparse = result('1', 'crossref', {
+      doi: '10.1000/abc',
+      citationCount: 40,
+      keywords: ['exhaustion']
+    });
+    const complete = result('2', 'pubmed', {
+      doi: '10.1000/abc',
+      abstract: 'We ran genome-wide screens.',
+      journal: { name: 'Nature' },
+      citationCount: 12,
+      keywords: ['crispr'],
+      metadata: { pmid: '2' }
+    });
+
+    const [merged] = deduplicator.deduplicate([sparse, complete]).results;
+
+    expect(merged.id).toBe('2');
+    expect(merged.abstract).toBe('We ran genome-wide screens.');
+    expect(merged.citationCount).toBe(40);
+    expect(merged.keywords).toEqual(['crispr', 'exhaustion']);
+  });
+
+  it('leaves a single result untouched', () => {
+    const only = result('1', 'pubmed');
+
+    expect(deduplicator.deduplicate([only])).toEqual({ results: [only], duplicatesRemoved: 0 });
+  });
+});
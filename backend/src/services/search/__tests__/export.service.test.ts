@@ -0,0 +1,166 @@
+// backend/src/services/search/__tests__/export.service.test.ts
+import { SearchResult } from '@thinkleap/shared/types/search';
+import { ExportField, ExportFormat } from '@thinkleap/shared/types/export';
+import { Logger } from '../../logger';
+import { SearchExportService } from '../export.service';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+const record: SearchResult = {
+  id: '123',
+  databaseId: 'pubmed',
+  title: 'Costs & benefits of "open" data',
+  authors: [{ name: 'Smith, Jane', affiliation: 'Univ A' }, { name: 'Chen, Wei' }],
+  abstract: 'An abstract.',
+  publicationDate: new Date('2021-03-04'),
+  journal: { name: 'Nature', volume: '12', issue: '3', pages: '100-110', identifier: '0028-0836' },
+  doi: '10.1000/xyz_1',
+  keywords: ['open data', 'costs'],
+  articleType: 'Journal Article',
+  language: 'eng',
+  citationCount: 7,
+  metadata: {},
+  sources: [{ databaseId: 'pubmed', id: '123' }, { databaseId: 'crossref', id: '10.1000/xyz_1' }]
+};
+
+const fields: ExportField[] = ['title', 'authors', 'journal', 'publicationDate', 'doi', 'source'];
+
+describe('SearchExportService', () => {
+  const exporter = new SearchExportService(logger);
+  const exportAs = (format: ExportFormat, results: SearchResult[] = [record]) =>
+    exporter.exportResults(results, { format, fields });
+
+  it('writes CSV with quoting and one column per field', async () => {
+    expect(await exportAs('csv')).toBe(
+      'Title,Authors,Journal,Publication Date,DOI,Source\n' +
+      '"Costs & benefits of ""open"" data","Smith, Jane; Chen, Wei",Nature,2021-03-04,10.1000/xyz_1,pubmed; crossref\n'
+    );
+  });
+
+  it('writes BibTeX with escaped values and a page range', async () => {
+    expect(await exportAs('bibtex')).toBe([
+      '@article{101000xyz12021,',
+      '  title = {Costs \\& benefits of "open" data},',
+      '  author = {Smith, Jane and Chen, Wei},',
+      '  journal = {Nature},',
+      '  volume = {12},',
+      '  number = {3},',
+      '  pages = {100--110},',
+      '  year = {2021},',
+      '  month = {mar},',
+      '  doi = {10.1000/xyz\\_1}',
+      '}',
+      '',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes RIS tags in order, closed by ER', async () => {
+    expect(await exportAs('ris')).toBe([
+      'TY  - JOUR',
+      'AU  - Smith, Jane',
+      'AU  - Chen, Wei',
+      'TI  - Costs & benefits of "open" data',
+      'T2  - Nature',
+      'VL  - 12',
+      'IS  - 3',
+      'SP  - 100',
+      'EP  - 110',
+      'SN  - 0028-0836',
+      'PY  - 2021',
+      'DA  - 2021/03/04',
+      'DO  - 10.1000/xyz_1',
+      'DB  - pubmed; crossref',
+      'ER  - ',
+      '',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes MEDLINE (nbib) records with affiliations under their author', async () => {
+    expect(await exportAs('nbib')).toBe([
+      'PMID- 123',
+      'TI  - Costs & benefits of "open" data',
+      'FAU - Smith, Jane',
+      'AD  - Univ A',
+      'FAU - Chen, Wei',
+      'DP  - 2021 Mar 4',
+      'JT  - Nature',
+      'IS  - 0028-0836',
+      'VI  - 12',
+      'IP  - 3',
+      'PG  - 100-110',
+      'AID - 10.1000/xyz_1 [doi]',
+      'SO  - pubmed; crossref',
+      '',
+      ''
+    ].join('\n'));
+  });
+
+  it('wraps long nbib values onto indented continuation lines', async () => {
+    const output = await exporter.exportResults(
+      [{ ...record, title: 'word '.repeat(40).trim() }],
+      { format: 'nbib', fields: ['title'] }
+    );
+    const lines = output.split('\n');
+
+    expect(lines[1]).toMatch(/^TI {2}- word/);
+    expect(lines[2]).toMatch(/^ {6}word/);
+    expect(lines.every(line => line.length <= 82)).toBe(true);
+  });
+
+  it('writes EndNote XML with escaped text', async () => {
+    const output = await exportAs('endnote');
+
+    expect(output.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<xml><records>\n<record>')).toBe(true);
+    expect(output).toContain('<ref-type name="Journal Article">17</ref-type>');
+    expect(output).toContain('<title>Costs &amp; benefits of &quot;open&quot; data</title>');
+    expect(output).toContain('<dates><year>2021</year><pub-dates><date>2021-03-04</date></pub-dates></dates>');
+    expect(output.endsWith('</record>\n</records></xml>\n')).toBe(true);
+  });
+
+  it('writes CSL-JSON as a parseable array', async () => {
+    const output = JSON.parse(await exportAs('csl-json', [record, { ...record, id: '456', sources: undefined }]));
+
+    expect(output).toHaveLength(2);
+    expect(output[0]).toEqual({
+      id: 'pubmed:123',
+      type: 'article-journal',
+      title: 'Costs & benefits of "open" data',
+      author: [{ literal: 'Smith, Jane' }, { literal: 'Chen, Wei' }],
+      'container-title': 'Nature',
+      volume: '12',
+      issue: '3',
+      page: '100-110',
+      ISSN: '0028-0836',
+      issued: { 'date-parts': [[2021, 3, 4]] },
+      DOI: '10.1000/xyz_1',
+      source: 'pubmed; crossref'
+    });
+    expect(output[1].source).toBe('pubmed');
+  });
+
+  it('maps article types onto each format\'s reference type', async () => {
+    const preprint = { ...record, articleType: 'preprint' };
+
+    expect(await exporter.exportResults([preprint], { format: 'ris', fields: ['title'] })).toMatch(/^TY {2}- UNPB\n/);
+    expect(await exporter.exportResults([preprint], { format: 'bibtex', fields: ['title'] })).toMatch(/^@misc\{/);
+  });
+
+  it('leaves the abstract out unless it is asked for', async () => {
+    expect(await exporter.exportResults([record], { format: 'ris' })).not.toContain('AB  - ');
+    expect(await exporter.exportResults([record], { format: 'ris', includeAbstract: true })).toContain('AB  - An abstract.');
+  });
+
+  it('accepts publication dates that lost their type in the cache', async () => {
+    const cached = { ...record, publicationDate: '2021-03-04T00:00:00.000Z' as unknown as Date };
+
+    expect(await exporter.exportResults([cached], { format: 'ris', fields: ['publicationDate'] })).toContain('PY  - 2021');
+  });
+
+  it('rejects unsupported formats and fields before writing anything', () => {
+    expect(() => exporter.validateOptions({ format: 'docx' as ExportFormat })).toThrow('Unsupported export format: docx');
+    expect(() => exporter.validateOptions({ format: 'csv', fields: ['pages' as ExportField] }))
+      .toThrow('Unsupported export field: pages');
+  });
+});
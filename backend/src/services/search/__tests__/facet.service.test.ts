@@ -0,0 +1,62 @@
+// backend/src/services/search/__tests__/facet.service.test.ts
+import { SearchResult } from '@thinkleap/shared/types/search';
+import { SearchFacetService } from '../facet.service';
+
+const result = (id: string, overrides: Partial<SearchResult> = {}): SearchResult => ({
+  id,
+  databaseId: 'pubmed',
+  title: `Record ${id}`,
+  authors: [],
+  metadata: {},
+  ...overrides
+});
+
+describe('SearchFacetService', () => {
+  const facets = new SearchFacetService();
+
+  it('sums upstream counts when every database reported the field', () => {
+    const built = facets.build(
+      [
+        { results: [], total: 10, fetched: 0, facets: { year: [{ value: '2021', count: 4 }] } },
+        { results: [], total: 5, fetched: 0, facets: { year: [{ value: '2021', count: 2 }, { value: '2020', count: 1 }] } }
+      ],
+      [],
+      { pubmed: 10, crossref: 5 }
+    );
+
+    expect(built.find(facet => facet.field === 'year')).toMatchObject({
+      origin: 'upstream',
+      buckets: [{ value: '2021', count: 6 }, { value: '2020', count: 1 }]
+    });
+    expect(built.find(facet => facet.field === 'database')?.buckets).toEqual([
+      { value: 'pubmed', count: 10 },
+      { value: 'crossref', count: 5 }
+    ]);
+  });
+
+  it('counts the merged records when a database reported no counts', () => {
+    const built = facets.build(
+      [{ results: [], total: 2, fetched: 2 }],
+      [
+        result('1', { journal: { name: 'Cell' } }),
+        result('2', { journal: { name: 'Cell' } })
+      ],
+      { pubmed: 2 }
+    );
+
+    expect(built.find(facet => facet.field === 'journal')).toMatchObject({
+      origin: 'results',
+      buckets: [{ value: 'Cell', count: 2 }]
+    });
+  });
+
+  it('buckets publication years in UTC', () => {
+    const built = facets.build(
+      [{ results: [], total: 1, fetched: 1 }],
+      [result('1', { publicationDate: new Date('2021-01-01') })],
+      { pubmed: 1 }
+    );
+
+    expect(built.find(facet => facet.field === 'year')?.buckets).toEqual([{ value: '2021', count: 1 }]);
+  });
+});
@@ -0,0 +1,110 @@
+// backend/src/services/search/__tests__/pagination.service.test.ts
+import { SearchQuery, SearchResult } from '@thinkleap/shared/types/search';
+import { SearchPaginationService, SourceCursor } from '../pagination.service';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'cancer therapy',
+  pagination: { page: 1, limit: 2 },
+  sortBy: 'relevance',
+  ...overrides
+});
+
+const result = (id: string, databaseId = 'pubmed'): SearchResult => ({
+  id,
+  databaseId,
+  title: `Record ${id}`,
+  authors: [],
+  metadata: {}
+});
+
+describe('SearchPaginationService', () => {
+  const pagination = new SearchPaginationService();
+
+  describe('fingerprint', () => {
+    it('ignores database order and term case', () => {
+      expect(pagination.fingerprint(query({ term: 'Cancer Therapy ' }), ['pubmed', 'crossref']))
+        .toBe(pagination.fingerprint(query(), ['crossref', 'pubmed']));
+    });
+
+    it('changes with the sort order, page size and databases', () => {
+      const base = pagination.fingerprint(query(), ['pubmed']);
+
+      expect(pagination.fingerprint(query({ sortBy: 'date_desc' }), ['pubmed'])).not.toBe(base);
+      expect(pagination.fingerprint(query({ pagination: { page: 1, limit: 5 } }), ['pubmed'])).not.toBe(base);
+      expect(pagination.fingerprint(query(), ['pubmed', 'arxiv'])).not.toBe(base);
+    });
+  });
+
+  describe('encode and decode', () => {
+    it('round-trips a cursor', () => {
+      const cursor = pagination.createCursor('abc', ['pubmed', 'arxiv']);
+      cursor.page = 3;
+
+      expect(pagination.decode(pagination.encode(cursor), 'abc')).toEqual(cursor);
+    });
+
+    it('rejects a cursor from another search', () => {
+      const token = pagination.encode(pagination.createCursor('abc', ['pubmed']));
+
+      expect(() => pagination.decode(token, 'def')).toThrow('Invalid pagination cursor');
+    });
+
+    it('rejects a malformed token', () => {
+      expect(() => pagination.decode('not a cursor', 'abc')).toThrow('Invalid pagination cursor');
+    });
+  });
+
+  describe('planWindow', () => {
+    it('fetches enough to fill the skipped pages, the page and the emitted records', () => {
+      const source: SourceCursor = { offset: 4, emitted: ['5'], state: { webenv: 'x' } };
+
+      expect(pagination.planWindow(source, 2, 2)).toEqual({ offset: 4, limit: 5, state: { webenv: 'x' } });
+    });
+
+    it('refuses windows deeper than the upstream limit', () => {
+      expect(() => pagination.planWindow({ offset: 0, emitted: [] }, 490, 20))
+        .toThrow('Requested page is too deep');
+    });
+  });
+
+  it('excludes records an earlier page emitted', () => {
+    const source: SourceCursor = { offset: 0, emitted: ['2'] };
+
+    expect(pagination.excludeEmitted(source, [result('1'), result('2'), result('3')]).map(r => r.id))
+      .toEqual(['1', '3']);
+  });
+
+  describe('advance', () => {
+    const start: SourceCursor = { offset: 0, emitted: [] };
+
+    it('moves past the emitted prefix and remembers emitted records beyond it', () => {
+      const page = { results: [result('1'), result('2'), result('3'), result('4')], total: 10, fetched: 4 };
+      const next = pagination.advance(start, page, new Set(['pubmed:1', 'pubmed:3']));
+
+      expect(next).toEqual({ offset: 1, emitted: ['3'], total: 10, state: undefined });
+      expect(pagination.hasMore(next)).toBe(true);
+    });
+
+    it('skips the whole window once everything in it was emitted', () => {
+      const page = { results: [result('1'), result('2')], total: 3, fetched: 3 };
+      const next = pagination.advance(start, page, new Set(['pubmed:1', 'pubmed:2']));
+
+      expect(next).toEqual({ offset: 3, emitted: [], total: 3, state: undefined });
+      expect(pagination.hasMore(next)).toBe(false);
+    });
+
+    it('remembers every emitted record when the window was filtered locally', () => {
+      const page = { results: [result('1'), result('2'), result('3')], total: 10, fetched: 5 };
+      const next = pagination.advance(start, page, new Set(['pubmed:1', 'pubmed:3']));
+
+      expect(next).toEqual({ offset: 1, emitted: ['1', '3'], total: 10, state: undefined });
+    });
+
+    it('keeps the connector state unless the page replaces it', () => {
+      const page = { results: [result('1')], total: 5, fetched: 1 };
+
+      expect(pagination.advance({ ...start, state: { key: 'a' } }, page, new Set()).state).toEqual({ key: 'a' });
+      expect(pagination.advance(start, { ...page, state: { key: 'b' } }, new Set()).state).toEqual({ key: 'b' });
+    });
+  });
+});
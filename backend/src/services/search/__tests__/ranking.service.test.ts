@@ -0,0 +1,118 @@
+// backend/src/services/search/__tests__/ranking.service.test.ts
+import { SearchResult } from '@thinkleap/shared/types/search';
+import { SearchRankingService } from '../ranking.service';
+
+const result = (id: string, overrides: Partial<SearchResult> = {}): SearchResult => ({
+  id,
+  databaseId: 'pubmed',
+  title: `Record ${id}`,
+  authors: [],
+  metadata: {},
+  ...overrides
+});
+
+describe('SearchRankingService', () => {
+  const ranking = new SearchRankingService();
+
+  describe('scoreBm25', () => {
+    it('scores title matches above abstract matches', () => {
+      const inTitle = result('1', { title: 'Immunotherapy outcomes', abstract: 'A cohort study' });
+      const inAbstract = result('2', { title: 'A cohort study', abstract: 'Immunotherapy outcomes' });
+      const unrelated = result('3', { title: 'Soil bacteria', abstract: 'Field samples' });
+
+      const scores = ranking.scoreBm25('immunotherapy', [inTitle, inAbstract, unrelated]);
+
+      expect(scores.get(inTitle)).toBeGreaterThan(scores.get(inAbstract)!);
+      expect(scores.get(inAbstract)).toBeGreaterThan(0);
+      expect(scores.get(unrelated)).toBe(0);
+    });
+
+    it('scores the query words, not its operators and field prefixes', () => {
+      const match = result('1', { title: 'Cancer and title screening' });
+
+      expect(ranking.scoreBm25('title:cancer OR cancer[ti]', [match]))
+        .toEqual(ranking.scoreBm25('cancer', [match]));
+    });
+
+    it('does not reward records for words the query excludes', () => {
+      const withMice = result('1', { title: 'Cancer in mice' });
+      const without = result('2', { title: 'Cancer in rats' });
+      const unrelated = result('3', { title: 'Soil bacteria' });
+
+      ['cancer NOT mice', 'cancer -mice', 'cancer AND NOT (mice OR mouse)'].forEach(term => {
+        const scores = ranking.scoreBm25(term, [withMice, without, unrelated]);
+        expect(scores.get(withMice)).toBe(scores.get(without));
+      });
+    });
+  });
+
+  describe('rank', () => {
+    it('breaks ties between upstream rankings with the local BM25 ranking', () => {
+      // Each source ranks its own record first; `b` matches the term better
+      const a = result('a', { title: 'Gene expression' });
+      const b = result('b', { databaseId: 'crossref', title: 'Gene therapy trials' });
+
+      const ranked = ranking.rank('gene therapy', [a, b], [[a], [b]]);
+
+      expect(ranked.map(r => r.id)).toEqual(['b', 'a']);
+    });
+
+    it('ranks records returned upstream above local-only matches', () => {
+      const local = result('a', { title: 'Gene therapy gene therapy' });
+      const upstream = result('b', { title: 'Gene therapy' });
+
+      const ranked = ranking.rank('gene therapy', [local, upstream], [[upstream]]);
+
+      expect(ranked.map(r => r.id)).toEqual(['b', 'a']);
+    });
+
+    it('credits a merged record for every source that returned it', () => {
+      const merged = result('1', {
+        title: 'Protein folding',
+        sources: [{ databaseId: 'pubmed', id: '1' }, { databaseId: 'crossref', id: '10.1/x' }]
+      });
+      const single = result('2', { title: 'Protein folding' });
+
+      const ranked = ranking.rank(
+        'protein folding',
+        [single, merged],
+        [[single, merged], [result('10.1/x', { databaseId: 'crossref' })]]
+      );
+
+      expect(ranked[0]).toBe(merged);
+    });
+
+    it('applies the requested sort order after ranking', () => {
+      const older = result('1', { publicationDate: new Date('2019-05-01'), citationCount: 50 });
+      const newer = result('2', { publicationDate: new Date('2023-05-01'), citationCount: 5 });
+      const undated = result('3');
+
+      expect(ranking.rank('x', [older, newer, undated], [], 'date_desc').map(r => r.id)).toEqual(['2', '1', '3']);
+      expect(ranking.rank('x', [older, newer, undated], [], 'date_asc').map(r => r.id)).toEqual(['3', '1', '2']);
+      expect(ranking.rank('x', [older, newer, undated], [], 'citations').map(r => r.id)).toEqual(['1', '2', '3']);
+    });
+  });
+
+  describe('scoreSimilarity', () => {
+    it('scores records sharing the seed\'s words higher', () => {
+      const seed = result('seed', { title: 'CRISPR gene editing in zebrafish' });
+      const close = result('1', { title: 'Gene editing of zebrafish embryos with CRISPR' });
+      const far = result('2', { title: 'Monetary policy and inflation' });
+
+      const scores = ranking.scoreSimilarity(seed, [close, far]);
+
+      expect(scores.get(close)).toBeGreaterThan(0.3);
+      expect(scores.get(far)).toBe(0);
+    });
+  });
+
+  it('picks the most heavily weighted words as key terms', () => {
+    const record = result('1', {
+      title: 'Malaria vaccines',
+      keywords: ['malaria'],
+      abstract: 'Trials of malaria vaccines in 2020 across Africa'
+    });
+
+    expect(ranking.keyTerms(record, 2)).toEqual(['malaria', 'vaccines']);
+  });
+});
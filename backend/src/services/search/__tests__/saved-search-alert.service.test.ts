@@ -0,0 +1,222 @@
+// backend/src/services/search/__tests__/saved-search-alert.service.test.ts
+import { SearchResult } from '@thinkleap/shared/types/search';
+import { DEFAULT_PREFERENCES, UserPreferences } from '@thinkleap/shared/types/user-preferences';
+import { DatabaseService } from '../../database/database.service';
+import { EmailService } from '../../email/email.service';
+import { Logger } from '../../logger';
+import { UserPreferencesService } from '../../user/preferences.service';
+import { SavedSearchAlertService } from '../saved-search-alert.service';
+import { SearchService } from '../search.service';
+
+const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+
+const result = (id: string, databaseId = 'pubmed', sources?: SearchResult['sources']): SearchResult => ({
+  id,
+  databaseId,
+  title: `Record ${id}`,
+  authors: [],
+  metadata: {},
+  sources
+});
+
+const dueRow = (id: string, userId = 'user-1') => ({
+  id,
+  user_id: userId,
+  email: `${userId}@example.com`,
+  name: `Search ${id}`,
+  query: 'crispr',
+  filters: null,
+  alert_frequency: 'daily'
+});
+
+const preferences = (notifications: Partial<UserPreferences['notifications']> = {}): UserPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  notifications: { ...DEFAULT_PREFERENCES.notifications, ...notifications }
+});
+
+describe('SavedSearchAlertService', () => {
+  let dueRows: ReturnType<typeof dueRow>[];
+  let knownKeys: string[];
+  let searchResults: Record<string, SearchResult[]>;
+  let inserted: Array<{ searchId: string; keys: string[]; isNew: boolean[] }>;
+  let query: jest.Mock;
+  let collectResults: jest.Mock;
+  let getPreferences: jest.Mock;
+  let sendSavedSearchDigest: jest.Mock;
+  let alerts: SavedSearchAlertService;
+
+  beforeEach(() => {
+    dueRows = [];
+    knownKeys = [];
+    searchResults = {};
+    inserted = [];
+
+    query = jest.fn(async (sql: string, params: any[]) => {
+      if (sql.includes('UPDATE saved_searches')) {
+        return { rows: dueRows };
+      }
+      if (sql.includes('SELECT record_key')) {
+        return { rows: knownKeys.filter(key => params[1].includes(key)).map(key => ({ record_key: key })) };
+      }
+      if (sql.includes('SELECT EXISTS')) {
+        return { rows: [{ seen: knownKeys.length > 0 }] };
+      }
+      if (sql.includes('INSERT INTO saved_search_results')) {
+        inserted.push({ searchId: params[0], keys: params[1], isNew: params[3] });
+      }
+      return { rows: [] };
+    });
+    collectResults = jest.fn(async (_userId: string, searchQuery: { term: string }) =>
+      searchResults[searchQuery.term] || []
+    );
+    getPreferences = jest.fn(async () => preferences());
+    sendSavedSearchDigest = jest.fn(async () => undefined);
+
+    alerts = new SavedSearchAlertService(
+      { query } as unknown as DatabaseService,
+      { collectResults } as unknown as SearchService,
+      { getPreferences } as unknown as UserPreferencesService,
+      { sendSavedSearchDigest } as unknown as EmailService,
+      logger
+    );
+  });
+
+  const search = {
+    id: 'search-1',
+    userId: 'user-1',
+    email: 'user-1@example.com',
+    name: 'CRISPR',
+    query: 'crispr',
+    filters: {},
+    alertFrequency: 'daily' as const
+  };
+
+  describe('runAlert', () => {
+    it('runs the search newest first and without the cache', async () => {
+      await alerts.runAlert(search);
+
+      expect(collectResults).toHaveBeenCalledWith(
+        'user-1',
+        expect.objectContaining({ term: 'crispr', sortBy: 'date_desc' }),
+        undefined,
+        200,
+        { bypassCache: true }
+      );
+    });
+
+    it('only records a baseline on the first run', async () => {
+      searchResults.crispr = [result('1'), result('2')];
+
+      const run = await alerts.runAlert(search);
+
+      expect(run).toMatchObject({ baseline: true, resultsCount: 2, newResults: [] });
+      expect(inserted).toEqual([{ searchId: 'search-1', keys: ['pubmed:1', 'pubmed:2'], isNew: [false, false] }]);
+    });
+
+    it('reports records none of whose sources were returned before', async () => {
+      knownKeys = ['pubmed:1', 'crossref:10.1/b'];
+      searchResults.crispr = [
+        result('1'),
+        result('2', 'pubmed', [{ databaseId: 'pubmed', id: '2' }, { databaseId: 'crossref', id: '10.1/b' }]),
+        result('3', 'pubmed', [{ databaseId: 'pubmed', id: '3' }, { databaseId: 'openalex', id: 'W3' }])
+      ];
+
+      const run = await alerts.runAlert(search);
+
+      expect(run.baseline).toBe(false);
+      expect(run.newResults.map(r => r.id)).toEqual(['3']);
+      expect(inserted).toEqual([{
+        searchId: 'search-1',
+        keys: ['pubmed:2', 'pubmed:3', 'openalex:W3'],
+        isNew: [false, true, false]
+      }]);
+    });
+  });
+
+  describe('runDueAlerts', () => {
+    beforeEach(() => {
+      knownKeys = ['pubmed:old'];
+      searchResults.crispr = [result('old'), result('new')];
+    });
+
+    it('sends one digest per user covering all their searches', async () => {
+      dueRows = [dueRow('a'), dueRow('b'), dueRow('c', 'user-2')];
+
+      expect(await alerts.runDueAlerts()).toBe(3);
+
+      expect(sendSavedSearchDigest).toHaveBeenCalledTimes(2);
+      expect(sendSavedSearchDigest).toHaveBeenCalledWith('user-1@example.com', [
+        expect.objectContaining({ savedSearchId: 'a', newResults: [expect.objectContaining({ id: 'new' })] }),
+        expect.objectContaining({ savedSearchId: 'b' })
+      ]);
+      expect(sendSavedSearchDigest).toHaveBeenCalledWith('user-2@example.com', [
+        expect.objectContaining({ savedSearchId: 'c' })
+      ]);
+    });
+
+    it('skips users who turned search updates off, and only emails those with email alerts on', async () => {
+      dueRows = [dueRow('a', 'quiet'), dueRow('b', 'no-email')];
+      getPreferences.mockImplementation(async (userId: string) => userId === 'quiet'
+        ? preferences({ searchUpdates: false })
+        : preferences({ emailAlerts: false }));
+
+      await alerts.runDueAlerts();
+
+      expect(collectResults).toHaveBeenCalledTimes(1);
+      expect(sendSavedSearchDigest).not.toHaveBeenCalled();
+    });
+
+    it('keeps going when one search fails', async () => {
+      dueRows = [dueRow('a'), dueRow('b')];
+      collectResults.mockRejectedValueOnce(new Error('Upstream down'));
+
+      await alerts.runDueAlerts();
+
+      expect(sendSavedSearchDigest).toHaveBeenCalledWith('user-1@example.com', [
+        expect.objectContaining({ savedSearchId: 'b' })
+      ]);
+    });
+
+    it('does not start a run while the previous one is still going', async () => {
+      dueRows = [dueRow('a')];
+
+      const [first, second] = await Promise.all([alerts.runDueAlerts(), alerts.runDueAlerts()]);
+
+      expect([first, second]).toEqual([1, 0]);
+    });
+  });
+
+  describe('start', () => {
+    afterEach(() => {
+      alerts.stop();
+      jest.useRealTimers();
+    });
+
+    it('checks for due searches on every interval until stopped', async () => {
+      jest.useFakeTimers();
+      const runDueAlerts = jest.spyOn(alerts, 'runDueAlerts').mockResolvedValue(0);
+
+      alerts.start(60_000);
+      alerts.start(60_000);
+      jest.advanceTimersByTime(120_000);
+      expect(runDueAlerts).toHaveBeenCalledTimes(2);
+
+      alerts.stop();
+      jest.advanceTimersByTime(60_000);
+      expect(runDueAlerts).toHaveBeenCalledTimes(2);
+    });
+
+    it('logs a scheduled run that fails', async () => {
+      jest.useFakeTimers();
+      jest.spyOn(alerts, 'runDueAlerts').mockRejectedValue(new Error('Database unavailable'));
+
+      alerts.start(60_000);
+      await jest.advanceTimersByTimeAsync(60_000);
+
+      expect(logger.error).toHaveBeenCalledWith(
+        'Failed to run saved search alerts',
+        expect.objectContaining({ message: 'Database unavailable' })
+      );
+    });
+  });
+});
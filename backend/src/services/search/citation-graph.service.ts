@@ -0,0 +1,139 @@
+// backend/src/services/search/citation-graph.service.ts
+import { SearchResult } from '@thinkleap/shared/types/search';
+import { CitationDirection, CitationResponse } from '@thinkleap/shared/types/record';
+import { Logger } from '../logger';
+import { DatabaseRegistry } from './databases/registry';
+import { BaseDatabaseConnector } from './databases/base.connector';
+import { CitationTarget, SearchError } from './databases/types';
+import { SearchCacheService } from './search.cache.service';
+import { SearchDeduplicationService } from './deduplication.service';
+
+// Applied to connectors whose config doesn't set a timeout
+const DEFAULT_CONNECTOR_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Backward (references) and forward (citing works) citations of a record, gathered from
+ * every database with citation data. Other databases find the record by its DOI or PMID.
+ */
+export class CitationGraphService {
+  private readonly deduplicator: SearchDeduplicationService;
+
+  constructor(
+    private readonly logger: Logger,
+    private readonly searchCache: SearchCacheService,
+    private readonly registry: DatabaseRegistry
+  ) {
+    this.deduplicator = new SearchDeduplicationService(logger);
+  }
+
+  async getCitations(
+    userId: string,
+    databaseId: string,
+    id: string,
+    direction: CitationDirection,
+    limit: number
+  ): Promise<CitationResponse> {
+    const origin = this.registry.getDatabase(databaseId);
+    if (!origin || !(await origin.isEnabled()) || !(await origin.validateAccess(userId))) {
+      throw new Error(`Unknown database: ${databaseId}`);
+    }
+
+    const cached = await this.searchCache.getCachedCitations(databaseId, id, direction, limit);
+    if (cached) {
+      return {
+        ...cached.response,
+        cache: { status: 'hit', cachedAt: new Date(cached.timestamp).toISOString() }
+      };
+    }
+
+    const [record] = await this.call(origin, () => origin.fetchRecords([id]));
+    if (!record) {
+      throw new Error('Record not found');
+    }
+
+    const target: CitationTarget = {
+      databaseId,
+      id,
+      doi: record.doi,
+      pmid: typeof record.metadata.pmid === 'string' ? record.metadata.pmid : undefined
+    };
+
+    const databases = await this.registry.getEnabledDatabases(userId);
+    const outcomes = await Promise.all(databases.map(async database => {
+      try {
+        const page = await this.call(database, () => database.fetchCitations(target, direction, limit));
+        return { database, page };
+      } catch (error) {
+        this.logger.error(`Citation lookup failed for database ${database.name}`, error as Error);
+        return { database, error: error as SearchError };
+      }
+    }));
+
+    const sourceTotals: Record<string, number> = {};
+    const errors: Array<{ source: string; error: SearchError }> = [];
+    let results: SearchResult[] = [];
+
+    outcomes.forEach(outcome => {
+      if (outcome.error) {
+        errors.push({ source: outcome.database.id, error: outcome.error });
+      } else if (outcome.page) {
+        sourceTotals[outcome.database.id] = outcome.page.total;
+        results = results.concat(outcome.page.results);
+      }
+    });
+
+    const merged = this.deduplicator.deduplicate(results).results
+      .sort((a, b) => (b.citationCount ?? -1) - (a.citationCount ?? -1))
+      .slice(0, limit);
+
+    const response: CitationResponse = {
+      databaseId,
+      id,
+      direction,
+      results: merged,
+      total: Math.max(0, ...Object.keys(sourceTotals).map(source => sourceTotals[source])),
+      sourceTotals,
+      errors: errors.length ? errors : undefined
+    };
+
+    // A partial list would hide the failed databases' citations until it expired
+    if (!errors.length) {
+      await this.searchCache.cacheCitations(response, limit, databases.map(database => database.id));
+    }
+
+    return { ...response, cache: { status: 'miss' } };
+  }
+
+  /**
+   * Run a connector call within its timeout and report the outcome to its circuit breaker
+   */
+  private async call<T>(database: BaseDatabaseConnector, operation: () => Promise<T>): Promise<T> {
+    const timeoutMs = database.timeout || DEFAULT_CONNECTOR_TIMEOUT_MS;
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error: SearchError = {
+          name: 'TimeoutError',
+          message: `${database.name} did not respond within ${timeoutMs} ms`,
+          type: 'timeout',
+          retryable: true,
+          source: database.id
+        };
+        reject(error);
+      }, timeoutMs);
+    });
+
+    try {
+      const value = await Promise.race([operation(), timeout]);
+      this.registry.recordSuccess(database.id, Date.now() - start);
+      return value;
+    } catch (error) {
+      this.registry.recordFailure(database.id, Date.now() - start);
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
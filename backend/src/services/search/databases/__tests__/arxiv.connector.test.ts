@@ -0,0 +1,125 @@
+// backend/src/services/search/databases/__tests__/arxiv.connector.test.ts
+import { SearchQuery } from '@thinkleap/shared/types/search';
+import { ArxivConnector } from '../arxiv/connector';
+import { createConnector, fixture, mockFetch } from './connector.helpers';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'diffusion ti:"probabilistic models" -gan',
+  pagination: { page: 1, limit: 2 },
+  ...overrides
+});
+
+describe('ArxivConnector', () => {
+  let connector: ArxivConnector;
+
+  beforeEach(() => {
+    connector = createConnector<ArxivConnector>('arxiv');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('sends the compiled query, paging and sort', async () => {
+      const requests = mockFetch({ '/query?': { body: fixture('arxiv/query.xml') } });
+
+      await connector.search(query({
+        sortBy: 'date_asc',
+        filters: {
+          categories: ['cs.LG', 'stat.ML'],
+          dateRange: { start: new Date('2020-01-01'), end: new Date('2020-12-31') }
+        }
+      }), { offset: 10, limit: 5 });
+
+      expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+        search_query: '(all:diffusion AND ti:"probabilistic models" ANDNOT all:gan)'
+          + ' AND (cat:cs.LG OR cat:stat.ML)'
+          + ' AND submittedDate:[202001010000 TO 202012312359]',
+        start: '10',
+        max_results: '5',
+        sortBy: 'submittedDate',
+        sortOrder: 'ascending'
+      });
+    });
+
+    it('asks for relevance when the sort order has no arXiv equivalent', async () => {
+      const requests = mockFetch({ '/query?': { body: fixture('arxiv/query.xml') } });
+
+      await connector.search(query({ sortBy: 'citations' }));
+
+      expect(requests[0].searchParams.get('sortBy')).toBe('relevance');
+    });
+
+    it('maps Atom entries onto search results', async () => {
+      mockFetch({ '/query?': { body: fixture('arxiv/query.xml') } });
+
+      const page = await connector.search(query());
+
+      expect(page.total).toBe(5321);
+      expect(page.fetched).toBe(2);
+      expect(page.results[0]).toEqual({
+        id: '2006.11239',
+        databaseId: 'arxiv',
+        title: 'Denoising Diffusion Probabilistic Models',
+        authors: [
+          { name: 'Jonathan Ho', affiliation: 'UC Berkeley' },
+          { name: 'Ajay Jain', affiliation: undefined },
+          { name: 'Pieter Abbeel', affiliation: undefined }
+        ],
+        abstract: 'We present high quality image synthesis results using diffusion probabilistic models.',
+        publicationDate: new Date('2020-06-19T17:24:44Z'),
+        doi: undefined,
+        keywords: ['cs.LG', 'stat.ML'],
+        articleType: 'preprint',
+        fullTextUrl: 'http://arxiv.org/pdf/2006.11239v2',
+        metadata: {
+          arxivId: '2006.11239',
+          version: 2,
+          primaryCategory: 'cs.LG',
+          categories: ['cs.LG', 'stat.ML'],
+          absUrl: 'http://arxiv.org/abs/2006.11239v2',
+          updated: '2020-12-16T21:35:39Z',
+          journalRef: undefined,
+          comment: 'NeurIPS 2020'
+        }
+      });
+      expect(page.results[1]).toMatchObject({
+        id: 'hep-th/9711200',
+        doi: '10.1023/A:1026654312961',
+        metadata: { version: 3, journalRef: 'Adv.Theor.Math.Phys.2:231-252,1998' }
+      });
+    });
+
+    it('returns an empty page for a feed without entries', async () => {
+      mockFetch({ '/query?': { body: fixture('arxiv/query-empty.xml') } });
+
+      expect(await connector.search(query({ term: 'zzqxv' }))).toEqual({ results: [], total: 0, fetched: 0 });
+    });
+
+    it('reports 503 as a rate limit error', async () => {
+      mockFetch({ '/query?': { body: 'Service Unavailable', status: 503 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'arxiv',
+        type: 'rate_limit'
+      });
+    });
+  });
+
+  it('fetches records by id list', async () => {
+    const requests = mockFetch({ '/query?': { body: fixture('arxiv/query.xml') } });
+
+    const results = await connector.fetchRecords(['2006.11239', 'hep-th/9711200']);
+
+    expect(requests[0].searchParams.get('id_list')).toBe('2006.11239,hep-th/9711200');
+    expect(results.map(result => result.id)).toEqual(['2006.11239', 'hep-th/9711200']);
+  });
+
+  it('counts results from the feed header', async () => {
+    const requests = mockFetch({ '/query?': { body: fixture('arxiv/query-empty.xml') } });
+
+    expect(await connector.countResults(query({ term: 'zzqxv' }))).toBe(0);
+    expect(requests[0].searchParams.get('max_results')).toBe('0');
+  });
+});
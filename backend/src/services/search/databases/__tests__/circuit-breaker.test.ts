@@ -0,0 +1,93 @@
+// backend/src/services/search/databases/__tests__/circuit-breaker.test.ts
+import { CircuitBreaker } from '../circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const options = { windowMs: 60_000, minimumRequests: 4, errorThreshold: 0.5, openMs: 30_000 };
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) breaker.recordFailure(100);
+  };
+  const succeed = (times: number) => {
+    for (let i = 0; i < times; i++) breaker.recordSuccess(100);
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker(options);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stays closed until enough requests have been seen', () => {
+    fail(3);
+
+    expect(breaker.getHealth()).toMatchObject({ state: 'closed', requests: 3, errorRate: 1 });
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('opens once the error rate crosses the threshold', () => {
+    succeed(2);
+    fail(2);
+
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getHealth()).toMatchObject({
+      state: 'open',
+      errorRate: 0.5,
+      latencyMs: 100,
+      openedAt: new Date(now).toISOString(),
+      retryAt: new Date(now + options.openMs).toISOString()
+    });
+  });
+
+  it('forgets outcomes older than the window', () => {
+    fail(3);
+    now += options.windowMs + 1;
+    fail(1);
+
+    expect(breaker.getHealth()).toMatchObject({ state: 'closed', requests: 1 });
+  });
+
+  it('lets a single trial through once the open period is over', () => {
+    fail(4);
+    now += options.openMs;
+
+    expect(breaker.getHealth().state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('closes after a successful trial and drops the old failures', () => {
+    fail(4);
+    now += options.openMs;
+    breaker.allowRequest();
+    breaker.recordSuccess(50);
+
+    expect(breaker.getHealth()).toMatchObject({ state: 'closed', requests: 1, errorRate: 0 });
+    fail(1);
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('re-opens after a failed trial', () => {
+    fail(4);
+    now += options.openMs;
+    breaker.allowRequest();
+    breaker.recordFailure(50);
+
+    expect(breaker.getHealth().state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('releases a trial slot that never reported back', () => {
+    fail(4);
+    now += options.openMs;
+    breaker.allowRequest();
+
+    now += options.openMs;
+    expect(breaker.allowRequest()).toBe(true);
+  });
+});
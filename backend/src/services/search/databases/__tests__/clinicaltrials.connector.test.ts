@@ -0,0 +1,188 @@
+// backend/src/services/search/databases/__tests__/clinicaltrials.connector.test.ts
+import { SearchQuery } from '@thinkleap/shared/types/search';
+import { ClinicalTrialsConnector } from '../clinicaltrials/connector';
+import { createConnector, fixture, mockFetch } from './connector.helpers';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'covid vaccine title:rna',
+  pagination: { page: 1, limit: 2 },
+  ...overrides
+});
+
+describe('ClinicalTrialsConnector', () => {
+  let connector: ClinicalTrialsConnector;
+
+  beforeEach(() => {
+    connector = createConnector<ClinicalTrialsConnector>('clinicaltrials');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('sends the Essie query, status filter, advanced filters and sort as parameters', async () => {
+      const requests = mockFetch({ '/studies?': { body: fixture('clinicaltrials/studies.json') } });
+
+      await connector.search(query({
+        sortBy: 'date_desc',
+        filters: {
+          recruitmentStatus: ['RECRUITING', 'COMPLETED'],
+          phases: ['PHASE2', 'PHASE3'],
+          dateRange: { end: new Date('2021-12-31') },
+          authors: ['Polack "F"'],
+          articleTypes: ['RCT']
+        }
+      }));
+
+      expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+        'query.term': '(covid AND vaccine AND AREA[BriefTitle]rna)',
+        'filter.overallStatus': 'RECRUITING,COMPLETED',
+        'filter.advanced': 'AREA[Phase](PHASE2 OR PHASE3)'
+          + ' AND AREA[StudyFirstPostDate]RANGE[MIN,2021-12-31]'
+          + ' AND AREA[OverallOfficialName]("Polack F")'
+          + ' AND AREA[DesignAllocation]RANDOMIZED',
+        sort: 'StudyFirstPostDate:desc',
+        format: 'json',
+        pageSize: '2',
+        countTotal: 'true'
+      });
+    });
+
+    it('falls back to relevance for citation order', async () => {
+      const requests = mockFetch({ '/studies?': { body: fixture('clinicaltrials/studies.json') } });
+
+      await connector.search(query({ sortBy: 'citations' }));
+
+      expect(requests[0].searchParams.get('sort')).toBe('@relevance');
+    });
+
+    it('maps studies onto search results', async () => {
+      mockFetch({ '/studies?': { body: fixture('clinicaltrials/studies.json') } });
+
+      const page = await connector.search(query());
+
+      expect(page.total).toBe(214);
+      expect(page.fetched).toBe(2);
+      // The first page needs no token to come back to
+      expect(page.state).toBeUndefined();
+      expect(page.results[0]).toEqual({
+        id: 'NCT04368728',
+        databaseId: 'clinicaltrials',
+        title: 'Study to Describe the Safety, Tolerability, Immunogenicity, and Efficacy of RNA Vaccine'
+          + ' Candidates Against COVID-19 in Healthy Individuals',
+        authors: [{ name: 'Pfizer CT.gov Call Center', affiliation: 'Pfizer' }],
+        abstract: 'This is a Phase 1/2/3, randomized, placebo-controlled, observer-blind, dose-finding study.',
+        publicationDate: new Date('2020-04-30T00:00:00Z'),
+        keywords: ['SARS-CoV-2 Infection', 'COVID-19', 'RNA vaccine'],
+        articleType: 'clinical trial registration',
+        language: 'en',
+        metadata: {
+          nctId: 'NCT04368728',
+          url: 'https://clinicaltrials.gov/study/NCT04368728',
+          status: 'COMPLETED',
+          phases: ['PHASE2', 'PHASE3'],
+          studyType: 'INTERVENTIONAL',
+          conditions: ['SARS-CoV-2 Infection', 'COVID-19'],
+          interventions: [
+            { type: 'BIOLOGICAL', name: 'BNT162b2' },
+            { type: 'OTHER', name: 'Placebo' }
+          ],
+          enrollment: { count: 47079, type: 'ACTUAL' },
+          sponsor: 'BioNTech SE',
+          startDate: '2020-04-29',
+          completionDate: '2023-02-10',
+          hasResults: true,
+          pmids: ['33301246'],
+          officialTitle: expect.stringMatching(/^A Phase 1\/2\/3, Placebo-Controlled/),
+          acronym: 'C4591001',
+          allocation: 'RANDOMIZED',
+          primaryPurpose: 'PREVENTION',
+          lastUpdated: '2024-02-02'
+        }
+      });
+    });
+
+    it('maps sparse registrations with partial dates', async () => {
+      mockFetch({ '/studies?': { body: fixture('clinicaltrials/studies.json') } });
+
+      const [, study] = (await connector.search(query())).results;
+
+      expect(study).toMatchObject({
+        title: 'Observational Cohort of Long COVID Symptoms',
+        authors: [],
+        abstract: undefined,
+        publicationDate: new Date('2021-11-01T00:00:00Z'),
+        keywords: [],
+        metadata: { phases: [], enrollment: undefined, pmids: [] }
+      });
+    });
+
+    it('skips to a deep window requesting only NCT ids and returns the token it started from', async () => {
+      const requests = mockFetch({
+        'fields=NCTId': { body: fixture('clinicaltrials/study-ids.json') },
+        '/studies?': { body: fixture('clinicaltrials/studies.json') }
+      });
+
+      const page = await connector.search(query(), { offset: 2, limit: 2 });
+
+      expect(requests.map(url => [
+        url.searchParams.get('pageSize'),
+        url.searchParams.get('pageToken'),
+        url.searchParams.get('fields')
+      ])).toEqual([
+        ['2', null, 'NCTId'],
+        ['2', 'ZVNj7o2Elu8o', null]
+      ]);
+      expect(page.state).toEqual({ pageToken: 'ZVNj7o2Elu8o', tokenOffset: '2' });
+    });
+
+    it('resumes from a remembered token that lies before the window', async () => {
+      const requests = mockFetch({ '/studies?': { body: fixture('clinicaltrials/studies.json') } });
+
+      await connector.search(query(), { offset: 40, limit: 20, state: { pageToken: 'NF0g5JGBlPMu', tokenOffset: '40' } });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].searchParams.get('pageToken')).toBe('NF0g5JGBlPMu');
+    });
+
+    it('returns an empty page when the window lies past the last study', async () => {
+      mockFetch({ 'fields=NCTId': { body: fixture('clinicaltrials/study-ids-last.json') } });
+
+      expect(await connector.search(query(), { offset: 20, limit: 2 })).toEqual({
+        results: [],
+        total: 214,
+        fetched: 0
+      });
+    });
+
+    it('does not search for journals or non-trial article types', async () => {
+      const requests = mockFetch({});
+
+      expect(await connector.search(query({ filters: { journals: ['Lancet'] } })))
+        .toEqual({ results: [], total: 0, fetched: 0 });
+      expect(await connector.search(query({ filters: { articleTypes: ['review'] } })))
+        .toEqual({ results: [], total: 0, fetched: 0 });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('reports a 429 as a rate limit error', async () => {
+      mockFetch({ '/studies?': { body: '', status: 429 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'clinicaltrials',
+        type: 'rate_limit'
+      });
+    });
+  });
+
+  it('fetches records by NCT id with one filter', async () => {
+    const requests = mockFetch({ '/studies?': { body: fixture('clinicaltrials/studies.json') } });
+
+    const results = await connector.fetchRecords(['NCT04368728', 'NCT05123456']);
+
+    expect(requests[0].searchParams.get('filter.ids')).toBe('NCT04368728,NCT05123456');
+    expect(requests[0].searchParams.get('pageSize')).toBe('2');
+    expect(results.map(result => result.id)).toEqual(['NCT04368728', 'NCT05123456']);
+  });
+});
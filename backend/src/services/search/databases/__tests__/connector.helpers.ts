@@ -0,0 +1,89 @@
+// backend/src/services/search/databases/__tests__/connector.helpers.ts
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Logger } from '../../../logger';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import { BaseDatabaseConnector } from '../base.connector';
+import { createConnectorFactories } from '../connector.factory';
+import { DatabaseDefinition } from '../types';
+
+const CONFIG_PATH = join(__dirname, '../../../../../config/databases.json');
+const FIXTURES_PATH = join(__dirname, 'fixtures');
+
+export interface FixtureResponse {
+  body: string;
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Read a stored upstream response, e.g. `fixture('pubmed/esearch.json')`
+ */
+export function fixture(path: string): string {
+  return readFileSync(join(FIXTURES_PATH, path), 'utf8');
+}
+
+/**
+ * Build a connector from its entry in config/databases.json, without credentials,
+ * rate limits or retries, so tests only see the fixtures they route
+ */
+export function createConnector<T extends BaseDatabaseConnector>(
+  id: string,
+  overrides: Partial<DatabaseDefinition> = {}
+): T {
+  const { databases } = JSON.parse(readFileSync(CONFIG_PATH, 'utf8')) as { databases: DatabaseDefinition[] };
+  const declared = databases.find(database => database.id === id);
+  if (!declared) {
+    throw new Error(`No database ${id} in config/databases.json`);
+  }
+
+  const definition: DatabaseDefinition = { ...declared };
+  Object.keys(definition).forEach(key => {
+    // Placeholders such as ${PUBMED_API_KEY} are only filled in from the environment
+    if (typeof definition[key] === 'string' && /^\$\{\w+\}$/.test(definition[key] as string)) {
+      delete definition[key];
+    }
+  });
+  delete definition.auth;
+  delete definition.rateLimit;
+  delete definition.retryConfig;
+
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as Logger;
+  const cacheService = {} as ICache;
+  const rateLimiter: IOutboundRateLimiter = {
+    reserve: jest.fn(async () => 0),
+    pause: jest.fn(async () => undefined)
+  };
+
+  return createConnectorFactories().create({ ...definition, ...overrides }, { logger, cacheService, rateLimiter }) as T;
+}
+
+/**
+ * Answer `fetch` from fixtures. Each request is served by the first route whose key
+ * occurs in its URL; unrouted requests fail the test. Returns the requested URLs.
+ */
+export function mockFetch(routes: Record<string, FixtureResponse | FixtureResponse[]>): URL[] {
+  const requests: URL[] = [];
+  const queues = new Map(Object.keys(routes).map(key => {
+    const route = routes[key];
+    return [key, Array.isArray(route) ? [...route] : [route]] as [string, FixtureResponse[]];
+  }));
+
+  jest.spyOn(global, 'fetch').mockImplementation(async input => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    requests.push(url);
+
+    const key = Object.keys(routes).find(candidate => url.toString().includes(candidate));
+    if (!key) {
+      throw new Error(`Unexpected request: ${url}`);
+    }
+
+    // The last response of a route answers every request after it
+    const queue = queues.get(key)!;
+    const { body, status = 200, headers = {} } = queue.length > 1 ? queue.shift()! : queue[0];
+    return new Response(body, { status, headers });
+  });
+
+  return requests;
+}
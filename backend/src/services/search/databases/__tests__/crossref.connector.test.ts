@@ -0,0 +1,149 @@
+// backend/src/services/search/databases/__tests__/crossref.connector.test.ts
+import { SearchQuery } from '@thinkleap/shared/types/search';
+import { CrossrefConnector } from '../crossref/connector';
+import { createConnector, fixture, mockFetch } from './connector.helpers';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'crispr exhaustion au:belk year:2020-2023',
+  pagination: { page: 1, limit: 2 },
+  ...overrides
+});
+
+describe('CrossrefConnector', () => {
+  let connector: CrossrefConnector;
+
+  beforeEach(() => {
+    connector = createConnector<CrossrefConnector>('crossref', { mailto: 'dev@example.com' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('sends keywords, field queries, filters, sort and paging as parameters', async () => {
+      const requests = mockFetch({ '/works?': { body: fixture('crossref/works.json') } });
+
+      await connector.search(query({ sortBy: 'citations', filters: { articleTypes: ['Preprint', 'review'] } }), {
+        offset: 40,
+        limit: 20
+      });
+
+      expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+        'query.bibliographic': 'crispr exhaustion',
+        'query.author': 'belk',
+        filter: 'from-pub-date:2020-01-01,until-pub-date:2023-12-31,type:posted-content',
+        sort: 'is-referenced-by-count',
+        order: 'desc',
+        rows: '20',
+        offset: '40',
+        facet: 'published:10,container-title:10,type-name:10',
+        mailto: 'dev@example.com'
+      });
+    });
+
+    it('maps works onto search results', async () => {
+      mockFetch({ '/works?': { body: fixture('crossref/works.json') } });
+
+      const page = await connector.search(query());
+
+      expect(page.total).toBe(1452);
+      expect(page.fetched).toBe(2);
+      expect(page.results[0]).toEqual({
+        id: '10.1016/j.cell.2022.12.002',
+        databaseId: 'crossref',
+        title: 'In vivo CRISPR screens identify regulators of T cell exhaustion: a resource',
+        authors: [
+          { name: 'Belk Julia A.', affiliation: 'Stanford University', identifier: '0000-0002-1825-0097' },
+          { name: 'Satpathy Ansuman T.', affiliation: undefined, identifier: undefined }
+        ],
+        abstract: 'Chronic antigen drives exhaustion .',
+        journal: { name: 'Cell', volume: '186', issue: '1', pages: '144-159.e18', identifier: '0092-8674' },
+        doi: '10.1016/j.cell.2022.12.002',
+        publicationDate: new Date('2023-01-01T00:00:00Z'),
+        keywords: ['General Biochemistry, Genetics and Molecular Biology'],
+        articleType: 'journal-article',
+        language: undefined,
+        fullTextUrl: 'https://www.cell.com/action/showPdf?pii=S0092867422015343',
+        citationCount: 87,
+        metadata: {
+          doi: '10.1016/j.cell.2022.12.002',
+          url: 'https://doi.org/10.1016/j.cell.2022.12.002',
+          publisher: 'Elsevier BV',
+          issn: ['0092-8674'],
+          referencesCount: 112,
+          license: 'https://www.elsevier.com/tdm/userlicense/1.0/'
+        }
+      });
+      expect(page.results[1]).toMatchObject({
+        authors: [{ name: 'CRISPR Screening Consortium' }],
+        publicationDate: new Date('2022-06-03T00:00:00Z'),
+        articleType: 'posted-content'
+      });
+    });
+
+    it('returns upstream facets keyed by our facet fields', async () => {
+      mockFetch({ '/works?': { body: fixture('crossref/works.json') } });
+
+      expect((await connector.search(query())).facets).toEqual({
+        // JSON objects list integer keys in ascending order
+        year: [{ value: '2022', count: 640 }, { value: '2023', count: 812 }],
+        journal: [{ value: 'Cell', count: 31 }, { value: 'Nature Immunology', count: 27 }],
+        articleType: [{ value: 'journal-article', count: 1390 }, { value: 'posted-content', count: 62 }]
+      });
+    });
+
+    it('enforces the journal filter on the fetched works', async () => {
+      mockFetch({ '/works?': { body: fixture('crossref/works.json') } });
+
+      const page = await connector.search(query({ filters: { journals: ['cell'] } }));
+
+      expect(page.results.map(result => result.id)).toEqual(['10.1016/j.cell.2022.12.002']);
+      expect(page.fetched).toBe(2);
+    });
+
+    it('rejects a date filter that is not a date as an invalid query', () => {
+      // Bounds parsed from a query string are strings, whatever the type says
+      const dateRange = { start: 'last spring' as unknown as Date };
+
+      expect(() => connector.translateQuery(query({ filters: { dateRange } })))
+        .toThrow("Invalid query: 'last spring' is not a date");
+    });
+
+    it('reports a 429 as a rate limit error', async () => {
+      mockFetch({ '/works?': { body: '', status: 429 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'crossref',
+        type: 'rate_limit'
+      });
+    });
+  });
+
+  it('fetches records by DOI with one filter', async () => {
+    const requests = mockFetch({ '/works?': { body: fixture('crossref/works.json') } });
+
+    const results = await connector.fetchRecords(['10.1016/j.cell.2022.12.002', '10.1101/2022.06.01.494299']);
+
+    expect(requests[0].searchParams.get('filter'))
+      .toBe('doi:10.1016/j.cell.2022.12.002,doi:10.1101/2022.06.01.494299');
+    expect(results).toHaveLength(2);
+  });
+
+  it('resolves deposited references that have a DOI', async () => {
+    const requests = mockFetch({
+      'doi%3A10.1016%2Fj.cell.2022.12.002': { body: fixture('crossref/work-references.json') },
+      'doi%3A10.1101%2F2022.06.01.494299': { body: fixture('crossref/works.json') }
+    });
+
+    const page = await connector.fetchCitations(
+      { databaseId: 'crossref', id: '10.1016/j.cell.2022.12.002' },
+      'references',
+      10
+    );
+
+    expect(requests).toHaveLength(2);
+    expect(page?.total).toBe(2);
+    expect(await connector.fetchCitations({ databaseId: 'crossref', id: 'x' }, 'citations', 10)).toBeUndefined();
+  });
+});
@@ -0,0 +1,203 @@
+// backend/src/services/search/databases/__tests__/europe-pmc.connector.test.ts
+import { SearchQuery } from '@thinkleap/shared/types/search';
+import { EuropePmcConnector } from '../europe-pmc/connector';
+import { createConnector, fixture, mockFetch } from './connector.helpers';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'malaria title:vaccine',
+  pagination: { page: 1, limit: 2 },
+  ...overrides
+});
+
+// An id-only page whose cursor points past it
+const idPage = (nextCursorMark: string) => ({
+  body: fixture('europe-pmc/search-idlist.json').replace('AoIIP4AAACgzMzU0MTIzNA==', nextCursorMark)
+});
+
+describe('EuropePmcConnector', () => {
+  let connector: EuropePmcConnector;
+
+  beforeEach(() => {
+    connector = createConnector<EuropePmcConnector>('europe-pmc');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('sends filters as field clauses of the query, with the native sort', async () => {
+      const requests = mockFetch({ 'resultType=core': { body: fixture('europe-pmc/search-core.json') } });
+
+      await connector.search(query({
+        sortBy: 'citations',
+        filters: {
+          authors: ['Datoo "MS"'],
+          journals: ['Lancet'],
+          languages: ['eng'],
+          dateRange: { start: new Date('2020-01-01'), end: new Date('2022-12-31') },
+          articleTypes: ['Preprint', 'RCT', 'review']
+        }
+      }));
+
+      expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+        query: '((malaria AND TITLE:vaccine)) AND (AUTH:"Datoo MS") AND (JOURNAL:"Lancet") AND (LANG:"eng")'
+          + ' AND FIRST_PDATE:[2020-01-01 TO 2022-12-31]'
+          + ' AND (SRC:PPR OR (PUB_TYPE:"randomized controlled trial" OR PUB_TYPE:"review"))',
+        format: 'json',
+        resultType: 'core',
+        pageSize: '2',
+        cursorMark: '*',
+        sort: 'CITED desc'
+      });
+    });
+
+    it('leaves preprints out when the database is configured without them', async () => {
+      connector = createConnector<EuropePmcConnector>('europe-pmc', { includePreprints: false });
+      const requests = mockFetch({ 'resultType=core': { body: fixture('europe-pmc/search-core.json') } });
+
+      await connector.search(query({ sortBy: 'relevance' }));
+
+      expect(requests[0].searchParams.get('query')).toBe('((malaria AND TITLE:vaccine)) AND NOT SRC:PPR');
+      expect(requests[0].searchParams.has('sort')).toBe(false);
+    });
+
+    it('maps articles onto search results', async () => {
+      mockFetch({ 'resultType=core': { body: fixture('europe-pmc/search-core.json') } });
+
+      const page = await connector.search(query());
+
+      expect(page.total).toBe(3187);
+      expect(page.fetched).toBe(2);
+      expect(page.results[0]).toEqual({
+        id: 'MED:34547212',
+        databaseId: 'europe-pmc',
+        title: 'Efficacy of a low-dose candidate malaria vaccine, R21 in adjuvant Matrix-M, with seasonal'
+          + ' administration to children in Burkina Faso.',
+        authors: [
+          {
+            name: 'Datoo MS',
+            affiliation: 'The Jenner Institute, University of Oxford, Oxford, UK.; '
+              + 'Centre for Clinical Vaccinology and Tropical Medicine, Oxford, UK.',
+            identifier: '0000-0002-4913-6392'
+          },
+          { name: 'Natama MH', affiliation: undefined, identifier: undefined },
+          { name: 'R21 Malaria Vaccine Trial Group', affiliation: undefined, identifier: undefined }
+        ],
+        abstract: 'Background Stand-alone malaria vaccines have not yet reached the WHO\'s target of 75% efficacy.',
+        journal: {
+          name: 'Lancet (London, England)',
+          volume: '397',
+          issue: '10287',
+          pages: '1809-1818',
+          identifier: '0140-6736'
+        },
+        doi: '10.1016/S0140-6736(21)00943-0',
+        publicationDate: new Date('2021-04-23T00:00:00Z'),
+        keywords: ['Malaria Vaccines', 'Child, Preschool'],
+        articleType: 'Randomized Controlled Trial',
+        language: 'eng',
+        fullTextUrl: 'https://europepmc.org/articles/PMC8451928?pdf=render',
+        citationCount: 412,
+        metadata: {
+          europePmcId: '34547212',
+          source: 'MED',
+          pmid: '34547212',
+          pmcid: 'PMC8451928',
+          doi: '10.1016/S0140-6736(21)00943-0',
+          url: 'https://europepmc.org/article/MED/34547212',
+          isOpenAccess: true,
+          isPreprint: false,
+          preprintServer: undefined,
+          preprintVersion: undefined,
+          license: 'cc by',
+          meshTerms: ['Malaria Vaccines', 'Child, Preschool'],
+          publicationTypes: ['Randomized Controlled Trial', 'Journal Article']
+        }
+      });
+    });
+
+    it('maps preprints with their server as the journal and authors from the author string', async () => {
+      mockFetch({ 'resultType=core': { body: fixture('europe-pmc/search-core.json') } });
+
+      const [, preprint] = (await connector.search(query())).results;
+
+      expect(preprint).toMatchObject({
+        id: 'PPR:PPR412345',
+        authors: [{ name: 'Smith J' }, { name: 'Nguyen T' }],
+        journal: { name: 'medRxiv' },
+        keywords: ['malaria', 'antibody kinetics'],
+        articleType: 'preprint',
+        fullTextUrl: undefined,
+        metadata: { isPreprint: true, preprintServer: 'medRxiv', preprintVersion: 2 }
+      });
+    });
+
+    it('skips to a deep window with id-only pages and returns the cursor it started from', async () => {
+      const requests = mockFetch({
+        'resultType=idlist': [idPage('cursor-2'), idPage('cursor-4')],
+        'resultType=core': { body: fixture('europe-pmc/search-core.json') }
+      });
+
+      const page = await connector.search(query(), { offset: 4, limit: 2 });
+
+      expect(requests.map(url => [
+        url.searchParams.get('resultType'),
+        url.searchParams.get('pageSize'),
+        url.searchParams.get('cursorMark')
+      ])).toEqual([
+        ['idlist', '4', '*'],
+        ['idlist', '2', 'cursor-2'],
+        ['core', '2', 'cursor-4']
+      ]);
+      expect(page.state).toEqual({ cursorMark: 'cursor-4', cursorOffset: '4' });
+    });
+
+    it('resumes from a remembered cursor that lies before the window', async () => {
+      const requests = mockFetch({
+        'resultType=idlist': idPage('cursor-6'),
+        'resultType=core': { body: fixture('europe-pmc/search-core.json') }
+      });
+
+      const page = await connector.search(query(), {
+        offset: 6,
+        limit: 2,
+        state: { cursorMark: 'cursor-4', cursorOffset: '4' }
+      });
+
+      expect(requests.map(url => url.searchParams.get('cursorMark'))).toEqual(['cursor-4', 'cursor-6']);
+      expect(page.state).toEqual({ cursorMark: 'cursor-6', cursorOffset: '6' });
+    });
+
+    it('returns an empty page when the window lies past the last hit', async () => {
+      const requests = mockFetch({ 'resultType=idlist': { body: fixture('europe-pmc/search-empty.json') } });
+
+      expect(await connector.search(query(), { offset: 10, limit: 2 })).toEqual({
+        results: [],
+        total: 2,
+        fetched: 0
+      });
+      expect(requests).toHaveLength(1);
+    });
+
+    it('reports a 429 as a rate limit error', async () => {
+      mockFetch({ 'resultType=core': { body: '', status: 429 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'europe-pmc',
+        type: 'rate_limit'
+      });
+    });
+  });
+
+  it('fetches records by source and id and skips malformed ids', async () => {
+    const requests = mockFetch({ 'resultType=core': { body: fixture('europe-pmc/search-core.json') } });
+
+    const results = await connector.fetchRecords(['MED:34547212', 'ppr:PPR412345', '34547212']);
+
+    expect(requests[0].searchParams.get('query'))
+      .toBe('(EXT_ID:"34547212" AND SRC:MED) OR (EXT_ID:"PPR412345" AND SRC:PPR)');
+    expect(requests[0].searchParams.get('pageSize')).toBe('2');
+    expect(results.map(result => result.id)).toEqual(['MED:34547212', 'PPR:PPR412345']);
+  });
+});
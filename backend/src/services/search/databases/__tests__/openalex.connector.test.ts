@@ -0,0 +1,222 @@
+// backend/src/services/search/databases/__tests__/openalex.connector.test.ts
+import { SearchQuery } from '@thinkleap/shared/types/search';
+import { OpenAlexConnector } from '../openalex/connector';
+import { createConnector, fixture, mockFetch } from './connector.helpers';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'crispr title:screen year:2020-2022',
+  pagination: { page: 1, limit: 2 },
+  ...overrides
+});
+
+describe('OpenAlexConnector', () => {
+  let connector: OpenAlexConnector;
+
+  beforeEach(() => {
+    connector = createConnector<OpenAlexConnector>('openalex', { mailto: 'dev@example.com' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('sends the search, field and filter clauses, sort and paging as parameters', async () => {
+      const requests = mockFetch({ '/works?': { body: fixture('openalex/works.json') } });
+
+      await connector.search(query({
+        sortBy: 'date_desc',
+        filters: {
+          dateRange: { start: new Date('2020-06-01') },
+          articleTypes: ['Journal Article', 'conference paper', 'Preprint', 'poster'],
+          languages: ['en'],
+          institutions: ['https://ror.org/043MZ5J54', 'i180670191'],
+          concepts: ['C98274493', 'https://openalex.org/T10302']
+        }
+      }));
+
+      expect(Object.fromEntries(requests[0].searchParams)).toEqual({
+        search: 'crispr',
+        filter: [
+          'title.search:screen',
+          'publication_year:2020-2022',
+          'from_publication_date:2020-06-01',
+          'type:article|preprint',
+          'language:en',
+          'institutions.id:I180670191',
+          'institutions.ror:043mz5j54',
+          'concepts.id:C98274493',
+          'topics.id:T10302'
+        ].join(','),
+        sort: 'publication_date:desc',
+        page: '1',
+        'per-page': '2',
+        select: expect.stringContaining('abstract_inverted_index'),
+        mailto: 'dev@example.com'
+      });
+    });
+
+    it('only asks for relevance order alongside a search', async () => {
+      const requests = mockFetch({ '/works?': { body: fixture('openalex/works.json') } });
+
+      await connector.search(query());
+      await connector.search(query({ term: 'title:screen' }));
+
+      expect(requests[0].searchParams.get('sort')).toBe('relevance_score:desc');
+      expect(requests[1].searchParams.has('search')).toBe(false);
+      expect(requests[1].searchParams.has('sort')).toBe(false);
+    });
+
+    it('fetches every page overlapping the window and trims it', async () => {
+      const requests = mockFetch({ '/works?': { body: fixture('openalex/works.json') } });
+
+      const page = await connector.search(query(), { offset: 3, limit: 2 });
+
+      expect(requests.map(url => url.searchParams.get('page'))).toEqual(['2', '3']);
+      expect(page.results.map(result => result.id)).toEqual(['W4221234567', 'W3092138467']);
+      expect(page.fetched).toBe(2);
+    });
+
+    it('maps works onto search results', async () => {
+      mockFetch({ '/works?': { body: fixture('openalex/works.json') } });
+
+      const page = await connector.search(query());
+
+      expect(page.total).toBe(5124);
+      expect(page.results[0]).toEqual({
+        id: 'W3092138467',
+        databaseId: 'openalex',
+        title: 'Genome-wide CRISPR screens in primary human T cells',
+        authors: [
+          {
+            name: 'Ralf Schmidt',
+            affiliation: 'University of California, San Francisco; Gladstone Institutes',
+            identifier: '0000-0002-6404-2318'
+          },
+          { name: 'Alexander Marson', affiliation: 'University of California, San Francisco', identifier: undefined }
+        ],
+        abstract: 'Regulatory T cells restrain effector T cells',
+        journal: { name: 'Science', volume: '375', issue: '6580', pages: 'eabj4008', identifier: '0036-8075' },
+        doi: '10.1126/science.abb7498',
+        publicationDate: new Date('2020-10-09T00:00:00Z'),
+        keywords: ['CRISPR screen'],
+        articleType: 'article',
+        language: 'en',
+        fullTextUrl: 'https://europepmc.org/articles/pmc7803524?pdf=render',
+        citationCount: 356,
+        metadata: {
+          openAlexId: 'W3092138467',
+          url: 'https://openalex.org/W3092138467',
+          doi: '10.1126/science.abb7498',
+          pmid: '33033223',
+          pmcid: '7803524',
+          isOpenAccess: true,
+          openAccessStatus: 'green',
+          license: 'cc-by',
+          publisher: 'American Association for the Advancement of Science',
+          concepts: [{ id: 'C98274493', name: 'CRISPR', level: 3, score: 0.91 }],
+          topics: [{
+            id: 'T10302',
+            name: 'CRISPR-Cas Gene Editing',
+            subfield: 'Molecular Biology',
+            field: 'Biochemistry, Genetics and Molecular Biology',
+            domain: 'Life Sciences',
+            score: 0.99
+          }],
+          primaryTopic: 'CRISPR-Cas Gene Editing',
+          institutions: [
+            { id: 'I180670191', name: 'University of California, San Francisco', ror: '043mz5j54', countryCode: 'US' },
+            { id: 'I4210128910', name: 'Gladstone Institutes', ror: '038321296', countryCode: 'US' }
+          ],
+          referencesCount: 64,
+          isRetracted: false
+        }
+      });
+      expect(page.results[1]).toMatchObject({
+        authors: [{ name: 'Kim Tran', affiliation: 'Broad Institute of MIT and Harvard, Cambridge, MA' }],
+        abstract: undefined,
+        journal: { name: 'bioRxiv (Cold Spring Harbor Laboratory)', identifier: undefined },
+        doi: undefined,
+        publicationDate: new Date('2022-01-01T00:00:00Z'),
+        fullTextUrl: 'https://www.biorxiv.org/content/10.1101/2022.03.01.482511',
+        metadata: { license: 'cc-by-nc' }
+      });
+    });
+
+    it('matches author, journal and institution names locally', async () => {
+      const requests = mockFetch({ '/works?': { body: fixture('openalex/works.json') } });
+
+      const byAuthor = await connector.search(query({ filters: { authors: ['marson'] } }));
+      const byJournal = await connector.search(query({ filters: { journals: ['Science'] } }));
+      const byInstitution = await connector.search(query({ filters: { institutions: ['I180670191', 'broad institute'] } }));
+
+      expect(byAuthor.results.map(result => result.id)).toEqual(['W3092138467']);
+      expect(byJournal.results.map(result => result.id)).toEqual(['W3092138467']);
+      // A name in the filter keeps it from being sent upstream
+      expect(byInstitution.results.map(result => result.id)).toEqual(['W3092138467', 'W4221234567']);
+      expect(requests[2].searchParams.get('filter')).toBe('title.search:screen,publication_year:2020-2022');
+      expect(byAuthor.fetched).toBe(2);
+    });
+
+    it('reports a 429 as a rate limit error', async () => {
+      mockFetch({ '/works?': { body: '', status: 429 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'openalex',
+        type: 'rate_limit'
+      });
+    });
+  });
+
+  it('fetches records by OpenAlex id with one filter', async () => {
+    const requests = mockFetch({ '/works?': { body: fixture('openalex/works.json') } });
+
+    const results = await connector.fetchRecords(['W3092138467', 'W4221234567']);
+
+    expect(requests[0].searchParams.get('filter')).toBe('openalex:W3092138467|W4221234567');
+    expect(requests[0].searchParams.get('per-page')).toBe('2');
+    expect(results).toHaveLength(2);
+  });
+
+  describe('fetchCitations', () => {
+    it('looks up other databases\' records by DOI before listing their references', async () => {
+      const requests = mockFetch({
+        'filter=doi%3A': { body: fixture('openalex/work-lookup.json') },
+        'filter=cited_by%3A': { body: fixture('openalex/works.json') }
+      });
+
+      const page = await connector.fetchCitations(
+        { databaseId: 'crossref', id: '10.1126/science.abb7498', doi: '10.1126/science.abb7498' },
+        'references',
+        10
+      );
+
+      expect(requests.map(url => url.searchParams.get('filter'))).toEqual([
+        'doi:10.1126/science.abb7498',
+        'cited_by:W3092138467'
+      ]);
+      expect(requests[1].searchParams.get('per-page')).toBe('10');
+      expect(page?.total).toBe(5124);
+      expect(page?.fetched).toBe(2);
+    });
+
+    it('lists citing works of its own records directly', async () => {
+      const requests = mockFetch({ 'filter=cites%3A': { body: fixture('openalex/works.json') } });
+
+      await connector.fetchCitations({ databaseId: 'openalex', id: 'W3092138467' }, 'citations', 500);
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].searchParams.get('filter')).toBe('cites:W3092138467');
+      expect(requests[0].searchParams.get('per-page')).toBe('200');
+    });
+
+    it('returns nothing for a record OpenAlex does not know', async () => {
+      mockFetch({ 'filter=ids.pmid%3A': { body: fixture('openalex/works-empty.json') } });
+
+      expect(await connector.fetchCitations({ databaseId: 'pubmed', id: '1', pmid: '1' }, 'citations', 10))
+        .toBeUndefined();
+      expect(await connector.fetchCitations({ databaseId: 'arxiv', id: '2001.00001' }, 'citations', 10))
+        .toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,226 @@
+// backend/src/services/search/databases/__tests__/pubmed.connector.test.ts
+import { SearchQuery } from '@thinkleap/shared/types/search';
+import { PubMedConnector } from '../pubmed/connector';
+import { createConnector, fixture, mockFetch } from './connector.helpers';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'crispr "t cell exhaustion"[tiab]',
+  pagination: { page: 1, limit: 2 },
+  ...overrides
+});
+
+describe('PubMedConnector', () => {
+  let connector: PubMedConnector;
+
+  beforeEach(() => {
+    connector = createConnector<PubMedConnector>('pubmed');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('searches with esearch, then fetches the records with efetch', async () => {
+      const requests = mockFetch({
+        'esearch.fcgi': { body: fixture('pubmed/esearch.json') },
+        'efetch.fcgi': { body: fixture('pubmed/efetch.xml') }
+      });
+
+      const page = await connector.search(query({ sortBy: 'date_desc' }));
+
+      expect(requests).toHaveLength(2);
+      expect(Object.fromEntries(requests[0].searchParams)).toMatchObject({
+        db: 'pubmed',
+        term: '((crispr AND "t cell exhaustion"[tiab]))',
+        retmax: '2',
+        retstart: '0',
+        usehistory: 'y',
+        sort: 'pub_date'
+      });
+      expect(requests[1].searchParams.get('id')).toBe('36608654,31042800');
+
+      expect(page.total).toBe(1482);
+      expect(page.fetched).toBe(2);
+      expect(page.state).toEqual({ webenv: 'MCID_6650f1a2b6c1e43c1b0a7d2e', queryKey: '1', count: '1482' });
+      expect(page.results.map(result => result.id)).toEqual(['36608654', '31042800']);
+    });
+
+    it('maps MEDLINE records onto search results', async () => {
+      mockFetch({
+        'esearch.fcgi': { body: fixture('pubmed/esearch.json') },
+        'efetch.fcgi': { body: fixture('pubmed/efetch.xml') }
+      });
+
+      const [article, retracted] = (await connector.search(query())).results;
+
+      expect(article).toMatchObject({
+        id: '36608654',
+        databaseId: 'pubmed',
+        title: 'In vivo CRISPR screens identify regulators of Tox-driven T cell exhaustion.',
+        authors: [
+          {
+            name: 'Belk Julia A',
+            affiliation: 'Department of Genetics, Stanford University, Stanford, CA, USA.',
+            identifier: '0000-0002-1825-0097'
+          },
+          { name: 'Tumor Immunology Consortium' }
+        ],
+        abstract: 'BACKGROUND: Chronic antigen drives T cells into exhaustion & dysfunction.\n\n'
+          + 'RESULTS: Loss of Arid1a restored effector function.',
+        journal: { name: 'Cell', volume: '186', issue: '1', pages: '144-159.e18', identifier: '1097-4172' },
+        doi: '10.1016/j.cell.2022.12.002',
+        publicationDate: new Date('2023-01-05T00:00:00Z'),
+        keywords: ['CRISPR screens', 'T cell exhaustion'],
+        articleType: 'review',
+        language: 'en',
+        fullTextUrl: 'https://www.ncbi.nlm.nih.gov/pmc/articles/PMC9883018/'
+      });
+      expect(article.metadata).toMatchObject({
+        pmid: '36608654',
+        pmcid: 'PMC9883018',
+        retracted: false,
+        meshHeadings: [{
+          descriptor: 'T-Lymphocytes',
+          ui: 'D015316',
+          majorTopic: false,
+          qualifiers: [{ name: 'immunology', ui: 'Q000276', majorTopic: true }]
+        }]
+      });
+
+      expect(retracted).toMatchObject({
+        id: '31042800',
+        authors: [{ name: 'Scott Andrew C', affiliation: 'Memorial Sloan Kettering Cancer Center, New York, NY, USA.' }],
+        publicationDate: new Date('2019-07-01T00:00:00Z'),
+        articleType: 'journal article'
+      });
+      expect(retracted.metadata).toMatchObject({
+        retracted: true,
+        corrections: [{ type: 'RetractionIn', source: 'Nature. 2020 Jan;577(7790):E1', pmid: '31900000' }]
+      });
+    });
+
+    it('continues from the history server when the page carries its state', async () => {
+      const requests = mockFetch({ 'efetch.fcgi': { body: fixture('pubmed/efetch.xml') } });
+
+      const page = await connector.search(query(), {
+        offset: 20,
+        limit: 2,
+        state: { webenv: 'MCID_1', queryKey: '1', count: '1482' }
+      });
+
+      expect(requests).toHaveLength(1);
+      expect(Object.fromEntries(requests[0].searchParams)).toMatchObject({
+        WebEnv: 'MCID_1',
+        query_key: '1',
+        retstart: '20',
+        retmax: '2'
+      });
+      expect(page.total).toBe(1482);
+      expect(page.results).toHaveLength(2);
+    });
+
+    it('runs a fresh search when the history session has expired', async () => {
+      const requests = mockFetch({
+        'WebEnv=MCID_1': { body: 'Session expired', status: 400 },
+        'esearch.fcgi': { body: fixture('pubmed/esearch.json') },
+        'efetch.fcgi': { body: fixture('pubmed/efetch.xml') }
+      });
+
+      const page = await connector.search(query(), {
+        offset: 0,
+        limit: 2,
+        state: { webenv: 'MCID_1', queryKey: '1', count: '10' }
+      });
+
+      expect(requests.map(request => request.pathname.split('/').pop())).toEqual([
+        'efetch.fcgi',
+        'esearch.fcgi',
+        'efetch.fcgi'
+      ]);
+      expect(page.state?.webenv).toBe('MCID_6650f1a2b6c1e43c1b0a7d2e');
+    });
+
+    it('skips efetch when nothing matched', async () => {
+      const requests = mockFetch({ 'esearch.fcgi': { body: fixture('pubmed/esearch-empty.json') } });
+
+      expect(await connector.search(query({ term: 'zzqxv' }))).toEqual({
+        results: [],
+        total: 0,
+        fetched: 0,
+        state: undefined
+      });
+      expect(requests).toHaveLength(1);
+    });
+
+    it('adds filters to the search term', async () => {
+      const requests = mockFetch({ 'esearch.fcgi': { body: fixture('pubmed/esearch-empty.json') } });
+
+      await connector.search(query({
+        term: 'crispr',
+        filters: {
+          dateRange: { start: new Date('2020-01-01'), end: new Date('2022-12-31') },
+          authors: ['Belk JA'],
+          articleTypes: ['RCT'],
+          languages: ['en']
+        }
+      }));
+
+      expect(requests[0].searchParams.get('term')).toBe([
+        '(crispr)',
+        '("2020/01/01"[Date - Publication] : "2022/12/31"[Date - Publication])',
+        '("Belk JA"[Author])',
+        '("randomized controlled trial"[Publication Type])',
+        '("english"[Language])'
+      ].join(' AND '));
+    });
+
+    it('reports an upstream failure as a search error', async () => {
+      mockFetch({ 'esearch.fcgi': { body: 'Internal Server Error', status: 500 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'pubmed',
+        type: 'unknown',
+        retryable: true
+      });
+    });
+
+    it('reports a 429 as a rate limit error', async () => {
+      mockFetch({ 'esearch.fcgi': { body: '', status: 429, headers: { 'Retry-After': '2' } } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'pubmed',
+        type: 'rate_limit',
+        message: 'PubMed rate limit exceeded'
+      });
+    });
+  });
+
+  it('fetches the works citing a record through elink', async () => {
+    const requests = mockFetch({
+      'elink.fcgi': { body: fixture('pubmed/elink-citedin.json') },
+      'efetch.fcgi': { body: fixture('pubmed/efetch.xml') }
+    });
+
+    const page = await connector.fetchCitations({ databaseId: 'pubmed', id: '29070000' }, 'citations', 2);
+
+    expect(requests[0].searchParams.get('linkname')).toBe('pubmed_pubmed_citedin');
+    expect(requests[1].searchParams.get('id')).toBe('36608654,31042800');
+    expect(page).toMatchObject({ total: 3, fetched: 2 });
+  });
+
+  it('scores similar articles relative to the record\'s score against itself', async () => {
+    mockFetch({
+      'elink.fcgi': { body: fixture('pubmed/elink-neighbors.json') },
+      'efetch.fcgi': { body: fixture('pubmed/efetch.xml') }
+    });
+
+    const similar = await connector.findSimilar('29070000', 5);
+
+    expect(similar?.method).toBe('neighbors');
+    expect(similar?.results.map(({ result, score }) => [result.id, score])).toEqual([
+      ['36608654', 0.75],
+      ['31042800', 0.25]
+    ]);
+  });
+});
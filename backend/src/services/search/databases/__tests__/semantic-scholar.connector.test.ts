@@ -0,0 +1,183 @@
+// backend/src/services/search/databases/__tests__/semantic-scholar.connector.test.ts
+import { SearchQuery } from '@thinkleap/shared/types/search';
+import { SemanticScholarConnector } from '../semantic-scholar/connector';
+import { createConnector, fixture, mockFetch } from './connector.helpers';
+
+const query = (overrides: Partial<SearchQuery> = {}): SearchQuery => ({
+  term: 'array programming year:2019-2021',
+  pagination: { page: 1, limit: 2 },
+  ...overrides
+});
+
+describe('SemanticScholarConnector', () => {
+  let connector: SemanticScholarConnector;
+
+  beforeEach(() => {
+    connector = createConnector<SemanticScholarConnector>('semantic-scholar');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('sends keywords, the narrowed date range, filters and paging as parameters', async () => {
+      const requests = mockFetch({ '/paper/search?': { body: fixture('semantic-scholar/search.json') } });
+
+      await connector.search(query({
+        filters: {
+          dateRange: { start: new Date('2020-03-01'), end: new Date('2024-12-31') },
+          journals: ['Nature'],
+          articleTypes: ['Review', 'systematic review', 'Preprint']
+        }
+      }), { offset: 200, limit: 250 });
+
+      const params = Object.fromEntries(requests[0].searchParams);
+      expect(params).toEqual({
+        query: 'array programming',
+        publicationDateOrYear: '2020-03-01:2021-12-31',
+        venue: 'Nature',
+        publicationTypes: 'Review',
+        offset: '200',
+        limit: '100',
+        fields: expect.stringContaining('externalIds')
+      });
+    });
+
+    it('sends the API key as a header', async () => {
+      connector = createConnector<SemanticScholarConnector>('semantic-scholar', { auth: { apiKey: 'test-key' } });
+      mockFetch({ '/paper/search?': { body: fixture('semantic-scholar/search.json') } });
+
+      await connector.search(query());
+
+      const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+      expect(init.headers).toMatchObject({ 'x-api-key': 'test-key' });
+    });
+
+    it('maps papers onto search results', async () => {
+      mockFetch({ '/paper/search?': { body: fixture('semantic-scholar/search.json') } });
+
+      const page = await connector.search(query());
+
+      expect(page.total).toBe(2841);
+      expect(page.fetched).toBe(2);
+      expect(page.results[0]).toEqual({
+        id: '5c5751d45e298cea054f32b392c12c61027d2fe7',
+        databaseId: 'semantic-scholar',
+        title: 'Array programming with NumPy',
+        authors: [{ name: 'Charles R. Harris' }, { name: 'K. Millman' }],
+        abstract: expect.stringMatching(/^Array programming provides/),
+        publicationDate: new Date('2020-09-16T00:00:00Z'),
+        journal: { name: 'Nature', volume: '585', pages: '357 - 362' },
+        doi: '10.1038/s41586-020-2649-2',
+        keywords: ['Computer Science', 'Medicine', 'Mathematics'],
+        articleType: 'JournalArticle',
+        fullTextUrl: 'https://www.nature.com/articles/s41586-020-2649-2.pdf',
+        citationCount: 11804,
+        metadata: {
+          semanticScholarId: '5c5751d45e298cea054f32b392c12c61027d2fe7',
+          url: 'https://www.semanticscholar.org/paper/5c5751d45e298cea054f32b392c12c61027d2fe7',
+          pmid: '32939066',
+          pmcid: '7759461',
+          arxivId: undefined,
+          influentialCitationCount: 482,
+          referenceCount: 66,
+          isOpenAccess: true,
+          openAccessStatus: 'HYBRID',
+          fieldsOfStudy: ['Computer Science', 'Medicine', 'Mathematics'],
+          authorIds: ['2061489633', '1689355']
+        }
+      });
+    });
+
+    it('falls back to the venue and publication year when a paper has no journal or date', async () => {
+      mockFetch({ '/paper/search?': { body: fixture('semantic-scholar/search.json') } });
+
+      const [, paper] = (await connector.search(query())).results;
+
+      expect(paper).toMatchObject({
+        abstract: undefined,
+        journal: { name: 'Neural Information Processing Systems' },
+        publicationDate: new Date('2019-01-01T00:00:00Z'),
+        articleType: undefined,
+        fullTextUrl: undefined,
+        metadata: { arxivId: '1912.01703', authorIds: ['3407277', null] }
+      });
+    });
+
+    it('matches the author filter against the fetched papers', async () => {
+      mockFetch({ '/paper/search?': { body: fixture('semantic-scholar/search.json') } });
+
+      const page = await connector.search(query({ filters: { authors: ['paszke'] } }));
+
+      expect(page.results.map(result => result.title)).toEqual([
+        'PyTorch: An Imperative Style, High-Performance Deep Learning Library'
+      ]);
+      expect(page.fetched).toBe(2);
+    });
+
+    it('reports a rejected API key as an auth error', async () => {
+      mockFetch({ '/paper/search?': { body: '', status: 403 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'semantic-scholar',
+        type: 'auth',
+        retryable: false
+      });
+    });
+
+    it('reports a 429 as a rate limit error', async () => {
+      mockFetch({ '/paper/search?': { body: '', status: 429 } });
+
+      await expect(connector.search(query())).rejects.toMatchObject({
+        source: 'semantic-scholar',
+        type: 'rate_limit'
+      });
+    });
+  });
+
+  it('fetches records in one batch and skips unknown ids', async () => {
+    const requests = mockFetch({ '/paper/batch?': { body: fixture('semantic-scholar/batch.json') } });
+
+    const results = await connector.fetchRecords(['5c5751d45e298cea054f32b392c12c61027d2fe7', 'unknown']);
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(requests).toHaveLength(1);
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({ ids: ['5c5751d45e298cea054f32b392c12c61027d2fe7', 'unknown'] });
+    expect(results.map(result => result.id)).toEqual(['5c5751d45e298cea054f32b392c12c61027d2fe7']);
+  });
+
+  describe('fetchCitations', () => {
+    it('addresses other databases\' records by DOI and takes the total from the paper', async () => {
+      const requests = mockFetch({
+        '/references?': { body: fixture('semantic-scholar/references.json') },
+        'fields=citationCount,referenceCount': { body: fixture('semantic-scholar/paper-counts.json') }
+      });
+
+      const page = await connector.fetchCitations(
+        { databaseId: 'crossref', id: '10.1038/s41586-020-2649-2', doi: '10.1038/s41586-020-2649-2' },
+        'references',
+        10
+      );
+
+      expect(requests.map(url => url.pathname)).toEqual([
+        '/graph/v1/paper/DOI:10.1038/s41586-020-2649-2',
+        '/graph/v1/paper/DOI:10.1038/s41586-020-2649-2/references'
+      ]);
+      // The unmatched reference is dropped but still counted as fetched
+      expect(page?.results.map(result => result.doi)).toEqual(['10.1109/MCSE.2011.37']);
+      expect(page?.total).toBe(66);
+      expect(page?.fetched).toBe(2);
+    });
+
+    it('returns nothing for an unknown paper or one without an external id', async () => {
+      mockFetch({ '/paper/': { body: '', status: 404 } });
+
+      expect(await connector.fetchCitations({ databaseId: 'semantic-scholar', id: 'missing' }, 'citations', 10))
+        .toBeUndefined();
+      expect(await connector.fetchCitations({ databaseId: 'arxiv', id: '1912.01703' }, 'citations', 10))
+        .toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,249 @@
+// backend/src/services/search/databases/arxiv/connector.ts
+import { XMLParser } from 'fast-xml-parser';
+import { BaseDatabaseConnector, formatFilterDate } from '../base.connector';
+import { SearchFilters, SearchQuery, SearchResult, SortOrder, Author } from '@thinkleap/shared/types/search';
+import { Logger } from '../../../logger';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import { ArxivConfig, ArxivFeed, ArxivEntry } from './types';
+import { SearchError, ConnectorPageRequest, ConnectorSearchResult } from '../types';
+import { CompiledQuery } from '../../query';
+import { ArxivQueryCompiler } from './query.compiler';
+
+// `sortBy` and `sortOrder` of each sort order; results are dated by their first submission
+const SORT_PARAMS: Partial<Record<SortOrder, { sortBy: string; sortOrder: string }>> = {
+  relevance: { sortBy: 'relevance', sortOrder: 'descending' },
+  date_desc: { sortBy: 'submittedDate', sortOrder: 'descending' },
+  date_asc: { sortBy: 'submittedDate', sortOrder: 'ascending' }
+};
+
+export class ArxivConnector extends BaseDatabaseConnector {
+  private readonly parser: XMLParser;
+  private readonly baseUrl: string;
+  protected readonly supportedFilters: Array<keyof SearchFilters> = ['dateRange', 'authors', 'journals', 'categories'];
+  protected readonly supportedSorts = Object.keys(SORT_PARAMS) as SortOrder[];
+  private readonly queryCompiler = new ArxivQueryCompiler();
+
+  constructor(
+    config: ArxivConfig,
+    logger: Logger,
+    cacheService: ICache,
+    rateLimiter: IOutboundRateLimiter
+  ) {
+    super(config, logger, cacheService, rateLimiter);
+    this.parser = new XMLParser({
+      // arXiv repeats namespace declarations on elements such as opensearch:totalResults and
+      // arxiv:doi; kept, they would turn those text elements into objects
+      ignoreAttributes: [/^xmlns/],
+      parseTagValue: false,
+      isArray: name => ['entry', 'author', 'link', 'category'].includes(name)
+    });
+    this.baseUrl = config.baseUrl;
+  }
+
+  translateQuery(query: SearchQuery): CompiledQuery {
+    return this.buildSearchQuery(query);
+  }
+
+  async validateAccess(): Promise<boolean> {
+    // arXiv is openly accessible
+    return true;
+  }
+
+  async authenticate(): Promise<void> {
+    // No authentication needed
+  }
+
+  async search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult> {
+    try {
+      const feed = await this.queryFeed(query, this.resolvePage(query, page));
+      const entries = this.toArray(feed.feed.entry);
+
+      return {
+        results: entries.map(entry => this.transformEntry(entry)),
+        total: parseInt(feed.feed['opensearch:totalResults'] || '0', 10),
+        fetched: entries.length
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchRecords(ids: string[]): Promise<SearchResult[]> {
+    try {
+      const params = new URLSearchParams({
+        id_list: ids.join(','),
+        max_results: ids.length.toString()
+      });
+      const feed = await this.requestFeed(params);
+      return this.toArray(feed.feed.entry).map(entry => this.transformEntry(entry));
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async countResults(query: SearchQuery): Promise<number> {
+    try {
+      // max_results=0 returns only the feed header with the total
+      const feed = await this.queryFeed(query, { offset: 0, limit: 0 });
+      return parseInt(feed.feed['opensearch:totalResults'] || '0', 10);
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  private async queryFeed(query: SearchQuery, page: ConnectorPageRequest): Promise<ArxivFeed> {
+    const params = new URLSearchParams({
+      search_query: this.buildSearchQuery(query).query,
+      start: page.offset.toString(),
+      max_results: page.limit.toString(),
+      ...SORT_PARAMS[this.upstreamSort(query)]
+    });
+
+    return this.requestFeed(params);
+  }
+
+  private async requestFeed(params: URLSearchParams): Promise<ArxivFeed> {
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/query?${params}`);
+      if (res.status === 429 || res.status === 503) {
+        throw new Error('arXiv rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (!response.ok) {
+      throw new Error(`arXiv search failed: ${response.statusText}`);
+    }
+
+    const xml = await response.text();
+    return this.parser.parse(xml);
+  }
+
+  /**
+   * Build an arXiv `search_query` expression from the term and filters
+   */
+  private buildSearchQuery(query: SearchQuery): CompiledQuery {
+    const { query: term, warnings } = this.queryCompiler.compile(this.parseTerm(query));
+    const terms = [term];
+
+    if (query.filters?.categories?.length) {
+      terms.push(`(${query.filters.categories.map(category =>
+        `cat:${category}`
+      ).join(' OR ')})`);
+    }
+
+    if (query.filters?.authors?.length) {
+      terms.push(`(${query.filters.authors.map(author =>
+        `au:"${author}"`
+      ).join(' OR ')})`);
+    }
+
+    if (query.filters?.journals?.length) {
+      terms.push(`(${query.filters.journals.map(journal =>
+        `jr:"${journal}"`
+      ).join(' OR ')})`);
+    }
+
+    if (query.filters?.dateRange) {
+      const { start, end } = query.filters.dateRange;
+      if (start || end) {
+        // arXiv writes submission dates as YYYYMMDDHHMM
+        const from = start ? formatFilterDate(start).replace(/-/g, '') : '19910101';
+        const to = formatFilterDate(end || new Date()).replace(/-/g, '');
+        terms.push(`submittedDate:[${from}0000 TO ${to}2359]`);
+      }
+    }
+
+    return { query: terms.join(' AND '), warnings };
+  }
+
+  private transformEntry(entry: ArxivEntry): SearchResult {
+    // Entry ids look like http://arxiv.org/abs/2101.00001v2
+    const absId = entry.id.replace(/^https?:\/\/arxiv\.org\/abs\//, '');
+    const versionMatch = absId.match(/^(.+?)(v(\d+))?$/);
+    const arxivId = versionMatch?.[1] || absId;
+    const version = versionMatch?.[3] ? parseInt(versionMatch[3], 10) : undefined;
+
+    const authors: Author[] = this.toArray(entry.author).map(author => {
+      const affiliation = author['arxiv:affiliation'];
+      return {
+        name: author.name,
+        affiliation: Array.isArray(affiliation) ? affiliation.join('; ') : affiliation
+      };
+    });
+
+    const links = this.toArray(entry.link);
+    const pdfLink = links.find(link => link['@_title'] === 'pdf')?.['@_href'];
+    const absLink = links.find(link => link['@_rel'] === 'alternate')?.['@_href'];
+
+    const categories = this.toArray(entry.category).map(category => category['@_term']);
+    const primaryCategory = entry['arxiv:primary_category']?.['@_term'] || categories[0];
+
+    return {
+      id: arxivId,
+      databaseId: this.id,
+      title: this.normalizeWhitespace(entry.title),
+      authors,
+      abstract: entry.summary ? this.normalizeWhitespace(entry.summary) : undefined,
+      publicationDate: entry.published ? new Date(entry.published) : undefined,
+      doi: entry['arxiv:doi'],
+      keywords: categories,
+      articleType: 'preprint',
+      fullTextUrl: pdfLink,
+      metadata: {
+        arxivId,
+        version,
+        primaryCategory,
+        categories,
+        absUrl: absLink,
+        updated: entry.updated,
+        journalRef: entry['arxiv:journal_ref'],
+        comment: entry['arxiv:comment']
+      }
+    };
+  }
+
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (!value) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  protected transformError(error: unknown): SearchError {
+    if (this.isSearchError(error)) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('rate limit')) {
+        return {
+          name: 'RateLimitError',
+          message: 'arXiv rate limit exceeded',
+          type: 'rate_limit',
+          retryable: true,
+          source: this.id
+        };
+      }
+
+      return {
+        name: error.name,
+        message: error.message,
+        type: 'unknown',
+        retryable: true,
+        source: this.id
+      };
+    }
+
+    return {
+      name: 'UnknownError',
+      message: 'An unknown error occurred',
+      type: 'unknown',
+      retryable: false,
+      source: this.id
+    };
+  }
+}
@@ -0,0 +1,35 @@
+// backend/src/services/search/databases/arxiv/query.compiler.ts
+import { QueryPhraseNode, QueryTermNode, QueryYearNode } from '@thinkleap/shared/types/query';
+import { BooleanQueryCompiler } from '../../query';
+
+const FIELD_PREFIXES: Record<NonNullable<QueryTermNode['field']>, string> = {
+  title: 'ti',
+  abstract: 'abs',
+  author: 'au',
+  journal: 'jr'
+};
+
+/**
+ * Compiles the shared query AST into an arXiv `search_query` expression
+ */
+export class ArxivQueryCompiler extends BooleanQueryCompiler {
+  protected readonly source = 'arXiv';
+  protected readonly andNot = 'ANDNOT';
+
+  protected term(node: QueryTermNode, warnings: Set<string>): string {
+    return `${this.prefix(node)}:${this.withoutWildcards(node, warnings)}`;
+  }
+
+  protected phrase(node: QueryPhraseNode, warnings: Set<string>): string {
+    this.ignoreProximity(node, warnings);
+    return `${this.prefix(node)}:"${node.value}"`;
+  }
+
+  protected year(node: QueryYearNode): string {
+    return `submittedDate:[${node.from}01010000 TO ${node.to}12312359]`;
+  }
+
+  private prefix(node: QueryTermNode | QueryPhraseNode): string {
+    return node.field ? FIELD_PREFIXES[node.field] : 'all';
+  }
+}
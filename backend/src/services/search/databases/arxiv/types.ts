@@ -0,0 +1,45 @@
+// backend/src/services/search/databases/arxiv/types.ts
+import { DatabaseConfig } from '../types';
+
+export type ArxivConfig = DatabaseConfig;
+
+export interface ArxivLink {
+  '@_href': string;
+  '@_rel'?: string;
+  '@_type'?: string;
+  '@_title'?: string;
+}
+
+export interface ArxivCategory {
+  '@_term': string;
+  '@_scheme'?: string;
+}
+
+export interface ArxivAuthor {
+  name: string;
+  'arxiv:affiliation'?: string | string[];
+}
+
+export interface ArxivEntry {
+  id: string;
+  updated: string;
+  published: string;
+  title: string;
+  summary: string;
+  author?: ArxivAuthor | ArxivAuthor[];
+  link?: ArxivLink | ArxivLink[];
+  category?: ArxivCategory | ArxivCategory[];
+  'arxiv:primary_category'?: ArxivCategory;
+  'arxiv:doi'?: string;
+  'arxiv:journal_ref'?: string;
+  'arxiv:comment'?: string;
+}
+
+export interface ArxivFeed {
+  feed: {
+    'opensearch:totalResults'?: string;
+    'opensearch:startIndex'?: string;
+    'opensearch:itemsPerPage'?: string;
+    entry?: ArxivEntry | ArxivEntry[];
+  };
+}
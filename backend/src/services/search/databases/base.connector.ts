@@ -1,23 +1,217 @@
 // backend/src/services/search/databases/base.connector.ts
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { Logger } from '../../../services/logger';
-import { CacheService } from '../../../services/cache';
-import { SearchQuery, SearchResult } from '@thinkleap/shared/types/search';
-import { DatabaseConfig, SearchError } from './types';
+import { ICache } from '../../../services/cache';
+import { IOutboundRateLimiter } from '../../../services/rate-limit';
+import { SearchFilters, SearchQuery, SearchResult, SortOrder } from '@thinkleap/shared/types/search';
+import { QueryNode } from '@thinkleap/shared/types/query';
+import {
+  CitationDirection,
+  RecordDetail,
+  RecordIdentifier,
+  SimilarArticlesResponse
+} from '@thinkleap/shared/types/record';
+import { parseQuery } from '@thinkleap/shared/utils/query-parser';
+import { CompiledQuery } from '../query';
+import { SearchRankingService } from '../ranking.service';
+import {
+  AuthType,
+  DatabaseConfig,
+  DatabaseFeatures,
+  SearchError,
+  ConnectorPageRequest,
+  ConnectorSearchResult,
+  ConnectorTelemetry,
+  CitationTarget
+} from './types';
+
+// Used when a 429 comes without a usable Retry-After header
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+// Resolver links by identifier type; native ids are typed by their database id
+const IDENTIFIER_URLS: Record<string, string> = {
+  doi: 'https://doi.org/',
+  pmid: 'https://pubmed.ncbi.nlm.nih.gov/',
+  pmcid: 'https://www.ncbi.nlm.nih.gov/pmc/articles/',
+  orcid: 'https://orcid.org/',
+  arxiv: 'https://arxiv.org/abs/',
+  clinicaltrials: 'https://clinicaltrials.gov/study/',
+  openalex: 'https://openalex.org/',
+  'semantic-scholar': 'https://www.semanticscholar.org/paper/'
+};
+
+// Similar articles returned when the caller doesn't ask for a number
+const DEFAULT_SIMILAR_LIMIT = 10;
+
+// The TF-IDF fallback searches on this many of the record's key terms and re-ranks this many hits
+const SIMILARITY_QUERY_TERMS = 8;
+const SIMILARITY_CANDIDATES = 50;
+
+const similarityRanking = new SearchRankingService();
+
+// Telemetry of the connector call currently running, so concurrent searches don't share counters
+const telemetryStorage = new AsyncLocalStorage<ConnectorTelemetry>();
+
+/**
+ * `YYYY-MM-DD` of a date filter bound. Bounds read from a query string can be any text,
+ * so one that isn't a date is rejected as an invalid query.
+ */
+export function formatFilterDate(value: Date | string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid query: '${String(value)}' is not a date`);
+  }
+  return date.toISOString().split('T')[0];
+}
 
 export abstract class BaseDatabaseConnector {
   protected constructor(
     protected readonly config: DatabaseConfig,
     protected readonly logger: Logger,
-    protected readonly cacheService: CacheService
+    protected readonly cacheService: ICache,
+    protected readonly rateLimiter: IOutboundRateLimiter
   ) {}
 
-  abstract get name(): string;
+  /**
+   * Filters this database honors, upstream or by matching results locally
+   */
+  protected abstract readonly supportedFilters: Array<keyof SearchFilters>;
+
+  /**
+   * Sort orders this database applies upstream. Results of any other order come back
+   * in relevance order and are only re-sorted within the fetched pages.
+   */
+  protected readonly supportedSorts: SortOrder[] = ['relevance'];
+
+  get id(): string {
+    return this.config.id;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  get authType(): AuthType {
+    return this.config.authType;
+  }
+
+  get features(): DatabaseFeatures {
+    return this.config.features;
+  }
+
+  get timeout(): number | undefined {
+    return this.config.timeout;
+  }
+
+  /**
+   * Perform a search against the database.
+   * When no page window is given, the window is derived from `query.pagination`.
+   */
+  abstract search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult>;
+
+  /**
+   * Translate the query, filters included, into what is sent to this database,
+   * with warnings for anything in `query.term` that couldn't be expressed exactly
+   */
+  abstract translateQuery(query: SearchQuery): CompiledQuery;
+
+  /**
+   * Count the matches of a query without fetching records.
+   * Undefined for databases without a count-only request.
+   */
+  async countResults(_query: SearchQuery): Promise<number | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Whether this database can return its results in the given order
+   */
+  supportsSort(sortBy: SortOrder): boolean {
+    return this.supportedSorts.includes(sortBy);
+  }
+
+  /**
+   * The order to request upstream: the query's, or relevance when this database can't sort by it
+   */
+  protected upstreamSort(query: SearchQuery): SortOrder {
+    return query.sortBy && this.supportsSort(query.sortBy) ? query.sortBy : 'relevance';
+  }
+
+  /**
+   * Split the filters set on a query into those this database applies and those it ignores
+   */
+  describeFilters(query: SearchQuery): { applied: Array<keyof SearchFilters>; dropped: Array<keyof SearchFilters> } {
+    const filters = query.filters || {};
+    const set = (Object.keys(filters) as Array<keyof SearchFilters>).filter(name => {
+      const value = filters[name];
+      if (Array.isArray(value)) return value.length > 0;
+      if (name === 'dateRange') return Boolean(filters.dateRange?.start || filters.dateRange?.end);
+      return value !== undefined;
+    });
+
+    return {
+      applied: set.filter(name => this.supportedFilters.includes(name)),
+      dropped: set.filter(name => !this.supportedFilters.includes(name))
+    };
+  }
 
   /**
-   * Perform a search against the database
+   * Fetch full records by their ids in this database. Ids that no longer resolve are skipped.
    */
-  abstract search(query: SearchQuery): Promise<SearchResult[]>;
+  abstract fetchRecords(ids: string[]): Promise<SearchResult[]>;
+
+  /**
+   * Fetch one record with everything the database holds on it. Null when the id doesn't resolve.
+   */
+  async getRecord(id: string): Promise<RecordDetail | null> {
+    const [result] = await this.fetchRecords([id]);
+    return result ? this.describeRecord(result) : null;
+  }
+
+  /**
+   * Works the target cites (`references`) or that cite it (`citations`), at most `limit` of them.
+   * Undefined when this database has no citation data in that direction or can't resolve the target.
+   */
+  async fetchCitations(
+    _target: CitationTarget,
+    _direction: CitationDirection,
+    _limit: number
+  ): Promise<ConnectorSearchResult | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Records most like the given one, best match first. Null when the id doesn't resolve.
+   * Connectors without a recommendation API search on the record's key terms and
+   * re-rank the hits by TF-IDF similarity.
+   */
+  async findSimilar(recordId: string, limit = DEFAULT_SIMILAR_LIMIT): Promise<SimilarArticlesResponse | null> {
+    const [record] = await this.fetchRecords([recordId]);
+    if (!record) return null;
+
+    const response: SimilarArticlesResponse = { databaseId: this.id, id: recordId, method: 'tf-idf', results: [] };
+    const terms = similarityRanking.keyTerms(record, SIMILARITY_QUERY_TERMS);
+    if (!terms.length) return response;
+
+    const { results } = await this.search(
+      { term: terms.join(' OR '), pagination: { page: 1, limit: SIMILARITY_CANDIDATES } },
+      { offset: 0, limit: SIMILARITY_CANDIDATES }
+    );
+    const doi = record.doi?.toLowerCase();
+    const candidates = results.filter(result =>
+      result.id !== record.id && !(doi && result.doi?.toLowerCase() === doi)
+    );
+    const scores = similarityRanking.scoreSimilarity(record, candidates);
+
+    response.results = candidates
+      .map(result => ({ result, score: scores.get(result) || 0 }))
+      .filter(similar => similar.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    return response;
+  }
 
   /**
    * Check if this database connector is enabled and available
@@ -41,6 +235,160 @@ export abstract class BaseDatabaseConnector {
    */
   protected abstract transformError(error: unknown): SearchError;
 
+  /**
+   * Check whether an error has already been transformed by a connector
+   */
+  protected isSearchError(error: unknown): error is SearchError {
+    return typeof error === 'object'
+      && error !== null
+      && 'source' in error
+      && 'retryable' in error;
+  }
+
+  /**
+   * Widen a fetched record into a RecordDetail; connectors with richer records add to it
+   */
+  protected describeRecord(result: SearchResult): RecordDetail {
+    return {
+      ...result,
+      authors: result.authors.map(author => ({
+        ...author,
+        affiliations: author.affiliation ? [author.affiliation] : []
+      })),
+      identifiers: this.identifiers({
+        [result.databaseId]: result.id !== result.doi ? result.id : undefined,
+        doi: result.doi,
+        pmid: typeof result.metadata.pmid === 'string' ? result.metadata.pmid : undefined,
+        pmcid: typeof result.metadata.pmcid === 'string' ? result.metadata.pmcid : undefined,
+        issn: result.journal?.identifier
+      })
+    };
+  }
+
+  /**
+   * Identifiers with their resolver links, skipping unset values
+   */
+  protected identifiers(values: Record<string, string | undefined>): RecordIdentifier[] {
+    return Object.keys(values)
+      .filter(type => values[type])
+      .map(type => ({
+        type,
+        value: values[type]!,
+        url: IDENTIFIER_URLS[type] ? `${IDENTIFIER_URLS[type]}${values[type]}` : undefined
+      }));
+  }
+
+  /**
+   * Parse `query.term`. A query that only excludes terms is searched as typed.
+   */
+  protected parseTerm(query: SearchQuery): QueryNode {
+    return parseQuery(query.term).ast || { type: 'term', value: query.term };
+  }
+
+  /**
+   * Render request parameters as readable text, for showing a translated query
+   */
+  protected describeParams(params: URLSearchParams): string {
+    return Array.from(params.entries()).map(([key, value]) => `${key}=${value}`).join('&');
+  }
+
+  /**
+   * Resolve the upstream window to request for a search
+   */
+  protected resolvePage(query: SearchQuery, page?: ConnectorPageRequest): ConnectorPageRequest {
+    return page || {
+      offset: (query.pagination.page - 1) * query.pagination.limit,
+      limit: query.pagination.limit
+    };
+  }
+
+  /**
+   * Run a connector call, adding what its upstream requests cost to `telemetry`.
+   * The counters are filled in even when the call fails.
+   */
+  track<T>(telemetry: ConnectorTelemetry, operation: () => Promise<T>): Promise<T> {
+    return telemetryStorage.run(telemetry, operation);
+  }
+
+  /**
+   * Send an upstream request once the outbound rate limit allows it.
+   * A 429 holds back every request to this database for as long as upstream asks.
+   */
+  protected async request(url: string, init?: RequestInit): Promise<Response> {
+    await this.throttle();
+
+    const response = await fetch(url, init);
+    const telemetry = telemetryStorage.getStore();
+    if (telemetry) {
+      telemetry.requests++;
+    }
+
+    if (response.status === 429) {
+      const retryAfterMs = this.parseRetryAfter(response.headers.get('retry-after'));
+      if (telemetry) {
+        telemetry.rateLimited++;
+      }
+      this.logger.warn(`${this.name} answered 429`, { retryAfterMs });
+
+      try {
+        await this.rateLimiter.pause(this.config.id, retryAfterMs);
+      } catch (error) {
+        this.logger.warn('Failed to pause outbound rate limiter', {
+          database: this.config.id,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Wait for a token from this database's bucket. Requests queue rather than fail;
+   * if the limiter itself is unavailable they go out unthrottled.
+   */
+  private async throttle(): Promise<void> {
+    const rateLimit = this.config.rateLimit;
+    if (!rateLimit?.requestsPerSecond) return;
+
+    let wait = 0;
+    try {
+      wait = await this.rateLimiter.reserve(this.config.id, {
+        requestsPerSecond: rateLimit.requestsPerSecond,
+        burstLimit: rateLimit.burstLimit ?? Math.max(1, Math.floor(rateLimit.requestsPerSecond))
+      });
+    } catch (error) {
+      this.logger.warn('Outbound rate limiter unavailable', {
+        database: this.config.id,
+        error: (error as Error).message
+      });
+      return;
+    }
+
+    if (wait > 0) {
+      const telemetry = telemetryStorage.getStore();
+      if (telemetry) {
+        telemetry.queueWaitMs += wait;
+      }
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  /**
+   * Retry-After is either a number of seconds or an HTTP date
+   */
+  private parseRetryAfter(header: string | null): number {
+    if (!header) return DEFAULT_RETRY_AFTER_MS;
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return isNaN(date) ? DEFAULT_RETRY_AFTER_MS : Math.max(0, date - Date.now());
+  }
+
   /**
    * Generate a cache key for a specific search query
    */
@@ -0,0 +1,145 @@
+// backend/src/services/search/databases/circuit-breaker.ts
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  windowMs: number;  // Outcomes older than this no longer count towards the error rate
+  minimumRequests: number;  // Outcomes needed in the window before the circuit can trip
+  errorThreshold: number;  // Error rate (0-1) at which the circuit opens
+  openMs: number;  // How long an open circuit rejects requests before a trial is let through
+}
+
+export interface CircuitHealth {
+  state: CircuitState;
+  errorRate: number;
+  requests: number;  // Outcomes in the current window
+  latencyMs?: number;  // Mean latency of the outcomes in the window
+  openedAt?: string;
+  retryAt?: string;  // When an open circuit will let a trial request through
+}
+
+interface Outcome {
+  at: number;
+  success: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Tracks a rolling error rate for one connector and stops sending it work while it is failing.
+ *
+ * closed: requests flow; the circuit opens once the error rate crosses the threshold.
+ * open: requests are rejected until `openMs` has passed.
+ * half-open: one trial request is let through; its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private outcomes: Outcome[] = [];
+  private openedAt = 0;
+  private trialStartedAt?: number;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether a request may go out now. In half-open state this claims the single trial slot.
+   */
+  allowRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.openMs) {
+      this.state = 'half-open';
+      this.trialStartedAt = undefined;
+    }
+
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') return false;
+
+    // A trial that never reported back (e.g. the connector was filtered out afterwards) expires
+    if (this.trialStartedAt !== undefined && Date.now() - this.trialStartedAt < this.options.openMs) {
+      return false;
+    }
+
+    this.trialStartedAt = Date.now();
+    return true;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.record(true, latencyMs);
+
+    if (this.state === 'half-open') {
+      this.close();
+    }
+  }
+
+  recordFailure(latencyMs: number): void {
+    this.record(false, latencyMs);
+
+    if (this.state === 'half-open') {
+      this.open();
+      return;
+    }
+
+    if (this.state === 'closed') {
+      const { requests, errorRate } = this.stats();
+      if (requests >= this.options.minimumRequests && errorRate >= this.options.errorThreshold) {
+        this.open();
+      }
+    }
+  }
+
+  getHealth(): CircuitHealth {
+    // Report an expired open circuit as half-open without claiming the trial slot
+    const state = this.state === 'open' && Date.now() - this.openedAt >= this.options.openMs
+      ? 'half-open'
+      : this.state;
+    const { requests, errorRate, latencyMs } = this.stats();
+
+    return {
+      state,
+      errorRate,
+      requests,
+      latencyMs,
+      openedAt: state === 'closed' ? undefined : new Date(this.openedAt).toISOString(),
+      retryAt: state === 'open' ? new Date(this.openedAt + this.options.openMs).toISOString() : undefined
+    };
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.trialStartedAt = undefined;
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.trialStartedAt = undefined;
+    // Failures from before the outage shouldn't trip the circuit again straight away
+    this.outcomes = this.outcomes.filter(outcome => outcome.success);
+  }
+
+  private record(success: boolean, latencyMs: number): void {
+    this.prune();
+    this.outcomes.push({ at: Date.now(), success, latencyMs });
+  }
+
+  private stats(): { requests: number; errorRate: number; latencyMs?: number } {
+    this.prune();
+
+    const requests = this.outcomes.length;
+    if (!requests) {
+      return { requests, errorRate: 0 };
+    }
+
+    const failures = this.outcomes.filter(outcome => !outcome.success).length;
+    const totalLatency = this.outcomes.reduce((sum, outcome) => sum + outcome.latencyMs, 0);
+    return {
+      requests,
+      errorRate: failures / requests,
+      latencyMs: Math.round(totalLatency / requests)
+    };
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.windowMs;
+    if (this.outcomes.length && this.outcomes[0].at < cutoff) {
+      this.outcomes = this.outcomes.filter(outcome => outcome.at >= cutoff);
+    }
+  }
+}
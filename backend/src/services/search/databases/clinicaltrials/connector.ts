@@ -0,0 +1,326 @@
+// backend/src/services/search/databases/clinicaltrials/connector.ts
+import { BaseDatabaseConnector, formatFilterDate } from '../base.connector';
+import {
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  SortOrder,
+  Author,
+  ClinicalTrialMetadata,
+  CLINICAL_TRIAL_REGISTRATION
+} from '@thinkleap/shared/types/search';
+import { Logger } from '../../../logger';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import { ClinicalTrialsConfig, ClinicalTrialsSearchResponse, ClinicalTrialsStudy, ClinicalTrialsDate } from './types';
+import { SearchError, ConnectorPageRequest, ConnectorSearchResult } from '../types';
+import { CompiledQuery } from '../../query';
+import { ClinicalTrialsQueryCompiler } from './query.compiler';
+
+// Largest page the studies endpoint returns
+const MAX_PAGE_SIZE = 1000;
+
+// Article type labels that registry records can satisfy
+const TRIAL_ARTICLE_TYPES = new Set([
+  CLINICAL_TRIAL_REGISTRATION,
+  'clinical trial',
+  'rct',
+  'randomized controlled trial'
+]);
+
+const RANDOMIZED_ARTICLE_TYPES = new Set(['rct', 'randomized controlled trial']);
+
+// `sort` values of each sort order; registrations are dated by their first posting
+const SORT_PARAMS: Partial<Record<SortOrder, string>> = {
+  relevance: '@relevance',
+  date_desc: 'StudyFirstPostDate:desc',
+  date_asc: 'StudyFirstPostDate:asc'
+};
+
+export class ClinicalTrialsConnector extends BaseDatabaseConnector {
+  private readonly baseUrl: string;
+  protected readonly supportedFilters: Array<keyof SearchFilters> = [
+    'dateRange',
+    'authors',
+    'journals',
+    'articleTypes',
+    'recruitmentStatus',
+    'phases'
+  ];
+  protected readonly supportedSorts = Object.keys(SORT_PARAMS) as SortOrder[];
+  private readonly queryCompiler = new ClinicalTrialsQueryCompiler();
+
+  constructor(
+    config: ClinicalTrialsConfig,
+    logger: Logger,
+    cacheService: ICache,
+    rateLimiter: IOutboundRateLimiter
+  ) {
+    super(config, logger, cacheService, rateLimiter);
+    this.baseUrl = config.baseUrl;
+  }
+
+  translateQuery(query: SearchQuery): CompiledQuery {
+    const { query: params, warnings } = this.buildParams(query);
+    return { query: this.describeParams(params), warnings };
+  }
+
+  async validateAccess(): Promise<boolean> {
+    // The registry API is openly accessible
+    return true;
+  }
+
+  async authenticate(): Promise<void> {
+    // No authentication needed
+  }
+
+  async search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult> {
+    try {
+      // Registrations aren't published in journals and only ever match trial article types
+      if (!this.canMatch(query)) {
+        return { results: [], total: 0, fetched: 0 };
+      }
+
+      const window = this.resolvePage(query, page);
+      const { query: params } = this.buildParams(query);
+
+      // The v2 API only pages by token. Resume from the token remembered for this
+      // query when it lies before the window, otherwise start from the top.
+      let pageToken: string | undefined;
+      let position = 0;
+      const tokenOffset = parseInt(window.state?.tokenOffset || '', 10);
+      if (window.state?.pageToken && tokenOffset <= window.offset) {
+        pageToken = window.state.pageToken;
+        position = tokenOffset;
+      }
+
+      // Skip ahead to the window requesting only the NCT ids
+      while (position < window.offset) {
+        const skipped = await this.searchStudies(
+          params,
+          Math.min(window.offset - position, MAX_PAGE_SIZE),
+          pageToken,
+          'NCTId'
+        );
+        const count = skipped.studies?.length || 0;
+        if (!count || !skipped.nextPageToken) {
+          return { results: [], total: skipped.totalCount || 0, fetched: 0 };
+        }
+        pageToken = skipped.nextPageToken;
+        position += count;
+      }
+
+      const response = await this.searchStudies(params, Math.min(window.limit, MAX_PAGE_SIZE), pageToken);
+      const studies = response.studies || [];
+
+      return {
+        results: studies.map(study => this.transformStudy(study)),
+        total: response.totalCount || 0,
+        fetched: studies.length,
+        // The first page has no token; later pages never move backwards, so they can resume here
+        state: pageToken ? { pageToken, tokenOffset: window.offset.toString() } : undefined
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchRecords(ids: string[]): Promise<SearchResult[]> {
+    try {
+      const params = new URLSearchParams({ 'filter.ids': ids.join(',') });
+      const response = await this.searchStudies(params, Math.min(ids.length, MAX_PAGE_SIZE));
+      return (response.studies || []).map(study => this.transformStudy(study));
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  private async searchStudies(
+    params: URLSearchParams,
+    pageSize: number,
+    pageToken?: string,
+    fields?: string
+  ): Promise<ClinicalTrialsSearchResponse> {
+    const requestParams = new URLSearchParams(params);
+    requestParams.set('format', 'json');
+    requestParams.set('pageSize', pageSize.toString());
+    requestParams.set('countTotal', 'true');
+    if (pageToken) {
+      requestParams.set('pageToken', pageToken);
+    }
+    if (fields) {
+      requestParams.set('fields', fields);
+    }
+
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/studies?${requestParams}`);
+      if (res.status === 429) {
+        throw new Error('ClinicalTrials.gov rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (!response.ok) {
+      throw new Error(`ClinicalTrials.gov search failed: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  private canMatch(query: SearchQuery): boolean {
+    if (query.filters?.journals?.length) {
+      return false;
+    }
+
+    const articleTypes = query.filters?.articleTypes;
+    return !articleTypes?.length
+      || articleTypes.some(type => TRIAL_ARTICLE_TYPES.has(type.toLowerCase()));
+  }
+
+  private buildParams(query: SearchQuery): CompiledQuery<URLSearchParams> {
+    const { query: term, warnings } = this.queryCompiler.compile(this.parseTerm(query));
+    const params = new URLSearchParams({ 'query.term': term });
+    const filters = query.filters;
+
+    if (filters?.recruitmentStatus?.length) {
+      params.append('filter.overallStatus', filters.recruitmentStatus.join(','));
+    }
+
+    // Everything else goes through the Essie expression syntax
+    const advanced: string[] = [];
+
+    if (filters?.phases?.length) {
+      advanced.push(`AREA[Phase](${filters.phases.join(' OR ')})`);
+    }
+
+    if (filters?.dateRange) {
+      const { start, end } = filters.dateRange;
+      if (start || end) {
+        const from = start ? formatFilterDate(start) : 'MIN';
+        const to = end ? formatFilterDate(end) : 'MAX';
+        advanced.push(`AREA[StudyFirstPostDate]RANGE[${from},${to}]`);
+      }
+    }
+
+    if (filters?.authors?.length) {
+      // Investigators are the closest thing a registration has to authors
+      const names = filters.authors.map(author => `"${author.replace(/"/g, '')}"`);
+      advanced.push(`AREA[OverallOfficialName](${names.join(' OR ')})`);
+    }
+
+    const articleTypes = (filters?.articleTypes || []).map(type => type.toLowerCase());
+    if (articleTypes.length && articleTypes.every(type => RANDOMIZED_ARTICLE_TYPES.has(type))) {
+      advanced.push('AREA[DesignAllocation]RANDOMIZED');
+    }
+
+    if (advanced.length) {
+      params.append('filter.advanced', advanced.join(' AND '));
+    }
+
+    params.append('sort', SORT_PARAMS[this.upstreamSort(query)]!);
+
+    return { query: params, warnings };
+  }
+
+  private transformStudy(study: ClinicalTrialsStudy): SearchResult {
+    const protocol = study.protocolSection;
+    const identification = protocol.identificationModule;
+    const status = protocol.statusModule;
+    const design = protocol.designModule;
+    const conditions = protocol.conditionsModule?.conditions || [];
+
+    const authors: Author[] = (protocol.contactsLocationsModule?.overallOfficials || []).map(official => ({
+      name: official.name,
+      affiliation: official.affiliation
+    }));
+
+    const metadata: ClinicalTrialMetadata = {
+      nctId: identification.nctId,
+      url: `https://clinicaltrials.gov/study/${identification.nctId}`,
+      status: status?.overallStatus,
+      phases: design?.phases || [],
+      studyType: design?.studyType,
+      conditions,
+      interventions: (protocol.armsInterventionsModule?.interventions || []).map(intervention => ({
+        type: intervention.type,
+        name: intervention.name
+      })),
+      enrollment: design?.enrollmentInfo
+        ? { count: design.enrollmentInfo.count, type: design.enrollmentInfo.type }
+        : undefined,
+      sponsor: protocol.sponsorCollaboratorsModule?.leadSponsor?.name,
+      startDate: status?.startDateStruct?.date,
+      completionDate: (status?.primaryCompletionDateStruct || status?.completionDateStruct)?.date,
+      hasResults: study.hasResults,
+      pmids: (protocol.referencesModule?.references || [])
+        .map(reference => reference.pmid)
+        .filter((pmid): pmid is string => Boolean(pmid))
+    };
+
+    return {
+      id: identification.nctId,
+      databaseId: this.id,
+      title: identification.briefTitle || identification.officialTitle || '[Untitled]',
+      authors,
+      abstract: protocol.descriptionModule?.briefSummary,
+      publicationDate: this.parseDate(status?.studyFirstPostDateStruct),
+      keywords: Array.from(new Set([...conditions, ...(protocol.conditionsModule?.keywords || [])])),
+      articleType: CLINICAL_TRIAL_REGISTRATION,
+      language: 'en',
+      metadata: {
+        ...metadata,
+        officialTitle: identification.officialTitle,
+        acronym: identification.acronym,
+        allocation: design?.designInfo?.allocation,
+        primaryPurpose: design?.designInfo?.primaryPurpose,
+        lastUpdated: status?.lastUpdatePostDateStruct?.date
+      }
+    };
+  }
+
+  /**
+   * Registry dates may be partial (YYYY or YYYY-MM)
+   */
+  private parseDate(date?: ClinicalTrialsDate): Date | undefined {
+    if (!date?.date) return undefined;
+
+    const [year, month, day] = date.date.split('-').map(part => parseInt(part, 10));
+    if (!year) return undefined;
+
+    return new Date(Date.UTC(year, (month || 1) - 1, day || 1));
+  }
+
+  protected transformError(error: unknown): SearchError {
+    if (this.isSearchError(error)) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('rate limit')) {
+        return {
+          name: 'RateLimitError',
+          message: 'ClinicalTrials.gov rate limit exceeded',
+          type: 'rate_limit',
+          retryable: true,
+          source: this.id
+        };
+      }
+
+      return {
+        name: error.name,
+        message: error.message,
+        type: 'unknown',
+        retryable: true,
+        source: this.id
+      };
+    }
+
+    return {
+      name: 'UnknownError',
+      message: 'An unknown error occurred',
+      type: 'unknown',
+      retryable: false,
+      source: this.id
+    };
+  }
+}
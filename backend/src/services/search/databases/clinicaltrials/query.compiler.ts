@@ -0,0 +1,51 @@
+// backend/src/services/search/databases/clinicaltrials/query.compiler.ts
+import {
+  QueryNotNode,
+  QueryPhraseNode,
+  QueryTermNode,
+  QueryYearNode
+} from '@thinkleap/shared/types/query';
+import { BooleanQueryCompiler } from '../../query';
+
+// Registrations have no journal
+const AREAS: Partial<Record<NonNullable<QueryTermNode['field']>, string>> = {
+  title: 'BriefTitle',
+  abstract: 'BriefSummary',
+  author: 'OverallOfficialName'
+};
+
+/**
+ * Compiles the shared query AST into the ClinicalTrials.gov Essie expression syntax
+ */
+export class ClinicalTrialsQueryCompiler extends BooleanQueryCompiler {
+  protected readonly source = 'ClinicalTrials.gov';
+
+  protected term(node: QueryTermNode, warnings: Set<string>): string {
+    return this.area(node, this.withoutWildcards(node, warnings), warnings);
+  }
+
+  protected phrase(node: QueryPhraseNode, warnings: Set<string>): string {
+    this.ignoreProximity(node, warnings);
+    return this.area(node, `"${node.value}"`, warnings);
+  }
+
+  protected year(node: QueryYearNode): string {
+    return `AREA[StudyFirstPostDate]RANGE[${node.from}-01-01,${node.to}-12-31]`;
+  }
+
+  protected standaloneNot(node: QueryNotNode, warnings: Set<string>): string {
+    // Essie's NOT is unary
+    return `NOT ${this.render(node.child, warnings)}`;
+  }
+
+  private area(node: QueryTermNode | QueryPhraseNode, value: string, warnings: Set<string>): string {
+    if (!node.field) return value;
+
+    const area = AREAS[node.field];
+    if (!area) {
+      this.unsupportedField(node, warnings);
+      return value;
+    }
+    return `AREA[${area}]${value}`;
+  }
+}
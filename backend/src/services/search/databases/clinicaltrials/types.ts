@@ -0,0 +1,84 @@
+// backend/src/services/search/databases/clinicaltrials/types.ts
+import { TrialPhase, TrialRecruitmentStatus } from '@thinkleap/shared/types/search';
+import { DatabaseConfig } from '../types';
+
+export type ClinicalTrialsConfig = DatabaseConfig;
+
+export interface ClinicalTrialsDate {
+  date: string;  // YYYY, YYYY-MM or YYYY-MM-DD
+  type?: 'ACTUAL' | 'ESTIMATED';
+}
+
+export interface ClinicalTrialsStudy {
+  protocolSection: {
+    identificationModule: {
+      nctId: string;
+      briefTitle?: string;
+      officialTitle?: string;
+      acronym?: string;
+    };
+    statusModule?: {
+      overallStatus?: TrialRecruitmentStatus;
+      startDateStruct?: ClinicalTrialsDate;
+      primaryCompletionDateStruct?: ClinicalTrialsDate;
+      completionDateStruct?: ClinicalTrialsDate;
+      studyFirstPostDateStruct?: ClinicalTrialsDate;
+      lastUpdatePostDateStruct?: ClinicalTrialsDate;
+    };
+    sponsorCollaboratorsModule?: {
+      leadSponsor?: {
+        name: string;
+        class?: string;
+      };
+      collaborators?: Array<{ name: string; class?: string }>;
+    };
+    descriptionModule?: {
+      briefSummary?: string;
+      detailedDescription?: string;
+    };
+    conditionsModule?: {
+      conditions?: string[];
+      keywords?: string[];
+    };
+    designModule?: {
+      studyType?: string;
+      phases?: TrialPhase[];
+      enrollmentInfo?: {
+        count: number;
+        type?: 'ACTUAL' | 'ESTIMATED';
+      };
+      designInfo?: {
+        allocation?: string;
+        primaryPurpose?: string;
+        maskingInfo?: { masking?: string };
+      };
+    };
+    armsInterventionsModule?: {
+      interventions?: Array<{
+        type?: string;
+        name: string;
+      }>;
+    };
+    contactsLocationsModule?: {
+      overallOfficials?: Array<{
+        name: string;
+        affiliation?: string;
+        role?: string;
+      }>;
+    };
+    referencesModule?: {
+      references?: Array<{
+        pmid?: string;
+        type?: string;
+        citation?: string;
+      }>;
+    };
+  };
+  hasResults?: boolean;
+}
+
+export interface ClinicalTrialsSearchResponse {
+  studies: ClinicalTrialsStudy[];
+  totalCount?: number;  // Only present when countTotal=true
+  nextPageToken?: string;
+}
@@ -0,0 +1,268 @@
+// backend/src/services/search/databases/connector-config.service.ts
+import { readFileSync } from 'fs';
+import { DatabaseRegistry } from './registry';
+import { BaseDatabaseConnector } from './base.connector';
+import { ConnectorFactoryRegistry, ConnectorDependencies } from './connector.factory';
+import { AuthType, DatabaseDefinition } from './types';
+
+const AUTH_TYPES: AuthType[] = ['none', 'apiKey', 'oauth', 'shibboleth'];
+
+const FEATURE_FLAGS = [
+  'supportsPagination',
+  'supportsFullText',
+  'supportsCitationCounts',
+  'supportsAdvancedFilters'
+];
+
+// `${NAME}` or `${NAME:-default}`
+const ENV_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+export interface ConnectorConfigOptions {
+  configPath: string;
+  env: string;  // Selects the `environments` override of each database
+}
+
+export interface ConfiguredDatabase {
+  id: string;
+  type: string;
+  name: string;
+  enabled: boolean;
+}
+
+export interface ConnectorConfigLoad {
+  databases: ConfiguredDatabase[];
+  changed: string[];  // Ids of connectors redefined or removed since the previous load
+}
+
+/**
+ * Builds the shared database registry from the declarative connector config.
+ *
+ * String values may reference environment variables as `${NAME}` or `${NAME:-default}`,
+ * so API keys stay out of the file and `enabled` can be toggled per deployment.
+ */
+export class ConnectorConfigService {
+  private configured: ConfiguredDatabase[] = [];
+  // Serialized definition of each loaded connector, to tell which ones a reload changes
+  private definitions = new Map<string, string>();
+
+  constructor(
+    private readonly registry: DatabaseRegistry,
+    private readonly factories: ConnectorFactoryRegistry,
+    private readonly options: ConnectorConfigOptions,
+    private readonly dependencies: ConnectorDependencies
+  ) {}
+
+  /**
+   * Read the config and replace every registered connector with what it declares.
+   * An invalid config throws and leaves the current connectors in place.
+   */
+  load(): ConnectorConfigLoad {
+    const definitions = this.readDefinitions();
+    const previous = this.definitions;
+
+    const connectors = new Map<string, BaseDatabaseConnector>();
+    definitions.forEach(definition => {
+      connectors.set(definition.id, this.factories.create(definition, this.dependencies));
+    });
+
+    this.registry.replaceAll(connectors);
+    this.configured = definitions.map(definition => ({
+      id: definition.id,
+      type: definition.type,
+      name: definition.name,
+      enabled: definition.enabled
+    }));
+    this.definitions = new Map(definitions.map(definition => [definition.id, JSON.stringify(definition)]));
+
+    const changed = Array.from(previous.keys())
+      .filter(id => previous.get(id) !== this.definitions.get(id));
+
+    this.dependencies.logger.info('Loaded database connector config', {
+      configPath: this.options.configPath,
+      databases: this.configured.length,
+      changed
+    });
+
+    return { databases: this.configured, changed };
+  }
+
+  getConfigured(): ConfiguredDatabase[] {
+    return this.configured;
+  }
+
+  private readDefinitions(): DatabaseDefinition[] {
+    let raw: string;
+    try {
+      raw = readFileSync(this.options.configPath, 'utf8');
+    } catch {
+      throw new Error(`Database config not found: ${this.options.configPath}`);
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (err: unknown) {
+      const reason = err instanceof Error ? err.message : 'Unknown error';
+      throw new Error(`Invalid database config: ${reason}`);
+    }
+
+    const config = this.interpolate(parsed) as { databases?: unknown };
+    if (!config || !Array.isArray(config.databases)) {
+      throw new Error('Invalid database config: "databases" must be an array');
+    }
+
+    const errors: string[] = [];
+    const definitions = config.databases.map((entry: unknown, index: number) =>
+      this.validate(this.applyEnvironment(entry), `databases[${index}]`, errors)
+    );
+
+    const seen = new Set<string>();
+    definitions.forEach((definition, index) => {
+      if (seen.has(definition.id)) {
+        errors.push(`databases[${index}].id "${definition.id}" is declared twice`);
+      }
+      seen.add(definition.id);
+    });
+
+    if (errors.length) {
+      throw new Error(`Invalid database config: ${errors.join('; ')}`);
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Substitute environment references; references that resolve to nothing become undefined
+   */
+  private interpolate(value: unknown): unknown {
+    if (typeof value === 'string') {
+      const resolved = value.replace(ENV_REFERENCE, (_match, name: string, fallback?: string) =>
+        process.env[name] || fallback || ''
+      );
+      return resolved === '' && value !== '' ? undefined : resolved;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.interpolate(item));
+    }
+
+    if (this.isObject(value)) {
+      const result: Record<string, unknown> = {};
+      Object.entries(value).forEach(([key, item]) => {
+        result[key] = this.interpolate(item);
+      });
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Merge the override for the current environment over the base entry, one level deep
+   */
+  private applyEnvironment(entry: unknown): Record<string, unknown> {
+    if (!this.isObject(entry)) return {};
+
+    const { environments, ...base } = entry;
+    const override = this.isObject(environments) ? environments[this.options.env] : undefined;
+    if (!this.isObject(override)) return base;
+
+    const merged: Record<string, unknown> = { ...base };
+    Object.entries(override).forEach(([key, value]) => {
+      merged[key] = this.isObject(value) && this.isObject(base[key])
+        ? { ...(base[key] as Record<string, unknown>), ...value }
+        : value;
+    });
+    return merged;
+  }
+
+  private validate(entry: Record<string, unknown>, path: string, errors: string[]): DatabaseDefinition {
+    const fail = (field: string, message: string) => errors.push(`${path}.${field} ${message}`);
+
+    if (typeof entry.id !== 'string' || !/^[a-z0-9-]+$/.test(entry.id)) {
+      fail('id', 'must be a lowercase slug');
+    }
+
+    if (typeof entry.type !== 'string' || !this.factories.has(entry.type)) {
+      fail('type', `must be one of: ${this.factories.types().join(', ')}`);
+    }
+
+    if (typeof entry.name !== 'string' || !entry.name.trim()) {
+      fail('name', 'is required');
+    }
+
+    // `enabled` may come from an environment reference, which is always a string
+    if (entry.enabled === 'true' || entry.enabled === 'false') {
+      entry.enabled = entry.enabled === 'true';
+    }
+    if (typeof entry.enabled !== 'boolean') {
+      fail('enabled', 'must be true or false');
+    }
+
+    if (!AUTH_TYPES.includes(entry.authType as AuthType)) {
+      fail('authType', `must be one of: ${AUTH_TYPES.join(', ')}`);
+    }
+
+    if (typeof entry.baseUrl !== 'string' || !this.isUrl(entry.baseUrl)) {
+      fail('baseUrl', 'must be an absolute URL');
+    }
+
+    const features = entry.features;
+    if (!this.isObject(features)) {
+      fail('features', 'is required');
+    } else {
+      FEATURE_FLAGS.forEach(flag => {
+        if (typeof features[flag] !== 'boolean') {
+          fail(`features.${flag}`, 'must be true or false');
+        }
+      });
+    }
+
+    if (entry.auth !== undefined && !this.isObject(entry.auth)) {
+      fail('auth', 'must be an object');
+    }
+
+    if (entry.rateLimit !== undefined) {
+      const rateLimit = entry.rateLimit;
+      if (!this.isObject(rateLimit) || !this.isPositive(rateLimit.requestsPerSecond)) {
+        fail('rateLimit.requestsPerSecond', 'must be a positive number');
+      } else if (rateLimit.burstLimit !== undefined && !this.isPositive(rateLimit.burstLimit)) {
+        fail('rateLimit.burstLimit', 'must be a positive number');
+      }
+    }
+
+    if (entry.retryConfig !== undefined) {
+      const retryConfig = entry.retryConfig;
+      if (!this.isObject(retryConfig)
+        || !Number.isInteger(retryConfig.maxRetries)
+        || (retryConfig.maxRetries as number) < 0) {
+        fail('retryConfig.maxRetries', 'must be a non-negative integer');
+      } else if (typeof retryConfig.backoffMs !== 'number' || retryConfig.backoffMs < 0) {
+        fail('retryConfig.backoffMs', 'must be a non-negative number');
+      }
+    }
+
+    if (entry.timeout !== undefined && !this.isPositive(entry.timeout)) {
+      fail('timeout', 'must be a positive number');
+    }
+
+    return entry as DatabaseDefinition;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isPositive(value: unknown): boolean {
+    return typeof value === 'number' && value > 0;
+  }
+
+  private isUrl(value: string): boolean {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
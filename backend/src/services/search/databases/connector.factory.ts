@@ -0,0 +1,76 @@
+// backend/src/services/search/databases/connector.factory.ts
+import { Logger } from '../../logger';
+import { ICache } from '../../cache';
+import { IOutboundRateLimiter } from '../../rate-limit';
+import { BaseDatabaseConnector } from './base.connector';
+import { DatabaseDefinition } from './types';
+import { PubMedConnector } from './pubmed/connector';
+import { CrossrefConnector } from './crossref/connector';
+import { ArxivConnector } from './arxiv/connector';
+import { SemanticScholarConnector } from './semantic-scholar/connector';
+import { EuropePmcConnector } from './europe-pmc/connector';
+import { OpenAlexConnector } from './openalex/connector';
+import { ClinicalTrialsConnector } from './clinicaltrials/connector';
+
+/**
+ * Shared services handed to every connector
+ */
+export interface ConnectorDependencies {
+  logger: Logger;
+  cacheService: ICache;
+  rateLimiter: IOutboundRateLimiter;
+}
+
+export type ConnectorFactory = (
+  definition: DatabaseDefinition,
+  dependencies: ConnectorDependencies
+) => BaseDatabaseConnector;
+
+/**
+ * Maps the `type` of a declared database onto the connector class that serves it
+ */
+export class ConnectorFactoryRegistry {
+  private readonly factories = new Map<string, ConnectorFactory>();
+
+  register(type: string, factory: ConnectorFactory): this {
+    this.factories.set(type, factory);
+    return this;
+  }
+
+  has(type: string): boolean {
+    return this.factories.has(type);
+  }
+
+  types(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  create(definition: DatabaseDefinition, dependencies: ConnectorDependencies): BaseDatabaseConnector {
+    const factory = this.factories.get(definition.type);
+    if (!factory) {
+      throw new Error(`Unknown connector type: ${definition.type}`);
+    }
+    return factory(definition, dependencies);
+  }
+}
+
+/**
+ * Factories for every connector that ships with the backend
+ */
+export function createConnectorFactories(): ConnectorFactoryRegistry {
+  return new ConnectorFactoryRegistry()
+    .register('pubmed', (definition, { logger, cacheService, rateLimiter }) =>
+      new PubMedConnector(definition, logger, cacheService, rateLimiter))
+    .register('crossref', (definition, { logger, cacheService, rateLimiter }) =>
+      new CrossrefConnector(definition, logger, cacheService, rateLimiter))
+    .register('arxiv', (definition, { logger, cacheService, rateLimiter }) =>
+      new ArxivConnector(definition, logger, cacheService, rateLimiter))
+    .register('semantic-scholar', (definition, { logger, cacheService, rateLimiter }) =>
+      new SemanticScholarConnector(definition, logger, cacheService, rateLimiter))
+    .register('europe-pmc', (definition, { logger, cacheService, rateLimiter }) =>
+      new EuropePmcConnector(definition, logger, cacheService, rateLimiter))
+    .register('openalex', (definition, { logger, cacheService, rateLimiter }) =>
+      new OpenAlexConnector(definition, logger, cacheService, rateLimiter))
+    .register('clinicaltrials', (definition, { logger, cacheService, rateLimiter }) =>
+      new ClinicalTrialsConnector(definition, logger, cacheService, rateLimiter));
+}
@@ -0,0 +1,467 @@
+// backend/src/services/search/databases/crossref/connector.ts
+import { BaseDatabaseConnector, formatFilterDate } from '../base.connector';
+import {
+  FacetBucket,
+  FacetField,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  Author,
+  Journal,
+  SortOrder
+} from '@thinkleap/shared/types/search';
+import { CitationDirection, RecordDetail } from '@thinkleap/shared/types/record';
+import { Logger } from '../../../logger';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import {
+  CrossrefConfig,
+  CrossrefWorksResponse,
+  CrossrefWork,
+  CrossrefAuthor,
+  CrossrefDateParts,
+  CrossrefFacet
+} from './types';
+import { SearchError, ConnectorPageRequest, ConnectorSearchResult, CitationTarget } from '../types';
+import { CompiledQuery, KeywordQuery, KeywordQueryCompiler, narrowToYears } from '../../query';
+
+// Maps the article type labels used by the frontend onto Crossref work types.
+// Types without a Crossref equivalent (e.g. "review") cannot be filtered upstream.
+const ARTICLE_TYPE_MAP: Record<string, string> = {
+  'journal article': 'journal-article',
+  'article': 'journal-article',
+  'book': 'book',
+  'book chapter': 'book-chapter',
+  'conference paper': 'proceedings-article',
+  'proceedings article': 'proceedings-article',
+  'preprint': 'posted-content',
+  'dataset': 'dataset',
+  'dissertation': 'dissertation',
+  'report': 'report',
+  'standard': 'standard'
+};
+
+const CROSSREF_TYPES = new Set(Object.values(ARTICLE_TYPE_MAP));
+
+// Crossref facets requested with every search, and the facet each one fills
+const FACETS: Record<string, FacetField> = {
+  published: 'year',
+  'container-title': 'journal',
+  'type-name': 'articleType'
+};
+
+// `sort` and `order` parameters of each sort order
+const SORT_PARAMS: Record<SortOrder, { sort: string; order: 'asc' | 'desc' }> = {
+  relevance: { sort: 'relevance', order: 'desc' },
+  date_desc: { sort: 'published', order: 'desc' },
+  date_asc: { sort: 'published', order: 'asc' },
+  citations: { sort: 'is-referenced-by-count', order: 'desc' }
+};
+
+export class CrossrefConnector extends BaseDatabaseConnector {
+  private readonly baseUrl: string;
+  private readonly mailto?: string;
+  protected readonly supportedFilters: Array<keyof SearchFilters> = ['dateRange', 'authors', 'journals', 'articleTypes'];
+  protected readonly supportedSorts = Object.keys(SORT_PARAMS) as SortOrder[];
+  private readonly queryCompiler = new KeywordQueryCompiler('Crossref', {
+    fields: ['author', 'journal'],
+    years: true,
+    phrases: false
+  });
+
+  constructor(
+    config: CrossrefConfig,
+    logger: Logger,
+    cacheService: ICache,
+    rateLimiter: IOutboundRateLimiter
+  ) {
+    super(config, logger, cacheService, rateLimiter);
+    this.baseUrl = config.baseUrl;
+    this.mailto = config.mailto;
+  }
+
+  translateQuery(query: SearchQuery): CompiledQuery {
+    const { query: params, warnings } = this.buildParams(query);
+    return { query: this.describeParams(params), warnings };
+  }
+
+  async validateAccess(): Promise<boolean> {
+    // Crossref metadata is openly accessible
+    return true;
+  }
+
+  async authenticate(): Promise<void> {
+    // No authentication needed; the polite pool is selected via mailto
+  }
+
+  async search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult> {
+    try {
+      const response = await this.searchWorks(query, this.resolvePage(query, page), true);
+      const items = response.message.items || [];
+
+      return {
+        results: this.filterByJournal(items, query).map(work => this.transformWork(work)),
+        total: response.message['total-results'],
+        fetched: items.length,
+        facets: this.transformFacets(response.message.facets)
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchRecords(ids: string[]): Promise<SearchResult[]> {
+    try {
+      const works = await this.fetchWorks(ids);
+      return works.map(work => this.transformWork(work));
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async getRecord(id: string): Promise<RecordDetail | null> {
+    try {
+      const [work] = await this.fetchWorks([id]);
+      if (!work) return null;
+
+      const record = this.describeRecord(this.transformWork(work));
+      return {
+        ...record,
+        authors: (work.author || []).map(author => ({
+          ...this.transformAuthor(author),
+          affiliations: (author.affiliation || []).map(affiliation => affiliation.name)
+        })),
+        references: work.reference?.map(reference => ({
+          citation: reference.unstructured,
+          title: reference['article-title'],
+          authors: reference.author,
+          journal: reference['journal-title'],
+          year: reference.year,
+          identifiers: this.identifiers({ doi: reference.DOI })
+        }))
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchCitations(
+    target: CitationTarget,
+    direction: CitationDirection,
+    limit: number
+  ): Promise<ConnectorSearchResult | undefined> {
+    // Cited-by data is only open to the publisher of the cited work
+    if (direction !== 'references') return undefined;
+
+    const doi = target.databaseId === this.id ? target.id : target.doi;
+    if (!doi) return undefined;
+
+    try {
+      const [work] = await this.fetchWorks([doi]);
+      if (!work?.reference) return undefined;
+
+      // Only references deposited with a DOI can be resolved to records
+      const dois = work.reference
+        .map(reference => reference.DOI)
+        .filter((cited): cited is string => Boolean(cited))
+        .slice(0, limit);
+      const cited = dois.length ? await this.fetchWorks(dois) : [];
+
+      return {
+        results: cited.map(citedWork => this.transformWork(citedWork)),
+        total: work.reference.length,
+        fetched: cited.length
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async countResults(query: SearchQuery): Promise<number> {
+    try {
+      // rows=0 returns only the total
+      const response = await this.searchWorks(query, { offset: 0, limit: 0 });
+      return response.message['total-results'];
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  private async fetchWorks(dois: string[]): Promise<CrossrefWork[]> {
+    // Repeated filters of the same name are OR'ed together
+    const params = new URLSearchParams({
+      filter: dois.map(doi => `doi:${doi}`).join(','),
+      rows: dois.length.toString()
+    });
+
+    if (this.mailto) {
+      params.append('mailto', this.mailto);
+    }
+
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/works?${params}`);
+      if (res.status === 429) {
+        throw new Error('Crossref rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (!response.ok) {
+      throw new Error(`Crossref fetch failed: ${response.statusText}`);
+    }
+
+    const body: CrossrefWorksResponse = await response.json();
+    return body.message.items || [];
+  }
+
+  private async searchWorks(
+    query: SearchQuery,
+    page: ConnectorPageRequest,
+    withFacets = false
+  ): Promise<CrossrefWorksResponse> {
+    const { query: params } = this.buildParams(query);
+    const { sort, order } = SORT_PARAMS[this.upstreamSort(query)];
+    params.append('sort', sort);
+    params.append('order', order);
+    params.append('rows', page.limit.toString());
+    params.append('offset', page.offset.toString());
+
+    if (withFacets) {
+      params.append('facet', Object.keys(FACETS).map(facet => `${facet}:10`).join(','));
+    }
+
+    if (this.mailto) {
+      params.append('mailto', this.mailto);
+    }
+
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/works?${params}`);
+      if (res.status === 429) {
+        throw new Error('Crossref rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (!response.ok) {
+      throw new Error(`Crossref search failed: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Build the query parameters. Crossref has no boolean syntax, so the query is reduced
+   * to keywords with author and journal terms in parameters of their own.
+   */
+  private buildParams(query: SearchQuery): CompiledQuery<URLSearchParams> {
+    const { query: keywords, warnings } = this.queryCompiler.compile(this.parseTerm(query));
+    const params = new URLSearchParams();
+
+    if (keywords.text) {
+      params.append('query.bibliographic', keywords.text);
+    }
+
+    const authors = (keywords.fields.author || []).concat(query.filters?.authors || []);
+    if (authors.length) {
+      params.append('query.author', authors.join(' '));
+    }
+
+    const journals = (keywords.fields.journal || []).concat(query.filters?.journals || []);
+    if (journals.length) {
+      params.append('query.container-title', journals.join(' '));
+    }
+
+    const filter = this.buildFilter(query, keywords);
+    if (filter) {
+      params.append('filter', filter);
+    }
+
+    return { query: params, warnings };
+  }
+
+  /**
+   * Build the Crossref `filter` parameter from date range, query years and article types
+   */
+  private buildFilter(query: SearchQuery, keywords: KeywordQuery): string {
+    const filters: string[] = [];
+
+    // Repeated filters are OR'ed, so the query's years narrow the date range instead
+    const { start, end } = query.filters?.dateRange || {};
+    const { from, to } = narrowToYears({
+      from: start ? formatFilterDate(start) : undefined,
+      to: end ? formatFilterDate(end) : undefined
+    }, keywords.years);
+    if (from) filters.push(`from-pub-date:${from}`);
+    if (to) filters.push(`until-pub-date:${to}`);
+
+    if (query.filters?.articleTypes?.length) {
+      const types = new Set<string>();
+      query.filters.articleTypes.forEach(type => {
+        const normalized = type.toLowerCase();
+        const mapped = ARTICLE_TYPE_MAP[normalized]
+          || (CROSSREF_TYPES.has(normalized) ? normalized : undefined);
+
+        if (mapped) {
+          types.add(mapped);
+        } else {
+          this.logger.debug('Ignoring article type unsupported by Crossref', { type });
+        }
+      });
+      types.forEach(type => filters.push(`type:${type}`));
+    }
+
+    return filters.join(',');
+  }
+
+  /**
+   * Key Crossref's facet counts by our facet fields
+   */
+  private transformFacets(
+    facets?: Record<string, CrossrefFacet>
+  ): Partial<Record<FacetField, FacetBucket[]>> | undefined {
+    if (!facets) return undefined;
+
+    const result: Partial<Record<FacetField, FacetBucket[]>> = {};
+    Object.keys(FACETS).forEach(name => {
+      const facet = facets[name];
+      if (!facet) return;
+
+      result[FACETS[name]] = Object.entries(facet.values).map(([value, count]) => ({
+        // Type names ("Journal Article") become the type ids results carry ("journal-article")
+        value: name === 'type-name' ? value.toLowerCase().replace(/\s+/g, '-') : value,
+        count
+      }));
+    });
+    return result;
+  }
+
+  /**
+   * `query.container-title` only ranks by journal, so enforce the journal filter locally
+   */
+  private filterByJournal(items: CrossrefWork[], query: SearchQuery): CrossrefWork[] {
+    const journals = query.filters?.journals?.map(journal => journal.toLowerCase());
+    if (!journals?.length) {
+      return items;
+    }
+
+    return items.filter(work =>
+      (work['container-title'] || []).some(title =>
+        journals.includes(title.toLowerCase())
+      )
+    );
+  }
+
+  private transformWork(work: CrossrefWork): SearchResult {
+    const authors: Author[] = (work.author || []).map(author => this.transformAuthor(author));
+
+    const containerTitle = work['container-title']?.[0];
+    const journal: Journal | undefined = containerTitle
+      ? {
+          name: containerTitle,
+          volume: work.volume,
+          issue: work.issue,
+          pages: work.page,
+          identifier: this.selectIssn(work)
+        }
+      : undefined;
+
+    const title = [work.title?.[0], work.subtitle?.[0]].filter(Boolean).join(': ');
+
+    return {
+      id: work.DOI,
+      databaseId: this.id,
+      title: title || '[Untitled]',
+      authors,
+      abstract: work.abstract ? this.stripJats(work.abstract) : undefined,
+      journal,
+      doi: work.DOI,
+      publicationDate: this.parseDate(
+        work.published || work['published-print'] || work['published-online'] || work.issued
+      ),
+      keywords: work.subject || [],
+      articleType: work.type,
+      language: work.language,
+      fullTextUrl: work.link?.find(link => link['content-type'] === 'application/pdf')?.URL,
+      citationCount: work['is-referenced-by-count'],
+      metadata: {
+        doi: work.DOI,
+        url: work.URL,
+        publisher: work.publisher,
+        issn: work.ISSN || [],
+        referencesCount: work['references-count'],
+        license: work.license?.[0]?.URL
+      }
+    };
+  }
+
+  private transformAuthor(author: CrossrefAuthor): Author {
+    const name = author.name
+      || `${author.family || ''} ${author.given || ''}`.trim();
+
+    return {
+      name,
+      affiliation: author.affiliation?.map(a => a.name).join('; ') || undefined,
+      identifier: author.ORCID?.replace(/^https?:\/\/orcid\.org\//, '')
+    };
+  }
+
+  /**
+   * Prefer the print ISSN, falling back to whatever Crossref lists first
+   */
+  private selectIssn(work: CrossrefWork): string | undefined {
+    return work['issn-type']?.find(issn => issn.type === 'print')?.value
+      || work.ISSN?.[0];
+  }
+
+  /**
+   * Crossref abstracts are JATS XML fragments; reduce them to plain text
+   */
+  private stripJats(abstract: string): string {
+    return abstract
+      .replace(/<jats:title>[^<]*<\/jats:title>/g, '')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private parseDate(date?: CrossrefDateParts): Date | undefined {
+    const [year, month, day] = date?.['date-parts']?.[0] || [];
+    if (!year) return undefined;
+
+    return new Date(Date.UTC(year, (month || 1) - 1, day || 1));
+  }
+
+  protected transformError(error: unknown): SearchError {
+    if (this.isSearchError(error)) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('rate limit')) {
+        return {
+          name: 'RateLimitError',
+          message: 'Crossref rate limit exceeded',
+          type: 'rate_limit',
+          retryable: true,
+          source: this.id
+        };
+      }
+
+      return {
+        name: error.name,
+        message: error.message,
+        type: 'unknown',
+        retryable: true,
+        source: this.id
+      };
+    }
+
+    return {
+      name: 'UnknownError',
+      message: 'An unknown error occurred',
+      type: 'unknown',
+      retryable: false,
+      source: this.id
+    };
+  }
+}
@@ -0,0 +1,86 @@
+// backend/src/services/search/databases/crossref/types.ts
+import { DatabaseConfig } from '../types';
+
+export interface CrossrefConfig extends DatabaseConfig {
+  // Contact address sent with every request to get into Crossref's "polite" pool
+  mailto?: string;
+}
+
+export interface CrossrefDateParts {
+  'date-parts': Array<Array<number | null>>;
+}
+
+export interface CrossrefReference {
+  key: string;
+  DOI?: string;
+  unstructured?: string;
+  'article-title'?: string;
+  author?: string;  // First author only
+  year?: string;
+  'journal-title'?: string;
+}
+
+export interface CrossrefAuthor {
+  given?: string;
+  family?: string;
+  name?: string;
+  ORCID?: string;
+  'authenticated-orcid'?: boolean;
+  affiliation?: Array<{
+    name: string;
+  }>;
+}
+
+export interface CrossrefWork {
+  DOI: string;
+  URL?: string;
+  title?: string[];
+  subtitle?: string[];
+  author?: CrossrefAuthor[];
+  abstract?: string;
+  'container-title'?: string[];
+  ISSN?: string[];
+  'issn-type'?: Array<{
+    value: string;
+    type: 'print' | 'electronic';
+  }>;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  publisher?: string;
+  type?: string;
+  subject?: string[];
+  language?: string;
+  published?: CrossrefDateParts;
+  'published-print'?: CrossrefDateParts;
+  'published-online'?: CrossrefDateParts;
+  issued?: CrossrefDateParts;
+  'is-referenced-by-count'?: number;
+  'references-count'?: number;
+  reference?: CrossrefReference[];  // Only when the publisher deposited them
+  license?: Array<{
+    URL: string;
+    'content-version'?: string;
+  }>;
+  link?: Array<{
+    URL: string;
+    'content-type'?: string;
+    'intended-application'?: string;
+  }>;
+}
+
+export interface CrossrefWorksResponse {
+  status: string;
+  'message-type': string;
+  message: {
+    'total-results': number;
+    'items-per-page'?: number;
+    items: CrossrefWork[];
+    facets?: Record<string, CrossrefFacet>;
+  };
+}
+
+export interface CrossrefFacet {
+  'value-count': number;
+  values: Record<string, number>;
+}
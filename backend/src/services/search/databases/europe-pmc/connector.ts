@@ -0,0 +1,394 @@
+// backend/src/services/search/databases/europe-pmc/connector.ts
+import { BaseDatabaseConnector, formatFilterDate } from '../base.connector';
+import { SearchFilters, SearchQuery, SearchResult, SortOrder, Author, Journal } from '@thinkleap/shared/types/search';
+import { Logger } from '../../../logger';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import {
+  EuropePmcConfig,
+  EuropePmcSearchResponse,
+  EuropePmcArticle,
+  EuropePmcAuthor,
+  EuropePmcResultType
+} from './types';
+import { SearchError, ConnectorPageRequest, ConnectorSearchResult } from '../types';
+import { CompiledQuery } from '../../query';
+import { EuropePmcQueryCompiler } from './query.compiler';
+
+// Largest page the REST API returns
+const MAX_PAGE_SIZE = 1000;
+
+// Maps the article type labels used by the frontend onto Europe PMC publication types.
+// Anything else is passed through to PUB_TYPE as-is.
+const PUB_TYPE_MAP: Record<string, string> = {
+  'article': 'journal article',
+  'rct': 'randomized controlled trial',
+  'case report': 'case reports',
+  'conference paper': 'congress',
+  'letter': 'letter',
+  'editorial': 'editorial'
+};
+
+// `sort` values of each sort order; relevance is the default when none is sent
+const SORT_PARAMS: Partial<Record<SortOrder, string>> = {
+  date_desc: 'P_PDATE_D desc',
+  date_asc: 'P_PDATE_D asc',
+  citations: 'CITED desc'
+};
+
+export class EuropePmcConnector extends BaseDatabaseConnector {
+  private readonly baseUrl: string;
+  private readonly includePreprints: boolean;
+  protected readonly supportedFilters: Array<keyof SearchFilters> = [
+    'dateRange',
+    'authors',
+    'journals',
+    'articleTypes',
+    'languages'
+  ];
+  protected readonly supportedSorts = ['relevance', ...Object.keys(SORT_PARAMS)] as SortOrder[];
+  private readonly queryCompiler = new EuropePmcQueryCompiler();
+
+  constructor(
+    config: EuropePmcConfig,
+    logger: Logger,
+    cacheService: ICache,
+    rateLimiter: IOutboundRateLimiter
+  ) {
+    super(config, logger, cacheService, rateLimiter);
+    this.baseUrl = config.baseUrl;
+    this.includePreprints = config.includePreprints ?? true;
+  }
+
+  translateQuery(query: SearchQuery): CompiledQuery {
+    return this.buildQuery(query);
+  }
+
+  async validateAccess(): Promise<boolean> {
+    // The Europe PMC REST API is openly accessible
+    return true;
+  }
+
+  async authenticate(): Promise<void> {
+    // No authentication needed
+  }
+
+  async search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult> {
+    try {
+      const window = this.resolvePage(query, page);
+      const queryString = this.buildQuery(query).query;
+      const sort = SORT_PARAMS[this.upstreamSort(query)];
+
+      // Europe PMC only pages by cursor. Resume from the cursor remembered for this
+      // query when it lies before the window, otherwise start from the top.
+      let cursorMark = '*';
+      let position = 0;
+      const cursorOffset = parseInt(window.state?.cursorOffset || '', 10);
+      if (window.state?.cursorMark && cursorOffset <= window.offset) {
+        cursorMark = window.state.cursorMark;
+        position = cursorOffset;
+      }
+
+      // Skip ahead to the window with id-only pages, which are much cheaper than full records
+      while (position < window.offset) {
+        const skipped = await this.searchArticles(
+          queryString,
+          cursorMark,
+          Math.min(window.offset - position, MAX_PAGE_SIZE),
+          'idlist',
+          sort
+        );
+        const count = skipped.resultList?.result?.length || 0;
+        if (!count || !skipped.nextCursorMark || skipped.nextCursorMark === cursorMark) {
+          return { results: [], total: skipped.hitCount, fetched: 0 };
+        }
+        cursorMark = skipped.nextCursorMark;
+        position += count;
+      }
+
+      const response = await this.searchArticles(
+        queryString,
+        cursorMark,
+        Math.min(window.limit, MAX_PAGE_SIZE),
+        'core',
+        sort
+      );
+      const articles = response.resultList?.result || [];
+
+      return {
+        results: articles.map(article => this.transformArticle(article)),
+        total: response.hitCount,
+        fetched: articles.length,
+        // Later pages never move backwards, so they can resume from the start of this window
+        state: { cursorMark, cursorOffset: window.offset.toString() }
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchRecords(ids: string[]): Promise<SearchResult[]> {
+    try {
+      // Record ids are `<source>:<id>`, e.g. MED:31452104 or PPR:PPR123456
+      const clauses = ids
+        .map(key => {
+          const [source, id] = key.split(':');
+          if (!source || !id) {
+            this.logger.debug('Skipping malformed Europe PMC id', { id: key });
+            return undefined;
+          }
+          return `(EXT_ID:"${id}" AND SRC:${source.toUpperCase()})`;
+        })
+        .filter((clause): clause is string => Boolean(clause));
+
+      if (!clauses.length) {
+        return [];
+      }
+
+      const response = await this.searchArticles(
+        clauses.join(' OR '),
+        '*',
+        Math.min(clauses.length, MAX_PAGE_SIZE),
+        'core'
+      );
+      return (response.resultList?.result || []).map(article => this.transformArticle(article));
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  private async searchArticles(
+    queryString: string,
+    cursorMark: string,
+    pageSize: number,
+    resultType: EuropePmcResultType,
+    sort?: string
+  ): Promise<EuropePmcSearchResponse> {
+    const params = new URLSearchParams({
+      query: queryString,
+      format: 'json',
+      resultType,
+      pageSize: pageSize.toString(),
+      cursorMark
+    });
+
+    if (sort) {
+      params.append('sort', sort);
+    }
+
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/search?${params}`);
+      if (res.status === 429) {
+        throw new Error('Europe PMC rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (!response.ok) {
+      throw new Error(`Europe PMC search failed: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Europe PMC filters with field-qualified clauses in the query string itself
+   */
+  private buildQuery(query: SearchQuery): CompiledQuery {
+    const { query: term, warnings } = this.queryCompiler.compile(this.parseTerm(query));
+    const clauses = [`(${term})`];
+    const filters = query.filters;
+
+    if (filters?.authors?.length) {
+      clauses.push(this.anyOf('AUTH', filters.authors));
+    }
+
+    if (filters?.journals?.length) {
+      clauses.push(this.anyOf('JOURNAL', filters.journals));
+    }
+
+    if (filters?.languages?.length) {
+      clauses.push(this.anyOf('LANG', filters.languages));
+    }
+
+    if (filters?.dateRange) {
+      const { start, end } = filters.dateRange;
+      if (start || end) {
+        const from = start ? formatFilterDate(start) : '*';
+        const to = end ? formatFilterDate(end) : '*';
+        clauses.push(`FIRST_PDATE:[${from} TO ${to}]`);
+      }
+    }
+
+    if (filters?.articleTypes?.length) {
+      const types = filters.articleTypes.map(type => type.toLowerCase());
+      const options: string[] = [];
+
+      // Preprints are a source of their own rather than a publication type
+      if (types.includes('preprint')) {
+        options.push('SRC:PPR');
+      }
+
+      const pubTypes = types
+        .filter(type => type !== 'preprint')
+        .map(type => PUB_TYPE_MAP[type] || type);
+      if (pubTypes.length) {
+        options.push(this.anyOf('PUB_TYPE', pubTypes));
+      }
+
+      clauses.push(`(${options.join(' OR ')})`);
+    } else if (!this.includePreprints) {
+      clauses.push('NOT SRC:PPR');
+    }
+
+    return { query: clauses.join(' AND '), warnings };
+  }
+
+  private anyOf(field: string, values: string[]): string {
+    return `(${values.map(value => `${field}:"${value.replace(/"/g, '')}"`).join(' OR ')})`;
+  }
+
+  private transformArticle(article: EuropePmcArticle): SearchResult {
+    const isPreprint = article.source === 'PPR';
+    const authors: Author[] = article.authorList?.author?.length
+      ? article.authorList.author.map(author => this.transformAuthor(author))
+      : (article.authorString || '')
+          .replace(/\.$/, '')
+          .split(', ')
+          .filter(Boolean)
+          .map(name => ({ name }));
+
+    // Preprints carry their server (bioRxiv, medRxiv, ...) as the publisher instead of a journal
+    const journalName = article.journalInfo?.journal?.title
+      || (isPreprint ? article.bookOrReportDetails?.publisher : undefined);
+    const journal: Journal | undefined = journalName
+      ? {
+          name: journalName,
+          volume: article.journalInfo?.volume,
+          issue: article.journalInfo?.issue,
+          pages: article.pageInfo,
+          identifier: article.journalInfo?.journal?.ISSN || article.journalInfo?.journal?.ESSN
+        }
+      : undefined;
+
+    const meshTerms = (article.meshHeadingList?.meshHeading || []).map(heading => heading.descriptorName);
+
+    return {
+      id: `${article.source}:${article.id}`,
+      databaseId: this.id,
+      title: article.title ? this.stripMarkup(article.title) : '[Untitled]',
+      authors,
+      abstract: article.abstractText ? this.stripMarkup(article.abstractText) : undefined,
+      journal,
+      doi: article.doi,
+      publicationDate: this.parsePublicationDate(article),
+      keywords: article.keywordList?.keyword || meshTerms,
+      articleType: isPreprint ? 'preprint' : article.pubTypeList?.pubType?.[0],
+      language: article.language,
+      fullTextUrl: this.selectFullTextUrl(article),
+      citationCount: article.citedByCount,
+      metadata: {
+        europePmcId: article.id,
+        source: article.source,
+        pmid: article.pmid,
+        pmcid: article.pmcid,
+        doi: article.doi,
+        url: `https://europepmc.org/article/${article.source}/${article.id}`,
+        isOpenAccess: article.isOpenAccess === 'Y',
+        isPreprint,
+        preprintServer: isPreprint ? article.bookOrReportDetails?.publisher : undefined,
+        preprintVersion: isPreprint ? article.versionNumber : undefined,
+        license: article.license,
+        meshTerms,
+        publicationTypes: article.pubTypeList?.pubType || []
+      }
+    };
+  }
+
+  private transformAuthor(author: EuropePmcAuthor): Author {
+    const affiliations = author.authorAffiliationDetailsList?.authorAffiliation || [];
+
+    return {
+      name: author.fullName
+        || author.collectiveName
+        || `${author.lastName || ''} ${author.initials || ''}`.trim(),
+      affiliation: affiliations.map(a => a.affiliation).join('; ') || undefined,
+      identifier: author.authorId?.type === 'ORCID' ? author.authorId.value : undefined
+    };
+  }
+
+  /**
+   * Link to readable full text for open-access (or otherwise free) articles only
+   */
+  private selectFullTextUrl(article: EuropePmcArticle): string | undefined {
+    const free = (article.fullTextUrlList?.fullTextUrl || []).filter(link =>
+      link.availabilityCode === 'OA' || link.availabilityCode === 'F'
+    );
+
+    const link = free.find(candidate => candidate.documentStyle === 'pdf')
+      || free.find(candidate => candidate.documentStyle === 'html');
+    if (link) {
+      return link.url;
+    }
+
+    if (article.isOpenAccess === 'Y' && article.pmcid) {
+      return `https://europepmc.org/article/PMC/${article.pmcid}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Titles and abstracts may contain inline HTML such as <i> or <sup>
+   */
+  private stripMarkup(text: string): string {
+    return text
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private parsePublicationDate(article: EuropePmcArticle): Date | undefined {
+    const date = article.firstPublicationDate || article.journalInfo?.printPublicationDate;
+    if (date && !isNaN(Date.parse(date))) {
+      return new Date(date);
+    }
+
+    const year = parseInt(article.pubYear || '', 10);
+    return year ? new Date(Date.UTC(year, 0, 1)) : undefined;
+  }
+
+  protected transformError(error: unknown): SearchError {
+    if (this.isSearchError(error)) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('rate limit')) {
+        return {
+          name: 'RateLimitError',
+          message: 'Europe PMC rate limit exceeded',
+          type: 'rate_limit',
+          retryable: true,
+          source: this.id
+        };
+      }
+
+      return {
+        name: error.name,
+        message: error.message,
+        type: 'unknown',
+        retryable: true,
+        source: this.id
+      };
+    }
+
+    return {
+      name: 'UnknownError',
+      message: 'An unknown error occurred',
+      type: 'unknown',
+      retryable: false,
+      source: this.id
+    };
+  }
+}
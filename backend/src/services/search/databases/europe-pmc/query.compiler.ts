@@ -0,0 +1,44 @@
+// backend/src/services/search/databases/europe-pmc/query.compiler.ts
+import { QueryPhraseNode, QueryTermNode, QueryYearNode } from '@thinkleap/shared/types/query';
+import { BooleanQueryCompiler } from '../../query';
+
+const FIELDS: Record<NonNullable<QueryTermNode['field']>, string> = {
+  title: 'TITLE',
+  abstract: 'ABSTRACT',
+  author: 'AUTH',
+  journal: 'JOURNAL'
+};
+
+// Characters with a meaning of their own in the Europe PMC query syntax
+const SPECIAL_CHARACTERS = /[:\\/{}[\]^!~+]/;
+
+/**
+ * Compiles the shared query AST into the Europe PMC (Lucene) query syntax
+ */
+export class EuropePmcQueryCompiler extends BooleanQueryCompiler {
+  protected readonly source = 'Europe PMC';
+
+  protected term(node: QueryTermNode, warnings: Set<string>): string {
+    let value = node.value;
+    if (value.includes('?')) {
+      value = value.replace(/\?/g, '*');
+      warnings.add(`Europe PMC only supports the * wildcard; "${node.value}" was searched as "${value}"`);
+    }
+    if (SPECIAL_CHARACTERS.test(value)) {
+      value = `"${value.replace(/"/g, '')}"`;
+    }
+    return this.prefix(node, value);
+  }
+
+  protected phrase(node: QueryPhraseNode): string {
+    return this.prefix(node, `"${node.value}"${node.proximity ? `~${node.proximity}` : ''}`);
+  }
+
+  protected year(node: QueryYearNode): string {
+    return `PUB_YEAR:[${node.from} TO ${node.to}]`;
+  }
+
+  private prefix(node: QueryTermNode | QueryPhraseNode, value: string): string {
+    return node.field ? `${FIELDS[node.field]}:${value}` : value;
+  }
+}
@@ -0,0 +1,101 @@
+// backend/src/services/search/databases/europe-pmc/types.ts
+import { DatabaseConfig } from '../types';
+
+export interface EuropePmcConfig extends DatabaseConfig {
+  // Europe PMC indexes preprints (bioRxiv, medRxiv, Research Square, ...) next to journal articles
+  includePreprints?: boolean;
+}
+
+export type EuropePmcResultType = 'idlist' | 'lite' | 'core';
+
+export interface EuropePmcAuthor {
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+  initials?: string;
+  collectiveName?: string;
+  authorId?: {
+    type: string;
+    value: string;
+  };
+  authorAffiliationDetailsList?: {
+    authorAffiliation: Array<{
+      affiliation: string;
+    }>;
+  };
+}
+
+export interface EuropePmcFullTextUrl {
+  availability?: string;
+  availabilityCode?: 'OA' | 'F' | 'S' | 'R' | string;  // Open access, free, subscription, registration
+  documentStyle?: 'pdf' | 'html' | 'doi' | 'abs' | string;
+  site?: string;
+  url: string;
+}
+
+export interface EuropePmcArticle {
+  id: string;
+  source: string;  // MED, PMC, PPR (preprints), AGR, CBA, CTX, ETH, HIR, PAT
+  pmid?: string;
+  pmcid?: string;
+  doi?: string;
+  title?: string;
+  authorString?: string;
+  authorList?: {
+    author: EuropePmcAuthor[];
+  };
+  journalInfo?: {
+    issue?: string;
+    volume?: string;
+    dateOfPublication?: string;
+    printPublicationDate?: string;
+    yearOfPublication?: number;
+    journal?: {
+      title?: string;
+      medlineAbbreviation?: string;
+      ISOAbbreviation?: string;
+      ISSN?: string;
+      ESSN?: string;
+    };
+  };
+  bookOrReportDetails?: {
+    publisher?: string;
+    yearOfPublication?: number;
+  };
+  pubYear?: string;
+  pageInfo?: string;
+  abstractText?: string;
+  language?: string;
+  pubTypeList?: {
+    pubType: string[];
+  };
+  keywordList?: {
+    keyword: string[];
+  };
+  meshHeadingList?: {
+    meshHeading: Array<{
+      majorTopic_YN?: 'Y' | 'N';
+      descriptorName: string;
+    }>;
+  };
+  fullTextUrlList?: {
+    fullTextUrl: EuropePmcFullTextUrl[];
+  };
+  isOpenAccess?: 'Y' | 'N';
+  inEPMC?: 'Y' | 'N';
+  inPMC?: 'Y' | 'N';
+  hasPDF?: 'Y' | 'N';
+  citedByCount?: number;
+  license?: string;
+  firstPublicationDate?: string;
+  versionNumber?: number;
+}
+
+export interface EuropePmcSearchResponse {
+  version?: string;
+  hitCount: number;
+  nextCursorMark?: string;
+  resultList?: {
+    result: EuropePmcArticle[];
+  };
+}
@@ -0,0 +1,558 @@
+// backend/src/services/search/databases/openalex/connector.ts
+import { BaseDatabaseConnector, formatFilterDate } from '../base.connector';
+import { SearchFilters, SearchQuery, SearchResult, SortOrder, Author, Journal } from '@thinkleap/shared/types/search';
+import { CitationDirection } from '@thinkleap/shared/types/record';
+import { Logger } from '../../../logger';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import { OpenAlexConfig, OpenAlexWorksResponse, OpenAlexWork, OpenAlexAuthorship } from './types';
+import { SearchError, ConnectorPageRequest, ConnectorSearchResult, CitationTarget } from '../types';
+import { CompiledQuery } from '../../query';
+import { OpenAlexQueryCompiler } from './query.compiler';
+
+// Largest page the works endpoint returns
+const MAX_PAGE_SIZE = 200;
+
+const WORK_FIELDS = [
+  'id',
+  'doi',
+  'title',
+  'display_name',
+  'publication_year',
+  'publication_date',
+  'ids',
+  'language',
+  'type',
+  'primary_location',
+  'best_oa_location',
+  'open_access',
+  'authorships',
+  'cited_by_count',
+  'biblio',
+  'concepts',
+  'topics',
+  'primary_topic',
+  'keywords',
+  'abstract_inverted_index',
+  'referenced_works_count',
+  'is_retracted'
+].join(',');
+
+// Maps the article type labels used by the frontend onto OpenAlex work types
+const WORK_TYPE_MAP: Record<string, string> = {
+  'journal article': 'article',
+  'article': 'article',
+  'review': 'review',
+  'systematic review': 'review',
+  'preprint': 'preprint',
+  'book': 'book',
+  'book chapter': 'book-chapter',
+  'conference paper': 'article',
+  'dataset': 'dataset',
+  'dissertation': 'dissertation',
+  'editorial': 'editorial',
+  'letter': 'letter',
+  'erratum': 'erratum',
+  'report': 'report'
+};
+
+const OPENALEX_ID = /^(?:https:\/\/openalex\.org\/)?([ICT]\d+)$/i;
+// `sort` values of each sort order. relevance_score is only defined alongside `search`.
+const SORT_PARAMS: Record<SortOrder, string> = {
+  relevance: 'relevance_score:desc',
+  date_desc: 'publication_date:desc',
+  date_asc: 'publication_date:asc',
+  citations: 'cited_by_count:desc'
+};
+
+const ROR_ID = /^(?:https:\/\/ror\.org\/)?(0[a-z0-9]{8})$/i;
+
+/**
+ * Institution or concept filter values split into what OpenAlex can match upstream and plain names
+ */
+interface EntityFilter {
+  ids: string[];
+  rors: string[];
+  names: string[];
+}
+
+export class OpenAlexConnector extends BaseDatabaseConnector {
+  private readonly baseUrl: string;
+  private readonly mailto?: string;
+  protected readonly supportedFilters: Array<keyof SearchFilters> = [
+    'dateRange',
+    'authors',
+    'journals',
+    'articleTypes',
+    'languages',
+    'institutions',
+    'concepts'
+  ];
+  protected readonly supportedSorts = Object.keys(SORT_PARAMS) as SortOrder[];
+  private readonly queryCompiler = new OpenAlexQueryCompiler();
+
+  constructor(
+    config: OpenAlexConfig,
+    logger: Logger,
+    cacheService: ICache,
+    rateLimiter: IOutboundRateLimiter
+  ) {
+    super(config, logger, cacheService, rateLimiter);
+    this.baseUrl = config.baseUrl;
+    this.mailto = config.mailto;
+  }
+
+  translateQuery(query: SearchQuery): CompiledQuery {
+    const { query: params, warnings } = this.buildParams(query);
+    return { query: this.describeParams(params), warnings };
+  }
+
+  async validateAccess(): Promise<boolean> {
+    // OpenAlex is openly accessible
+    return true;
+  }
+
+  async authenticate(): Promise<void> {
+    // No authentication needed; the polite pool is selected via mailto
+  }
+
+  async search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult> {
+    try {
+      const window = this.resolvePage(query, page);
+
+      // OpenAlex pages are fixed-size, so fetch every page overlapping the window and trim it
+      const pageSize = Math.min(window.limit, MAX_PAGE_SIZE);
+      const firstPage = Math.floor(window.offset / pageSize) + 1;
+      const lastPage = Math.floor((window.offset + window.limit - 1) / pageSize) + 1;
+
+      let works: OpenAlexWork[] = [];
+      let total = 0;
+      for (let current = firstPage; current <= lastPage; current++) {
+        const response = await this.searchWorks(query, current, pageSize);
+        total = response.meta.count;
+        works = works.concat(response.results || []);
+        if ((response.results || []).length < pageSize) break;
+      }
+
+      const start = window.offset - (firstPage - 1) * pageSize;
+      const windowWorks = works.slice(start, start + window.limit);
+
+      return {
+        results: this.filterLocally(windowWorks, query).map(work => this.transformWork(work)),
+        total,
+        fetched: windowWorks.length
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchRecords(ids: string[]): Promise<SearchResult[]> {
+    try {
+      const params = new URLSearchParams({
+        filter: `openalex:${ids.join('|')}`,
+        'per-page': Math.min(ids.length, MAX_PAGE_SIZE).toString(),
+        select: WORK_FIELDS
+      });
+
+      const body = await this.requestWorks(params);
+      return (body.results || []).map(work => this.transformWork(work));
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchCitations(
+    target: CitationTarget,
+    direction: CitationDirection,
+    limit: number
+  ): Promise<ConnectorSearchResult | undefined> {
+    try {
+      const workId = await this.resolveWorkId(target);
+      if (!workId) return undefined;
+
+      // `cited_by` lists the works a work cites, `cites` the works citing it
+      const params = new URLSearchParams({
+        filter: `${direction === 'references' ? 'cited_by' : 'cites'}:${workId}`,
+        sort: 'cited_by_count:desc',
+        'per-page': Math.min(limit, MAX_PAGE_SIZE).toString(),
+        select: WORK_FIELDS
+      });
+
+      const body = await this.requestWorks(params);
+      const works = body.results || [];
+      return {
+        results: works.map(work => this.transformWork(work)),
+        total: body.meta.count,
+        fetched: works.length
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  /**
+   * OpenAlex id of a citation target, looked up by DOI or PMID when it comes from another database
+   */
+  private async resolveWorkId(target: CitationTarget): Promise<string | undefined> {
+    if (target.databaseId === this.id) return target.id;
+
+    const filter = target.doi
+      ? `doi:${target.doi}`
+      : target.pmid ? `ids.pmid:${target.pmid}` : undefined;
+    if (!filter) return undefined;
+
+    const body = await this.requestWorks(new URLSearchParams({ filter, 'per-page': '1', select: 'id' }));
+    const work = body.results?.[0];
+    return work ? this.shortId(work.id) : undefined;
+  }
+
+  private async searchWorks(
+    query: SearchQuery,
+    page: number,
+    pageSize: number
+  ): Promise<OpenAlexWorksResponse> {
+    const { query: params } = this.buildParams(query);
+    const sortBy = this.upstreamSort(query);
+    if (sortBy !== 'relevance' || params.has('search')) {
+      params.append('sort', SORT_PARAMS[sortBy]);
+    }
+    params.append('page', page.toString());
+    params.append('per-page', pageSize.toString());
+    params.append('select', WORK_FIELDS);
+
+    return this.requestWorks(params);
+  }
+
+  private buildParams(query: SearchQuery): CompiledQuery<URLSearchParams> {
+    const { query: works, warnings } = this.queryCompiler.compileWorks(this.parseTerm(query));
+    const params = new URLSearchParams();
+
+    if (works.search) {
+      params.append('search', works.search);
+    }
+
+    const filter = [...works.filters, this.buildFilter(query)].filter(Boolean).join(',');
+    if (filter) {
+      params.append('filter', filter);
+    }
+
+    return { query: params, warnings };
+  }
+
+  private async requestWorks(params: URLSearchParams): Promise<OpenAlexWorksResponse> {
+    if (this.mailto) {
+      params.append('mailto', this.mailto);
+    }
+
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/works?${params}`);
+      if (res.status === 429) {
+        throw new Error('OpenAlex rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAlex request failed: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Build the OpenAlex `filter` parameter. Values within one filter are OR'ed with `|`.
+   */
+  private buildFilter(query: SearchQuery): string {
+    const filters: string[] = [];
+
+    if (query.filters?.dateRange) {
+      const { start, end } = query.filters.dateRange;
+      if (start) filters.push(`from_publication_date:${formatFilterDate(start)}`);
+      if (end) filters.push(`to_publication_date:${formatFilterDate(end)}`);
+    }
+
+    if (query.filters?.articleTypes?.length) {
+      const types = new Set(
+        query.filters.articleTypes
+          .map(type => WORK_TYPE_MAP[type.toLowerCase()])
+          .filter(Boolean)
+      );
+      if (types.size) {
+        filters.push(`type:${Array.from(types).join('|')}`);
+      }
+    }
+
+    if (query.filters?.languages?.length) {
+      filters.push(`language:${query.filters.languages.join('|')}`);
+    }
+
+    // Names can't be OR'ed upstream, so a filter mixing ids and names is matched locally instead
+    const institutions = this.parseEntityFilter(query.filters?.institutions);
+    if (institutions && !institutions.names.length) {
+      if (institutions.ids.length) {
+        filters.push(`institutions.id:${institutions.ids.join('|')}`);
+      }
+      if (institutions.rors.length) {
+        filters.push(`institutions.ror:${institutions.rors.join('|')}`);
+      }
+    }
+
+    const concepts = this.parseEntityFilter(query.filters?.concepts);
+    if (concepts && !concepts.names.length) {
+      const conceptIds = concepts.ids.filter(id => id.startsWith('C'));
+      const topicIds = concepts.ids.filter(id => id.startsWith('T'));
+      if (conceptIds.length) {
+        filters.push(`concepts.id:${conceptIds.join('|')}`);
+      }
+      if (topicIds.length) {
+        filters.push(`topics.id:${topicIds.join('|')}`);
+      }
+    }
+
+    return filters.join(',');
+  }
+
+  private parseEntityFilter(values?: string[]): EntityFilter | undefined {
+    if (!values?.length) return undefined;
+
+    const filter: EntityFilter = { ids: [], rors: [], names: [] };
+    values.forEach(value => {
+      const trimmed = value.trim();
+      const openAlexId = trimmed.match(OPENALEX_ID);
+      const rorId = trimmed.match(ROR_ID);
+      if (openAlexId) {
+        filter.ids.push(openAlexId[1].toUpperCase());
+      } else if (rorId) {
+        filter.rors.push(rorId[1].toLowerCase());
+      } else if (trimmed) {
+        filter.names.push(trimmed.toLowerCase());
+      }
+    });
+    return filter;
+  }
+
+  /**
+   * OpenAlex has no name filters for authors and journals, and institution or concept
+   * names can't be OR'ed upstream, so those are matched here
+   */
+  private filterLocally(works: OpenAlexWork[], query: SearchQuery): OpenAlexWork[] {
+    const authors = query.filters?.authors?.map(author => author.toLowerCase());
+    const journals = query.filters?.journals?.map(journal => journal.toLowerCase());
+    const institutions = this.parseEntityFilter(query.filters?.institutions);
+    const concepts = this.parseEntityFilter(query.filters?.concepts);
+
+    return works.filter(work => {
+      if (authors?.length && !(work.authorships || []).some(authorship =>
+        authors.some(name => authorship.author.display_name.toLowerCase().includes(name))
+      )) {
+        return false;
+      }
+
+      if (journals?.length) {
+        const source = work.primary_location?.source?.display_name?.toLowerCase();
+        if (!source || !journals.includes(source)) {
+          return false;
+        }
+      }
+
+      if (institutions?.names.length && !this.matchesInstitution(work, institutions)) {
+        return false;
+      }
+
+      if (concepts?.names.length && !this.matchesConcept(work, concepts)) {
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  private matchesInstitution(work: OpenAlexWork, filter: EntityFilter): boolean {
+    return (work.authorships || []).some(authorship => {
+      const institutionMatch = (authorship.institutions || []).some(institution =>
+        filter.ids.includes(this.shortId(institution.id))
+          || (institution.ror ? filter.rors.includes(this.shortRor(institution.ror)) : false)
+          || filter.names.some(name => institution.display_name.toLowerCase().includes(name))
+      );
+
+      return institutionMatch || (authorship.raw_affiliation_strings || []).some(affiliation =>
+        filter.names.some(name => affiliation.toLowerCase().includes(name))
+      );
+    });
+  }
+
+  private matchesConcept(work: OpenAlexWork, filter: EntityFilter): boolean {
+    const entities = [...(work.concepts || []), ...(work.topics || [])];
+    return entities.some(entity =>
+      filter.ids.includes(this.shortId(entity.id))
+        || filter.names.some(name => entity.display_name.toLowerCase() === name)
+    );
+  }
+
+  private transformWork(work: OpenAlexWork): SearchResult {
+    const authors: Author[] = (work.authorships || []).map(authorship => this.transformAuthor(authorship));
+
+    const source = work.primary_location?.source;
+    const pages = [work.biblio?.first_page, work.biblio?.last_page].filter(Boolean).join('-');
+    const journal: Journal | undefined = source
+      ? {
+          name: source.display_name,
+          volume: work.biblio?.volume || undefined,
+          issue: work.biblio?.issue || undefined,
+          pages: pages || undefined,
+          identifier: source.issn_l || undefined
+        }
+      : undefined;
+
+    const doi = work.doi ? work.doi.replace(/^https?:\/\/doi\.org\//, '') : undefined;
+    const concepts = (work.concepts || []).map(concept => ({
+      id: this.shortId(concept.id),
+      name: concept.display_name,
+      level: concept.level,
+      score: concept.score
+    }));
+    const topics = (work.topics || []).map(topic => ({
+      id: this.shortId(topic.id),
+      name: topic.display_name,
+      subfield: topic.subfield?.display_name,
+      field: topic.field?.display_name,
+      domain: topic.domain?.display_name,
+      score: topic.score
+    }));
+
+    return {
+      id: this.shortId(work.id),
+      databaseId: this.id,
+      title: work.display_name || work.title || '[Untitled]',
+      authors,
+      abstract: this.rebuildAbstract(work.abstract_inverted_index),
+      journal,
+      doi,
+      publicationDate: this.parsePublicationDate(work),
+      keywords: (work.keywords || []).map(keyword => keyword.display_name),
+      articleType: work.type || undefined,
+      language: work.language || undefined,
+      fullTextUrl: work.best_oa_location?.pdf_url
+        || work.open_access?.oa_url
+        || undefined,
+      citationCount: work.cited_by_count,
+      metadata: {
+        openAlexId: this.shortId(work.id),
+        url: work.id,
+        doi,
+        pmid: work.ids?.pmid?.replace(/^https?:\/\/pubmed\.ncbi\.nlm\.nih\.gov\//, ''),
+        pmcid: work.ids?.pmcid?.replace(/^https?:\/\/www\.ncbi\.nlm\.nih\.gov\/pmc\/articles\//, ''),
+        isOpenAccess: work.open_access?.is_oa,
+        openAccessStatus: work.open_access?.oa_status,
+        license: work.best_oa_location?.license || work.primary_location?.license || undefined,
+        publisher: source?.host_organization_name || undefined,
+        concepts,
+        topics,
+        primaryTopic: work.primary_topic?.display_name,
+        institutions: this.collectInstitutions(work),
+        referencesCount: work.referenced_works_count,
+        isRetracted: work.is_retracted
+      }
+    };
+  }
+
+  private transformAuthor(authorship: OpenAlexAuthorship): Author {
+    const affiliations = authorship.institutions?.length
+      ? authorship.institutions.map(institution => institution.display_name)
+      : authorship.raw_affiliation_strings || [];
+
+    return {
+      name: authorship.author.display_name,
+      affiliation: affiliations.join('; ') || undefined,
+      identifier: authorship.author.orcid?.replace(/^https?:\/\/orcid\.org\//, '') || undefined
+    };
+  }
+
+  private collectInstitutions(work: OpenAlexWork): Array<{ id: string; name: string; ror?: string; countryCode?: string }> {
+    const institutions = new Map<string, { id: string; name: string; ror?: string; countryCode?: string }>();
+    (work.authorships || []).forEach(authorship => {
+      (authorship.institutions || []).forEach(institution => {
+        const id = this.shortId(institution.id);
+        if (!institutions.has(id)) {
+          institutions.set(id, {
+            id,
+            name: institution.display_name,
+            ror: institution.ror ? this.shortRor(institution.ror) : undefined,
+            countryCode: institution.country_code || undefined
+          });
+        }
+      });
+    });
+    return Array.from(institutions.values());
+  }
+
+  /**
+   * Put the abstract back together from its inverted index (word -> positions)
+   */
+  private rebuildAbstract(index?: Record<string, number[]> | null): string | undefined {
+    if (!index) return undefined;
+
+    const words: string[] = [];
+    Object.entries(index).forEach(([word, positions]) => {
+      positions.forEach(position => {
+        words[position] = word;
+      });
+    });
+
+    const abstract = words.filter(Boolean).join(' ');
+    return abstract || undefined;
+  }
+
+  /**
+   * `https://openalex.org/W2741809807` -> `W2741809807`
+   */
+  private shortId(id: string): string {
+    return id.replace(/^https:\/\/openalex\.org\//, '');
+  }
+
+  private shortRor(ror: string): string {
+    return ror.replace(/^https:\/\/ror\.org\//, '').toLowerCase();
+  }
+
+  private parsePublicationDate(work: OpenAlexWork): Date | undefined {
+    if (work.publication_date) {
+      return new Date(work.publication_date);
+    }
+    return work.publication_year ? new Date(Date.UTC(work.publication_year, 0, 1)) : undefined;
+  }
+
+  protected transformError(error: unknown): SearchError {
+    if (this.isSearchError(error)) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('rate limit')) {
+        return {
+          name: 'RateLimitError',
+          message: 'OpenAlex rate limit exceeded',
+          type: 'rate_limit',
+          retryable: true,
+          source: this.id
+        };
+      }
+
+      return {
+        name: error.name,
+        message: error.message,
+        type: 'unknown',
+        retryable: true,
+        source: this.id
+      };
+    }
+
+    return {
+      name: 'UnknownError',
+      message: 'An unknown error occurred',
+      type: 'unknown',
+      retryable: false,
+      source: this.id
+    };
+  }
+}
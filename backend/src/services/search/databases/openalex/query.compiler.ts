@@ -0,0 +1,87 @@
+// backend/src/services/search/databases/openalex/query.compiler.ts
+import {
+  QueryNode,
+  QueryPhraseNode,
+  QueryTermNode,
+  QueryYearNode
+} from '@thinkleap/shared/types/query';
+import { formatQuery } from '@thinkleap/shared/utils/query-parser';
+import { BooleanQueryCompiler, CompiledQuery } from '../../query';
+
+export interface OpenAlexQuery {
+  search: string;  // Boolean `search` parameter
+  filters: string[];  // Field searches and years, ANDed with the search
+}
+
+// Fields OpenAlex can search on their own, as `<field>.search` filters
+const SEARCH_FILTERS: Partial<Record<NonNullable<QueryTermNode['field']>, string>> = {
+  title: 'title.search',
+  abstract: 'abstract.search'
+};
+
+/**
+ * Compiles the shared query AST for the OpenAlex works endpoint. The `search` parameter
+ * takes boolean syntax without fields; top-level title, abstract and year terms become filters.
+ */
+export class OpenAlexQueryCompiler extends BooleanQueryCompiler {
+  protected readonly source = 'OpenAlex';
+  protected readonly andNot = 'NOT';
+
+  compileWorks(ast: QueryNode): CompiledQuery<OpenAlexQuery> {
+    const warnings = new Set<string>();
+    const filters: string[] = [];
+    const rest: QueryNode[] = [];
+
+    const conjuncts = ast.type === 'and' ? ast.children : [ast];
+    conjuncts.forEach(node => {
+      const filter = this.filter(node, warnings);
+      if (filter) {
+        filters.push(filter);
+      } else {
+        rest.push(node);
+      }
+    });
+
+    const search = rest.length
+      ? this.render(rest.length === 1 ? rest[0] : { type: 'and', children: rest }, warnings)
+      : '';
+
+    return { query: { search, filters }, warnings: Array.from(warnings) };
+  }
+
+  protected term(node: QueryTermNode, warnings: Set<string>): string {
+    if (node.field) this.unsupportedField(node, warnings);
+    return this.withoutWildcards(node, warnings);
+  }
+
+  protected phrase(node: QueryPhraseNode, warnings: Set<string>): string {
+    if (node.field) this.unsupportedField(node, warnings);
+    this.ignoreProximity(node, warnings);
+    return `"${node.value}"`;
+  }
+
+  protected year(node: QueryYearNode, warnings: Set<string>): string {
+    warnings.add(`OpenAlex can only filter by year for the whole query; "${formatQuery(node)}" was ignored`);
+    return '';
+  }
+
+  /**
+   * A filter for a top-level conjunct, if it can be expressed as one
+   */
+  private filter(node: QueryNode, warnings: Set<string>): string | undefined {
+    if (node.type === 'year') {
+      return `publication_year:${node.from}-${node.to}`;
+    }
+
+    if ((node.type === 'term' || node.type === 'phrase') && node.field && SEARCH_FILTERS[node.field]) {
+      const value = node.type === 'term'
+        ? this.withoutWildcards(node, warnings)
+        : `"${node.value}"`;
+      if (node.type === 'phrase') this.ignoreProximity(node, warnings);
+      // Commas separate filters
+      return `${SEARCH_FILTERS[node.field]}:${value.replace(/,/g, ' ')}`;
+    }
+
+    return undefined;
+  }
+}
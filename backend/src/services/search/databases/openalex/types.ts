@@ -0,0 +1,113 @@
+// backend/src/services/search/databases/openalex/types.ts
+import { DatabaseConfig } from '../types';
+
+export interface OpenAlexConfig extends DatabaseConfig {
+  // Contact address sent with every request to get into OpenAlex's "polite" pool
+  mailto?: string;
+}
+
+export interface OpenAlexInstitution {
+  id: string;
+  display_name: string;
+  ror?: string | null;
+  country_code?: string | null;
+  type?: string | null;
+}
+
+export interface OpenAlexAuthorship {
+  author_position?: 'first' | 'middle' | 'last';
+  author: {
+    id?: string | null;
+    display_name: string;
+    orcid?: string | null;
+  };
+  institutions?: OpenAlexInstitution[];
+  raw_affiliation_strings?: string[];
+  is_corresponding?: boolean;
+}
+
+export interface OpenAlexSource {
+  id: string;
+  display_name: string;
+  issn_l?: string | null;
+  issn?: string[] | null;
+  type?: string | null;
+  host_organization_name?: string | null;
+}
+
+export interface OpenAlexLocation {
+  is_oa?: boolean;
+  landing_page_url?: string | null;
+  pdf_url?: string | null;
+  source?: OpenAlexSource | null;
+  license?: string | null;
+  version?: string | null;
+}
+
+export interface OpenAlexConcept {
+  id: string;
+  display_name: string;
+  level?: number;
+  score?: number;
+  wikidata?: string;
+}
+
+export interface OpenAlexTopic {
+  id: string;
+  display_name: string;
+  score?: number;
+  subfield?: { id: string; display_name: string };
+  field?: { id: string; display_name: string };
+  domain?: { id: string; display_name: string };
+}
+
+export interface OpenAlexWork {
+  id: string;  // https://openalex.org/W...
+  doi?: string | null;  // https://doi.org/...
+  title?: string | null;
+  display_name?: string | null;
+  publication_year?: number | null;
+  publication_date?: string | null;
+  ids?: {
+    openalex?: string;
+    doi?: string;
+    mag?: string;
+    pmid?: string;  // https://pubmed.ncbi.nlm.nih.gov/...
+    pmcid?: string;
+  };
+  language?: string | null;
+  type?: string | null;
+  primary_location?: OpenAlexLocation | null;
+  best_oa_location?: OpenAlexLocation | null;
+  open_access?: {
+    is_oa: boolean;
+    oa_status?: 'diamond' | 'gold' | 'green' | 'hybrid' | 'bronze' | 'closed';
+    oa_url?: string | null;
+    any_repository_has_fulltext?: boolean;
+  };
+  authorships?: OpenAlexAuthorship[];
+  cited_by_count?: number;
+  biblio?: {
+    volume?: string | null;
+    issue?: string | null;
+    first_page?: string | null;
+    last_page?: string | null;
+  };
+  concepts?: OpenAlexConcept[];
+  topics?: OpenAlexTopic[];
+  primary_topic?: OpenAlexTopic | null;
+  keywords?: Array<{ id?: string; display_name: string; score?: number }>;
+  // Abstracts are only distributed as word -> positions
+  abstract_inverted_index?: Record<string, number[]> | null;
+  referenced_works_count?: number;
+  is_retracted?: boolean;
+}
+
+export interface OpenAlexWorksResponse {
+  meta: {
+    count: number;
+    page?: number | null;
+    per_page: number;
+  };
+  results: OpenAlexWork[];
+}
@@ -1,31 +1,184 @@
 // backend/src/services/search/databases/pubmed/connector.ts
 import { XMLParser } from 'fast-xml-parser';
-import { BaseDatabaseConnector } from '../base.connector';
-import { SearchQuery, SearchResult, Author, Journal } from '@thinkleap/shared/types/search';
+import { BaseDatabaseConnector, formatFilterDate } from '../base.connector';
+import {
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  Author,
+  Journal,
+  PubMedMetadata,
+  SortOrder
+} from '@thinkleap/shared/types/search';
+import {
+  CitationDirection,
+  RecordAuthor,
+  RecordDetail,
+  RecordIdentifier,
+  RecordReference,
+  SimilarArticlesResponse
+} from '@thinkleap/shared/types/record';
 import { Logger } from '../../../logger';
-import { CacheService } from '../../../cache';
-import { PubMedConfig, PubMedSearchResponse, PubMedArticle } from './types';
-import { SearchError } from '../types';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import {
+  PubMedConfig,
+  PubMedSearchResponse,
+  PubMedLinkResponse,
+  PubMedNeighborResponse,
+  PubMedArticle,
+  PubMedAuthor,
+  PubMedDate,
+  PubMedText
+} from './types';
+import { SearchError, ConnectorPageRequest, ConnectorSearchResult, CitationTarget } from '../types';
+import { CompiledQuery } from '../../query';
+import { PubMedQueryCompiler } from './query.compiler';
+
+// ISO 639-1 codes onto the language names PubMed indexes
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'english',
+  fr: 'french',
+  de: 'german',
+  es: 'spanish',
+  it: 'italian',
+  pt: 'portuguese',
+  nl: 'dutch',
+  ru: 'russian',
+  pl: 'polish',
+  ja: 'japanese',
+  zh: 'chinese',
+  ko: 'korean'
+};
+
+// MEDLINE language codes (ISO 639-2/B) onto ISO 639-1
+const LANGUAGE_CODES: Record<string, string> = {
+  eng: 'en',
+  fre: 'fr',
+  ger: 'de',
+  spa: 'es',
+  ita: 'it',
+  por: 'pt',
+  dut: 'nl',
+  rus: 'ru',
+  pol: 'pl',
+  jpn: 'ja',
+  chi: 'zh',
+  kor: 'ko'
+};
+
+// Article types whose PubMed publication type is spelled differently
+const PUBLICATION_TYPES: Record<string, string> = {
+  'rct': 'randomized controlled trial',
+  'case report': 'case reports',
+  'guideline': 'practice guideline'
+};
+
+// Open ends of a publication date range
+const EARLIEST_DATE = '1800/01/01';
+const LATEST_DATE = '3000/12/31';
+
+// Elements that may repeat, so a record with a single one still parses to an array
+const REPEATED_ELEMENTS = new Set([
+  'PubmedArticle',
+  'Author',
+  'AffiliationInfo',
+  'Identifier',
+  'AbstractText',
+  'ArticleId',
+  'ArticleDate',
+  'Language',
+  'PublicationType',
+  'Grant',
+  'MeshHeading',
+  'QualifierName',
+  'Chemical',
+  'KeywordList',
+  'Keyword',
+  'CommentsCorrections',
+  'ReferenceList',
+  'Reference'
+]);
+
+// esearch `sort` values; PubMed only sorts by publication date newest first
+const SORT_PARAMS: Partial<Record<SortOrder, string>> = {
+  relevance: 'relevance',
+  date_desc: 'pub_date'
+};
+
+// elink link names of each citation direction
+const CITATION_LINKS: Record<CitationDirection, string> = {
+  references: 'pubmed_pubmed_refs',
+  citations: 'pubmed_pubmed_citedin'
+};
+
+// elink link name of PubMed's similar articles
+const SIMILAR_LINK = 'pubmed_pubmed';
+
+// ArticleId types of cited works onto RecordIdentifier types
+const REFERENCE_ID_TYPES: Record<string, string> = {
+  pubmed: 'pmid',
+  pmc: 'pmcid',
+  doi: 'doi'
+};
+
+// Publication types that say nothing about what kind of article it is
+const GENERIC_PUBLICATION_TYPES = new Set(['journal article', 'retracted publication', 'english abstract']);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// First month of a season in MedlineDate values such as "2018 Winter"
+const SEASON_MONTHS: Record<string, number> = {
+  spring: 3,
+  summer: 6,
+  fall: 9,
+  autumn: 9,
+  winter: 12
+};
+
+// Entities left in the raw XML of titles and abstracts
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
 
 export class PubMedConnector extends BaseDatabaseConnector {
   private readonly parser: XMLParser;
   private readonly baseUrl: string;
+  protected readonly supportedFilters: Array<keyof SearchFilters> = [
+    'dateRange',
+    'authors',
+    'journals',
+    'articleTypes',
+    'languages'
+  ];
+  protected readonly supportedSorts = Object.keys(SORT_PARAMS) as SortOrder[];
+  private readonly queryCompiler = new PubMedQueryCompiler();
 
   constructor(
     config: PubMedConfig,
     logger: Logger,
-    cacheService: CacheService
+    cacheService: ICache,
+    rateLimiter: IOutboundRateLimiter
   ) {
-    super(config, logger, cacheService);
+    super(config, logger, cacheService, rateLimiter);
     this.parser = new XMLParser({
       ignoreAttributes: false,
-      parseAttributeValue: true
+      // PMIDs, ISSNs and dates must stay strings
+      parseTagValue: false,
+      parseAttributeValue: false,
+      // Titles and abstracts may contain inline markup; keep it as text and strip it afterwards
+      stopNodes: ['*.ArticleTitle', '*.AbstractText'],
+      isArray: name => REPEATED_ELEMENTS.has(name)
     });
     this.baseUrl = config.baseUrl;
   }
 
-  get name(): string {
-    return 'PubMed';
+  translateQuery(query: SearchQuery): CompiledQuery {
+    return this.buildSearchTerm(query);
   }
 
   async validateAccess(): Promise<boolean> {
@@ -37,42 +190,272 @@ export class PubMedConnector extends BaseDatabaseConnector {
     // No authentication needed for basic access
   }
 
-  async search(query: SearchQuery): Promise<SearchResult[]> {
+  async search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult> {
     try {
+      const window = this.resolvePage(query, page);
+
+      // Continue from the history server when we already hold a result set for this query
+      if (window.state?.webenv && window.state?.queryKey) {
+        try {
+          const articles = await this.fetchFromHistory(window);
+          return {
+            results: articles.map(article => this.transformArticle(article)),
+            total: parseInt(window.state.count || '0', 10),
+            fetched: articles.length,
+            state: window.state
+          };
+        } catch (error) {
+          // History sessions expire after inactivity; fall back to a fresh search
+          this.logger.debug('PubMed history session unavailable, re-running search', {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
       // First get article IDs
-      const searchResponse = await this.searchArticles(query);
-      
-      if (!searchResponse.esearchresult.idlist.length) {
-        return [];
+      const searchResponse = await this.searchArticles(query, window);
+      const { idlist, count, webenv, querykey } = searchResponse.esearchresult;
+      const state = webenv && querykey
+        ? { webenv, queryKey: querykey, count }
+        : undefined;
+
+      if (!idlist.length) {
+        return { results: [], total: parseInt(count || '0', 10), fetched: 0, state };
       }
 
       // Then fetch full article details
-      const articles = await this.fetchArticleDetails(
-        searchResponse.esearchresult.idlist
-      );
+      const articles = await this.fetchArticleDetails(idlist);
+
+      return {
+        results: articles.map(article => this.transformArticle(article)),
+        total: parseInt(count || '0', 10),
+        fetched: idlist.length,
+        state
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchRecords(ids: string[]): Promise<SearchResult[]> {
+    try {
+      const articles = await this.fetchArticleDetails(ids);
+      return articles.map(article => this.transformArticle(article));
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async getRecord(id: string): Promise<RecordDetail | null> {
+    try {
+      const [article] = await this.fetchArticleDetails([id]);
+      if (!article) return null;
+
+      const result = this.transformArticle(article);
+      const metadata = result.metadata as unknown as PubMedMetadata;
+      const articleIds = this.articleIds(article);
+      const referenceLists = article.PubmedData?.ReferenceList;
+
+      return {
+        ...result,
+        authors: (article.MedlineCitation.Article.AuthorList?.Author || [])
+          .map(author => this.transformRecordAuthor(author))
+          .filter(author => author.name),
+        abstractSections: metadata.abstractSections,
+        meshHeadings: metadata.meshHeadings,
+        references: referenceLists
+          ? referenceLists
+            .reduce<RecordReference[]>((all, list) => all.concat((list.Reference || []).map(reference => ({
+              citation: this.markupText(reference.Citation) || undefined,
+              identifiers: this.referenceIdentifiers(reference.ArticleIdList?.ArticleId || [])
+            }))), [])
+          : undefined,
+        identifiers: this.identifiers({
+          pmid: metadata.pmid,
+          pmcid: metadata.pmcid,
+          doi: result.doi,
+          pii: articleIds.pii,
+          issn: result.journal?.identifier
+        })
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchCitations(
+    target: CitationTarget,
+    direction: CitationDirection,
+    limit: number
+  ): Promise<ConnectorSearchResult | undefined> {
+    const pmid = target.databaseId === this.id ? target.id : target.pmid;
+    if (!pmid) return undefined;
+
+    try {
+      const linkname = CITATION_LINKS[direction];
+      const params = new URLSearchParams({
+        dbfrom: 'pubmed',
+        db: 'pubmed',
+        id: pmid,
+        linkname,
+        retmode: 'json'
+      });
+
+      if (this.config.auth?.apiKey) {
+        params.append('api_key', this.config.auth.apiKey);
+      }
+
+      const response = await this.withRetry(async () => {
+        const res = await this.request(`${this.baseUrl}/elink.fcgi?${params}`);
+        if (res.status === 429) {
+          throw new Error('PubMed rate limit exceeded');
+        }
+        return res;
+      });
+
+      if (!response.ok) {
+        throw new Error(`PubMed link lookup failed: ${response.statusText}`);
+      }
 
-      return articles.map(this.transformArticle);
+      const body: PubMedLinkResponse = await response.json();
+      const links = body.linksets?.[0]?.linksetdbs?.find(linkset => linkset.linkname === linkname)?.links || [];
+      const articles = links.length ? await this.fetchArticleDetails(links.slice(0, limit)) : [];
+
+      return {
+        results: articles.map(article => this.transformArticle(article)),
+        total: links.length,
+        fetched: articles.length
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  /**
+   * PubMed's own similar articles, with elink neighbor scores relative to the record's score
+   * against itself
+   */
+  async findSimilar(recordId: string, limit = 10): Promise<SimilarArticlesResponse | null> {
+    try {
+      const params = new URLSearchParams({
+        dbfrom: 'pubmed',
+        db: 'pubmed',
+        id: recordId,
+        linkname: SIMILAR_LINK,
+        cmd: 'neighbor_score',
+        retmode: 'json'
+      });
+
+      if (this.config.auth?.apiKey) {
+        params.append('api_key', this.config.auth.apiKey);
+      }
+
+      const response = await this.withRetry(async () => {
+        const res = await this.request(`${this.baseUrl}/elink.fcgi?${params}`);
+        if (res.status === 429) {
+          throw new Error('PubMed rate limit exceeded');
+        }
+        return res;
+      });
+
+      if (!response.ok) {
+        throw new Error(`PubMed similar articles lookup failed: ${response.statusText}`);
+      }
+
+      const body: PubMedNeighborResponse = await response.json();
+      const links = body.linksets?.[0]?.linksetdbs?.find(linkset => linkset.linkname === SIMILAR_LINK)?.links;
+      // elink answers unknown ids without any links, not even the record's link to itself
+      if (!links?.length) {
+        const [record] = await this.fetchArticleDetails([recordId]);
+        return record ? { databaseId: this.id, id: recordId, method: 'neighbors', results: [] } : null;
+      }
+
+      const scores = links.map(link => Number(link.score) || 0);
+      const selfScore = Number(links.find(link => link.id === recordId)?.score) || Math.max(...scores);
+      const neighbors = links
+        .filter(link => link.id !== recordId)
+        .sort((a, b) => Number(b.score) - Number(a.score))
+        .slice(0, limit);
+
+      const articles = neighbors.length ? await this.fetchArticleDetails(neighbors.map(link => link.id)) : [];
+      const results = new Map(articles.map(article => {
+        const result = this.transformArticle(article);
+        return [result.id, result] as [string, SearchResult];
+      }));
+
+      return {
+        databaseId: this.id,
+        id: recordId,
+        method: 'neighbors',
+        results: neighbors
+          .filter(link => results.has(link.id))
+          .map(link => ({
+            result: results.get(link.id)!,
+            score: selfScore ? Math.min(1, Number(link.score) / selfScore) : 0
+          }))
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async countResults(query: SearchQuery): Promise<number> {
+    try {
+      const params = new URLSearchParams({
+        db: 'pubmed',
+        term: this.buildSearchTerm(query).query,
+        rettype: 'count',
+        retmode: 'json'
+      });
+
+      if (this.config.auth?.apiKey) {
+        params.append('api_key', this.config.auth.apiKey);
+      }
+
+      const response = await this.withRetry(async () => {
+        const res = await this.request(`${this.baseUrl}/esearch.fcgi?${params}`);
+        if (res.status === 429) {
+          throw new Error('PubMed rate limit exceeded');
+        }
+        return res;
+      });
+
+      if (!response.ok) {
+        throw new Error(`PubMed count failed: ${response.statusText}`);
+      }
+
+      const body: PubMedSearchResponse = await response.json();
+      return parseInt(body.esearchresult.count || '0', 10);
     } catch (error) {
       throw this.transformError(error);
     }
   }
 
-  private async searchArticles(query: SearchQuery): Promise<PubMedSearchResponse> {
+  private async searchArticles(
+    query: SearchQuery,
+    page: ConnectorPageRequest
+  ): Promise<PubMedSearchResponse> {
     const params = new URLSearchParams({
       db: 'pubmed',
-      term: this.buildSearchTerm(query),
-      retmax: query.pagination.limit.toString(),
-      retstart: ((query.pagination.page - 1) * query.pagination.limit).toString(),
-      retmode: 'json'
+      term: this.buildSearchTerm(query).query,
+      retmax: page.limit.toString(),
+      retstart: page.offset.toString(),
+      retmode: 'json',
+      usehistory: 'y',
+      sort: SORT_PARAMS[this.upstreamSort(query)]!
     });
 
     if (this.config.auth?.apiKey) {
       params.append('api_key', this.config.auth.apiKey);
     }
 
-    const response = await this.withRetry(() =>
-      fetch(`${this.baseUrl}/esearch.fcgi?${params}`)
-    );
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/esearch.fcgi?${params}`);
+      if (res.status === 429) {
+        throw new Error('PubMed rate limit exceeded');
+      }
+      return res;
+    });
 
     if (!response.ok) {
       throw new Error(`PubMed search failed: ${response.statusText}`);
@@ -81,6 +464,38 @@ export class PubMedConnector extends BaseDatabaseConnector {
     return await response.json();
   }
 
+  /**
+   * Fetch a window of a previous search directly from the Entrez history server
+   */
+  private async fetchFromHistory(page: ConnectorPageRequest): Promise<PubMedArticle[]> {
+    const params = new URLSearchParams({
+      db: 'pubmed',
+      WebEnv: page.state?.webenv || '',
+      query_key: page.state?.queryKey || '',
+      retstart: page.offset.toString(),
+      retmax: page.limit.toString(),
+      retmode: 'xml'
+    });
+
+    if (this.config.auth?.apiKey) {
+      params.append('api_key', this.config.auth.apiKey);
+    }
+
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/efetch.fcgi?${params}`);
+      if (res.status === 429) {
+        throw new Error('PubMed rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (!response.ok) {
+      throw new Error(`PubMed fetch failed: ${response.statusText}`);
+    }
+
+    return this.parseArticleSet(await response.text());
+  }
+
   private async fetchArticleDetails(pmids: string[]): Promise<PubMedArticle[]> {
     const params = new URLSearchParams({
       db: 'pubmed',
@@ -92,93 +507,284 @@ export class PubMedConnector extends BaseDatabaseConnector {
       params.append('api_key', this.config.auth.apiKey);
     }
 
-    const response = await this.withRetry(() =>
-      fetch(`${this.baseUrl}/efetch.fcgi?${params}`)
-    );
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/efetch.fcgi?${params}`);
+      if (res.status === 429) {
+        throw new Error('PubMed rate limit exceeded');
+      }
+      return res;
+    });
 
     if (!response.ok) {
       throw new Error(`PubMed fetch failed: ${response.statusText}`);
     }
 
-    const xml = await response.text();
+    return this.parseArticleSet(await response.text());
+  }
+
+  private parseArticleSet(xml: string): PubMedArticle[] {
     const result = this.parser.parse(xml);
-    
-    return Array.isArray(result.PubmedArticleSet.PubmedArticle) 
-      ? result.PubmedArticleSet.PubmedArticle 
-      : [result.PubmedArticleSet.PubmedArticle];
+    return result.PubmedArticleSet?.PubmedArticle || [];
   }
 
-  private buildSearchTerm(query: SearchQuery): string {
-    const terms = [query.term];
+  private buildSearchTerm(query: SearchQuery): CompiledQuery {
+    const { query: term, warnings } = this.queryCompiler.compile(this.parseTerm(query));
+    const terms = [`(${term})`];
 
     if (query.filters?.dateRange) {
       const { start, end } = query.filters.dateRange;
-      if (start) terms.push(`"${start.getFullYear()}/01/01"[Date - Publication] : `);
-      if (end) terms.push(`"${end.getFullYear()}/12/31"[Date - Publication]`);
+      if (start || end) {
+        const from = start ? formatFilterDate(start).replace(/-/g, '/') : EARLIEST_DATE;
+        const to = end ? formatFilterDate(end).replace(/-/g, '/') : LATEST_DATE;
+        terms.push(`("${from}"[Date - Publication] : "${to}"[Date - Publication])`);
+      }
     }
 
     if (query.filters?.authors?.length) {
-      terms.push(query.filters.authors.map(author => 
-        `${author}[Author]`
-      ).join(' OR '));
+      terms.push(this.anyOf(query.filters.authors, 'Author'));
     }
 
     if (query.filters?.journals?.length) {
-      terms.push(query.filters.journals.map(journal =>
-        `"${journal}"[Journal]`
-      ).join(' OR '));
+      terms.push(this.anyOf(query.filters.journals, 'Journal'));
     }
 
-    return terms.join(' AND ');
+    if (query.filters?.articleTypes?.length) {
+      terms.push(this.anyOf(
+        query.filters.articleTypes.map(type => PUBLICATION_TYPES[type.toLowerCase()] || type.toLowerCase()),
+        'Publication Type'
+      ));
+    }
+
+    if (query.filters?.languages?.length) {
+      terms.push(this.anyOf(
+        query.filters.languages.map(language => LANGUAGE_NAMES[language.toLowerCase()] || language.toLowerCase()),
+        'Language'
+      ));
+    }
+
+    return { query: terms.join(' AND '), warnings };
+  }
+
+  private anyOf(values: string[], field: string): string {
+    return `(${values.map(value => `"${value.replace(/"/g, '')}"[${field}]`).join(' OR ')})`;
   }
 
   private transformArticle(article: PubMedArticle): SearchResult {
     const citation = article.MedlineCitation;
-    const pubmedData = article.PubmedData;
+    const details = citation.Article;
+    const pmid = this.text(citation.PMID);
 
-    const authors: Author[] = citation.Article.AuthorList?.Author.map(author => ({
-      name: `${author.LastName || ''} ${author.ForeName || ''}`.trim(),
-      affiliation: author.Affiliation
-    })) || [];
+    const authors: Author[] = (details.AuthorList?.Author || [])
+      .map(author => this.transformAuthor(author))
+      .filter(author => author.name);
 
     const journal: Journal = {
-      name: citation.Article.Journal.Title,
-      volume: citation.Article.Journal.JournalIssue.Volume,
-      issue: citation.Article.Journal.JournalIssue.Issue
+      name: details.Journal.Title,
+      volume: details.Journal.JournalIssue.Volume,
+      issue: details.Journal.JournalIssue.Issue,
+      pages: details.Pagination?.MedlinePgn,
+      identifier: this.text(details.Journal.ISSN) || undefined
+    };
+
+    const articleIds = this.articleIds(article);
+    const pmcid = articleIds.pmc;
+
+    const abstractSections = (details.Abstract?.AbstractText || [])
+      .map(section => ({
+        label: this.attribute(section, 'Label'),
+        category: this.attribute(section, 'NlmCategory'),
+        text: this.markupText(section)
+      }))
+      .filter(section => section.text);
+
+    const publicationTypes = (details.PublicationTypeList?.PublicationType || [])
+      .map(type => this.text(type))
+      .filter(Boolean);
+    const articleType = publicationTypes.find(type =>
+      !GENERIC_PUBLICATION_TYPES.has(type.toLowerCase()) && !type.startsWith('Research Support')
+    ) || publicationTypes[0];
+
+    const corrections = (citation.CommentsCorrectionsList?.CommentsCorrections || []).map(correction => ({
+      type: correction['@_RefType'],
+      source: correction.RefSource,
+      pmid: this.text(correction.PMID) || undefined
+    }));
+
+    const metadata: PubMedMetadata = {
+      pmid,
+      pmcid,
+      publicationTypes,
+      meshHeadings: (citation.MeshHeadingList?.MeshHeading || []).map(heading => ({
+        descriptor: this.text(heading.DescriptorName),
+        ui: this.attribute(heading.DescriptorName, 'UI'),
+        majorTopic: this.attribute(heading.DescriptorName, 'MajorTopicYN') === 'Y',
+        qualifiers: (heading.QualifierName || []).map(qualifier => ({
+          name: this.text(qualifier),
+          ui: this.attribute(qualifier, 'UI'),
+          majorTopic: this.attribute(qualifier, 'MajorTopicYN') === 'Y'
+        }))
+      })),
+      chemicals: (citation.ChemicalList?.Chemical || []).map(chemical => ({
+        name: this.text(chemical.NameOfSubstance),
+        ui: this.attribute(chemical.NameOfSubstance, 'UI'),
+        // "0" marks a substance without a registry number
+        registryNumber: chemical.RegistryNumber && chemical.RegistryNumber !== '0'
+          ? chemical.RegistryNumber
+          : undefined
+      })),
+      grants: (details.GrantList?.Grant || []).map(grant => ({
+        id: grant.GrantID,
+        acronym: grant.Acronym,
+        agency: grant.Agency,
+        country: grant.Country
+      })),
+      corrections,
+      retracted: publicationTypes.includes('Retracted Publication')
+        || corrections.some(correction => correction.type === 'RetractionIn'),
+      abstractSections: abstractSections.some(section => section.label) ? abstractSections : undefined
     };
 
-    const doi = pubmedData?.ArticleIdList
-      .find(id => id.IdType === 'doi')
-      ?.ArticleId;
+    const language = details.Language?.[0]?.toLowerCase();
 
     return {
-      id: citation.PMID,
-      databaseId: 'pubmed',
-      title: citation.Article.ArticleTitle,
+      id: pmid,
+      databaseId: this.id,
+      title: this.markupText(details.ArticleTitle),
       authors,
-      abstract: Array.isArray(citation.Article.Abstract?.AbstractText)
-        ? citation.Article.Abstract.AbstractText.join(' ')
-        : citation.Article.Abstract?.AbstractText || undefined,
+      abstract: abstractSections.length
+        ? abstractSections
+          .map(section => section.label ? `${section.label}: ${section.text}` : section.text)
+          .join('\n\n')
+        : undefined,
       journal,
-      doi,
-      publicationDate: this.parsePublicationDate(citation.Article.Journal.JournalIssue.PubDate),
-      keywords: citation.KeywordList?.Keyword || [],
-      metadata: {
-        pmid: citation.PMID
-      }
+      doi: articleIds.doi,
+      publicationDate: this.parsePublicationDate(details.Journal.JournalIssue.PubDate)
+        || this.parsePublicationDate(details.ArticleDate?.[0]),
+      keywords: (citation.KeywordList || [])
+        .reduce<PubMedText[]>((all, list) => all.concat(list.Keyword || []), [])
+        .map(keyword => this.text(keyword))
+        .filter(Boolean),
+      articleType: articleType?.toLowerCase(),
+      language: language ? LANGUAGE_CODES[language] || language : undefined,
+      fullTextUrl: pmcid ? `https://www.ncbi.nlm.nih.gov/pmc/articles/${pmcid}/` : undefined,
+      metadata: { ...metadata }
+    };
+  }
+
+  private transformAuthor(author: PubMedAuthor): Author {
+    const orcid = (author.Identifier || [])
+      .find(identifier => this.attribute(identifier, 'Source') === 'ORCID');
+
+    return {
+      name: author.CollectiveName || `${author.LastName || ''} ${author.ForeName || author.Initials || ''}`.trim(),
+      affiliation: author.AffiliationInfo?.[0]?.Affiliation || author.Affiliation,
+      identifier: orcid ? this.text(orcid).replace(/^https?:\/\/orcid\.org\//, '') : undefined
+    };
+  }
+
+  private transformRecordAuthor(author: PubMedAuthor): RecordAuthor {
+    const affiliations = (author.AffiliationInfo || [])
+      .map(info => info.Affiliation)
+      .filter(Boolean);
+
+    return {
+      ...this.transformAuthor(author),
+      affiliations: affiliations.length ? affiliations : author.Affiliation ? [author.Affiliation] : []
     };
   }
 
-  private parsePublicationDate(pubDate: { Year?: string; Month?: string; Day?: string }): Date | undefined {
-    if (!pubDate.Year) return undefined;
+  private referenceIdentifiers(ids: PubMedText[]): RecordIdentifier[] {
+    return this.identifiers(ids.reduce<Record<string, string | undefined>>((values, id) => {
+      const type = REFERENCE_ID_TYPES[this.attribute(id, 'IdType') || ''];
+      if (type) values[type] = this.text(id);
+      return values;
+    }, {}));
+  }
+
+  /**
+   * PubDate is either Year/Month/Day, with the month as a number or a name, or a free-text
+   * MedlineDate such as "2019 Jan-Feb", "2019 Dec-2020 Jan" or "2018 Winter". Ranges resolve
+   * to their start.
+   */
+  private parsePublicationDate(pubDate?: PubMedDate): Date | undefined {
+    if (!pubDate) return undefined;
+
+    if (pubDate.Year) {
+      const year = parseInt(pubDate.Year, 10);
+      if (isNaN(year)) return undefined;
+
+      const month = this.parseMonth(pubDate.Month) || this.parseMonth(pubDate.Season) || 1;
+      const day = parseInt(pubDate.Day || '', 10) || 1;
+      return new Date(Date.UTC(year, month - 1, day));
+    }
+
+    const medlineDate = pubDate.MedlineDate?.match(/(\d{4})(?:\s+([A-Za-z]+|\d{1,2}))?(?:\s+(\d{1,2})\b)?/);
+    if (!medlineDate) return undefined;
+
+    const month = this.parseMonth(medlineDate[2]) || 1;
+    const day = medlineDate[2] && medlineDate[3] ? parseInt(medlineDate[3], 10) : 1;
+    return new Date(Date.UTC(parseInt(medlineDate[1], 10), month - 1, day));
+  }
+
+  /**
+   * 1-based month from "3", "03", "Mar", "March" or a season name
+   */
+  private parseMonth(value?: string): number | undefined {
+    if (!value) return undefined;
+
+    const numeric = parseInt(value, 10);
+    if (!isNaN(numeric)) {
+      return numeric >= 1 && numeric <= 12 ? numeric : undefined;
+    }
+
+    const name = value.toLowerCase();
+    const index = MONTHS.indexOf(name.slice(0, 3));
+    return index >= 0 ? index + 1 : SEASON_MONTHS[name];
+  }
+
+  /**
+   * Identifiers listed for the record, keyed by IdType (doi, pmc, pii, ...)
+   */
+  private articleIds(article: PubMedArticle): Record<string, string | undefined> {
+    const ids: Record<string, string | undefined> = {};
+    (article.PubmedData?.ArticleIdList?.ArticleId || []).forEach(id => {
+      const type = this.attribute(id, 'IdType');
+      if (type && !ids[type]) {
+        ids[type] = this.text(id) || undefined;
+      }
+    });
+    return ids;
+  }
+
+  private text(value?: PubMedText): string {
+    if (value === undefined || value === null) return '';
+    return (typeof value === 'string' ? value : value['#text'] || '').trim();
+  }
+
+  private attribute(value: PubMedText | undefined, name: string): string | undefined {
+    return value && typeof value === 'object' ? value[`@_${name}`] : undefined;
+  }
 
-    const month = pubDate.Month || '01';
-    const day = pubDate.Day || '01';
-    
-    return new Date(`${pubDate.Year}-${month}-${day}`);
+  /**
+   * Plain text of an element kept as raw XML (see `stopNodes`)
+   */
+  private markupText(value?: PubMedText): string {
+    return this.text(value)
+      .replace(/<[^>]+>/g, '')
+      .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+        if (code[0] !== '#') return XML_ENTITIES[code] ?? entity;
+        const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return String.fromCodePoint(point);
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
   }
 
   protected transformError(error: unknown): SearchError {
+    if (this.isSearchError(error)) {
+      return error;
+    }
+
     if (error instanceof Error) {
       if (error.message.includes('rate limit')) {
         return {
@@ -186,7 +792,7 @@ export class PubMedConnector extends BaseDatabaseConnector {
           message: 'PubMed rate limit exceeded',
           type: 'rate_limit',
           retryable: true,
-          source: 'pubmed'
+          source: this.id
         };
       }
 
@@ -195,7 +801,7 @@ export class PubMedConnector extends BaseDatabaseConnector {
         message: error.message,
         type: 'unknown',
         retryable: true,
-        source: 'pubmed'
+        source: this.id
       };
     }
 
@@ -204,7 +810,7 @@ export class PubMedConnector extends BaseDatabaseConnector {
       message: 'An unknown error occurred',
       type: 'unknown',
       retryable: false,
-      source: 'pubmed'
+      source: this.id
     };
   }
 }
\ No newline at end of file
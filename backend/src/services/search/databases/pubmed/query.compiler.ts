@@ -0,0 +1,93 @@
+// backend/src/services/search/databases/pubmed/query.compiler.ts
+import {
+  QueryNode,
+  QueryNotNode,
+  QueryPhraseNode,
+  QueryTermNode,
+  QueryYearNode
+} from '@thinkleap/shared/types/query';
+import { formatQuery } from '@thinkleap/shared/utils/query-parser';
+import { BooleanQueryCompiler } from '../../query';
+
+type FieldTag = 'ti' | 'tiab' | 'au' | 'ta';
+
+const FIELD_TAGS: Record<NonNullable<QueryTermNode['field']>, FieldTag> = {
+  title: 'ti',
+  abstract: 'tiab',  // PubMed has no abstract-only field
+  author: 'au',
+  journal: 'ta'
+};
+
+/**
+ * Compiles the shared query AST into an Entrez search term
+ */
+export class PubMedQueryCompiler extends BooleanQueryCompiler {
+  protected readonly source = 'PubMed';
+  // NOT is a binary operator in Entrez
+  protected readonly andNot = 'NOT';
+
+  protected render(node: QueryNode, warnings: Set<string>): string {
+    // The parser expands `term[tiab]` into a title OR abstract pair, which is one tag here
+    if (node.type === 'or' && node.children.length === 2) {
+      const [title, abstract] = node.children;
+      if ((title.type === 'term' || title.type === 'phrase')
+        && title.field === 'title'
+        && abstract.type === title.type
+        && abstract.field === 'abstract'
+        && abstract.value === title.value) {
+        return title.type === 'term'
+          ? this.tagTerm(title, 'tiab', warnings)
+          : this.tagPhrase(title, 'tiab', warnings);
+      }
+    }
+    return super.render(node, warnings);
+  }
+
+  protected term(node: QueryTermNode, warnings: Set<string>): string {
+    return this.tagTerm(node, this.fieldTag(node, warnings), warnings);
+  }
+
+  protected phrase(node: QueryPhraseNode, warnings: Set<string>): string {
+    return this.tagPhrase(node, this.fieldTag(node, warnings), warnings);
+  }
+
+  protected year(node: QueryYearNode): string {
+    return `${node.from}:${node.to}[dp]`;
+  }
+
+  protected standaloneNot(node: QueryNotNode, warnings: Set<string>): string {
+    // Subtract from the whole database
+    return `(all[sb] NOT ${this.render(node.child, warnings)})`;
+  }
+
+  private tagTerm(node: QueryTermNode, tag: FieldTag | undefined, warnings: Set<string>): string {
+    let value = node.value;
+    if (value.includes('?')) {
+      value = value.replace(/\?/g, '*');
+      warnings.add(`PubMed only supports the * wildcard; "${node.value}" was searched as "${value}"`);
+    }
+    return tag ? `${value}[${tag}]` : value;
+  }
+
+  private tagPhrase(node: QueryPhraseNode, tag: FieldTag | undefined, warnings: Set<string>): string {
+    const quoted = `"${node.value}"`;
+
+    if (node.proximity) {
+      if (!tag || tag === 'ti' || tag === 'tiab') {
+        return `${quoted}[${tag || 'tiab'}:~${node.proximity}]`;
+      }
+      warnings.add(`PubMed only supports proximity search in titles and abstracts; "${formatQuery(node)}" was searched as an exact phrase`);
+    }
+
+    return tag ? `${quoted}[${tag}]` : quoted;
+  }
+
+  private fieldTag(node: QueryTermNode | QueryPhraseNode, warnings: Set<string>): FieldTag | undefined {
+    if (!node.field) return undefined;
+
+    if (node.field === 'abstract') {
+      warnings.add(`PubMed has no abstract-only field; "${formatQuery(node)}" was searched in titles and abstracts`);
+    }
+    return FIELD_TAGS[node.field];
+  }
+}
@@ -10,6 +10,8 @@ export interface PubMedSearchResponse {
     retmax: string;
     retstart: string;
     idlist: string[];
+    webenv?: string;
+    querykey?: string;
     translationset: Array<{
       from: string;
       to: string;
@@ -17,42 +19,140 @@ export interface PubMedSearchResponse {
   };
 }
 
+export interface PubMedLinkResponse {
+  linksets?: Array<{
+    dbfrom: string;
+    ids: string[];
+    linksetdbs?: Array<{
+      dbto: string;
+      linkname: string;  // e.g. pubmed_pubmed_refs, pubmed_pubmed_citedin
+      links: string[];
+    }>;
+  }>;
+}
+
+/**
+ * elink response for cmd=neighbor_score, whose links carry a relatedness score
+ */
+export interface PubMedNeighborResponse {
+  linksets?: Array<{
+    dbfrom: string;
+    ids: string[];
+    linksetdbs?: Array<{
+      dbto: string;
+      linkname: string;  // pubmed_pubmed for similar articles
+      links: Array<{ id: string; score: string | number }>;
+    }>;
+  }>;
+}
+
+/**
+ * Text of an element; elements with attributes parse to an object holding the text as `#text`
+ */
+export type PubMedText = string | ({ '#text'?: string } & Record<string, string | undefined>);
+
+export interface PubMedDate {
+  Year?: string;
+  Month?: string;  // Numeric or abbreviated name ("Jan")
+  Day?: string;
+  Season?: string;
+  MedlineDate?: string;  // Free text such as "2019 Jan-Feb" when the issue has no exact date
+}
+
+export interface PubMedAuthor {
+  LastName?: string;
+  ForeName?: string;
+  Initials?: string;
+  CollectiveName?: string;
+  Affiliation?: string;  // Records from before 2014
+  AffiliationInfo?: Array<{ Affiliation: string }>;
+  Identifier?: PubMedText[];  // `@_Source` is e.g. ORCID
+}
+
+export interface PubMedMeshHeading {
+  DescriptorName: PubMedText;  // `@_UI`, `@_MajorTopicYN`
+  QualifierName?: PubMedText[];
+}
+
+export interface PubMedChemical {
+  RegistryNumber?: string;
+  NameOfSubstance: PubMedText;  // `@_UI`
+}
+
+export interface PubMedGrant {
+  GrantID?: string;
+  Acronym?: string;
+  Agency?: string;
+  Country?: string;
+}
+
+export interface PubMedCommentsCorrections {
+  '@_RefType': string;  // e.g. RetractionIn, ErratumIn, ExpressionOfConcernIn
+  RefSource?: string;
+  PMID?: PubMedText;
+}
+
+/**
+ * A parsed efetch record. Titles and abstract sections keep their inline markup;
+ * elements that may repeat are always arrays.
+ */
 export interface PubMedArticle {
   MedlineCitation: {
-    PMID: string;
+    PMID: PubMedText;
     Article: {
-      ArticleTitle: string;
+      ArticleTitle: PubMedText;
       Abstract?: {
-        AbstractText: string | string[];
+        AbstractText: PubMedText[];  // Sections carry `@_Label` and `@_NlmCategory`
       };
       AuthorList?: {
-        Author: Array<{
-          LastName?: string;
-          ForeName?: string;
-          Affiliation?: string;
-        }>;
+        Author: PubMedAuthor[];
       };
       Journal: {
         Title: string;
+        ISOAbbreviation?: string;
+        ISSN?: PubMedText;
         JournalIssue: {
           Volume?: string;
           Issue?: string;
-          PubDate: {
-            Year?: string;
-            Month?: string;
-            Day?: string;
-          };
+          PubDate: PubMedDate;
         };
       };
+      Pagination?: {
+        MedlinePgn?: string;
+      };
+      Language?: string[];
+      PublicationTypeList?: {
+        PublicationType: PubMedText[];
+      };
+      GrantList?: {
+        Grant: PubMedGrant[];
+      };
+      ArticleDate?: PubMedDate[];
+    };
+    MeshHeadingList?: {
+      MeshHeading: PubMedMeshHeading[];
     };
-    KeywordList?: {
-      Keyword: string[];
+    ChemicalList?: {
+      Chemical: PubMedChemical[];
+    };
+    KeywordList?: Array<{
+      Keyword: PubMedText[];
+    }>;
+    CommentsCorrectionsList?: {
+      CommentsCorrections: PubMedCommentsCorrections[];
     };
   };
   PubmedData?: {
-    ArticleIdList: Array<{
-      ArticleId: string;
-      IdType: string;
+    ArticleIdList?: {
+      ArticleId: PubMedText[];  // `@_IdType` is pubmed, doi, pmc, pii, ...
+    };
+    ReferenceList?: Array<{
+      Reference: Array<{
+        Citation?: string;
+        ArticleIdList?: {
+          ArticleId: PubMedText[];
+        };
+      }>;
     }>;
   };
-}
\ No newline at end of file
+}
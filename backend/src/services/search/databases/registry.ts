@@ -2,12 +2,21 @@
 import { Logger } from '../../../services/logger/types';
 import { ConsoleLoggerAdapter } from '../../../services/logger/console-adapter';
 import { BaseDatabaseConnector } from './base.connector';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitHealth } from './circuit-breaker';
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  windowMs: 60 * 1000,
+  minimumRequests: 5,
+  errorThreshold: 0.5,
+  openMs: 30 * 1000
+};
 
 export class DatabaseRegistry {
   private connectors: Map<string, BaseDatabaseConnector>;
+  private breakers = new Map<string, CircuitBreaker>();
   private logger: Logger;
   
-  constructor(logger?: Logger) {
+  constructor(logger?: Logger, private readonly breakerOptions: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER) {
     this.connectors = new Map();
     // Use the adapter instead of console directly
     this.logger = logger || new ConsoleLoggerAdapter();
@@ -29,12 +38,24 @@ export class DatabaseRegistry {
    */
   unregisterDatabase(id: string): boolean {
     const removed = this.connectors.delete(id);
+    this.breakers.delete(id);
     if (removed) {
       this.logger.info(`Unregistered database connector: ${id}`);
     }
     return removed;
   }
   
+  /**
+   * Swap in a complete set of connectors at once. Searches already running keep
+   * the connectors they started with.
+   */
+  replaceAll(connectors: Map<string, BaseDatabaseConnector>): void {
+    this.connectors = new Map(connectors);
+    // New connectors may point somewhere else entirely, so their health starts over
+    this.breakers = new Map();
+    this.logger.info(`Registered database connectors: ${Array.from(connectors.keys()).join(', ')}`);
+  }
+  
   /**
    * Get a specific database connector
    */
@@ -50,11 +71,17 @@ export class DatabaseRegistry {
   }
   
   /**
-   * Get all enabled database connectors that the user has access to
+   * Get all enabled database connectors that the user has access to.
+   * Connectors whose circuit is open are left out until they are due a trial request.
    */
   async getEnabledDatabases(userId: string): Promise<BaseDatabaseConnector[]> {
     const enabledDatabases: BaseDatabaseConnector[] = [];
-    for (const connector of this.connectors.values()) {
+    for (const [id, connector] of this.connectors.entries()) {
+      if (!this.getBreaker(id).allowRequest()) {
+        this.logger.debug(`Skipping database with open circuit: ${id}`);
+        continue;
+      }
+
       try {
         const [enabled, hasAccess] = await Promise.all([
           connector.isEnabled(),
@@ -73,11 +100,59 @@ export class DatabaseRegistry {
     return enabledDatabases;
   }
   
+  /**
+   * Record a successful upstream call
+   */
+  recordSuccess(id: string, latencyMs: number): void {
+    const breaker = this.getBreaker(id);
+    const before = breaker.getHealth().state;
+    breaker.recordSuccess(latencyMs);
+
+    if (before !== 'closed' && breaker.getHealth().state === 'closed') {
+      this.logger.info(`Circuit closed for database connector: ${id}`);
+    }
+  }
+
+  /**
+   * Record a failed upstream call; enough of them within the window open the circuit
+   */
+  recordFailure(id: string, latencyMs: number): void {
+    const breaker = this.getBreaker(id);
+    const before = breaker.getHealth().state;
+    breaker.recordFailure(latencyMs);
+
+    const health = breaker.getHealth();
+    if (before !== 'open' && health.state === 'open') {
+      this.logger.warn(`Circuit opened for database connector: ${id}`, {
+        errorRate: health.errorRate,
+        requests: health.requests,
+        retryAt: health.retryAt
+      });
+    }
+  }
+
+  /**
+   * Circuit state, error rate and recent latency of a connector
+   */
+  getHealth(id: string): CircuitHealth {
+    return this.getBreaker(id).getHealth();
+  }
+
+  private getBreaker(id: string): CircuitBreaker {
+    let breaker = this.breakers.get(id);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.breakerOptions);
+      this.breakers.set(id, breaker);
+    }
+    return breaker;
+  }
+  
   /**
    * Clear all registered connectors
    */
   clear(): void {
     this.connectors.clear();
+    this.breakers.clear();
     this.logger.info('Cleared all database connectors');
   }
 }
\ No newline at end of file
@@ -0,0 +1,386 @@
+// backend/src/services/search/databases/semantic-scholar/connector.ts
+import { BaseDatabaseConnector, formatFilterDate } from '../base.connector';
+import { SearchFilters, SearchQuery, SearchResult, Author, Journal } from '@thinkleap/shared/types/search';
+import { CitationDirection } from '@thinkleap/shared/types/record';
+import { Logger } from '../../../logger';
+import { ICache } from '../../../cache';
+import { IOutboundRateLimiter } from '../../../rate-limit';
+import {
+  SemanticScholarConfig,
+  SemanticScholarSearchResponse,
+  SemanticScholarPaper,
+  SemanticScholarCitationResponse
+} from './types';
+import { SearchError, ConnectorPageRequest, ConnectorSearchResult, CitationTarget } from '../types';
+import { CompiledQuery, KeywordQueryCompiler, narrowToYears } from '../../query';
+
+const PAPER_FIELDS = [
+  'paperId',
+  'externalIds',
+  'url',
+  'title',
+  'abstract',
+  'venue',
+  'year',
+  'publicationDate',
+  'journal',
+  'authors',
+  'citationCount',
+  'influentialCitationCount',
+  'referenceCount',
+  'isOpenAccess',
+  'openAccessPdf',
+  'fieldsOfStudy',
+  's2FieldsOfStudy',
+  'publicationTypes'
+].join(',');
+
+// Maps the article type labels used by the frontend onto Semantic Scholar publication types
+const PUBLICATION_TYPE_MAP: Record<string, string> = {
+  'journal article': 'JournalArticle',
+  'review': 'Review',
+  'systematic review': 'Review',
+  'meta-analysis': 'MetaAnalysis',
+  'clinical trial': 'ClinicalTrial',
+  'rct': 'ClinicalTrial',
+  'randomized controlled trial': 'ClinicalTrial',
+  'case report': 'CaseReport',
+  'conference paper': 'Conference',
+  'editorial': 'Editorial',
+  'letter': 'LettersAndComments',
+  'book': 'Book',
+  'book chapter': 'BookSection',
+  'dataset': 'Dataset'
+};
+
+export class SemanticScholarConnector extends BaseDatabaseConnector {
+  private readonly baseUrl: string;
+  protected readonly supportedFilters: Array<keyof SearchFilters> = ['dateRange', 'authors', 'journals', 'articleTypes'];
+  private readonly queryCompiler = new KeywordQueryCompiler('Semantic Scholar', {
+    fields: [],
+    years: true,
+    phrases: false
+  });
+
+  constructor(
+    config: SemanticScholarConfig,
+    logger: Logger,
+    cacheService: ICache,
+    rateLimiter: IOutboundRateLimiter
+  ) {
+    super(config, logger, cacheService, rateLimiter);
+    this.baseUrl = config.baseUrl;
+  }
+
+  translateQuery(query: SearchQuery): CompiledQuery {
+    const { query: params, warnings } = this.buildParams(query);
+    return { query: this.describeParams(params), warnings };
+  }
+
+  async validateAccess(): Promise<boolean> {
+    // The Graph API is open; an API key only raises the rate limit
+    return true;
+  }
+
+  async authenticate(): Promise<void> {
+    // API key is sent as a header on every request
+  }
+
+  async search(query: SearchQuery, page?: ConnectorPageRequest): Promise<ConnectorSearchResult> {
+    try {
+      const response = await this.searchPapers(query, this.resolvePage(query, page));
+      const papers = response.data || [];
+
+      return {
+        results: this.filterByAuthor(papers, query).map(paper => this.transformPaper(paper)),
+        total: response.total,
+        fetched: papers.length
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchRecords(ids: string[]): Promise<SearchResult[]> {
+    try {
+      const response = await this.withRetry(async () => {
+        const res = await this.request(`${this.baseUrl}/paper/batch?fields=${PAPER_FIELDS}`, {
+          method: 'POST',
+          headers: { ...this.authHeaders(), 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids })
+        });
+        if (res.status === 429) {
+          throw new Error('Semantic Scholar rate limit exceeded');
+        }
+        return res;
+      });
+
+      if (response.status === 401 || response.status === 403) {
+        throw new Error('Semantic Scholar rejected the API key');
+      }
+
+      if (!response.ok) {
+        throw new Error(`Semantic Scholar fetch failed: ${response.statusText}`);
+      }
+
+      // Unknown ids come back as null entries
+      const papers: Array<SemanticScholarPaper | null> = await response.json();
+      return papers
+        .filter((paper): paper is SemanticScholarPaper => Boolean(paper))
+        .map(paper => this.transformPaper(paper));
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  async fetchCitations(
+    target: CitationTarget,
+    direction: CitationDirection,
+    limit: number
+  ): Promise<ConnectorSearchResult | undefined> {
+    // Papers of other databases are addressed by an external id, e.g. DOI:10.1000/xyz
+    const paperId = target.databaseId === this.id
+      ? target.id
+      : target.doi ? `DOI:${target.doi}` : target.pmid ? `PMID:${target.pmid}` : undefined;
+    if (!paperId) return undefined;
+
+    try {
+      const path = `/paper/${encodeURIComponent(paperId).replace(/%2F/g, '/').replace(/%3A/g, ':')}`;
+
+      // The citation pages carry no total, so the counts come from the paper itself
+      const paper = await this.requestGraph<SemanticScholarPaper>(`${path}?fields=citationCount,referenceCount`);
+      if (!paper) return undefined;
+
+      const page = await this.requestGraph<SemanticScholarCitationResponse>(
+        `${path}/${direction}?fields=${PAPER_FIELDS}&limit=${Math.min(limit, 1000)}`
+      );
+      const edges = page?.data || [];
+      // References Semantic Scholar couldn't match to a paper come back without an id
+      const papers = edges
+        .map(edge => edge.citedPaper || edge.citingPaper)
+        .filter((cited): cited is SemanticScholarPaper => Boolean(cited?.paperId));
+
+      return {
+        results: papers.map(cited => this.transformPaper(cited)),
+        total: (direction === 'references' ? paper.referenceCount : paper.citationCount) ?? papers.length,
+        fetched: edges.length
+      };
+    } catch (error) {
+      throw this.transformError(error);
+    }
+  }
+
+  /**
+   * GET a Graph API path. Undefined when the paper is unknown.
+   */
+  private async requestGraph<T>(path: string): Promise<T | undefined> {
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}${path}`, { headers: this.authHeaders() });
+      if (res.status === 429) {
+        throw new Error('Semantic Scholar rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (response.status === 404) {
+      return undefined;
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Semantic Scholar rejected the API key');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Semantic Scholar request failed: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  private async searchPapers(
+    query: SearchQuery,
+    page: ConnectorPageRequest
+  ): Promise<SemanticScholarSearchResponse> {
+    const { query: params } = this.buildParams(query);
+    params.append('offset', page.offset.toString());
+    // The Graph API caps a single page at 100 papers
+    params.append('limit', Math.min(page.limit, 100).toString());
+    params.append('fields', PAPER_FIELDS);
+
+    const response = await this.withRetry(async () => {
+      const res = await this.request(`${this.baseUrl}/paper/search?${params}`, { headers: this.authHeaders() });
+      if (res.status === 429) {
+        throw new Error('Semantic Scholar rate limit exceeded');
+      }
+      return res;
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error('Semantic Scholar rejected the API key');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Semantic Scholar search failed: ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Build the search parameters. The Graph API has no boolean syntax, so the query is
+   * reduced to keywords and its years narrow the publication date filter.
+   */
+  private buildParams(query: SearchQuery): CompiledQuery<URLSearchParams> {
+    const { query: keywords, warnings } = this.queryCompiler.compile(this.parseTerm(query));
+    const params = new URLSearchParams({ query: keywords.text });
+
+    const { start, end } = query.filters?.dateRange || {};
+    const { from, to } = narrowToYears({
+      from: start ? formatFilterDate(start) : undefined,
+      to: end ? formatFilterDate(end) : undefined
+    }, keywords.years);
+    if (from || to) {
+      params.append('publicationDateOrYear', `${from || ''}:${to || ''}`);
+    }
+
+    if (query.filters?.journals?.length) {
+      params.append('venue', query.filters.journals.join(','));
+    }
+
+    if (query.filters?.articleTypes?.length) {
+      const types = new Set(
+        query.filters.articleTypes
+          .map(type => PUBLICATION_TYPE_MAP[type.toLowerCase()])
+          .filter(Boolean)
+      );
+      if (types.size) {
+        params.append('publicationTypes', Array.from(types).join(','));
+      }
+    }
+
+    return { query: params, warnings };
+  }
+
+  private authHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (this.config.auth?.apiKey) {
+      headers['x-api-key'] = this.config.auth.apiKey;
+    }
+    return headers;
+  }
+
+  /**
+   * The search endpoint has no author parameter, so match author names locally
+   */
+  private filterByAuthor(papers: SemanticScholarPaper[], query: SearchQuery): SemanticScholarPaper[] {
+    const authors = query.filters?.authors?.map(author => author.toLowerCase());
+    if (!authors?.length) {
+      return papers;
+    }
+
+    return papers.filter(paper =>
+      (paper.authors || []).some(author =>
+        authors.some(name => author.name.toLowerCase().includes(name))
+      )
+    );
+  }
+
+  private transformPaper(paper: SemanticScholarPaper): SearchResult {
+    const authors: Author[] = (paper.authors || []).map(author => ({
+      name: author.name
+    }));
+
+    const journalName = paper.journal?.name || paper.venue;
+    const journal: Journal | undefined = journalName
+      ? {
+          name: journalName,
+          volume: paper.journal?.volume,
+          pages: paper.journal?.pages
+        }
+      : undefined;
+
+    const fieldsOfStudy = Array.from(new Set([
+      ...(paper.fieldsOfStudy || []),
+      ...(paper.s2FieldsOfStudy || []).map(field => field.category)
+    ]));
+
+    return {
+      id: paper.paperId,
+      databaseId: this.id,
+      title: paper.title,
+      authors,
+      abstract: paper.abstract || undefined,
+      publicationDate: this.parsePublicationDate(paper),
+      journal,
+      doi: paper.externalIds?.DOI,
+      keywords: fieldsOfStudy,
+      articleType: paper.publicationTypes?.[0],
+      fullTextUrl: paper.openAccessPdf?.url || undefined,
+      citationCount: paper.citationCount,
+      metadata: {
+        semanticScholarId: paper.paperId,
+        url: paper.url,
+        pmid: paper.externalIds?.PubMed,
+        pmcid: paper.externalIds?.PubMedCentral,
+        arxivId: paper.externalIds?.ArXiv,
+        influentialCitationCount: paper.influentialCitationCount,
+        referenceCount: paper.referenceCount,
+        isOpenAccess: paper.isOpenAccess,
+        openAccessStatus: paper.openAccessPdf?.status,
+        fieldsOfStudy,
+        authorIds: (paper.authors || []).map(author => author.authorId)
+      }
+    };
+  }
+
+  private parsePublicationDate(paper: SemanticScholarPaper): Date | undefined {
+    if (paper.publicationDate) {
+      return new Date(paper.publicationDate);
+    }
+    return paper.year ? new Date(Date.UTC(paper.year, 0, 1)) : undefined;
+  }
+
+  protected transformError(error: unknown): SearchError {
+    if (this.isSearchError(error)) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('rate limit')) {
+        return {
+          name: 'RateLimitError',
+          message: 'Semantic Scholar rate limit exceeded',
+          type: 'rate_limit',
+          retryable: true,
+          source: this.id
+        };
+      }
+
+      if (error.message.includes('API key')) {
+        return {
+          name: 'AuthError',
+          message: error.message,
+          type: 'auth',
+          retryable: false,
+          source: this.id
+        };
+      }
+
+      return {
+        name: error.name,
+        message: error.message,
+        type: 'unknown',
+        retryable: true,
+        source: this.id
+      };
+    }
+
+    return {
+      name: 'UnknownError',
+      message: 'An unknown error occurred',
+      type: 'unknown',
+      retryable: false,
+      source: this.id
+    };
+  }
+}
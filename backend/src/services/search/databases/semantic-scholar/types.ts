@@ -0,0 +1,64 @@
+// backend/src/services/search/databases/semantic-scholar/types.ts
+import { DatabaseConfig } from '../types';
+
+export type SemanticScholarConfig = DatabaseConfig;
+
+export interface SemanticScholarPaper {
+  paperId: string;
+  externalIds?: {
+    DOI?: string;
+    PubMed?: string;
+    PubMedCentral?: string;
+    ArXiv?: string;
+    MAG?: string;
+    CorpusId?: number;
+  };
+  url?: string;
+  title: string;
+  abstract?: string | null;
+  venue?: string;
+  year?: number | null;
+  publicationDate?: string | null;
+  journal?: {
+    name?: string;
+    volume?: string;
+    pages?: string;
+  } | null;
+  authors?: Array<{
+    authorId: string | null;
+    name: string;
+  }>;
+  citationCount?: number;
+  influentialCitationCount?: number;
+  referenceCount?: number;
+  isOpenAccess?: boolean;
+  openAccessPdf?: {
+    url: string;
+    status?: string;
+  } | null;
+  fieldsOfStudy?: string[] | null;
+  s2FieldsOfStudy?: Array<{
+    category: string;
+    source: string;
+  }>;
+  publicationTypes?: string[] | null;
+}
+
+export interface SemanticScholarSearchResponse {
+  total: number;
+  offset: number;
+  next?: number;
+  data?: SemanticScholarPaper[];
+}
+
+/**
+ * Page of /paper/{id}/references (citedPaper) or /paper/{id}/citations (citingPaper)
+ */
+export interface SemanticScholarCitationResponse {
+  offset: number;
+  next?: number;
+  data?: Array<{
+    citedPaper?: SemanticScholarPaper;
+    citingPaper?: SemanticScholarPaper;
+  }>;
+}
@@ -1,6 +1,6 @@
 // backend/src/services/search/databases/types.ts
 
-import { SearchQuery, SearchResult } from '@thinkleap/shared/types/search';
+import { FacetBucket, FacetField, SearchQuery, SearchResult } from '@thinkleap/shared/types/search';
 
 export type AuthType = 'none' | 'apiKey' | 'oauth' | 'shibboleth';
 
@@ -35,6 +35,53 @@ export interface DatabaseConfig {
   };
 }
 
+/**
+ * One entry of the declarative connector config (config/databases.json).
+ * Connector-specific options such as `mailto` sit next to the common fields.
+ */
+export interface DatabaseDefinition extends DatabaseConfig {
+  type: string;  // Key into the connector factory registry
+  // Overrides applied when NODE_ENV matches the key, e.g. { "test": { "enabled": false } }
+  environments?: Record<string, Partial<DatabaseConfig> & Record<string, unknown>>;
+  [option: string]: unknown;
+}
+
+/**
+ * A window into a connector's upstream result list
+ */
+export interface ConnectorPageRequest {
+  offset: number;
+  limit: number;
+  state?: Record<string, string>;  // Connector-specific continuation state, e.g. PubMed history keys
+}
+
+export interface ConnectorSearchResult {
+  results: SearchResult[];
+  total: number;  // Total hits reported upstream
+  fetched: number;  // Upstream records covered by this window, before any local filtering
+  state?: Record<string, string>;
+  facets?: Partial<Record<FacetField, FacetBucket[]>>;  // Counts over every upstream hit, where the API offers them
+}
+
+/**
+ * The record a citation lookup starts from. Connectors use whichever identifier they can resolve.
+ */
+export interface CitationTarget {
+  databaseId: string;  // Database the record came from; `id` is only native to that one
+  id: string;
+  doi?: string;
+  pmid?: string;
+}
+
+/**
+ * Upstream cost of one connector call
+ */
+export interface ConnectorTelemetry {
+  requests: number;
+  queueWaitMs: number;  // Time spent waiting for the outbound rate limiter
+  rateLimited: number;  // 429 responses received
+}
+
 export interface SearchError extends Error {
   type: 'auth' | 'rate_limit' | 'timeout' | 'parse' | 'network' | 'unknown';
   retryable: boolean;
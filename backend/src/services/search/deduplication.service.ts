@@ -0,0 +1,296 @@
+// backend/src/services/search/deduplication.service.ts
+import { SearchResult, Author, Journal, ResultSource } from '@thinkleap/shared/types/search';
+import { Logger } from '../logger';
+
+export interface DeduplicationResult {
+  results: SearchResult[];
+  duplicatesRemoved: number;
+}
+
+export class SearchDeduplicationService {
+  private readonly TITLE_SIMILARITY_THRESHOLD = 0.9;
+
+  constructor(private readonly logger: Logger) {}
+
+  /**
+   * Cluster results that describe the same work and merge each cluster into one record
+   */
+  deduplicate(results: SearchResult[]): DeduplicationResult {
+    if (results.length < 2) {
+      return { results, duplicatesRemoved: 0 };
+    }
+
+    const parent = results.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    const union = (a: number, b: number): void => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) {
+        parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+      }
+    };
+
+    // Exact identifier matches
+    const seenIdentifiers = new Map<string, number>();
+    results.forEach((result, index) => {
+      this.getIdentifiers(result).forEach(identifier => {
+        const existing = seenIdentifiers.get(identifier);
+        if (existing === undefined) {
+          seenIdentifiers.set(identifier, index);
+        } else {
+          union(existing, index);
+        }
+      });
+    });
+
+    // Fuzzy title + year + first author matches. Databases date a work by print, online or
+    // preprint publication, so years one apart are compared too.
+    const byYear = new Map<number, number[]>();
+    results.forEach((result, index) => {
+      const year = this.getYear(result);
+      if (year === undefined) return;
+      byYear.set(year, [...(byYear.get(year) || []), index]);
+    });
+
+    const titleBigrams = results.map(result => this.bigrams(this.normalizeTitle(result.title)));
+    const compare = (a: number, b: number): void => {
+      if (find(a) === find(b)) return;
+
+      if (
+        this.sameFirstAuthor(results[a], results[b]) &&
+        this.diceCoefficient(titleBigrams[a], titleBigrams[b]) >= this.TITLE_SIMILARITY_THRESHOLD
+      ) {
+        union(a, b);
+      }
+    };
+
+    byYear.forEach((indices, year) => {
+      const nextYear = byYear.get(year + 1) || [];
+      for (let i = 0; i < indices.length; i++) {
+        for (let j = i + 1; j < indices.length; j++) {
+          compare(indices[i], indices[j]);
+        }
+        nextYear.forEach(other => compare(indices[i], other));
+      }
+    });
+
+    const clusters = new Map<number, SearchResult[]>();
+    results.forEach((result, index) => {
+      const root = find(index);
+      clusters.set(root, [...(clusters.get(root) || []), result]);
+    });
+
+    const merged = Array.from(clusters.values()).map(cluster => this.merge(cluster));
+    const duplicatesRemoved = results.length - merged.length;
+
+    if (duplicatesRemoved > 0) {
+      this.logger.debug('Collapsed duplicate search results', {
+        before: results.length,
+        after: merged.length
+      });
+    }
+
+    return { results: merged, duplicatesRemoved };
+  }
+
+  /**
+   * Merge a cluster of records into one, preferring the most complete record as the base
+   */
+  private merge(cluster: SearchResult[]): SearchResult {
+    const sources = cluster.reduce<ResultSource[]>((all, result) => all.concat(
+      result.sources || [{ databaseId: result.databaseId, id: result.id }]
+    ), []);
+
+    if (cluster.length === 1) {
+      return { ...cluster[0], sources };
+    }
+
+    const [primary, ...others] = [...cluster].sort(
+      (a, b) => this.completeness(b) - this.completeness(a)
+    );
+
+    const merged: SearchResult = {
+      ...primary,
+      metadata: { ...primary.metadata },
+      sources
+    };
+
+    others.forEach(other => {
+      merged.doi = merged.doi || other.doi;
+      merged.publicationDate = merged.publicationDate || other.publicationDate;
+      merged.articleType = merged.articleType || other.articleType;
+      merged.language = merged.language || other.language;
+      merged.fullTextUrl = merged.fullTextUrl || other.fullTextUrl;
+
+      if ((other.abstract?.length || 0) > (merged.abstract?.length || 0)) {
+        merged.abstract = other.abstract;
+      }
+
+      if (other.citationCount !== undefined) {
+        merged.citationCount = Math.max(merged.citationCount ?? 0, other.citationCount);
+      }
+
+      merged.journal = this.mergeJournal(merged.journal, other.journal);
+      merged.authors = this.mergeAuthors(merged.authors, other.authors);
+      merged.keywords = Array.from(new Set([...(merged.keywords || []), ...(other.keywords || [])]));
+
+      // Earlier (more complete) sources win on conflicting metadata keys
+      Object.entries(other.metadata || {}).forEach(([key, value]) => {
+        if (merged.metadata[key] === undefined && value !== undefined) {
+          merged.metadata[key] = value;
+        }
+      });
+    });
+
+    return merged;
+  }
+
+  private mergeJournal(base?: Journal, other?: Journal): Journal | undefined {
+    if (!base) return other;
+    if (!other) return base;
+
+    return {
+      name: base.name,
+      volume: base.volume || other.volume,
+      issue: base.issue || other.issue,
+      pages: base.pages || other.pages,
+      identifier: base.identifier || other.identifier
+    };
+  }
+
+  /**
+   * Keep the longer author list and fill in identifiers and affiliations from the other
+   */
+  private mergeAuthors(base: Author[], other: Author[]): Author[] {
+    const [primary, secondary] = other.length > base.length ? [other, base] : [base, other];
+
+    return primary.map(author => {
+      const match = secondary.find(candidate => this.sameAuthor(author, candidate));
+      if (!match) return author;
+
+      return {
+        name: author.name,
+        affiliation: author.affiliation || match.affiliation,
+        identifier: author.identifier || match.identifier
+      };
+    });
+  }
+
+  private completeness(result: SearchResult): number {
+    return [
+      result.doi,
+      result.abstract,
+      result.publicationDate,
+      result.journal,
+      result.keywords?.length,
+      result.articleType,
+      result.fullTextUrl,
+      result.citationCount !== undefined
+    ].filter(Boolean).length + result.authors.length / 100;
+  }
+
+  private getIdentifiers(result: SearchResult): string[] {
+    const identifiers: string[] = [];
+    const metadata = result.metadata || {};
+
+    if (result.doi) {
+      identifiers.push(`doi:${this.normalizeDoi(result.doi)}`);
+    }
+
+    const pmid = metadata.pmid ?? (result.databaseId === 'pubmed' ? result.id : undefined);
+    if (pmid) {
+      identifiers.push(`pmid:${String(pmid)}`);
+    }
+
+    const arxivId = metadata.arxivId;
+    if (arxivId) {
+      identifiers.push(`arxiv:${String(arxivId).replace(/v\d+$/, '')}`);
+    }
+
+    return identifiers;
+  }
+
+  private normalizeDoi(doi: string): string {
+    return doi
+      .trim()
+      .toLowerCase()
+      .replace(/^(https?:\/\/)?(dx\.)?doi\.org\//, '')
+      .replace(/^doi:/, '');
+  }
+
+  private normalizeTitle(title: string): string {
+    return title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/<[^>]+>/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  private getYear(result: SearchResult): number | undefined {
+    if (!result.publicationDate) return undefined;
+    // Date-only strings parse as UTC midnight, so local time would move 1 January back a year
+    const year = new Date(result.publicationDate).getUTCFullYear();
+    return isNaN(year) ? undefined : year;
+  }
+
+  /**
+   * Sources disagree on name order ("Smith John" vs "John Smith"), so compare name tokens
+   */
+  private sameFirstAuthor(a: SearchResult, b: SearchResult): boolean {
+    const first = a.authors[0];
+    const second = b.authors[0];
+    if (!first || !second) {
+      return !first && !second;
+    }
+    return this.sameAuthor(first, second);
+  }
+
+  private sameAuthor(a: Author, b: Author): boolean {
+    if (a.identifier && b.identifier) {
+      return a.identifier === b.identifier;
+    }
+
+    const tokensA = this.nameTokens(a.name);
+    const tokensB = new Set(this.nameTokens(b.name));
+    return tokensA.some(token => tokensB.has(token));
+  }
+
+  private nameTokens(name: string): string[] {
+    return this.normalizeTitle(name)
+      .split(' ')
+      .filter(token => token.length > 1);
+  }
+
+  private bigrams(text: string): Map<string, number> {
+    const bigrams = new Map<string, number>();
+    const compact = text.replace(/ /g, '');
+    for (let i = 0; i < compact.length - 1; i++) {
+      const bigram = compact.slice(i, i + 2);
+      bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+    return bigrams;
+  }
+
+  private diceCoefficient(a: Map<string, number>, b: Map<string, number>): number {
+    let sizeA = 0;
+    let sizeB = 0;
+    let overlap = 0;
+
+    a.forEach(count => { sizeA += count; });
+    b.forEach(count => { sizeB += count; });
+    a.forEach((count, bigram) => {
+      overlap += Math.min(count, b.get(bigram) || 0);
+    });
+
+    if (sizeA + sizeB === 0) return 0;
+    return (2 * overlap) / (sizeA + sizeB);
+  }
+}
@@ -1,27 +1,67 @@
 import { SearchResult } from '@thinkleap/shared/types/search';
+import { ExportFormat, ExportField, ExportOptions, EXPORT_FIELDS } from '@thinkleap/shared/types/export';
 import { Logger } from '../logger';
 
-export type ExportFormat = 'csv' | 'bibtex';
+export type { ExportFormat, ExportField, ExportOptions };
 
-export interface ExportOptions {
-  format: ExportFormat;
-  fields?: string[];
-  includeAbstract?: boolean;
+export interface ExportFileInfo {
+  contentType: string;
+  extension: string;
 }
 
+const FILE_INFO: Record<ExportFormat, ExportFileInfo> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  bibtex: { contentType: 'application/x-bibtex; charset=utf-8', extension: 'bib' },
+  ris: { contentType: 'application/x-research-info-systems; charset=utf-8', extension: 'ris' },
+  endnote: { contentType: 'application/xml; charset=utf-8', extension: 'xml' },
+  'csl-json': { contentType: 'application/vnd.citationstyles.csl+json; charset=utf-8', extension: 'json' },
+  nbib: { contentType: 'application/nbib; charset=utf-8', extension: 'nbib' }
+};
+
+const CSV_HEADERS: Record<ExportField, string> = {
+  title: 'Title',
+  authors: 'Authors',
+  journal: 'Journal',
+  publicationDate: 'Publication Date',
+  doi: 'DOI',
+  abstract: 'Abstract',
+  keywords: 'Keywords',
+  citationCount: 'Citation Count',
+  articleType: 'Type',
+  language: 'Language',
+  url: 'URL',
+  source: 'Source'
+};
+
+/**
+ * Reference types per format, keyed by our lowercased article type
+ */
+const REFERENCE_TYPES: Record<string, { bibtex: string; ris: string; endnote: [string, number]; csl: string }> = {
+  'journal article': { bibtex: 'article', ris: 'JOUR', endnote: ['Journal Article', 17], csl: 'article-journal' },
+  'journal-article': { bibtex: 'article', ris: 'JOUR', endnote: ['Journal Article', 17], csl: 'article-journal' },
+  'review': { bibtex: 'article', ris: 'JOUR', endnote: ['Journal Article', 17], csl: 'article-journal' },
+  'preprint': { bibtex: 'misc', ris: 'UNPB', endnote: ['Manuscript', 36], csl: 'article' },
+  'posted-content': { bibtex: 'misc', ris: 'UNPB', endnote: ['Manuscript', 36], csl: 'article' },
+  'book': { bibtex: 'book', ris: 'BOOK', endnote: ['Book', 6], csl: 'book' },
+  'book-chapter': { bibtex: 'incollection', ris: 'CHAP', endnote: ['Book Section', 5], csl: 'chapter' },
+  'book chapter': { bibtex: 'incollection', ris: 'CHAP', endnote: ['Book Section', 5], csl: 'chapter' },
+  'proceedings-article': { bibtex: 'inproceedings', ris: 'CPAPER', endnote: ['Conference Paper', 47], csl: 'paper-conference' },
+  'conference paper': { bibtex: 'inproceedings', ris: 'CPAPER', endnote: ['Conference Paper', 47], csl: 'paper-conference' },
+  'report': { bibtex: 'techreport', ris: 'RPRT', endnote: ['Report', 27], csl: 'report' },
+  'dataset': { bibtex: 'misc', ris: 'DATA', endnote: ['Dataset', 59], csl: 'dataset' },
+  'clinical trial registration': { bibtex: 'misc', ris: 'DBASE', endnote: ['Online Database', 45], csl: 'entry-database' }
+};
+
+const DEFAULT_REFERENCE_TYPE = REFERENCE_TYPES['journal article'];
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
 export class SearchExportService {
   constructor(private readonly logger: Logger) {}
 
   async exportResults(results: SearchResult[], options: ExportOptions): Promise<string> {
     try {
-      switch (options.format) {
-        case 'csv':
-          return this.exportToCsv(results, options);
-        case 'bibtex':
-          return this.exportToBibtex(results);
-        default:
-          throw new Error(`Unsupported export format: ${options.format}`);
-      }
+      return Array.from(this.stream(results, options)).join('');
     } catch (err: unknown) {
       const error = err instanceof Error ? err : new Error('Unknown error');
       this.logger.error('Failed to export results', error);
@@ -29,56 +69,354 @@ export class SearchExportService {
     }
   }
 
-  private exportToCsv(results: SearchResult[], options: ExportOptions): string {
-    const headers = [
-      'Title',
-      'Authors',
-      'Journal',
-      'Publication Date',
-      'DOI',
-      options.includeAbstract ? 'Abstract' : null,
-      'Keywords',
-      'Citation Count',
-      'Type',
-      'Language',
-    ].filter(Boolean);
-
-    const rows = results.map(result => [
-      this.escapeCsvField(result.title),
-      this.escapeCsvField(result.authors.map(a => a.name).join('; ')),
-      this.escapeCsvField(result.journal?.name || ''),
-      result.publicationDate?.toISOString().split('T')[0] || '',
-      result.doi || '',
-      options.includeAbstract ? this.escapeCsvField(result.abstract || '') : null,
-      this.escapeCsvField(result.keywords?.join('; ') || ''),
-      result.citationCount?.toString() || '',
-      result.articleType || '',
-      result.language || '',
-    ].filter(Boolean));
-
-    return [
-      headers.join(','),
-      ...rows.map(row => row.join(','))
-    ].join('\n');
-  }
-
-  private exportToBibtex(results: SearchResult[]): string {
-    return results.map(result => {
-      const authors = result.authors.map(a => a.name).join(' and ');
-      const id = result.doi?.replace(/[^a-zA-Z0-9]/g, '') || 
-                 result.title.toLowerCase().replace(/[^a-zA-Z0-9]/g, '').slice(0, 20);
-      const year = result.publicationDate?.getFullYear() || 'unknown';
-
-      return `@article{${id}${year},
-  title = {${result.title}},
-  author = {${authors}},
-  ${result.journal ? `journal = {${result.journal.name}},` : ''}
-  year = {${year}},
-  ${result.doi ? `doi = {${result.doi}},` : ''}
-  ${result.abstract ? `abstract = {${result.abstract}},` : ''}
-  ${result.keywords?.length ? `keywords = {${result.keywords.join(', ')}},` : ''}
-}`;
-    }).join('\n\n');
+  /**
+   * Serialize results one record at a time, so large exports can be written out as they are produced.
+   * Options are validated up front, before anything has been written.
+   */
+  stream(results: SearchResult[], options: ExportOptions): Iterable<string> {
+    const fields = this.resolveFields(options);
+    return this.serialize(results, options.format, fields);
+  }
+
+  /**
+   * Throw for an unsupported format or field, so requests can be rejected before any work is done
+   */
+  validateOptions(options: ExportOptions): void {
+    this.resolveFields(options);
+  }
+
+  getFileInfo(format: ExportFormat): ExportFileInfo {
+    const info = FILE_INFO[format];
+    if (!info) {
+      throw new Error(`Unsupported export format: ${format}`);
+    }
+    return info;
+  }
+
+  private *serialize(results: SearchResult[], format: ExportFormat, fields: Set<ExportField>): Generator<string> {
+    switch (format) {
+      case 'csv':
+        yield this.csvHeader(fields);
+        for (const result of results) yield this.toCsvRow(result, fields);
+        return;
+      case 'bibtex':
+        for (const result of results) yield this.toBibtex(result, fields);
+        return;
+      case 'ris':
+        for (const result of results) yield this.toRis(result, fields);
+        return;
+      case 'endnote':
+        yield '<?xml version="1.0" encoding="UTF-8"?>\n<xml><records>\n';
+        for (const result of results) yield this.toEndnote(result, fields);
+        yield '</records></xml>\n';
+        return;
+      case 'csl-json': {
+        yield '[\n';
+        let first = true;
+        for (const result of results) {
+          yield `${first ? '' : ',\n'}${JSON.stringify(this.toCsl(result, fields), null, 2)}`;
+          first = false;
+        }
+        yield '\n]\n';
+        return;
+      }
+      case 'nbib':
+        for (const result of results) yield this.toNbib(result, fields);
+        return;
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+  }
+
+  /**
+   * Fields to write; without an explicit list every field but the abstract is exported
+   */
+  private resolveFields(options: ExportOptions): Set<ExportField> {
+    if (!FILE_INFO[options.format]) {
+      throw new Error(`Unsupported export format: ${options.format}`);
+    }
+
+    const requested = options.fields?.length
+      ? options.fields
+      : EXPORT_FIELDS.filter(field => field !== 'abstract');
+
+    requested.forEach(field => {
+      if (!EXPORT_FIELDS.includes(field)) {
+        throw new Error(`Unsupported export field: ${field}`);
+      }
+    });
+
+    const fields = new Set<ExportField>(requested);
+    if (options.includeAbstract) {
+      fields.add('abstract');
+    }
+    return fields;
+  }
+
+  private csvHeader(fields: Set<ExportField>): string {
+    return this.orderedFields(fields).map(field => CSV_HEADERS[field]).join(',') + '\n';
+  }
+
+  private toCsvRow(result: SearchResult, fields: Set<ExportField>): string {
+    const date = this.toDate(result.publicationDate);
+    const values: Record<ExportField, string> = {
+      title: result.title,
+      authors: result.authors.map(a => a.name).join('; '),
+      journal: result.journal?.name || '',
+      publicationDate: date ? date.toISOString().split('T')[0] : '',
+      doi: result.doi || '',
+      abstract: result.abstract || '',
+      keywords: result.keywords?.join('; ') || '',
+      citationCount: result.citationCount?.toString() || '',
+      articleType: result.articleType || '',
+      language: result.language || '',
+      url: this.recordUrl(result) || '',
+      source: this.sourceNames(result).join('; ')
+    };
+
+    return this.orderedFields(fields).map(field => this.escapeCsvField(values[field])).join(',') + '\n';
+  }
+
+  private toBibtex(result: SearchResult, fields: Set<ExportField>): string {
+    const date = this.toDate(result.publicationDate);
+    const year = date?.getUTCFullYear();
+    const id = result.doi?.replace(/[^a-zA-Z0-9]/g, '') ||
+               result.title.toLowerCase().replace(/[^a-zA-Z0-9]/g, '').slice(0, 20);
+    const type = this.referenceType(result).bibtex;
+
+    const entries: Array<[string, string | undefined]> = [['title', result.title]];
+    if (fields.has('authors')) entries.push(['author', result.authors.map(a => a.name).join(' and ')]);
+    if (fields.has('journal') && result.journal) {
+      entries.push([type === 'inproceedings' || type === 'incollection' ? 'booktitle' : 'journal', result.journal.name]);
+      entries.push(['volume', result.journal.volume]);
+      entries.push(['number', result.journal.issue]);
+      entries.push(['pages', result.journal.pages?.replace(/-+/, '--')]);
+    }
+    if (fields.has('publicationDate') && year) {
+      entries.push(['year', year.toString()]);
+      entries.push(['month', MONTHS[date!.getUTCMonth()].toLowerCase()]);
+    }
+    if (fields.has('doi')) entries.push(['doi', result.doi]);
+    if (fields.has('abstract')) entries.push(['abstract', result.abstract]);
+    if (fields.has('keywords') && result.keywords?.length) entries.push(['keywords', result.keywords.join(', ')]);
+    if (fields.has('language')) entries.push(['language', result.language]);
+    if (fields.has('url')) entries.push(['url', this.recordUrl(result)]);
+
+    const body = entries
+      .filter((entry): entry is [string, string] => Boolean(entry[1]))
+      .map(([key, value]) => `  ${key} = {${this.escapeBibtex(value)}}`)
+      .join(',\n');
+
+    return `@${type}{${id}${year || 'unknown'},\n${body}\n}\n\n`;
+  }
+
+  private toRis(result: SearchResult, fields: Set<ExportField>): string {
+    const date = this.toDate(result.publicationDate);
+    const lines: Array<[string, string | undefined]> = [['TY', this.referenceType(result).ris]];
+
+    if (fields.has('authors')) result.authors.forEach(author => lines.push(['AU', author.name]));
+    lines.push(['TI', result.title]);
+    if (fields.has('journal') && result.journal) {
+      const [start, end] = (result.journal.pages || '').split(/-+/);
+      lines.push(['T2', result.journal.name]);
+      lines.push(['VL', result.journal.volume]);
+      lines.push(['IS', result.journal.issue]);
+      lines.push(['SP', start]);
+      lines.push(['EP', end]);
+      lines.push(['SN', result.journal.identifier]);
+    }
+    if (fields.has('publicationDate') && date) {
+      lines.push(['PY', date.getUTCFullYear().toString()]);
+      lines.push(['DA', date.toISOString().split('T')[0].replace(/-/g, '/')]);
+    }
+    if (fields.has('doi')) lines.push(['DO', result.doi]);
+    if (fields.has('abstract')) lines.push(['AB', result.abstract]);
+    if (fields.has('keywords')) (result.keywords || []).forEach(keyword => lines.push(['KW', keyword]));
+    if (fields.has('language')) lines.push(['LA', result.language]);
+    if (fields.has('url')) lines.push(['UR', this.recordUrl(result)]);
+    if (fields.has('source')) lines.push(['DB', this.sourceNames(result).join('; ')]);
+    if (fields.has('citationCount') && result.citationCount !== undefined) {
+      lines.push(['N1', `Cited by ${result.citationCount}`]);
+    }
+
+    return lines
+      .filter(([, value]) => value)
+      .map(([tag, value]) => `${tag}  - ${this.singleLine(value!)}`)
+      .concat('ER  - ', '')
+      .join('\n') + '\n';
+  }
+
+  private toEndnote(result: SearchResult, fields: Set<ExportField>): string {
+    const date = this.toDate(result.publicationDate);
+    const [refTypeName, refTypeId] = this.referenceType(result).endnote;
+    const parts: string[] = [`<ref-type name="${refTypeName}">${refTypeId}</ref-type>`];
+
+    if (fields.has('authors') && result.authors.length) {
+      const authors = result.authors.map(author => `<author>${this.escapeXml(author.name)}</author>`).join('');
+      parts.push(`<contributors><authors>${authors}</authors></contributors>`);
+    }
+
+    const journalName = fields.has('journal') ? result.journal?.name : undefined;
+    parts.push(`<titles><title>${this.escapeXml(result.title)}</title>${
+      journalName ? `<secondary-title>${this.escapeXml(journalName)}</secondary-title>` : ''
+    }</titles>`);
+
+    if (journalName) {
+      parts.push(`<periodical><full-title>${this.escapeXml(journalName)}</full-title></periodical>`);
+      if (result.journal?.pages) parts.push(`<pages>${this.escapeXml(result.journal.pages)}</pages>`);
+      if (result.journal?.volume) parts.push(`<volume>${this.escapeXml(result.journal.volume)}</volume>`);
+      if (result.journal?.issue) parts.push(`<number>${this.escapeXml(result.journal.issue)}</number>`);
+    }
+    if (fields.has('keywords') && result.keywords?.length) {
+      const keywords = result.keywords.map(keyword => `<keyword>${this.escapeXml(keyword)}</keyword>`).join('');
+      parts.push(`<keywords>${keywords}</keywords>`);
+    }
+    if (fields.has('publicationDate') && date) {
+      parts.push(`<dates><year>${date.getUTCFullYear()}</year><pub-dates><date>${
+        date.toISOString().split('T')[0]
+      }</date></pub-dates></dates>`);
+    }
+    if (fields.has('doi') && result.doi) {
+      parts.push(`<electronic-resource-num>${this.escapeXml(result.doi)}</electronic-resource-num>`);
+    }
+    if (fields.has('abstract') && result.abstract) {
+      parts.push(`<abstract>${this.escapeXml(result.abstract)}</abstract>`);
+    }
+    const url = fields.has('url') ? this.recordUrl(result) : undefined;
+    if (url) {
+      parts.push(`<urls><related-urls><url>${this.escapeXml(url)}</url></related-urls></urls>`);
+    }
+    if (fields.has('language') && result.language) {
+      parts.push(`<language>${this.escapeXml(result.language)}</language>`);
+    }
+    if (fields.has('articleType') && result.articleType) {
+      parts.push(`<work-type>${this.escapeXml(result.articleType)}</work-type>`);
+    }
+    if (fields.has('source')) {
+      parts.push(`<remote-database-name>${this.escapeXml(this.sourceNames(result).join('; '))}</remote-database-name>`);
+    }
+
+    return `<record>${parts.join('')}</record>\n`;
+  }
+
+  private toCsl(result: SearchResult, fields: Set<ExportField>): Record<string, unknown> {
+    const date = this.toDate(result.publicationDate);
+    const item: Record<string, unknown> = {
+      id: `${result.databaseId}:${result.id}`,
+      type: this.referenceType(result).csl,
+      title: result.title
+    };
+
+    if (fields.has('authors')) item.author = result.authors.map(author => ({ literal: author.name }));
+    if (fields.has('journal') && result.journal) {
+      item['container-title'] = result.journal.name;
+      item.volume = result.journal.volume;
+      item.issue = result.journal.issue;
+      item.page = result.journal.pages;
+      item.ISSN = result.journal.identifier;
+    }
+    if (fields.has('publicationDate') && date) {
+      item.issued = { 'date-parts': [[date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()]] };
+    }
+    if (fields.has('doi')) item.DOI = result.doi;
+    if (fields.has('abstract')) item.abstract = result.abstract;
+    if (fields.has('keywords') && result.keywords?.length) item.keyword = result.keywords.join(', ');
+    if (fields.has('language')) item.language = result.language;
+    if (fields.has('url')) item.URL = this.recordUrl(result);
+    if (fields.has('source')) item.source = this.sourceNames(result).join('; ');
+    if (fields.has('articleType')) item.genre = result.articleType;
+
+    return item;
+  }
+
+  /**
+   * MEDLINE tagged format as produced by PubMed's "Save citations to file"
+   */
+  private toNbib(result: SearchResult, fields: Set<ExportField>): string {
+    const date = this.toDate(result.publicationDate);
+    const pmid = result.databaseId === 'pubmed' ? result.id : (result.metadata?.pmid as string | undefined);
+    const lines: Array<[string, string | undefined]> = [['PMID', pmid]];
+
+    lines.push(['TI', result.title]);
+    if (fields.has('abstract')) lines.push(['AB', result.abstract]);
+    if (fields.has('authors')) {
+      result.authors.forEach(author => {
+        lines.push(['FAU', author.name]);
+        if (author.affiliation) lines.push(['AD', author.affiliation]);
+      });
+    }
+    if (fields.has('language')) lines.push(['LA', result.language]);
+    if (fields.has('articleType')) lines.push(['PT', result.articleType]);
+    if (fields.has('publicationDate') && date) {
+      lines.push(['DP', `${date.getUTCFullYear()} ${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}`]);
+    }
+    if (fields.has('journal') && result.journal) {
+      lines.push(['JT', result.journal.name]);
+      lines.push(['IS', result.journal.identifier]);
+      lines.push(['VI', result.journal.volume]);
+      lines.push(['IP', result.journal.issue]);
+      lines.push(['PG', result.journal.pages]);
+    }
+    if (fields.has('keywords')) (result.keywords || []).forEach(keyword => lines.push(['OT', keyword]));
+    if (fields.has('doi') && result.doi) lines.push(['AID', `${result.doi} [doi]`]);
+    if (fields.has('source')) lines.push(['SO', this.sourceNames(result).join('; ')]);
+
+    return lines
+      .filter(([, value]) => value)
+      .map(([tag, value]) => this.wrapNbibLine(tag, this.singleLine(value!)))
+      .join('\n') + '\n\n';
+  }
+
+  /**
+   * MEDLINE wraps long values onto continuation lines indented by six spaces
+   */
+  private wrapNbibLine(tag: string, value: string): string {
+    const width = 82;
+    const lines: string[] = [];
+    let current = `${tag.padEnd(4)}- `;
+
+    value.split(' ').forEach(word => {
+      if (current.trim().length > 5 && current.length + word.length + 1 > width) {
+        lines.push(current.replace(/\s+$/, ''));
+        current = '      ';
+      }
+      current += `${word} `;
+    });
+    lines.push(current.replace(/\s+$/, ''));
+
+    return lines.join('\n');
+  }
+
+  private orderedFields(fields: Set<ExportField>): ExportField[] {
+    return EXPORT_FIELDS.filter(field => fields.has(field));
+  }
+
+  private referenceType(result: SearchResult) {
+    return REFERENCE_TYPES[(result.articleType || '').toLowerCase()] || DEFAULT_REFERENCE_TYPE;
+  }
+
+  private recordUrl(result: SearchResult): string | undefined {
+    if (result.doi) return `https://doi.org/${result.doi}`;
+    return result.fullTextUrl || (result.metadata?.url as string | undefined);
+  }
+
+  private sourceNames(result: SearchResult): string[] {
+    return Array.from(new Set(
+      (result.sources || [{ databaseId: result.databaseId, id: result.id }]).map(source => source.databaseId)
+    ));
+  }
+
+  /**
+   * Dates lose their type when results pass through the cache, so accept strings too
+   */
+  private toDate(value: Date | string | undefined): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  private singleLine(value: string): string {
+    return value.replace(/\s+/g, ' ').trim();
   }
 
   private escapeCsvField(field: string): string {
@@ -87,4 +425,17 @@ export class SearchExportService {
     }
     return field;
   }
-}
\ No newline at end of file
+
+  private escapeBibtex(value: string): string {
+    return this.singleLine(value).replace(/[{}]/g, '').replace(/([&%$#_])/g, '\\$1');
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -0,0 +1,99 @@
+// backend/src/services/search/facet.service.ts
+import {
+  FacetBucket,
+  FacetField,
+  FACET_FIELDS,
+  SearchFacet,
+  SearchResult
+} from '@thinkleap/shared/types/search';
+import { ConnectorSearchResult } from './databases/types';
+
+export class SearchFacetService {
+  private readonly MAX_BUCKETS = 10;
+
+  /**
+   * Build facets for a search. A field uses upstream counts when every database that
+   * answered reported them, and otherwise counts the merged, deduplicated records.
+   * The database facet always comes from the upstream totals.
+   */
+  build(
+    pages: ConnectorSearchResult[],
+    results: SearchResult[],
+    sourceTotals: Record<string, number>
+  ): SearchFacet[] {
+    const facets: SearchFacet[] = [];
+
+    FACET_FIELDS.forEach(field => {
+      if (field === 'database') {
+        const counts = new Map<string, number>();
+        Object.keys(sourceTotals).forEach(source => counts.set(source, sourceTotals[source]));
+        this.push(facets, field, counts, 'upstream');
+        return;
+      }
+
+      if (pages.length && pages.every(page => page.facets?.[field])) {
+        const counts = new Map<string, number>();
+        pages.forEach(page => {
+          page.facets![field]!.forEach(bucket => {
+            counts.set(bucket.value, (counts.get(bucket.value) || 0) + bucket.count);
+          });
+        });
+        this.push(facets, field, counts, 'upstream');
+        return;
+      }
+
+      const counts = new Map<string, number>();
+      results.forEach(result => {
+        // Count each record once per value
+        new Set(this.values(field, result)).forEach(value => {
+          counts.set(value, (counts.get(value) || 0) + 1);
+        });
+      });
+      this.push(facets, field, counts, 'results');
+    });
+
+    return facets;
+  }
+
+  private values(field: FacetField, result: SearchResult): string[] {
+    switch (field) {
+      case 'year': {
+        // Same UTC years as deduplication, or 1 January records land in the year before
+        const year = result.publicationDate ? new Date(result.publicationDate).getUTCFullYear() : NaN;
+        return isNaN(year) ? [] : [year.toString()];
+      }
+      case 'journal':
+        return result.journal?.name ? [result.journal.name] : [];
+      case 'articleType':
+        return result.articleType ? [result.articleType] : [];
+      case 'language':
+        return result.language ? [result.language] : [];
+      case 'author':
+        return result.authors.map(author => author.name).filter(Boolean);
+      default:
+        return [];
+    }
+  }
+
+  private push(
+    facets: SearchFacet[],
+    field: FacetField,
+    counts: Map<string, number>,
+    origin: SearchFacet['origin']
+  ): void {
+    const buckets: FacetBucket[] = Array.from(counts.entries())
+      .filter(([, count]) => count > 0)
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+      .slice(0, this.MAX_BUCKETS);
+
+    if (!buckets.length) return;
+
+    // Years read best in order
+    if (field === 'year') {
+      buckets.sort((a, b) => b.value.localeCompare(a.value));
+    }
+
+    facets.push({ field, buckets, origin });
+  }
+}
@@ -0,0 +1,136 @@
+// backend/src/services/search/pagination.service.ts
+import { createHash } from 'crypto';
+import { SearchQuery, SearchResult } from '@thinkleap/shared/types/search';
+import { ConnectorPageRequest, ConnectorSearchResult } from './databases/types';
+
+/**
+ * How far one connector has been consumed by a federated result set
+ */
+export interface SourceCursor {
+  offset: number;  // Upstream records fully emitted, in upstream order
+  emitted: string[];  // Ids emitted from beyond `offset`, excluded when they are fetched again
+  total?: number;
+  state?: Record<string, string>;
+}
+
+export interface FederatedCursor {
+  fingerprint: string;
+  page: number;
+  sources: Record<string, SourceCursor>;
+}
+
+export class SearchPaginationService {
+  // Largest upstream window requested from a single connector
+  private readonly MAX_WINDOW = 500;
+
+  /**
+   * Identify the query a cursor belongs to, so it can't be replayed against another search
+   */
+  fingerprint(query: SearchQuery, databases: string[]): string {
+    const data = JSON.stringify({
+      term: query.term.toLowerCase().trim(),
+      filters: query.filters || {},
+      sortBy: query.sortBy,
+      limit: query.pagination.limit,
+      databases: [...databases].sort()
+    });
+    return createHash('sha256').update(data).digest('hex').slice(0, 16);
+  }
+
+  createCursor(fingerprint: string, databases: string[]): FederatedCursor {
+    const sources: Record<string, SourceCursor> = {};
+    databases.forEach(database => {
+      sources[database] = { offset: 0, emitted: [] };
+    });
+    return { fingerprint, page: 1, sources };
+  }
+
+  encode(cursor: FederatedCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  decode(token: string, fingerprint: string): FederatedCursor {
+    let cursor: FederatedCursor;
+    try {
+      cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid pagination cursor');
+    }
+
+    if (!cursor || cursor.fingerprint !== fingerprint || typeof cursor.sources !== 'object') {
+      throw new Error('Invalid pagination cursor');
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Whether a connector still has upstream records left to return
+   */
+  hasMore(source: SourceCursor): boolean {
+    return source.total === undefined || source.offset < source.total;
+  }
+
+  /**
+   * Upstream window needed to fill `skip + limit` merged results from one connector
+   */
+  planWindow(source: SourceCursor, skip: number, limit: number): ConnectorPageRequest {
+    const size = skip + limit + source.emitted.length;
+    if (size > this.MAX_WINDOW) {
+      throw new Error('Requested page is too deep; continue with the pagination cursor');
+    }
+
+    return {
+      offset: source.offset,
+      limit: size,
+      state: source.state
+    };
+  }
+
+  /**
+   * Drop records that an earlier page already emitted
+   */
+  excludeEmitted(source: SourceCursor, results: SearchResult[]): SearchResult[] {
+    if (!source.emitted.length) return results;
+    const emitted = new Set(source.emitted);
+    return results.filter(result => !emitted.has(result.id));
+  }
+
+  /**
+   * Move a connector's cursor past everything emitted so far.
+   *
+   * The offset only advances over the contiguous prefix of emitted records, so a record
+   * that ranked below the page cut is fetched again for the next page instead of being lost.
+   */
+  advance(
+    source: SourceCursor,
+    page: ConnectorSearchResult,
+    emittedKeys: Set<string>
+  ): SourceCursor {
+    const previouslyEmitted = new Set(source.emitted);
+    const isEmitted = (result: SearchResult) =>
+      previouslyEmitted.has(result.id) || emittedKeys.has(`${result.databaseId}:${result.id}`);
+
+    let prefix = 0;
+    while (prefix < page.results.length && isEmitted(page.results[prefix])) {
+      prefix++;
+    }
+
+    // Everything returned was emitted, so skip the whole upstream window (including locally filtered records)
+    const consumed = prefix === page.results.length ? page.fetched : prefix;
+
+    // With local filtering the prefix no longer lines up with upstream positions,
+    // so remember every emitted id from this window rather than only those past the prefix
+    const filteredLocally = page.fetched !== page.results.length;
+    const remembered = filteredLocally ? page.results : page.results.slice(prefix);
+
+    return {
+      offset: source.offset + consumed,
+      emitted: prefix === page.results.length
+        ? []
+        : remembered.filter(isEmitted).map(result => result.id),
+      total: page.total,
+      state: page.state || source.state
+    };
+  }
+}
@@ -0,0 +1,125 @@
+// backend/src/services/search/query/__tests__/query.compilers.test.ts
+import { QueryNode } from '@thinkleap/shared/types/query';
+import { parseQuery } from '@thinkleap/shared/utils/query-parser';
+import { PubMedQueryCompiler } from '../../databases/pubmed/query.compiler';
+import { EuropePmcQueryCompiler } from '../../databases/europe-pmc/query.compiler';
+import { KeywordQueryCompiler, narrowToYears } from '..';
+
+// The parser rejects these, but a compiler can still be handed one
+const orNot: QueryNode = {
+  type: 'or',
+  children: [{ type: 'term', value: 'cancer' }, { type: 'not', child: { type: 'term', value: 'mouse' } }]
+};
+
+const ast = (query: string) => {
+  const parsed = parseQuery(query);
+  if (!parsed.ast) throw new Error(`Unparseable test query: ${query}`);
+  return parsed.ast;
+};
+
+describe('PubMedQueryCompiler', () => {
+  const compiler = new PubMedQueryCompiler();
+
+  it('writes boolean groups with NOT as a binary operator', () => {
+    expect(compiler.compile(ast('cancer AND (therapy OR treatment) NOT mouse'))).toEqual({
+      query: '(cancer AND (therapy OR treatment) NOT mouse)',
+      warnings: []
+    });
+  });
+
+  it('tags fields, proximity phrases and year ranges', () => {
+    expect(compiler.compile(ast('title:"deep learning"~3 au:smith journal:nature year:2015-2020'))).toEqual({
+      query: '("deep learning"[ti:~3] AND smith[au] AND nature[ta] AND 2015:2020[dp])',
+      warnings: []
+    });
+  });
+
+  it('collapses an expanded [tiab] tag back into one', () => {
+    expect(compiler.compile(ast('heart[tiab] "mrna vaccine"[tiab]')).query)
+      .toBe('(heart[tiab] AND "mrna vaccine"[tiab])');
+  });
+
+  it('searches abstracts as titles and abstracts, with a warning', () => {
+    expect(compiler.compile(ast('abstract:heart'))).toEqual({
+      query: 'heart[tiab]',
+      warnings: ['PubMed has no abstract-only field; "abstract:heart" was searched in titles and abstracts']
+    });
+  });
+
+  it('rewrites the ? wildcard as *', () => {
+    expect(compiler.compile(ast('vaccin?'))).toEqual({
+      query: 'vaccin*',
+      warnings: ['PubMed only supports the * wildcard; "vaccin?" was searched as "vaccin*"']
+    });
+  });
+
+  it('subtracts a standalone NOT from the whole database', () => {
+    expect(compiler.compile(orNot).query).toBe('(cancer OR (all[sb] NOT mouse))');
+  });
+});
+
+describe('EuropePmcQueryCompiler', () => {
+  const compiler = new EuropePmcQueryCompiler();
+
+  it('writes Lucene field prefixes and year ranges', () => {
+    expect(compiler.compile(ast('title:"deep learning"~3 au:smith year:2015-2020'))).toEqual({
+      query: '(TITLE:"deep learning"~3 AND AUTH:smith AND PUB_YEAR:[2015 TO 2020])',
+      warnings: []
+    });
+  });
+
+  it('quotes terms containing query syntax', () => {
+    expect(compiler.compile(ast('covid-19:x')).query).toBe('"covid-19:x"');
+  });
+
+  it('drops a standalone NOT with a warning', () => {
+    expect(compiler.compile(orNot)).toEqual({
+      query: 'cancer',
+      warnings: ['Europe PMC can\'t match records by a missing term alone; "NOT mouse" was ignored']
+    });
+  });
+});
+
+describe('KeywordQueryCompiler', () => {
+  const compiler = new KeywordQueryCompiler('Test', { fields: ['author'], years: true, phrases: false });
+
+  it('moves top-level field terms and years into their own parameters', () => {
+    expect(compiler.compile(ast('cancer au:smith year:2015-2020 year:2018-2022'))).toEqual({
+      query: { text: 'cancer', fields: { author: ['smith'] }, years: { from: 2018, to: 2020 } },
+      warnings: []
+    });
+  });
+
+  it('searches what it can\'t express as words and says so', () => {
+    expect(compiler.compile(ast('immun* (therapy OR treatment) -mouse title:"deep learning"'))).toEqual({
+      query: { text: 'immun therapy treatment deep learning', fields: {} },
+      warnings: [
+        'Test doesn\'t support wildcards; "immun*" was searched as "immun"',
+        'Test doesn\'t support OR; "therapy OR treatment" was searched as all of its terms',
+        'Test can\'t exclude terms; "NOT mouse" was ignored',
+        'Test can\'t search the title field here; "title:"deep learning"" was searched in all fields',
+        'Test doesn\'t match exact phrases; "deep learning" was searched as words'
+      ]
+    });
+  });
+
+  it('keeps quoted phrases where the API honors them', () => {
+    const phrases = new KeywordQueryCompiler('Test', { fields: [], years: false, phrases: true });
+
+    expect(phrases.compile(ast('"deep learning" year:2020'))).toEqual({
+      query: { text: '"deep learning"', fields: {} },
+      warnings: ['Test can\'t filter by year; "year:2020" was ignored']
+    });
+  });
+});
+
+describe('narrowToYears', () => {
+  it('intersects a date range with the requested years', () => {
+    expect(narrowToYears({ from: '2016-06-01' }, { from: 2015, to: 2020 }))
+      .toEqual({ from: '2016-06-01', to: '2020-12-31' });
+  });
+
+  it('leaves the range alone without years', () => {
+    expect(narrowToYears({ to: '2020-01-01' })).toEqual({ to: '2020-01-01' });
+  });
+});
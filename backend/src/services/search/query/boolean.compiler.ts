@@ -0,0 +1,105 @@
+// backend/src/services/search/query/boolean.compiler.ts
+import {
+  QueryNode,
+  QueryNotNode,
+  QueryPhraseNode,
+  QueryTermNode,
+  QueryYearNode
+} from '@thinkleap/shared/types/query';
+import { formatQuery } from '@thinkleap/shared/utils/query-parser';
+import { CompiledQuery } from './types';
+
+/**
+ * Compiles the shared query AST into a database's boolean syntax.
+ * Grouping and operators are common to every syntax; subclasses render the leaves.
+ */
+export abstract class BooleanQueryCompiler {
+  // Database name used in warnings
+  protected abstract readonly source: string;
+
+  // How `a AND NOT b` is written
+  protected readonly andNot: string = 'AND NOT';
+
+  compile(ast: QueryNode): CompiledQuery {
+    const warnings = new Set<string>();
+    return { query: this.render(ast, warnings), warnings: Array.from(warnings) };
+  }
+
+  protected abstract term(node: QueryTermNode, warnings: Set<string>): string;
+
+  protected abstract phrase(node: QueryPhraseNode, warnings: Set<string>): string;
+
+  protected abstract year(node: QueryYearNode, warnings: Set<string>): string;
+
+  /**
+   * A NOT that doesn't narrow down an AND. Most syntaxes can't express it, so it is dropped.
+   */
+  protected standaloneNot(node: QueryNotNode, warnings: Set<string>): string {
+    warnings.add(`${this.source} can't match records by a missing term alone; "${formatQuery(node)}" was ignored`);
+    return '';
+  }
+
+  protected render(node: QueryNode, warnings: Set<string>): string {
+    switch (node.type) {
+      case 'term':
+        return this.term(node, warnings);
+      case 'phrase':
+        return this.phrase(node, warnings);
+      case 'year':
+        return this.year(node, warnings);
+      case 'not':
+        return this.standaloneNot(node, warnings);
+      case 'or':
+        return this.group(node.children.map(child => this.render(child, warnings)), 'OR');
+      case 'and': {
+        const excludedNodes = node.children
+          .filter((child): child is QueryNotNode => child.type === 'not')
+          .map(child => child.child);
+        const included = node.children
+          .filter(child => child.type !== 'not')
+          .map(child => this.render(child, warnings))
+          .filter(Boolean);
+
+        if (!included.length) {
+          return excludedNodes.length
+            ? this.standaloneNot({ type: 'not', child: { type: 'or', children: excludedNodes } }, warnings)
+            : '';
+        }
+
+        const excluded = excludedNodes.map(child => this.render(child, warnings)).filter(Boolean);
+        if (!excluded.length) {
+          return this.group(included, 'AND');
+        }
+
+        return `(${[included.join(' AND '), ...excluded.map(part => `${this.andNot} ${part}`)].join(' ')})`;
+      }
+    }
+  }
+
+  protected group(parts: string[], operator: string): string {
+    // `[tiab]` tags expand to the same term in two fields, which collapse where fields are ignored
+    const present = Array.from(new Set(parts.filter(Boolean)));
+    return present.length > 1 ? `(${present.join(` ${operator} `)})` : present[0] || '';
+  }
+
+  /**
+   * Drop wildcards for syntaxes without them
+   */
+  protected withoutWildcards(node: QueryTermNode, warnings: Set<string>): string {
+    if (!node.wildcard) return node.value;
+
+    const value = node.value.replace(/[*?]/g, '');
+    warnings.add(`${this.source} doesn't support wildcards; "${node.value}" was searched as "${value}"`);
+    return value;
+  }
+
+  protected ignoreProximity(node: QueryPhraseNode, warnings: Set<string>): void {
+    if (node.proximity) {
+      warnings.add(`${this.source} doesn't support proximity search; "${formatQuery(node)}" was searched as an exact phrase`);
+    }
+  }
+
+  protected unsupportedField(node: QueryTermNode | QueryPhraseNode, warnings: Set<string>): void {
+    warnings.add(`${this.source} can't search the ${node.field} field; "${formatQuery(node)}" was searched in all fields`);
+  }
+}
@@ -0,0 +1,4 @@
+// backend/src/services/search/query/index.ts
+export * from './types';
+export * from './boolean.compiler';
+export * from './keyword.compiler';
@@ -0,0 +1,118 @@
+// backend/src/services/search/query/keyword.compiler.ts
+import { QueryField, QueryNode } from '@thinkleap/shared/types/query';
+import { formatQuery } from '@thinkleap/shared/utils/query-parser';
+import { CompiledQuery } from './types';
+
+export type KeywordField = Exclude<QueryField, 'year'>;
+
+/**
+ * A query for relevance-ranked APIs without boolean syntax
+ */
+export interface KeywordQuery {
+  text: string;  // Words and phrases matched by relevance
+  fields: Partial<Record<KeywordField, string[]>>;  // Terms the API searches in a field of their own
+  years?: { from: number; to: number };
+}
+
+export interface KeywordCompilerOptions {
+  fields: KeywordField[];  // Fields with a parameter of their own
+  years: boolean;  // Whether the API can filter by publication year
+  phrases: boolean;  // Whether quoted phrases are honored
+}
+
+/**
+ * Reduces the shared query AST to keywords. Only top-level terms can be moved into
+ * field parameters or a year filter; everything else is searched as plain text.
+ */
+export class KeywordQueryCompiler {
+  constructor(
+    private readonly source: string,
+    private readonly options: KeywordCompilerOptions
+  ) {}
+
+  compile(ast: QueryNode): CompiledQuery<KeywordQuery> {
+    const warnings = new Set<string>();
+    const query: KeywordQuery = { text: '', fields: {} };
+    const text: string[] = [];
+
+    const conjuncts = ast.type === 'and' ? ast.children : [ast];
+    conjuncts.forEach(node => {
+      if (node.type === 'year' && this.options.years) {
+        query.years = query.years
+          ? { from: Math.max(query.years.from, node.from), to: Math.min(query.years.to, node.to) }
+          : { from: node.from, to: node.to };
+      } else if ((node.type === 'term' || node.type === 'phrase')
+        && node.field
+        && this.options.fields.includes(node.field)) {
+        const values = query.fields[node.field] || [];
+        values.push(node.type === 'term' ? this.word(node.value, node.wildcard, warnings) : node.value);
+        query.fields[node.field] = values;
+      } else {
+        text.push(this.text(node, warnings));
+      }
+    });
+
+    query.text = text.filter(Boolean).join(' ');
+    return { query, warnings: Array.from(warnings) };
+  }
+
+  private text(node: QueryNode, warnings: Set<string>): string {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        if (node.field) {
+          warnings.add(`${this.source} can't search the ${node.field} field here; "${formatQuery(node)}" was searched in all fields`);
+        }
+        if (node.type === 'term') {
+          return this.word(node.value, node.wildcard, warnings);
+        }
+        if (node.proximity) {
+          warnings.add(`${this.source} doesn't support proximity search; "${formatQuery(node)}" was searched as words`);
+          return node.value;
+        }
+        if (!this.options.phrases) {
+          warnings.add(`${this.source} doesn't match exact phrases; "${node.value}" was searched as words`);
+          return node.value;
+        }
+        return `"${node.value}"`;
+      case 'year':
+        warnings.add(this.options.years
+          ? `${this.source} can only filter by year for the whole query; "${formatQuery(node)}" was ignored`
+          : `${this.source} can't filter by year; "${formatQuery(node)}" was ignored`);
+        return '';
+      case 'not':
+        warnings.add(`${this.source} can't exclude terms; "${formatQuery(node)}" was ignored`);
+        return '';
+      case 'or':
+        warnings.add(`${this.source} doesn't support OR; "${formatQuery(node)}" was searched as all of its terms`);
+        return Array.from(new Set(node.children.map(child => this.text(child, warnings)).filter(Boolean))).join(' ');
+      case 'and':
+        return node.children.map(child => this.text(child, warnings)).filter(Boolean).join(' ');
+    }
+  }
+
+  private word(value: string, wildcard: boolean | undefined, warnings: Set<string>): string {
+    if (!wildcard) return value;
+
+    const stripped = value.replace(/[*?]/g, '');
+    warnings.add(`${this.source} doesn't support wildcards; "${value}" was searched as "${stripped}"`);
+    return stripped;
+  }
+}
+
+/**
+ * Intersect a date range given as YYYY-MM-DD bounds with the years a query asked for
+ */
+export function narrowToYears(
+  range: { from?: string; to?: string },
+  years?: KeywordQuery['years']
+): { from?: string; to?: string } {
+  if (!years) return range;
+
+  const from = `${years.from}-01-01`;
+  const to = `${years.to}-12-31`;
+  return {
+    from: range.from && range.from > from ? range.from : from,
+    to: range.to && range.to < to ? range.to : to
+  };
+}
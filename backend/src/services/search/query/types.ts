@@ -0,0 +1,9 @@
+// backend/src/services/search/query/types.ts
+
+/**
+ * A query in a database's native syntax, with what could not be expressed in it
+ */
+export interface CompiledQuery<T = string> {
+  query: T;
+  warnings: string[];
+}
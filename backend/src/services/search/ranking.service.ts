@@ -0,0 +1,239 @@
+// backend/src/services/search/ranking.service.ts
+import { SearchResult, SortOrder } from '@thinkleap/shared/types/search';
+import { QueryNode } from '@thinkleap/shared/types/query';
+import { parseQuery } from '@thinkleap/shared/utils/query-parser';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into',
+  'is', 'it', 'not', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to',
+  'was', 'were', 'with'
+]);
+
+export class SearchRankingService {
+  private readonly RRF_K = 60;
+  private readonly BM25_K1 = 1.2;
+  private readonly BM25_B = 0.75;
+  private readonly FIELD_WEIGHTS = {
+    title: 3,
+    keywords: 2,
+    abstract: 1
+  };
+
+  /**
+   * Order merged results for the requested sort.
+   *
+   * Relevance fuses each connector's upstream ranking with a local BM25 ranking
+   * using reciprocal rank fusion, so sources with incomparable scores can be merged.
+   */
+  rank(
+    term: string,
+    results: SearchResult[],
+    sourceRankings: SearchResult[][],
+    sortBy: SortOrder = 'relevance'
+  ): SearchResult[] {
+    const relevance = this.fuse(term, results, sourceRankings);
+    const relevanceOrder = [...results].sort(
+      (a, b) => (relevance.get(b) || 0) - (relevance.get(a) || 0) || this.compareDates(b, a)
+    );
+
+    return this.sort(relevanceOrder, sortBy);
+  }
+
+  /**
+   * Re-sort results that are already in relevance order
+   */
+  sort(results: SearchResult[], sortBy: SortOrder): SearchResult[] {
+    switch (sortBy) {
+      case 'date_desc':
+        return [...results].sort((a, b) => this.compareDates(b, a));
+      case 'date_asc':
+        return [...results].sort((a, b) => this.compareDates(a, b));
+      case 'citations':
+        return [...results].sort((a, b) => (b.citationCount ?? -1) - (a.citationCount ?? -1));
+      case 'relevance':
+      default:
+        return results;
+    }
+  }
+
+  /**
+   * Score each result with BM25 over its weighted title, keywords and abstract
+   */
+  scoreBm25(term: string, results: SearchResult[]): Map<SearchResult, number> {
+    const queryTokens = Array.from(new Set(this.queryTokens(term)));
+    const scores = new Map<SearchResult, number>();
+
+    const documents = results.map(result => this.termFrequencies(result));
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / (documents.length || 1);
+
+    const documentFrequency = new Map<string, number>();
+    queryTokens.forEach(token => {
+      documentFrequency.set(token, documents.filter(doc => doc.frequencies.has(token)).length);
+    });
+
+    results.forEach((result, index) => {
+      const { frequencies, length } = documents[index];
+      let score = 0;
+
+      queryTokens.forEach(token => {
+        const tf = frequencies.get(token) || 0;
+        if (!tf) return;
+
+        const df = documentFrequency.get(token) || 0;
+        const idf = Math.log(1 + (results.length - df + 0.5) / (df + 0.5));
+        const norm = 1 - this.BM25_B + this.BM25_B * (length / (averageLength || 1));
+        score += idf * (tf * (this.BM25_K1 + 1)) / (tf + this.BM25_K1 * norm);
+      });
+
+      scores.set(result, score);
+    });
+
+    return scores;
+  }
+
+  /**
+   * Cosine similarity of each candidate to the seed over TF-IDF vectors of their weighted
+   * title, keywords and abstract. Document frequencies are counted over the seed and candidates.
+   */
+  scoreSimilarity(seed: SearchResult, candidates: SearchResult[]): Map<SearchResult, number> {
+    const documents = [seed, ...candidates].map(result => this.termFrequencies(result).frequencies);
+
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(frequencies => {
+      frequencies.forEach((_tf, token) => {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      });
+    });
+
+    const vectors = documents.map(frequencies => {
+      const weights = new Map<string, number>();
+      let norm = 0;
+      frequencies.forEach((tf, token) => {
+        const weight = (1 + Math.log(tf)) * Math.log(1 + documents.length / (documentFrequency.get(token) || 1));
+        weights.set(token, weight);
+        norm += weight * weight;
+      });
+      return { weights, norm: Math.sqrt(norm) };
+    });
+
+    const [seedVector, ...candidateVectors] = vectors;
+    const scores = new Map<SearchResult, number>();
+
+    candidates.forEach((candidate, index) => {
+      const { weights, norm } = candidateVectors[index];
+      let dot = 0;
+      weights.forEach((weight, token) => {
+        dot += weight * (seedVector.weights.get(token) || 0);
+      });
+      scores.set(candidate, norm && seedVector.norm ? dot / (norm * seedVector.norm) : 0);
+    });
+
+    return scores;
+  }
+
+  /**
+   * The most heavily weighted words of a result, for searching out records like it
+   */
+  keyTerms(result: SearchResult, count: number): string[] {
+    const { frequencies } = this.termFrequencies(result);
+
+    return Array.from(frequencies.entries())
+      .filter(([token]) => !/^\d+$/.test(token))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, count)
+      .map(([token]) => token);
+  }
+
+  private fuse(
+    term: string,
+    results: SearchResult[],
+    sourceRankings: SearchResult[][]
+  ): Map<SearchResult, number> {
+    const upstreamRanks = new Map<string, number>();
+    sourceRankings.forEach(ranking => {
+      ranking.forEach((result, index) => {
+        upstreamRanks.set(this.sourceKey(result.databaseId, result.id), index + 1);
+      });
+    });
+
+    const bm25 = this.scoreBm25(term, results);
+    const bm25Ranks = new Map<SearchResult, number>();
+    [...results]
+      .sort((a, b) => (bm25.get(b) || 0) - (bm25.get(a) || 0))
+      .forEach((result, index) => bm25Ranks.set(result, index + 1));
+
+    const fused = new Map<SearchResult, number>();
+    results.forEach(result => {
+      const sources = result.sources || [{ databaseId: result.databaseId, id: result.id }];
+      let score = 1 / (this.RRF_K + (bm25Ranks.get(result) || results.length));
+
+      sources.forEach(source => {
+        const rank = upstreamRanks.get(this.sourceKey(source.databaseId, source.id));
+        if (rank !== undefined) {
+          score += 1 / (this.RRF_K + rank);
+        }
+      });
+
+      fused.set(result, score);
+    });
+
+    return fused;
+  }
+
+  /**
+   * Words the query asks for: its term and phrase leaves outside any NOT
+   */
+  private queryTokens(term: string): string[] {
+    const collect = (node: QueryNode): string[] => {
+      switch (node.type) {
+        case 'term':
+        case 'phrase':
+          return this.tokenize(node.value);
+        case 'and':
+        case 'or':
+          return node.children.reduce<string[]>((tokens, child) => tokens.concat(collect(child)), []);
+        default:
+          return [];
+      }
+    };
+
+    const { ast } = parseQuery(term);
+    return ast ? collect(ast) : [];
+  }
+
+  private termFrequencies(result: SearchResult): { frequencies: Map<string, number>; length: number } {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+
+    const addField = (text: string | undefined, weight: number) => {
+      if (!text) return;
+      this.tokenize(text).forEach(token => {
+        frequencies.set(token, (frequencies.get(token) || 0) + weight);
+        length += weight;
+      });
+    };
+
+    addField(result.title, this.FIELD_WEIGHTS.title);
+    addField(result.keywords?.join(' '), this.FIELD_WEIGHTS.keywords);
+    addField(result.abstract, this.FIELD_WEIGHTS.abstract);
+
+    return { frequencies, length };
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+  }
+
+  private sourceKey(databaseId: string, id: string): string {
+    return `${databaseId}:${id}`;
+  }
+
+  private compareDates(a: SearchResult, b: SearchResult): number {
+    const dateA = a.publicationDate ? new Date(a.publicationDate).getTime() : 0;
+    const dateB = b.publicationDate ? new Date(b.publicationDate).getTime() : 0;
+    return (dateA || 0) - (dateB || 0);
+  }
+}
@@ -0,0 +1,264 @@
+// backend/src/services/search/saved-search-alert.service.ts
+import { DatabaseService } from '../database/database.service';
+import { SearchService } from './search.service';
+import { UserPreferencesService } from '../user/preferences.service';
+import { EmailService, SavedSearchDigestEntry } from '../email/email.service';
+import { Logger } from '../logger';
+import { AlertFrequency } from '@thinkleap/shared/types/saved-search';
+import { SearchResult } from '@thinkleap/shared/types/search';
+
+interface DueSavedSearch {
+  id: string;
+  userId: string;
+  email: string;
+  name: string;
+  query: string;
+  filters: Record<string, any>;
+  alertFrequency: AlertFrequency;
+}
+
+export interface AlertRunResult {
+  savedSearchId: string;
+  resultsCount: number;
+  newResults: SearchResult[];
+  baseline: boolean;  // First run only records what already exists
+}
+
+/**
+ * Re-runs saved searches on their alert cadence and records hits that weren't seen before
+ */
+export class SavedSearchAlertService {
+  private readonly BATCH_SIZE = 50;
+  private readonly RESULTS_PER_RUN = 200; // Newest records compared on each run
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly databaseService: DatabaseService,
+    private readonly searchService: SearchService,
+    private readonly preferencesService: UserPreferencesService,
+    private readonly emailService: EmailService,
+    private readonly logger: Logger
+  ) {}
+
+  /**
+   * Check for due saved searches every `intervalMs`
+   */
+  start(intervalMs: number): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runDueAlerts().catch((err: unknown) => {
+        const error = err instanceof Error ? err : new Error('Unknown error');
+        this.logger.error('Failed to run saved search alerts', error);
+      });
+    }, intervalMs);
+    // Don't keep the process alive just for alerts
+    this.timer.unref();
+
+    this.logger.info('Saved search alert scheduler started', { intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every saved search whose alert is due and send one digest per user
+   */
+  async runDueAlerts(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    try {
+      const due = await this.claimDueSearches();
+      const digests = new Map<string, { email: string; entries: SavedSearchDigestEntry[] }>();
+
+      for (const search of due) {
+        try {
+          const preferences = await this.preferencesService.getPreferences(search.userId);
+          if (!preferences.notifications.searchUpdates) {
+            continue;
+          }
+
+          const run = await this.runAlert(search);
+          if (!run.newResults.length || !preferences.notifications.emailAlerts) {
+            continue;
+          }
+
+          const digest = digests.get(search.userId) || { email: search.email, entries: [] };
+          digest.entries.push({
+            savedSearchId: search.id,
+            name: search.name,
+            query: search.query,
+            newResults: run.newResults
+          });
+          digests.set(search.userId, digest);
+        } catch (err: unknown) {
+          const error = err instanceof Error ? err : new Error('Unknown error');
+          this.logger.error('Saved search alert run failed', error, { savedSearchId: search.id });
+        }
+      }
+
+      for (const [userId, digest] of digests) {
+        try {
+          await this.emailService.sendSavedSearchDigest(digest.email, digest.entries);
+        } catch (err: unknown) {
+          const error = err instanceof Error ? err : new Error('Unknown error');
+          this.logger.error('Failed to send saved search digest', error, { userId });
+        }
+      }
+
+      if (due.length) {
+        this.logger.info('Ran saved search alerts', { searches: due.length, digests: digests.size });
+      }
+
+      return due.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Re-run one saved search and store the records it hasn't returned before
+   */
+  async runAlert(search: DueSavedSearch): Promise<AlertRunResult> {
+    const startTime = Date.now();
+    const results = await this.searchService.collectResults(
+      search.userId,
+      {
+        term: search.query,
+        filters: search.filters,
+        sortBy: 'date_desc',
+        pagination: { page: 1, limit: 100 }
+      },
+      undefined,
+      this.RESULTS_PER_RUN,
+      // A cached page could be the previous run's, hiding records added since
+      { bypassCache: true }
+    );
+
+    const recordKeys = results.map(result => this.recordKeys(result));
+    const allKeys = recordKeys.reduce<string[]>((keys, resultKeys) => keys.concat(resultKeys), []);
+
+    const known = await this.databaseService.query(
+      `SELECT record_key FROM saved_search_results
+       WHERE saved_search_id = $1 AND record_key = ANY($2)`,
+      [search.id, allKeys]
+    );
+    const knownKeys = new Set<string>(known.rows.map(row => row.record_key));
+
+    const history = await this.databaseService.query(
+      'SELECT EXISTS (SELECT 1 FROM saved_search_results WHERE saved_search_id = $1) AS seen',
+      [search.id]
+    );
+    const baseline = !history.rows[0]?.seen;
+
+    // A record is only new when none of the databases it came from returned it before
+    const newResults: SearchResult[] = [];
+    const rows: Array<{ key: string; result: string | null; isNew: boolean }> = [];
+    results.forEach((result, index) => {
+      const keys = recordKeys[index];
+      const isNew = !baseline && keys.every(key => !knownKeys.has(key));
+      if (isNew) {
+        newResults.push(result);
+      }
+
+      keys.forEach((key, keyIndex) => {
+        if (knownKeys.has(key)) return;
+        const primary = keyIndex === 0 && isNew;
+        rows.push({
+          key,
+          result: primary ? JSON.stringify(result) : null,
+          isNew: primary
+        });
+      });
+    });
+
+    if (rows.length) {
+      await this.databaseService.query(
+        `INSERT INTO saved_search_results (saved_search_id, record_key, result, is_new)
+         SELECT $1, t.record_key, t.result, t.is_new
+         FROM UNNEST($2::text[], $3::jsonb[], $4::boolean[]) AS t(record_key, result, is_new)
+         ON CONFLICT (saved_search_id, record_key) DO NOTHING`,
+        [
+          search.id,
+          rows.map(row => row.key),
+          rows.map(row => row.result),
+          rows.map(row => row.isNew)
+        ]
+      );
+    }
+
+    await this.databaseService.query(
+      `INSERT INTO saved_search_executions (
+        saved_search_id, results_count, new_results_count, execution_time_ms
+      ) VALUES ($1, $2, $3, $4)`,
+      [search.id, results.length, newResults.length, Date.now() - startTime]
+    );
+
+    this.logger.debug('Saved search alert run completed', {
+      savedSearchId: search.id,
+      resultsCount: results.length,
+      newResults: newResults.length,
+      baseline
+    });
+
+    return {
+      savedSearchId: search.id,
+      resultsCount: results.length,
+      newResults,
+      baseline
+    };
+  }
+
+  /**
+   * Claim due searches by moving their next run forward, so concurrent schedulers don't both run them
+   */
+  private async claimDueSearches(): Promise<DueSavedSearch[]> {
+    const result = await this.databaseService.query(
+      `UPDATE saved_searches s
+       SET last_alert_at = NOW(),
+           next_alert_at = NOW() + CASE s.alert_frequency
+             WHEN 'weekly' THEN INTERVAL '7 days'
+             ELSE INTERVAL '1 day'
+           END
+       FROM users u
+       WHERE u.id = s.user_id
+         AND s.id IN (
+           SELECT id FROM saved_searches
+           WHERE alert_frequency <> 'none' AND next_alert_at <= NOW()
+           ORDER BY next_alert_at
+           LIMIT $1
+           FOR UPDATE SKIP LOCKED
+         )
+       RETURNING s.id, s.user_id, s.name, s.query, s.filters, s.alert_frequency, u.email`,
+      [this.BATCH_SIZE]
+    );
+
+    return result.rows.map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      email: row.email,
+      name: row.name,
+      query: row.query,
+      filters: row.filters || {},
+      alertFrequency: row.alert_frequency
+    }));
+  }
+
+  /**
+   * `<databaseId>:<id>` for the result and every record merged into it, primary record first
+   */
+  private recordKeys(result: SearchResult): string[] {
+    const keys = [`${result.databaseId}:${result.id}`];
+    (result.sources || []).forEach(source => {
+      const key = `${source.databaseId}:${source.id}`;
+      if (!keys.includes(key)) keys.push(key);
+    });
+    return keys;
+  }
+}
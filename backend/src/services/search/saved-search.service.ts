@@ -6,12 +6,19 @@ import { AuditLogService } from '../audit/audit-log.service';
 import {
   SavedSearch,
   SavedSearchExecution,
+  SavedSearchNewResult,
   CreateSavedSearchDTO,
   UpdateSavedSearchDTO,
   SavedSearchQueryOptions
 } from '@thinkleap/shared/types/saved-search';
 import { SearchResponse } from '@thinkleap/shared/types/search';
 
+// Unseen alert hits per saved search, selected alongside its columns
+const NEW_RESULTS_COUNT = `(
+  SELECT COUNT(*) FROM saved_search_results r
+  WHERE r.saved_search_id = saved_searches.id AND r.is_new
+) AS new_results_count`;
+
 export class SavedSearchService {
   constructor(
     private readonly databaseService: DatabaseService,
@@ -24,10 +31,17 @@ export class SavedSearchService {
     try {
       const result = await this.databaseService.query(
         `INSERT INTO saved_searches (
-          user_id, name, description, query, filters
-        ) VALUES ($1, $2, $3, $4, $5)
-        RETURNING *`,
-        [userId, data.name, data.description, data.query, JSON.stringify(data.filters)]
+          user_id, name, description, query, filters, alert_frequency, next_alert_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $6::varchar = 'none' THEN NULL ELSE NOW() END)
+        RETURNING *, 0 AS new_results_count`,
+        [
+          userId,
+          data.name,
+          data.description,
+          data.query,
+          JSON.stringify(data.filters),
+          data.alertFrequency || 'none'
+        ]
       );
 
       await this.auditLogService.log({
@@ -47,7 +61,7 @@ export class SavedSearchService {
   async findById(id: string, userId: string): Promise<SavedSearch | null> {
     try {
       const result = await this.databaseService.query(
-        'SELECT * FROM saved_searches WHERE id = $1 AND user_id = $2',
+        `SELECT *, ${NEW_RESULTS_COUNT} FROM saved_searches WHERE id = $1 AND user_id = $2`,
         [id, userId]
       );
 
@@ -121,6 +135,10 @@ export class SavedSearchService {
           filters,
           last_executed_at,
           execution_count,
+          alert_frequency,
+          last_alert_at,
+          next_alert_at,
+          ${NEW_RESULTS_COUNT},
           created_at,
           updated_at
         FROM saved_searches 
@@ -174,11 +192,20 @@ export class SavedSearchService {
         paramCount++;
       }
 
+      if (data.alertFrequency) {
+        // Changing the cadence reschedules the next alert run from now. The cast keeps both uses of
+        // the parameter at one type; the bare comparison would otherwise infer text
+        updates.push(`alert_frequency = $${paramCount}`);
+        updates.push(`next_alert_at = CASE WHEN $${paramCount}::varchar = 'none' THEN NULL ELSE NOW() END`);
+        values.push(data.alertFrequency);
+        paramCount++;
+      }
+
       const result = await this.databaseService.query(
         `UPDATE saved_searches 
          SET ${updates.join(', ')}
          WHERE id = $1 AND user_id = $2
-         RETURNING *`,
+         RETURNING *, ${NEW_RESULTS_COUNT}`,
         values
       );
 
@@ -266,6 +293,59 @@ export class SavedSearchService {
     }
   }
 
+  /**
+   * New hits found by alert runs that haven't been marked as seen
+   */
+  async getNewResults(id: string, userId: string): Promise<SavedSearchNewResult[]> {
+    try {
+      const savedSearch = await this.findById(id, userId);
+      if (!savedSearch) {
+        throw new Error('Saved search not found');
+      }
+
+      const result = await this.databaseService.query(
+        `SELECT record_key, result, first_seen_at
+         FROM saved_search_results
+         WHERE saved_search_id = $1 AND is_new
+         ORDER BY first_seen_at DESC`,
+        [id]
+      );
+
+      return result.rows.map(row => ({
+        recordKey: row.record_key,
+        result: row.result,
+        firstSeenAt: row.first_seen_at
+      }));
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to fetch new saved search results', error, { id, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Clear the "new since last run" state of a saved search
+   */
+  async markResultsSeen(id: string, userId: string): Promise<void> {
+    try {
+      const savedSearch = await this.findById(id, userId);
+      if (!savedSearch) {
+        throw new Error('Saved search not found');
+      }
+
+      await this.databaseService.query(
+        `UPDATE saved_search_results
+         SET is_new = false, result = NULL
+         WHERE saved_search_id = $1 AND is_new`,
+        [id]
+      );
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error('Unknown error');
+      this.logger.error('Failed to mark saved search results as seen', error, { id, userId });
+      throw error;
+    }
+  }
+
   private mapSavedSearch(row: any): SavedSearch {
     return {
       id: row.id,
@@ -276,6 +356,10 @@ export class SavedSearchService {
       filters: row.filters,
       lastExecutedAt: row.last_executed_at,
       executionCount: row.execution_count,
+      alertFrequency: row.alert_frequency || 'none',
+      lastAlertAt: row.last_alert_at || undefined,
+      nextAlertAt: row.next_alert_at || undefined,
+      newResultsCount: parseInt(row.new_results_count || '0', 10),
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -1,40 +1,58 @@
 // backend/src/services/search/search-cache.service.ts
 import { createHash } from 'crypto';
-import { SearchQuery, SearchResult } from '@thinkleap/shared/types/search';
-import { CacheService } from '../../services/cache';
+import { SearchQuery, SearchResponse } from '@thinkleap/shared/types/search';
+import { CitationDirection, CitationResponse } from '@thinkleap/shared/types/record';
+import { ICache } from '../../services/cache';
 import { Logger } from '../../services/logger';
 
 export interface CachedSearchResult {
-  results: SearchResult[];
+  response: SearchResponse;
   timestamp: number;
   query: SearchQuery;
-  databases: string[];
+  databases: string[];  // Connector ids
+}
+
+export interface CachedSearchLookup {
+  cached: CachedSearchResult;
+  stale: boolean;
+}
+
+export interface CachedCitations {
+  response: CitationResponse;
+  timestamp: number;
 }
 
 export class SearchCacheService {
   private readonly PREFIX = 'search:';
+  private readonly CITATION_PREFIX = 'citations:';
+  private readonly INDEX_PREFIX = 'search:index:';
+  private readonly ALL_INDEX = 'search:index:_all';
   private readonly DEFAULT_TTL = 3600; // 1 hour
+  private readonly STALE_TTL = 86400; // Serve stale results for up to a day while revalidating
+  private readonly CITATION_TTL = 86400; // Citation lists grow slowly
 
   constructor(
-    private readonly cacheService: CacheService,
+    private readonly cacheService: ICache,
     private readonly logger: Logger
   ) {}
 
   /**
    * Generate a deterministic cache key for a search query
    */
-  private generateCacheKey(query: SearchQuery, databases: string[]): string {
+  private generateCacheKey(query: SearchQuery, databaseIds: string[]): string {
     const normalizedQuery = {
       term: query.term.toLowerCase().trim(),
       filters: query.filters || {},
+      sortBy: query.sortBy,
+      cursor: query.cursor,
       pagination: {
-        page: 1, // Always cache first page
+        page: query.cursor ? undefined : query.pagination.page,
         limit: query.pagination.limit
       }
     };
 
-    const sortedDatabases = [...databases].sort();
-    
+    const sortedDatabases = [...databaseIds].sort();
+
     const data = JSON.stringify({
       query: normalizedQuery,
       databases: sortedDatabases
@@ -44,40 +62,44 @@ export class SearchCacheService {
     return `${this.PREFIX}${hash}`;
   }
 
-  /**
-   * Check if cached results should be considered valid
-   */
-  private isValid(cached: CachedSearchResult): boolean {
-    const age = Date.now() - cached.timestamp;
-    return age < this.DEFAULT_TTL * 1000;
+  private citationKey(databaseId: string, id: string, direction: CitationDirection, limit: number): string {
+    const hash = createHash('sha256')
+      .update(JSON.stringify({ databaseId, id, direction, limit }))
+      .digest('hex');
+    return `${this.CITATION_PREFIX}${hash}`;
+  }
+
+  // Keyed by connector id, which stays put when a database is renamed in the config
+  private indexKey(databaseId: string): string {
+    return `${this.INDEX_PREFIX}${databaseId}`;
   }
 
   /**
-   * Try to get cached search results
+   * Try to get a cached search response.
+   * Stale responses are still returned, and `revalidate` is run in the background to refresh them.
    */
   async getCachedResults(
     query: SearchQuery,
-    databases: string[]
-  ): Promise<SearchResult[] | null> {
+    databaseIds: string[],
+    revalidate?: () => Promise<void>
+  ): Promise<CachedSearchLookup | null> {
     try {
-      const cacheKey = this.generateCacheKey(query, databases);
-      const cached = await this.cacheService.get<CachedSearchResult>(cacheKey);
-
-      if (!cached) {
-        return null;
-      }
+      const cacheKey = this.generateCacheKey(query, databaseIds);
+      const entry = await this.cacheService.getEntry<CachedSearchResult>(cacheKey, {
+        staleWhileRevalidate: true,
+        revalidate
+      });
 
-      if (!this.isValid(cached)) {
-        await this.cacheService.delete(cacheKey);
+      if (!entry) {
         return null;
       }
 
-      this.logger.debug('Cache hit for search query', {
+      this.logger.debug(entry.stale ? 'Stale cache hit for search query' : 'Cache hit for search query', {
         term: query.term,
-        databases
+        databases: databaseIds
       });
 
-      return cached.results;
+      return { cached: entry.value, stale: entry.stale };
     } catch (error) {
       this.logger.error('Error retrieving cached search results', error as Error);
       return null;
@@ -85,30 +107,41 @@ export class SearchCacheService {
   }
 
   /**
-   * Cache search results
+   * Cache a search response and index it under every database it covers
    */
   async cacheResults(
     query: SearchQuery,
-    databases: string[],
-    results: SearchResult[]
+    databaseIds: string[],
+    response: SearchResponse
   ): Promise<void> {
     try {
-      const cacheKey = this.generateCacheKey(query, databases);
+      const cacheKey = this.generateCacheKey(query, databaseIds);
       const cached: CachedSearchResult = {
-        results,
+        response,
         timestamp: Date.now(),
         query,
-        databases
+        databases: databaseIds
       };
 
       await this.cacheService.set(cacheKey, cached, {
-        ttl: this.DEFAULT_TTL
+        ttl: this.DEFAULT_TTL,
+        staleWhileRevalidate: true,
+        staleTtl: this.STALE_TTL
       });
 
+      // Index entries outlive the data they point at, so stale keys can still be invalidated
+      const indexTtl = this.DEFAULT_TTL + this.STALE_TTL;
+      await Promise.all([
+        ...databaseIds.map(databaseId =>
+          this.cacheService.addToSet(this.indexKey(databaseId), [cacheKey], indexTtl)
+        ),
+        this.cacheService.addToSet(this.ALL_INDEX, [cacheKey], indexTtl)
+      ]);
+
       this.logger.debug('Cached search results', {
         term: query.term,
-        databases,
-        resultCount: results.length
+        databases: databaseIds,
+        resultCount: response.results.length
       });
     } catch (error) {
       this.logger.error('Error caching search results', error as Error);
@@ -116,22 +149,89 @@ export class SearchCacheService {
   }
 
   /**
-   * Invalidate cached results for specific databases
+   * Try to get the cached citation list of a record
    */
-  async invalidateForDatabases(databases: string[]): Promise<void> {
-    // Note: This is a placeholder. In a real implementation,
-    // we would need a way to track keys by database
-    this.logger.info('Cache invalidation requested for databases', {
-      databases
-    });
+  async getCachedCitations(
+    databaseId: string,
+    id: string,
+    direction: CitationDirection,
+    limit: number
+  ): Promise<CachedCitations | null> {
+    try {
+      const cached = await this.cacheService.get<CachedCitations>(
+        this.citationKey(databaseId, id, direction, limit)
+      );
+
+      if (cached) {
+        this.logger.debug('Cache hit for citations', { databaseId, id, direction });
+      }
+
+      return cached;
+    } catch (error) {
+      this.logger.error('Error retrieving cached citations', error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache a citation list and index it under every database that contributed to it
+   */
+  async cacheCitations(response: CitationResponse, limit: number, databaseIds: string[]): Promise<void> {
+    try {
+      const cacheKey = this.citationKey(response.databaseId, response.id, response.direction, limit);
+      const cached: CachedCitations = {
+        response,
+        timestamp: Date.now()
+      };
+
+      await this.cacheService.set(cacheKey, cached, { ttl: this.CITATION_TTL });
+
+      // Indexes are shared with search entries, so keep their lifetime rather than shortening it
+      const indexTtl = this.DEFAULT_TTL + this.STALE_TTL;
+      await Promise.all([
+        ...databaseIds.map(databaseId =>
+          this.cacheService.addToSet(this.indexKey(databaseId), [cacheKey], indexTtl)
+        ),
+        this.cacheService.addToSet(this.ALL_INDEX, [cacheKey], indexTtl)
+      ]);
+    } catch (error) {
+      this.logger.error('Error caching citations', error as Error);
+    }
+  }
+
+  /**
+   * Invalidate cached results that any of the given connectors contributed to
+   */
+  async invalidateForDatabases(databaseIds: string[]): Promise<void> {
+    try {
+      for (const databaseId of databaseIds) {
+        const indexKey = this.indexKey(databaseId);
+        const keys = await this.cacheService.getSetMembers(indexKey);
+        await this.cacheService.deleteMany([...keys, indexKey]);
+
+        this.logger.info('Invalidated cached search results for database', {
+          databaseId,
+          entries: keys.length
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error invalidating cached search results', error as Error, {
+        databaseIds
+      });
+    }
   }
 
   /**
    * Clear all cached search results
    */
   async clearAll(): Promise<void> {
-    // Note: This is a placeholder. In a real implementation,
-    // we would need a way to get all search cache keys
-    this.logger.info('Full search cache clear requested');
+    try {
+      const keys = await this.cacheService.getSetMembers(this.ALL_INDEX);
+      await this.cacheService.deleteMany([...keys, this.ALL_INDEX]);
+
+      this.logger.info('Cleared search cache', { entries: keys.length });
+    } catch (error) {
+      this.logger.error('Error clearing search cache', error as Error);
+    }
   }
-}
\ No newline at end of file
+}
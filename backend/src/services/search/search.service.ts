@@ -1,178 +1,547 @@
 // backend/src/services/search/search.service.ts
 import { Logger } from '../../services/logger';
-import { CacheService } from '../../services/cache';
-import { SearchQuery, SearchResult, SearchResponse } from '@thinkleap/shared/types/search';
+import { ICache } from '../../services/cache';
+import {
+  SearchQuery,
+  SearchResult,
+  SearchResponse,
+  ResultSource,
+  SourceTelemetry,
+  SearchStreamEvent
+} from '@thinkleap/shared/types/search';
+import {
+  QueryTranslation,
+  QueryTranslationResponse,
+  QueryWarning
+} from '@thinkleap/shared/types/query';
+import { RecordDetail, SimilarArticlesResponse } from '@thinkleap/shared/types/record';
+import { lintQuery, parseQuery } from '@thinkleap/shared/utils/query-parser';
 import { DatabaseRegistry } from '../search/databases/registry';
-import { SearchError } from './databases/types';
-import { PubMedConnector } from './databases/pubmed/connector';
+import { BaseDatabaseConnector, formatFilterDate } from './databases/base.connector';
+import { SearchError, ConnectorSearchResult, ConnectorTelemetry } from './databases/types';
 import { SearchCacheService } from './search.cache.service';
+import { SearchDeduplicationService } from './deduplication.service';
+import { SearchRankingService } from './ranking.service';
+import { SearchPaginationService, SourceCursor } from './pagination.service';
+import { SearchFacetService } from './facet.service';
 
+// Applied to connectors whose config doesn't set a timeout
+const DEFAULT_CONNECTOR_TIMEOUT_MS = 30 * 1000;
 
+/**
+ * Receives each database's outcome as soon as it is known
+ */
+export type SourceEventListener = (
+  event: Extract<SearchStreamEvent, { type: 'source' | 'source-error' }>
+) => void;
+
+export interface SearchOptions {
+  onSource?: SourceEventListener;
+  bypassCache?: boolean;  // Always query the databases; the fresh response still refreshes the cache
+}
 
 export class SearchService {
-  private readonly registry: DatabaseRegistry;
+  // Ids per upstream lookup request
+  private readonly FETCH_BATCH_SIZE = 100;
+  private readonly deduplicator: SearchDeduplicationService;
+  private readonly ranking: SearchRankingService;
+  private readonly pagination: SearchPaginationService;
+  private readonly facets: SearchFacetService;
 
   constructor(
     private readonly logger: Logger,
-    private readonly cacheService: CacheService,
+    private readonly cacheService: ICache,
     private readonly searchCache: SearchCacheService,
-    private readonly config: Record<string, any>
+    // Shared by every consumer and repopulated from the connector config on reload
+    private readonly registry: DatabaseRegistry
   ) {
-    this.registry = new DatabaseRegistry();
-    this.initializeDatabases();
-  }
-
-  private paginateResults(results: SearchResult[], pagination: { page: number; limit: number }): SearchResult[] {
-    const startIndex = (pagination.page - 1) * pagination.limit;
-    const endIndex = startIndex + pagination.limit;
-    return results.slice(startIndex, endIndex);
-  }
-
-  private initializeDatabases(): void {
-    // Initialize PubMed connector
-    const pubmedConfig = {
-      id: 'pubmed',
-      name: 'PubMed',
-      enabled: true,
-      authType: 'apiKey' as const,
-      baseUrl: 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils',
-      features: {
-        supportsPagination: true,
-        supportsFullText: false,
-        supportsCitationCounts: false,
-        supportsAdvancedFilters: true
-      },
-      auth: {
-        apiKey: this.config.PUBMED_API_KEY
-      },
-      rateLimit: {
-        requestsPerSecond: 3
-      },
-      retryConfig: {
-        maxRetries: 3,
-        backoffMs: 1000
-      }
-    };
-
-    const pubmedConnector = new PubMedConnector(
-      pubmedConfig,
-      this.logger,
-      this.cacheService
-    );
-
-    this.registry.registerDatabase('pubmed', pubmedConnector);
+    this.deduplicator = new SearchDeduplicationService(logger);
+    this.ranking = new SearchRankingService();
+    this.pagination = new SearchPaginationService();
+    this.facets = new SearchFacetService();
   }
 
+  /**
+   * Search the enabled databases and merge their results into one page.
+   * `onSource` hears about every database as it finishes; cached responses emit no source events.
+   */
   async search(
     userId: string,
     query: SearchQuery,
-    databases?: string[]
+    databases?: string[],
+    { onSource, bypassCache = false }: SearchOptions = {}
   ): Promise<SearchResponse> {
     const startTime = Date.now();
+    const rankedQuery: SearchQuery = { ...query, sortBy: query.sortBy || 'relevance' };
 
     try {
+      const parsed = parseQuery(query.term);
+      if (!parsed.ast) {
+        throw new Error(`Invalid query: ${parsed.warnings.join('; ') || 'nothing to search for'}`);
+      }
+
+      // Checked before fanning out, where a bad date would only fail each database on its own
+      const { start, end } = query.filters?.dateRange || {};
+      [start, end].forEach(value => value && formatFilterDate(value));
+
       // Get enabled databases
       const enabledDatabases = await this.registry.getEnabledDatabases(userId);
       const databasesToSearch = databases
-        ? enabledDatabases.filter(db => databases.includes(db.name))
+        ? enabledDatabases.filter(db => databases.includes(db.id))
         : enabledDatabases;
 
       if (!databasesToSearch.length) {
         throw new Error('No enabled databases available for search');
       }
 
-       // Check cache first
-       if (query.pagination.page === 1) {
-        const cachedResults = await this.searchCache.getCachedResults(
-          query,
-          databasesToSearch.map(db => db.name)
-        );
+      // Check cache first; stale entries are served while a background search refreshes them
+      const cachedLookup = !bypassCache && await this.searchCache.getCachedResults(
+        rankedQuery,
+        databasesToSearch.map(db => db.id),
+        async () => {
+          await this.executeSearch(rankedQuery, databasesToSearch, Date.now());
+        }
+      );
 
-        if (cachedResults) {
-            return {
-              results: this.paginateResults(cachedResults, query.pagination),
-              totalResults: cachedResults.length,
-              page: query.pagination.page,
-              totalPages: Math.ceil(cachedResults.length / query.pagination.limit),
-              executionTimeMs: Date.now() - startTime,
-              databasesSearched: databasesToSearch.map(db => db.name),
-              errors: []
-            };
+      if (cachedLookup) {
+        return {
+          ...cachedLookup.cached.response,
+          executionTimeMs: Date.now() - startTime,
+          // No upstream requests were made for this response
+          telemetry: undefined,
+          cache: {
+            status: cachedLookup.stale ? 'stale' : 'hit',
+            cachedAt: new Date(cachedLookup.cached.timestamp).toISOString()
           }
+        };
       }
 
-      // Execute searches in parallel
-      interface DatabaseSearchResult {
-        source: string;
-        results: SearchResult[];
-        error: SearchError | null;
+      const response = await this.executeSearch(rankedQuery, databasesToSearch, startTime, onSource);
+      return {
+        ...response,
+        cache: { status: 'miss' }
+      };
+    } catch (error) {
+      this.logger.error('Search operation failed', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Re-fetch records by `<databaseId>:<id>` keys, merging sources that describe the same work.
+   * Results keep the order in which their first source was requested.
+   */
+  async fetchRecords(userId: string, resultIds: string[]): Promise<SearchResult[]> {
+    const idsByDatabase = new Map<string, string[]>();
+    const order = new Map<string, number>();
+
+    resultIds.forEach((key, index) => {
+      const separator = key.indexOf(':');
+      if (separator <= 0) {
+        throw new Error(`Invalid result id: ${key}`);
+      }
+      const databaseId = key.slice(0, separator);
+      const id = key.slice(separator + 1);
+      if (!order.has(key)) {
+        order.set(key, index);
+        idsByDatabase.set(databaseId, [...(idsByDatabase.get(databaseId) || []), id]);
       }
+    });
 
-      // Execute searches in parallel
-      const searchPromises = databasesToSearch.map(async database => {
-        try {
-          const results = await database.search(query);
-          return {
-            source: database.name,
-            results,
-            error: null
-          };
-        } catch (error) {
-          this.logger.error(
-            `Search failed for database ${database.name}`,
-            error as Error
-          );
-          return {
-            source: database.name,
-            results: [],
-            error: error as SearchError
-          };
+    const fetched = await Promise.all(
+      Array.from(idsByDatabase.entries()).map(async ([databaseId, ids]) => {
+        const database = this.registry.getDatabase(databaseId);
+        if (!database || !(await database.isEnabled()) || !(await database.validateAccess(userId))) {
+          throw new Error(`Unknown database: ${databaseId}`);
         }
-      });
 
-      const searchResults = await Promise.all(searchPromises);
+        const batches: SearchResult[][] = [];
+        for (let start = 0; start < ids.length; start += this.FETCH_BATCH_SIZE) {
+          const batch = ids.slice(start, start + this.FETCH_BATCH_SIZE);
+          batches.push(await this.observe(database, () => database.fetchRecords(batch)));
+        }
+        return batches.reduce<SearchResult[]>((all, batch) => all.concat(batch), []);
+      })
+    );
+
+    const { results } = this.deduplicator.deduplicate(
+      fetched.reduce<SearchResult[]>((all, records) => all.concat(records), [])
+    );
+
+    const position = (result: SearchResult) => Math.min(
+      ...(result.sources || [{ databaseId: result.databaseId, id: result.id }]).map((source: ResultSource) =>
+        order.get(`${source.databaseId}:${source.id}`) ?? Number.MAX_SAFE_INTEGER
+      )
+    );
+    return results.sort((a, b) => position(a) - position(b));
+  }
+
+  /**
+   * Full record of one result. Null when the database no longer has it.
+   */
+  async getRecord(userId: string, databaseId: string, id: string): Promise<RecordDetail | null> {
+    const database = this.registry.getDatabase(databaseId);
+    if (!database || !(await database.isEnabled()) || !(await database.validateAccess(userId))) {
+      throw new Error(`Unknown database: ${databaseId}`);
+    }
+
+    return this.observe(database, () => this.withTimeout(database, database.getRecord(id)));
+  }
 
-      // Aggregate results
-      const allResults: SearchResult[] = [];
-      const errors: Array<{ source: string; error: SearchError }> = [];
+  /**
+   * Records like one result, most similar first. Null when the database no longer has it.
+   */
+  async findSimilar(
+    userId: string,
+    databaseId: string,
+    id: string,
+    limit: number
+  ): Promise<SimilarArticlesResponse | null> {
+    const database = this.registry.getDatabase(databaseId);
+    if (!database || !(await database.isEnabled()) || !(await database.validateAccess(userId))) {
+      throw new Error(`Unknown database: ${databaseId}`);
+    }
+
+    return this.observe(database, () => this.withTimeout(database, database.findSimilar(id, limit)));
+  }
+
+  /**
+   * Walk the result pages of a query with its cursor until `maxResults` records are collected
+   */
+  async collectResults(
+    userId: string,
+    query: SearchQuery,
+    databases: string[] | undefined,
+    maxResults: number,
+    options: Pick<SearchOptions, 'bypassCache'> = {}
+  ): Promise<SearchResult[]> {
+    const collected: SearchResult[] = [];
+    let cursor: string | undefined;
 
-      searchResults.forEach(result => {
-        if (result.error) {
-          errors.push({
-            source: result.source,
-            error: result.error
+    // The page size stays fixed, since cursors are only valid for the query they were issued for
+    do {
+      const response = await this.search(userId, {
+        ...query,
+        pagination: { page: 1, limit: query.pagination.limit },
+        cursor
+      }, databases, options);
+
+      collected.push(...response.results);
+      cursor = response.nextCursor;
+    } while (cursor && collected.length < maxResults);
+
+    return collected.slice(0, maxResults);
+  }
+
+  /**
+   * Show what a query turns into for every registered database without running it.
+   * Databases the user can search and that have a count-only request also estimate their hits.
+   */
+  async translate(userId: string, query: SearchQuery): Promise<QueryTranslationResponse> {
+    const searchable = new Set((await this.registry.getEnabledDatabases(userId)).map(db => db.id));
+
+    const translations = await Promise.all(
+      this.registry.getAllDatabases().map(async (database): Promise<QueryTranslation> => {
+        const translation: QueryTranslation = {
+          databaseId: database.id,
+          database: database.name,
+          query: '',
+          filters: database.describeFilters(query),
+          warnings: []
+        };
+
+        try {
+          const compiled = database.translateQuery(query);
+          translation.query = compiled.query;
+          translation.warnings = compiled.warnings.concat(this.sortWarnings(query, database));
+
+          if (searchable.has(database.id)) {
+            translation.estimatedCount = await this.observe(database, () =>
+              this.withTimeout(database, database.countResults(query)));
+          }
+        } catch (err: unknown) {
+          const error = err as SearchError;
+          this.logger.warn('Failed to preview query', {
+            database: database.id,
+            error: error.message
           });
-        } else {
-          allResults.push(...result.results);
+          translation.error = error.message || 'Unknown error';
         }
-      });
 
-      // Sort results by date (newest first)
-      allResults.sort((a, b) => {
-        const dateA = a.publicationDate?.getTime() || 0;
-        const dateB = b.publicationDate?.getTime() || 0;
-        return dateB - dateA;
-      });
+        return translation;
+      })
+    );
 
-      // Apply pagination
-      const startIndex = (query.pagination.page - 1) * query.pagination.limit;
-      const endIndex = startIndex + query.pagination.limit;
-      const paginatedResults = allResults.slice(startIndex, endIndex);
-
-      const response: SearchResponse = {
-        results: paginatedResults,
-        totalResults: allResults.length,
-        page: query.pagination.page,
-        totalPages: Math.ceil(allResults.length / query.pagination.limit),
-        executionTimeMs: Date.now() - startTime,
-        databasesSearched: databasesToSearch.map(db => db.name),
-        errors: errors.length > 0 ? errors : undefined
-      };
+    return { lint: lintQuery(query.term), translations };
+  }
 
-      return response;
+  /**
+   * Run a connector call and report its outcome to the connector's circuit breaker
+   */
+  private async observe<T>(database: BaseDatabaseConnector, operation: () => Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      const value = await operation();
+      this.registry.recordSuccess(database.id, Date.now() - start);
+      return value;
     } catch (error) {
-      this.logger.error('Search operation failed', error as Error);
+      this.registry.recordFailure(database.id, Date.now() - start);
       throw error;
     }
   }
+
+  /**
+   * Fail a connector call that outlives the connector's timeout. The call itself
+   * is not cancelled, but the search stops waiting for it.
+   */
+  private withTimeout<T>(database: BaseDatabaseConnector, operation: Promise<T>): Promise<T> {
+    const timeoutMs = database.timeout || DEFAULT_CONNECTOR_TIMEOUT_MS;
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error: SearchError = {
+          name: 'TimeoutError',
+          message: `${database.name} did not respond within ${timeoutMs} ms`,
+          type: 'timeout',
+          retryable: true,
+          source: database.id
+        };
+        reject(error);
+      }, timeoutMs);
+    });
+
+    return Promise.race([operation, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * A failing listener must not fail the search it is listening to
+   */
+  private emit(onSource: SourceEventListener | undefined, event: Parameters<SourceEventListener>[0]): void {
+    if (!onSource) return;
+
+    try {
+      onSource(event);
+    } catch (error) {
+      this.logger.warn('Search source listener failed', {
+        source: event.data.source,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * A sort order the database can't apply upstream is only approximated within the fetched pages
+   */
+  private sortWarnings(query: SearchQuery, database: BaseDatabaseConnector): string[] {
+    if (!query.sortBy || database.supportsSort(query.sortBy)) return [];
+    return [`Sorting by ${query.sortBy} is not supported; results are re-ordered within each page of relevance-ranked results`];
+  }
+
+  /**
+   * Syntax problems in the query, then whatever each database couldn't search exactly
+   */
+  private queryWarnings(query: SearchQuery, databases: BaseDatabaseConnector[]): QueryWarning[] | undefined {
+    const warnings: QueryWarning[] = parseQuery(query.term).warnings
+      .map(message => ({ source: 'query', message }));
+
+    databases.forEach(database => {
+      try {
+        database.translateQuery(query).warnings.concat(this.sortWarnings(query, database)).forEach(message => {
+          warnings.push({ source: database.name, message });
+        });
+      } catch (error) {
+        this.logger.warn('Failed to translate query', {
+          database: database.id,
+          error: (error as Error).message
+        });
+      }
+    });
+
+    return warnings.length ? warnings : undefined;
+  }
+
+  /**
+   * Query the connectors, merge their results and cache the response when every source succeeded
+   */
+  private async executeSearch(
+    query: SearchQuery,
+    databasesToSearch: BaseDatabaseConnector[],
+    startTime: number,
+    onSource?: SourceEventListener
+  ): Promise<SearchResponse> {
+    const sortBy = query.sortBy || 'relevance';
+    const databaseIds = databasesToSearch.map(db => db.id);
+
+    // Resume from the cursor, or start fresh and skip ahead to the requested page
+    const fingerprint = this.pagination.fingerprint(query, databaseIds);
+    const cursor = query.cursor
+      ? this.pagination.decode(query.cursor, fingerprint)
+      : this.pagination.createCursor(fingerprint, databaseIds);
+    const page = query.cursor ? cursor.page : query.pagination.page;
+    const limit = query.pagination.limit;
+    const skip = query.cursor ? 0 : (page - 1) * limit;
+
+    interface DatabaseSearchResult {
+      source: string;
+      sourceCursor: SourceCursor;
+      page: ConnectorSearchResult | null;
+      error: SearchError | null;
+      telemetry?: SourceTelemetry;
+    }
+
+    // Execute searches in parallel
+    const searchPromises = databasesToSearch.map(async (database): Promise<DatabaseSearchResult> => {
+      const sourceCursor = cursor.sources[database.id] || { offset: 0, emitted: [] };
+
+      if (!this.pagination.hasMore(sourceCursor)) {
+        return { source: database.id, sourceCursor, page: null, error: null };
+      }
+
+      const sourceStart = Date.now();
+      const usage: ConnectorTelemetry = { requests: 0, queueWaitMs: 0, rateLimited: 0 };
+      const telemetry = () => ({ durationMs: Date.now() - sourceStart, ...usage });
+
+      try {
+        const page = await database.track(usage, () => this.observe(database, () => this.withTimeout(
+          database,
+          database.search(query, this.pagination.planWindow(sourceCursor, skip, limit))
+        )));
+        const result = {
+          source: database.id,
+          sourceCursor,
+          page,
+          error: null,
+          telemetry: telemetry()
+        };
+
+        this.emit(onSource, {
+          type: 'source',
+          data: {
+            source: database.id,
+            results: this.pagination.excludeEmitted(sourceCursor, page.results).slice(0, limit),
+            total: page.total,
+            telemetry: result.telemetry
+          }
+        });
+        return result;
+      } catch (error) {
+        this.logger.error(
+          `Search failed for database ${database.name}`,
+          error as Error
+        );
+        const result = {
+          source: database.id,
+          sourceCursor,
+          page: null,
+          error: error as SearchError,
+          telemetry: telemetry()
+        };
+
+        this.emit(onSource, {
+          type: 'source-error',
+          data: { source: database.id, error: result.error, telemetry: result.telemetry }
+        });
+        return result;
+      }
+    });
+
+    const searchResults = await Promise.all(searchPromises);
+
+    // Aggregate results
+    const allResults: SearchResult[] = [];
+    const sourceRankings: SearchResult[][] = [];
+    const sourceTotals: Record<string, number> = {};
+    const errors: Array<{ source: string; error: SearchError }> = [];
+    const telemetry: Record<string, SourceTelemetry> = {};
+
+    searchResults.forEach(result => {
+      if (result.telemetry) {
+        telemetry[result.source] = result.telemetry;
+      }
+
+      if (result.error) {
+        errors.push({
+          source: result.source,
+          error: result.error
+        });
+      } else if (result.page) {
+        const fresh = this.pagination.excludeEmitted(result.sourceCursor, result.page.results);
+        allResults.push(...fresh);
+        sourceRankings.push(fresh);
+        sourceTotals[result.source] = result.page.total;
+      } else if (result.sourceCursor.total !== undefined) {
+        sourceTotals[result.source] = result.sourceCursor.total;
+      }
+    });
+
+    // Collapse the same work reported by several databases
+    const { results: uniqueResults, duplicatesRemoved } = this.deduplicator.deduplicate(allResults);
+
+    // Rank by fused relevance, then apply the requested sort order
+    const rankedResults = this.ranking.rank(query.term, uniqueResults, sourceRankings, sortBy);
+
+    // Take this page from the merged window; everything up to its end counts as emitted
+    const paginatedResults = rankedResults.slice(skip, skip + limit);
+    const emittedKeys = new Set<string>();
+    rankedResults.slice(0, skip + limit).forEach(result => {
+      (result.sources || [{ databaseId: result.databaseId, id: result.id }]).forEach(source =>
+        emittedKeys.add(`${source.databaseId}:${source.id}`)
+      );
+    });
+
+    // Advance each connector's cursor past what has been emitted
+    let hasMore = rankedResults.length > skip + limit;
+    searchResults.forEach(result => {
+      if (!result.page) return;
+      const next = this.pagination.advance(result.sourceCursor, result.page, emittedKeys);
+      cursor.sources[result.source] = next;
+      hasMore = hasMore || this.pagination.hasMore(next);
+    });
+    cursor.page = page + 1;
+
+    // Upstream totals overcount works found in several databases
+    const totalResults = Math.max(
+      Object.values(sourceTotals).reduce((sum, total) => sum + total, 0) - duplicatesRemoved,
+      skip + paginatedResults.length
+    );
+
+    const response: SearchResponse = {
+      results: paginatedResults,
+      totalResults,
+      page,
+      totalPages: Math.ceil(totalResults / limit),
+      executionTimeMs: Date.now() - startTime,
+      databasesSearched: databaseIds,
+      errors: errors.length > 0 ? errors : undefined,
+      duplicatesRemoved,
+      sortBy,
+      nextCursor: hasMore ? this.pagination.encode(cursor) : undefined,
+      sourceTotals,
+      telemetry,
+      warnings: this.queryWarnings(query, databasesToSearch),
+      facets: this.facets.build(
+        searchResults
+          .map(result => result.page)
+          .filter((result): result is ConnectorSearchResult => Boolean(result)),
+        uniqueResults,
+        sourceTotals
+      )
+    };
+
+    const throttled = Object.keys(telemetry).filter(source =>
+      telemetry[source].queueWaitMs > 0 || telemetry[source].rateLimited > 0
+    );
+    if (throttled.length) {
+      this.logger.info('Search was slowed by outbound rate limits', {
+        sources: throttled.map(source => ({ source, ...telemetry[source] }))
+      });
+    }
+
+    if (!errors.length) {
+      await this.searchCache.cacheResults(query, databasesToSearch.map(db => db.id), response);
+    }
+
+    return response;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+exports.up = function(knex) {
+    return knex.schema
+      .alterTable('saved_searches', function(table) {
+        table.string('alert_frequency', 20).notNullable().defaultTo('none');
+        table.timestamp('last_alert_at');
+        table.timestamp('next_alert_at');
+
+        // The scheduler looks up searches that are due
+        table.index(['alert_frequency', 'next_alert_at']);
+      })
+      .alterTable('saved_search_executions', function(table) {
+        table.integer('new_results_count').notNullable().defaultTo(0);
+      })
+      .createTable('saved_search_results', function(table) {
+        table.uuid('saved_search_id').references('id').inTable('saved_searches').onDelete('CASCADE');
+        // `<databaseId>:<id>` of every record an alert run has seen
+        table.string('record_key', 512).notNullable();
+        // Snapshot of the record, kept for new hits only
+        table.jsonb('result');
+        table.boolean('is_new').notNullable().defaultTo(false);
+        table.timestamp('first_seen_at').defaultTo(knex.fn.now());
+        table.primary(['saved_search_id', 'record_key']);
+        table.index(['saved_search_id', 'is_new']);
+      });
+  };
+
+  exports.down = function(knex) {
+    return knex.schema
+      .dropTable('saved_search_results')
+      .alterTable('saved_search_executions', function(table) {
+        table.dropColumn('new_results_count');
+      })
+      .alterTable('saved_searches', function(table) {
+        table.dropIndex(['alert_frequency', 'next_alert_at']);
+        table.dropColumn('alert_frequency');
+        table.dropColumn('last_alert_at');
+        table.dropColumn('next_alert_at');
+      });
+  };
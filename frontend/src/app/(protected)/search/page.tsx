@@ -8,6 +8,7 @@ import { usePreferences } from '@/lib/preferences/PreferencesContext';
 import { SearchForm } from '@/components/search/SearchForm';
 import { FilterPanel } from '@/components/search/FilterPanel';
 import { SearchResults } from '@/components/search/SearchResults';
+import { useSearchStream } from '@/hooks/useSearchStream';
 import { SearchResponse, SearchFilters } from '@thinkleap/shared/types/search';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -17,7 +18,8 @@ export default function SearchPage() {
   const { preferences } = usePreferences();
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [isLoading, setIsLoading] = useState(false);
+  const searchStream = useSearchStream();
+  const isLoading = searchStream.isStreaming;
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<{data: SearchResponse} | null>(null);
 
@@ -36,33 +38,26 @@ export default function SearchPage() {
     }
   }, [user, router]);
 
-  const handleSearch = async (query: string, page = 1) => {
+  const handleSearch = async (query: string, page = 1, cursor?: string) => {
     if (!query || query.trim() === '') return;
     
     try {
-      setIsLoading(true);
       setError(null);
       
+      // The backend applies the stored default sort order
       const queryParams = new URLSearchParams({
         q: query,
         page: page.toString(),
         limit: preferences.search.resultsPerPage.toString(),
-        sortBy: preferences.search.defaultSortOrder,
         filters: JSON.stringify(filters)
       });
-      
-      const response = await fetch(`/api/search?${queryParams}`, {
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      });
-      
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Search failed');
+
+      if (cursor) {
+        queryParams.append('cursor', cursor);
       }
       
-      const data = await response.json();
+      // Results are shown per database as they arrive; the summary is the merged page
+      const data = { data: await searchStream.start(queryParams) };
       
       // Store in client cache for reuse
       const cacheKey = `search:${queryParams.toString()}`;
@@ -74,8 +69,6 @@ export default function SearchPage() {
       setResults(data);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -99,6 +92,7 @@ export default function SearchPage() {
             <FilterPanel 
               filters={filters} 
               onFiltersChange={setFilters}
+              facets={results?.data.facets}
             />
           </div>
         </div>
@@ -122,8 +116,9 @@ export default function SearchPage() {
       <SearchResults
         results={results}
         isLoading={isLoading}
-        onPageChange={(page) => {
-          handleSearch(searchParams.get('q') || '', page);
+        stream={searchStream}
+        onPageChange={(page, cursor) => {
+          handleSearch(searchParams.get('q') || '', page, cursor);
         }}
         filters={filters}
       />
@@ -0,0 +1,44 @@
+// API route for the references and citing works of a record
+import { NextRequest, NextResponse } from 'next/server';
+
+const DIRECTIONS = ['references', 'citations'];
+
+export async function GET(request: NextRequest) {
+  const { pathname, search } = new URL(request.url);
+  // Forward the path segments as the client encoded them, so DOIs keep their escaped slashes
+  const [databaseId, id, direction] = pathname.split('/').slice(-3);
+
+  if (!DIRECTIONS.includes(direction)) {
+    return NextResponse.json({ message: 'Not Found' }, { status: 404 });
+  }
+
+  try {
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/records/${databaseId}/${id}/${direction}${search}`,
+      {
+        headers: {
+          'Authorization': request.headers.get('Authorization') || '',
+          'Cookie': request.headers.get('Cookie') || '',
+        },
+        credentials: 'include',
+        cache: 'no-store',
+      }
+    );
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { message: body.error || `Failed to fetch ${direction}` },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(body);
+  } catch {
+    return NextResponse.json(
+      { message: `Error fetching ${direction}` },
+      { status: 500 }
+    );
+  }
+}
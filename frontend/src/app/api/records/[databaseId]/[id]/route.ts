@@ -0,0 +1,34 @@
+// API route for a single record
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  // Forward the path segments as the client encoded them, so DOIs keep their escaped slashes
+  const [databaseId, id] = new URL(request.url).pathname.split('/').slice(-2);
+
+  try {
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/records/${databaseId}/${id}`, {
+      headers: {
+        'Authorization': request.headers.get('Authorization') || '',
+        'Cookie': request.headers.get('Cookie') || '',
+      },
+      credentials: 'include',
+      cache: 'no-store',
+    });
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { message: body.error || 'Failed to fetch record' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(body);
+  } catch {
+    return NextResponse.json(
+      { message: 'Error fetching record' },
+      { status: 500 }
+    );
+  }
+}
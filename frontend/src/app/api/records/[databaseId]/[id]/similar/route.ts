@@ -0,0 +1,38 @@
+// API route for the articles most similar to a record
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(request: NextRequest) {
+  const { pathname, search } = new URL(request.url);
+  // Forward the path segments as the client encoded them, so DOIs keep their escaped slashes
+  const [databaseId, id] = pathname.split('/').slice(-3, -1);
+
+  try {
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/records/${databaseId}/${id}/similar${search}`,
+      {
+        headers: {
+          'Authorization': request.headers.get('Authorization') || '',
+          'Cookie': request.headers.get('Cookie') || '',
+        },
+        credentials: 'include',
+        cache: 'no-store',
+      }
+    );
+
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { message: body.error || 'Failed to fetch similar articles' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(body);
+  } catch {
+    return NextResponse.json(
+      { message: 'Error fetching similar articles' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// API route for new results found by saved search alerts
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Proxy to backend
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/saved-searches/${params.id}/new-results`,
+      {
+        headers: {
+          'Authorization': request.headers.get('Authorization') || '',
+          'Cookie': request.headers.get('Cookie') || '',
+        },
+        credentials: 'include',
+      }
+    );
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { message: 'Failed to fetch new results' },
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    return NextResponse.json(data);
+  } catch {
+    return NextResponse.json(
+      { message: 'Error fetching new results' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// API route for clearing the "new since last run" state of a saved search
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Proxy to backend
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_API_URL}/saved-searches/${params.id}/new-results/seen`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': request.headers.get('Authorization') || '',
+          'Cookie': request.headers.get('Cookie') || '',
+        },
+        credentials: 'include',
+      }
+    );
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { message: 'Failed to mark results as seen' },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch {
+    return NextResponse.json(
+      { message: 'Error marking results as seen' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+// API route for exporting search results
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Proxy to backend, which re-fetches the records and streams the file
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/search/export`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': request.headers.get('Authorization') || '',
+        'Cookie': request.headers.get('Cookie') || '',
+      },
+      body: JSON.stringify(body),
+      credentials: 'include',
+    });
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({}));
+      return NextResponse.json(
+        { message: error.error || 'Failed to export results' },
+        { status: response.status }
+      );
+    }
+
+    return new NextResponse(response.body, {
+      headers: {
+        'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+        'Content-Disposition': response.headers.get('Content-Disposition') || 'attachment',
+      },
+    });
+  } catch {
+    return NextResponse.json(
+      { message: 'Error exporting results' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+// API route for streaming search results as Server-Sent Events
+import { NextRequest, NextResponse } from 'next/server';
+
+const EVENT_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+};
+
+export async function GET(request: NextRequest) {
+  const { search } = new URL(request.url);
+
+  try {
+    // Proxy to backend; aborting here also closes the backend stream
+    const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/search/stream${search}`, {
+      headers: {
+        'Accept': 'text/event-stream',
+        'Authorization': request.headers.get('Authorization') || '',
+        'Cookie': request.headers.get('Cookie') || '',
+      },
+      credentials: 'include',
+      cache: 'no-store',
+      signal: request.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => ({}));
+      // The auth middleware sends `error` as an object, the search controller as a string
+      return errorEvent(
+        (typeof body.error === 'string' ? body.error : body.error?.message) || body.message || 'Search failed'
+      );
+    }
+
+    return new NextResponse(response.body, { headers: EVENT_STREAM_HEADERS });
+  } catch {
+    return errorEvent('Error processing search request');
+  }
+}
+
+// Failures become an error event, so the client reads every outcome from the event stream
+function errorEvent(message: string) {
+  return new NextResponse(
+    `event: error\ndata: ${JSON.stringify({ message })}\n\n`,
+    { headers: EVENT_STREAM_HEADERS }
+  );
+}
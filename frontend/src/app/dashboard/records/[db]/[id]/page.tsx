@@ -0,0 +1,325 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { ChevronLeft, ExternalLink, BookOpen, Calendar, FileText, Globe } from 'lucide-react';
+import { RecordDetail, RecordIdentifier, RecordReference } from '@thinkleap/shared/types/record';
+import { MeshHeading } from '@thinkleap/shared/types/search';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { SearchResultsSkeleton } from '@/components/search/SearchResultsSkeleton';
+import { useAuth } from '@/lib/auth';
+import { CitationGraph } from '@/components/search/CitationGraph';
+import { SimilarArticles } from '@/components/search/SimilarArticles';
+
+const IDENTIFIER_LABELS: Record<string, string> = {
+  doi: 'DOI',
+  pmid: 'PMID',
+  pmcid: 'PMCID',
+  pii: 'PII',
+  issn: 'ISSN',
+  arxiv: 'arXiv',
+  clinicaltrials: 'NCT',
+  openalex: 'OpenAlex',
+  'semantic-scholar': 'Semantic Scholar',
+};
+
+// Route params may arrive encoded or decoded depending on how the page was reached
+function encodeSegment(value: string): string {
+  try {
+    return encodeURIComponent(decodeURIComponent(value));
+  } catch {
+    return encodeURIComponent(value);
+  }
+}
+
+export default function RecordPage() {
+  const params = useParams<{ db: string; id: string }>();
+  const router = useRouter();
+  const { authFetch } = useAuth();
+  const [record, setRecord] = useState<RecordDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRecord = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await authFetch(`/api/records/${encodeSegment(params.db)}/${encodeSegment(params.id)}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to fetch record');
+        }
+
+        setRecord(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRecord();
+  }, [params.db, params.id, authFetch]);
+
+  return (
+    <div className="container max-w-5xl mx-auto py-6 space-y-6">
+      <Button variant="ghost" size="sm" onClick={() => router.back()} className="flex items-center gap-1">
+        <ChevronLeft className="h-4 w-4" />
+        Back
+      </Button>
+
+      {loading && <SearchResultsSkeleton />}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {record && !loading && <RecordView record={record} />}
+    </div>
+  );
+}
+
+function RecordView({ record }: { record: RecordDetail }) {
+  const affiliations = Array.from(new Set(record.authors.flatMap(author => author.affiliations)));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">{record.databaseId}</Badge>
+            {record.articleType && <Badge variant="secondary">{record.articleType}</Badge>}
+            {record.metadata.retracted === true && <Badge variant="destructive">Retracted</Badge>}
+          </div>
+
+          <CardTitle className="text-2xl leading-tight">{record.title}</CardTitle>
+
+          {record.authors.length > 0 && (
+            <p className="text-sm">
+              {record.authors.map((author, index) => (
+                <span key={`${author.name}-${index}`}>
+                  {index > 0 && ', '}
+                  {author.identifier ? (
+                    <a
+                      href={`https://orcid.org/${author.identifier}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:underline"
+                    >
+                      {author.name}
+                    </a>
+                  ) : author.name}
+                  {author.affiliations.length > 0 && (
+                    <sup className="ml-0.5 text-muted-foreground">
+                      {author.affiliations.map(affiliation => affiliations.indexOf(affiliation) + 1).join(',')}
+                    </sup>
+                  )}
+                </span>
+              ))}
+            </p>
+          )}
+
+          {affiliations.length > 0 && (
+            <ol className="text-xs text-muted-foreground space-y-0.5">
+              {affiliations.map((affiliation, index) => (
+                <li key={affiliation}>
+                  <sup className="mr-1">{index + 1}</sup>
+                  {affiliation}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            {record.journal && (
+              <span className="flex items-center gap-1">
+                <BookOpen className="h-4 w-4" />
+                {record.journal.name}
+                {record.journal.volume && `, Volume ${record.journal.volume}`}
+                {record.journal.issue && `, Issue ${record.journal.issue}`}
+                {record.journal.pages && `, Pages ${record.journal.pages}`}
+              </span>
+            )}
+            {record.publicationDate && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                {format(new Date(record.publicationDate), 'MMM d, yyyy')}
+              </span>
+            )}
+            {record.citationCount !== undefined && (
+              <span className="flex items-center gap-1">
+                <FileText className="h-4 w-4" />
+                {record.citationCount} citations
+              </span>
+            )}
+            {record.language && (
+              <span className="flex items-center gap-1">
+                <Globe className="h-4 w-4" />
+                {record.language}
+              </span>
+            )}
+            {record.fullTextUrl && (
+              <a
+                href={record.fullTextUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-primary hover:underline"
+              >
+                <ExternalLink className="h-4 w-4" />
+                Full Text
+              </a>
+            )}
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          <Abstract record={record} />
+
+          {record.meshHeadings && record.meshHeadings.length > 0 && (
+            <MeshTerms headings={record.meshHeadings} />
+          )}
+
+          {record.keywords && record.keywords.length > 0 && (
+            <section>
+              <h2 className="text-lg font-semibold mb-2">Keywords</h2>
+              <div className="flex flex-wrap gap-2">
+                {record.keywords.map(keyword => (
+                  <span key={keyword} className="bg-muted px-2 py-1 rounded-full text-xs">
+                    {keyword}
+                  </span>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {record.identifiers.length > 0 && <Identifiers identifiers={record.identifiers} />}
+        </CardContent>
+      </Card>
+
+      <CitationGraph databaseId={record.databaseId} id={record.id} title={record.title} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Similar Articles</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SimilarArticles databaseId={record.databaseId} id={record.id} />
+        </CardContent>
+      </Card>
+
+      {record.references && <References references={record.references} />}
+    </div>
+  );
+}
+
+function Abstract({ record }: { record: RecordDetail }) {
+  if (!record.abstractSections?.length && !record.abstract) return null;
+
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-2">Abstract</h2>
+      {record.abstractSections?.length ? (
+        <div className="space-y-3">
+          {record.abstractSections.map((section, index) => (
+            <p key={index} className="text-sm text-muted-foreground">
+              {section.label && <span className="font-semibold text-foreground">{section.label}: </span>}
+              {section.text}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground whitespace-pre-line">{record.abstract}</p>
+      )}
+    </section>
+  );
+}
+
+function MeshTerms({ headings }: { headings: MeshHeading[] }) {
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-2">MeSH Terms</h2>
+      <div className="flex flex-wrap gap-2">
+        {headings.map(heading => (
+          <Badge
+            key={heading.ui || heading.descriptor}
+            variant={heading.majorTopic ? 'default' : 'outline'}
+            title={heading.majorTopic ? 'Major topic' : undefined}
+          >
+            {heading.descriptor}
+            {heading.qualifiers.length > 0 && ` / ${heading.qualifiers.map(qualifier => qualifier.name).join(', ')}`}
+          </Badge>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function Identifiers({ identifiers }: { identifiers: RecordIdentifier[] }) {
+  return (
+    <section>
+      <h2 className="text-lg font-semibold mb-2">Identifiers</h2>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {identifiers.map(identifier => (
+          <div key={`${identifier.type}:${identifier.value}`} className="contents">
+            <dt className="font-medium">{IDENTIFIER_LABELS[identifier.type] || identifier.type}</dt>
+            <dd className="text-muted-foreground break-all">
+              {identifier.url ? (
+                <a href={identifier.url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                  {identifier.value}
+                </a>
+              ) : identifier.value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+}
+
+function References({ references }: { references: RecordReference[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">References ({references.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {references.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No references listed for this record.</p>
+        ) : (
+          <ol className="list-decimal pl-6 space-y-2 text-sm">
+            {references.map((reference, index) => {
+              const link = reference.identifiers.find(identifier => identifier.url);
+              const text = reference.citation
+                || [reference.authors, reference.title, reference.journal, reference.year].filter(Boolean).join('. ')
+                || link?.value;
+
+              return (
+                <li key={index}>
+                  <span className="text-muted-foreground">{text}</span>
+                  {link && (
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="ml-2 text-primary hover:underline"
+                    >
+                      {IDENTIFIER_LABELS[link.type] || link.type}
+                    </a>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
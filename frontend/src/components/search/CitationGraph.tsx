@@ -0,0 +1,239 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { SearchResult } from '@thinkleap/shared/types/search';
+import { CitationDirection, CitationResponse } from '@thinkleap/shared/types/record';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { recordPath } from '@/config/routes';
+import { useAuth } from '@/lib/auth';
+
+// Works requested per direction, and how many of them are drawn around the record
+const CITATION_LIMIT = 50;
+const GRAPH_NODE_LIMIT = 24;
+
+const WIDTH = 800;
+const HEIGHT = 420;
+const CENTER_X = WIDTH / 2;
+const CENTER_Y = HEIGHT / 2;
+const RING_RADIUS = 170;
+
+const DIRECTION_LABELS: Record<CitationDirection, string> = {
+  references: 'References',
+  citations: 'Cited by',
+};
+
+type CitationState = Record<CitationDirection, {
+  data?: CitationResponse;
+  error?: string;
+}>;
+
+interface GraphNode {
+  result: SearchResult;
+  direction: CitationDirection;
+  x: number;
+  y: number;
+  radius: number;
+}
+
+interface CitationGraphProps {
+  databaseId: string;
+  id: string;
+  title: string;
+}
+
+/**
+ * Spread works over an arc: references to the left of the record, citing works to the right
+ */
+function layoutNodes(results: SearchResult[], direction: CitationDirection): GraphNode[] {
+  const shown = results.slice(0, GRAPH_NODE_LIMIT);
+  const [from, to] = direction === 'references' ? [110, 250] : [-70, 70];
+
+  return shown.map((result, index) => {
+    const degrees = shown.length === 1 ? (from + to) / 2 : from + ((to - from) * index) / (shown.length - 1);
+    const angle = (degrees * Math.PI) / 180;
+    return {
+      result,
+      direction,
+      x: CENTER_X + RING_RADIUS * Math.cos(angle),
+      y: CENTER_Y + RING_RADIUS * Math.sin(angle),
+      // Larger nodes for more cited works
+      radius: 5 + Math.min(9, Math.log10((result.citationCount || 0) + 1) * 3),
+    };
+  });
+}
+
+function formatSources(response?: CitationResponse): string {
+  if (!response) return '';
+  return Object.entries(response.sourceTotals)
+    .map(([source, total]) => `${source} ${total}`)
+    .join(' · ');
+}
+
+export function CitationGraph({ databaseId, id, title }: CitationGraphProps) {
+  const router = useRouter();
+  const { authFetch } = useAuth();
+  const [citations, setCitations] = useState<CitationState>({ references: {}, citations: {} });
+  const [loading, setLoading] = useState(true);
+  const [active, setActive] = useState<CitationDirection>('references');
+
+  useEffect(() => {
+    const loadDirection = async (direction: CitationDirection) => {
+      try {
+        const response = await authFetch(
+          `/api/records/${encodeURIComponent(databaseId)}/${encodeURIComponent(id)}/${direction}?limit=${CITATION_LIMIT}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || `Failed to fetch ${direction}`);
+        }
+
+        return { data: data as CitationResponse };
+      } catch (err) {
+        return { error: err instanceof Error ? err.message : 'An unexpected error occurred' };
+      }
+    };
+
+    const loadCitations = async () => {
+      setLoading(true);
+      const [references, citedBy] = await Promise.all([
+        loadDirection('references'),
+        loadDirection('citations'),
+      ]);
+      setCitations({ references, citations: citedBy });
+      setLoading(false);
+    };
+
+    loadCitations();
+  }, [databaseId, id, authFetch]);
+
+  const nodes = [
+    ...layoutNodes(citations.references.data?.results || [], 'references'),
+    ...layoutNodes(citations.citations.data?.results || [], 'citations'),
+  ];
+  const activeState = citations[active];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Citation Graph</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Looking up references and citing works...
+          </div>
+        ) : (
+          <>
+            {nodes.length > 0 ? (
+              <svg
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto"
+                role="img"
+                aria-label={`Citation graph of ${title}`}
+              >
+                {nodes.map(node => (
+                  <line
+                    key={`edge-${node.direction}-${node.result.databaseId}:${node.result.id}`}
+                    x1={CENTER_X}
+                    y1={CENTER_Y}
+                    x2={node.x}
+                    y2={node.y}
+                    className="stroke-muted-foreground/30"
+                  />
+                ))}
+                {nodes.map(node => (
+                  <circle
+                    key={`node-${node.direction}-${node.result.databaseId}:${node.result.id}`}
+                    cx={node.x}
+                    cy={node.y}
+                    r={node.radius}
+                    className={`cursor-pointer ${node.direction === 'references' ? 'fill-blue-500' : 'fill-emerald-500'} hover:opacity-75`}
+                    onClick={() => router.push(recordPath(node.result.databaseId, node.result.id))}
+                  >
+                    <title>
+                      {node.result.title}
+                      {node.result.citationCount !== undefined && ` (${node.result.citationCount} citations)`}
+                    </title>
+                  </circle>
+                ))}
+                <circle cx={CENTER_X} cy={CENTER_Y} r={16} className="fill-primary">
+                  <title>{title}</title>
+                </circle>
+                <text x={40} y={24} className="fill-muted-foreground text-sm">
+                  References
+                </text>
+                <text x={WIDTH - 40} y={24} textAnchor="end" className="fill-muted-foreground text-sm">
+                  Cited by
+                </text>
+              </svg>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No citation data was found for this record.
+              </p>
+            )}
+
+            <div className="flex gap-2">
+              {(Object.keys(DIRECTION_LABELS) as CitationDirection[]).map(direction => (
+                <Button
+                  key={direction}
+                  variant={active === direction ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setActive(direction)}
+                >
+                  {DIRECTION_LABELS[direction]}
+                  {citations[direction].data && ` (${citations[direction].data.total})`}
+                </Button>
+              ))}
+            </div>
+
+            {activeState.error && (
+              <Alert variant="destructive">
+                <AlertDescription>{activeState.error}</AlertDescription>
+              </Alert>
+            )}
+
+            {activeState.data && (
+              <div className="space-y-2">
+                {Object.keys(activeState.data.sourceTotals).length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Counts by database: {formatSources(activeState.data)}
+                  </p>
+                )}
+                {activeState.data.errors?.map(({ source, error }) => (
+                  <p key={source} className="text-xs text-destructive">
+                    {source}: {error.message}
+                  </p>
+                ))}
+                <ul className="space-y-2 text-sm">
+                  {activeState.data.results.map(result => (
+                    <li key={`${result.databaseId}:${result.id}`}>
+                      <Link
+                        href={recordPath(result.databaseId, result.id)}
+                        className="font-medium hover:underline"
+                      >
+                        {result.title}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {[
+                          result.publicationDate && new Date(result.publicationDate).getFullYear(),
+                          result.journal?.name,
+                          result.citationCount !== undefined && `${result.citationCount} citations`,
+                        ].filter(Boolean).join(' · ')}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,6 +16,17 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { Download } from 'lucide-react';
 import { toast } from 'sonner';
 import { SearchResult } from '@thinkleap/shared/types/search';
+import type { ExportFormat } from '@thinkleap/shared/types/export';
+import { useAuth } from '@/lib/auth';
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; extension: string }> = [
+  { value: 'csv', label: 'CSV Format', extension: 'csv' },
+  { value: 'bibtex', label: 'BibTeX Format', extension: 'bib' },
+  { value: 'ris', label: 'RIS (Zotero, Mendeley)', extension: 'ris' },
+  { value: 'endnote', label: 'EndNote XML', extension: 'xml' },
+  { value: 'csl-json', label: 'CSL-JSON', extension: 'json' },
+  { value: 'nbib', label: 'MEDLINE/nbib', extension: 'nbib' },
+];
 
 interface ExportDialogProps {
   results: SearchResult[];
@@ -30,8 +41,9 @@ export function ExportDialog({
   searchQuery,
   searchFilters = {}
 }: ExportDialogProps) {
+  const { authFetch } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
-  const [format, setFormat] = useState<'csv' | 'bibtex'>('csv');
+  const [format, setFormat] = useState<ExportFormat>('csv');
   const [includeAbstract, setIncludeAbstract] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [exportAll, setExportAll] = useState(false); // New state for exporting all results
@@ -51,15 +63,19 @@ export function ExportDialog({
           includeAbstract
         }
       } : {
-        // Send just the IDs of the current results (much smaller payload)
-        resultIds: results.map(r => r.id),
+        // Send just the IDs of the current results (much smaller payload),
+        // qualified by database and covering every record merged into a result
+        resultIds: results.reduce<string[]>((ids, result) => ids.concat(
+          (result.sources || [{ databaseId: result.databaseId, id: result.id }])
+            .map(source => `${source.databaseId}:${source.id}`)
+        ), []),
         options: {
           format,
           includeAbstract
         }
       };
 
-      const response = await fetch('/api/search/export', {
+      const response = await authFetch('/api/search/export', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(payload)
@@ -71,7 +87,8 @@ export function ExportDialog({
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `search-results.${format}`;
+      const extension = FORMAT_OPTIONS.find(option => option.value === format)?.extension || format;
+      a.download = `search-results.${extension}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -101,15 +118,13 @@ export function ExportDialog({
         <div className="space-y-4 py-4">
           <div className="space-y-2">
             <Label>Export Format</Label>
-            <RadioGroup value={format} onValueChange={(value: 'csv' | 'bibtex') => setFormat(value)}>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="csv" id="csv" />
-                <Label htmlFor="csv">CSV Format</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="bibtex" id="bibtex" />
-                <Label htmlFor="bibtex">BibTeX Format</Label>
-              </div>
+            <RadioGroup value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+              {FORMAT_OPTIONS.map(option => (
+                <div key={option.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={option.value} id={option.value} />
+                  <Label htmlFor={option.value}>{option.label}</Label>
+                </div>
+              ))}
             </RadioGroup>
           </div>
 
@@ -2,7 +2,7 @@
 'use client';
 
 import { useState } from 'react';
-import { SearchFilters } from '@thinkleap/shared/types/search';
+import { FacetField, SearchFacet, SearchFilters } from '@thinkleap/shared/types/search';
 import { DateRangeFilter } from './DateRangeFilter';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -18,12 +18,82 @@ import {
 interface FilterPanelProps {
   filters: SearchFilters;
   onFiltersChange: (filters: SearchFilters) => void;
+  facets?: SearchFacet[];  // From the last search
 }
 
-export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
+// The list filter each facet adds its values to
+const FACET_FILTERS: Partial<Record<FacetField, 'authors' | 'journals' | 'articleTypes' | 'languages'>> = {
+  author: 'authors',
+  journal: 'journals',
+  articleType: 'articleTypes',
+  language: 'languages'
+};
+
+interface FacetListProps {
+  facet?: SearchFacet;
+  isActive?: (value: string) => boolean;
+  onSelect?: (value: string) => void;
+}
+
+function FacetList({ facet, isActive, onSelect }: FacetListProps) {
+  if (!facet?.buckets.length) return null;
+
+  return (
+    <div className="space-y-1">
+      {facet.origin === 'results' && (
+        <p className="text-xs text-gray-500">Counts from the results loaded so far</p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {facet.buckets.map(bucket => (
+          <Badge
+            key={bucket.value}
+            variant={isActive?.(bucket.value) ? 'default' : 'outline'}
+            className={onSelect ? 'cursor-pointer' : undefined}
+            onClick={onSelect ? () => onSelect(bucket.value) : undefined}
+          >
+            {bucket.value} ({bucket.count.toLocaleString()})
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function FilterPanel({ filters, onFiltersChange, facets = [] }: FilterPanelProps) {
   const [author, setAuthor] = useState('');
   const [journal, setJournal] = useState('');
 
+  const facetFor = (field: FacetField) => facets.find(facet => facet.field === field);
+
+  // Clicking a facet value adds it to its filter, or removes it when it is already set
+  const listFacetProps = (field: FacetField): FacetListProps => {
+    const key = FACET_FILTERS[field]!;
+    const values = (filters[key] || []) as string[];
+    return {
+      facet: facetFor(field),
+      isActive: value => values.includes(value),
+      onSelect: value => onFiltersChange({
+        ...filters,
+        [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+      })
+    };
+  };
+
+  // Year bounds are UTC dates, like the ones the date pickers read and write
+  const isYearActive = (year: string) =>
+    filters.dateRange?.start?.getUTCFullYear().toString() === year
+    && filters.dateRange?.end?.getUTCFullYear().toString() === year;
+
+  const selectYear = (year: string) => {
+    const value = parseInt(year, 10);
+    onFiltersChange({
+      ...filters,
+      dateRange: isYearActive(year)
+        ? undefined
+        : { start: new Date(Date.UTC(value, 0, 1)), end: new Date(Date.UTC(value, 11, 31)) }
+    });
+  };
+
   const addAuthor = () => {
     if (author.trim()) {
       onFiltersChange({
@@ -77,6 +147,7 @@ export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
                     onFiltersChange({ ...filters, dateRange })
                   }
                 />
+                <FacetList facet={facetFor('year')} isActive={isYearActive} onSelect={selectYear} />
               </div>
             </AccordionContent>
           </AccordionItem>
@@ -106,6 +177,7 @@ export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
                     </Badge>
                   ))}
                 </div>
+                <FacetList {...listFacetProps('author')} />
               </div>
             </AccordionContent>
           </AccordionItem>
@@ -135,9 +207,37 @@ export function FilterPanel({ filters, onFiltersChange }: FilterPanelProps) {
                     </Badge>
                   ))}
                 </div>
+                <FacetList {...listFacetProps('journal')} />
               </div>
             </AccordionContent>
           </AccordionItem>
+
+          {facetFor('articleType') && (
+            <AccordionItem value="article-types">
+              <AccordionTrigger>Article Types</AccordionTrigger>
+              <AccordionContent>
+                <FacetList {...listFacetProps('articleType')} />
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {facetFor('language') && (
+            <AccordionItem value="languages">
+              <AccordionTrigger>Languages</AccordionTrigger>
+              <AccordionContent>
+                <FacetList {...listFacetProps('language')} />
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {facetFor('database') && (
+            <AccordionItem value="databases">
+              <AccordionTrigger>Databases</AccordionTrigger>
+              <AccordionContent>
+                <FacetList facet={facetFor('database')} />
+              </AccordionContent>
+            </AccordionItem>
+          )}
         </Accordion>
       </CardContent>
     </Card>
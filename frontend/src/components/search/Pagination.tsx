@@ -13,10 +13,16 @@ import {
 interface PaginationProps {
   currentPage: number;
   totalPages: number;
-  onPageChange: (page: number) => void;
+  // Cursor for the page after currentPage; following it keeps federated results consistent
+  nextCursor?: string;
+  onPageChange: (page: number, cursor?: string) => void;
 }
 
-export function Pagination({ currentPage, totalPages, onPageChange }: PaginationProps) {
+export function Pagination({ currentPage, totalPages, nextCursor, onPageChange }: PaginationProps) {
+  const changePage = (page: number) => {
+    onPageChange(page, page === currentPage + 1 ? nextCursor : undefined);
+  };
+
   // Generate array of page numbers to show
   const getPageNumbers = () => {
     const pages = [];
@@ -91,7 +97,7 @@ export function Pagination({ currentPage, totalPages, onPageChange }: Pagination
                 href="#"
                 onClick={(e) => {
                   e.preventDefault();
-                  onPageChange(page as number);
+                  changePage(page as number);
                 }}
                 isActive={currentPage === page}
               >
@@ -106,7 +112,7 @@ export function Pagination({ currentPage, totalPages, onPageChange }: Pagination
             href="#"
             onClick={(e) => {
               e.preventDefault();
-              if (currentPage < totalPages) onPageChange(currentPage + 1);
+              if (currentPage < totalPages) changePage(currentPage + 1);
             }}
             aria-disabled={currentPage === totalPages}
             className={currentPage === totalPages ? 'pointer-events-none opacity-50' : ''}
@@ -1,11 +1,43 @@
 'use client';
 import { useState } from 'react';
-import { SearchResult } from '@thinkleap/shared/types/search';
+import {
+  SearchResult,
+  ClinicalTrialMetadata,
+  TrialPhase,
+  TrialRecruitmentStatus,
+} from '@thinkleap/shared/types/search';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { BookmarkIcon, ExternalLinkIcon, FileIcon, InfoIcon } from 'lucide-react';
+import { BookmarkIcon, ExternalLinkIcon, FileIcon, InfoIcon, LayersIcon, UsersIcon } from 'lucide-react';
 import { format } from 'date-fns';
+import Link from 'next/link';
+import { recordPath } from '@/config/routes';
+import { SimilarArticles } from './SimilarArticles';
+
+const TRIAL_STATUS_LABELS: Record<TrialRecruitmentStatus, string> = {
+  NOT_YET_RECRUITING: 'Not yet recruiting',
+  RECRUITING: 'Recruiting',
+  ENROLLING_BY_INVITATION: 'Enrolling by invitation',
+  ACTIVE_NOT_RECRUITING: 'Active, not recruiting',
+  SUSPENDED: 'Suspended',
+  TERMINATED: 'Terminated',
+  COMPLETED: 'Completed',
+  WITHDRAWN: 'Withdrawn',
+  UNKNOWN: 'Unknown status',
+};
+
+const TRIAL_PHASE_LABELS: Record<TrialPhase, string> = {
+  EARLY_PHASE1: 'Early Phase 1',
+  PHASE1: 'Phase 1',
+  PHASE2: 'Phase 2',
+  PHASE3: 'Phase 3',
+  PHASE4: 'Phase 4',
+  NA: 'Phase N/A',
+};
+
+// Matches CLINICAL_TRIAL_REGISTRATION in the shared search types
+const TRIAL_ARTICLE_TYPE = 'clinical trial registration';
 
 interface ResultCardProps {
   result: SearchResult;
@@ -14,6 +46,11 @@ interface ResultCardProps {
 
 export function ResultCard({ result, onSave }: ResultCardProps) {
   const [expanded, setExpanded] = useState(false);
+  // The panel fetches on mount, so similar articles are only looked up once asked for
+  const [showSimilar, setShowSimilar] = useState(false);
+  const trial = result.articleType === TRIAL_ARTICLE_TYPE
+    ? (result.metadata as unknown as ClinicalTrialMetadata)
+    : undefined;
   
   return (
     <Card className="overflow-hidden transition-all duration-200 hover:shadow-md">
@@ -21,6 +58,16 @@ export function ResultCard({ result, onSave }: ResultCardProps) {
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-2">
             <Badge variant="outline">{result.databaseId}</Badge>
+            {trial?.status && (
+              <Badge variant={trial.status === 'RECRUITING' ? 'default' : 'secondary'}>
+                {TRIAL_STATUS_LABELS[trial.status]}
+              </Badge>
+            )}
+            {trial?.phases.map(phase => (
+              <Badge key={phase} variant="outline">
+                {TRIAL_PHASE_LABELS[phase]}
+              </Badge>
+            ))}
             {result.publicationDate && (
               <span className="text-sm text-muted-foreground">
                 {format(new Date(result.publicationDate), 'MMM d, yyyy')}
@@ -59,7 +106,11 @@ export function ResultCard({ result, onSave }: ResultCardProps) {
           </div>
         </div>
         
-        <CardTitle className="text-lg leading-tight mt-2">{result.title}</CardTitle>
+        <CardTitle className="text-lg leading-tight mt-2">
+          <Link href={recordPath(result.databaseId, result.id)} className="hover:underline">
+            {result.title}
+          </Link>
+        </CardTitle>
         
         <div className="mt-2 text-sm text-muted-foreground">
           {result.authors.map(author => author.name).join(', ')}
@@ -75,6 +126,8 @@ export function ResultCard({ result, onSave }: ResultCardProps) {
       </CardHeader>
       
       <CardContent>
+        {trial && <TrialDetails trial={trial} />}
+
         {result.abstract && (
           <div className={`overflow-hidden transition-all duration-300 ${expanded ? 'max-h-[500px]' : 'max-h-[100px]'}`}>
             <p className="text-sm text-muted-foreground">
@@ -95,12 +148,28 @@ export function ResultCard({ result, onSave }: ResultCardProps) {
             ))}
           </div>
         )}
+
+        {showSimilar && (
+          <section className="mt-4 border-t pt-4">
+            <h3 className="text-sm font-semibold mb-2">Similar articles</h3>
+            <SimilarArticles databaseId={result.databaseId} id={result.id} limit={5} />
+          </section>
+        )}
       </CardContent>
       
       <CardFooter className="flex items-center justify-between border-t px-6 py-3">
         <div className="flex items-center gap-2 text-sm text-muted-foreground">
           <FileIcon className="h-4 w-4" /> 
-          {result.metadata.pmid ? (
+          {trial ? (
+            <a
+              href={trial.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              {trial.nctId}
+            </a>
+          ) : result.metadata.pmid ? (
             <a 
               href={`https://pubmed.ncbi.nlm.nih.gov/${result.metadata.pmid}`} 
               target="_blank" 
@@ -114,18 +183,71 @@ export function ResultCard({ result, onSave }: ResultCardProps) {
           )}
         </div>
         
-        {result.abstract && (
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            onClick={() => setExpanded(!expanded)}
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowSimilar(!showSimilar)}
             className="flex items-center gap-1"
           >
-            <InfoIcon className="h-3 w-3" />
-            {expanded ? 'Show less' : 'Show more'}
+            <LayersIcon className="h-3 w-3" />
+            {showSimilar ? 'Hide similar' : 'Similar articles'}
           </Button>
-        )}
+
+          {result.abstract && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={() => setExpanded(!expanded)}
+              className="flex items-center gap-1"
+            >
+              <InfoIcon className="h-3 w-3" />
+              {expanded ? 'Show less' : 'Show more'}
+            </Button>
+          )}
+        </div>
       </CardFooter>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+function TrialDetails({ trial }: { trial: ClinicalTrialMetadata }) {
+  return (
+    <dl className="mb-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+      {trial.conditions.length > 0 && (
+        <>
+          <dt className="font-medium">Conditions</dt>
+          <dd className="text-muted-foreground">{trial.conditions.join(', ')}</dd>
+        </>
+      )}
+      {trial.interventions.length > 0 && (
+        <>
+          <dt className="font-medium">Interventions</dt>
+          <dd className="text-muted-foreground">
+            {trial.interventions
+              .map(intervention => intervention.type
+                ? `${intervention.name} (${intervention.type.toLowerCase()})`
+                : intervention.name)
+              .join(', ')}
+          </dd>
+        </>
+      )}
+      {trial.enrollment && (
+        <>
+          <dt className="font-medium">Enrollment</dt>
+          <dd className="flex items-center gap-1 text-muted-foreground">
+            <UsersIcon className="h-3 w-3" />
+            {trial.enrollment.count.toLocaleString()}
+            {trial.enrollment.type === 'ESTIMATED' && ' (estimated)'}
+          </dd>
+        </>
+      )}
+      {trial.sponsor && (
+        <>
+          <dt className="font-medium">Sponsor</dt>
+          <dd className="text-muted-foreground">{trial.sponsor}</dd>
+        </>
+      )}
+    </dl>
+  );
+}
@@ -14,6 +14,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertFrequency } from '@thinkleap/shared/types/saved-search';
 import { useAuth } from '@/lib/auth';
 
 interface SaveSearchButtonProps {
@@ -26,6 +34,7 @@ export function SaveSearchButton({ query, filters }: SaveSearchButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [alertFrequency, setAlertFrequency] = useState<AlertFrequency>('none');
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -44,6 +53,7 @@ export function SaveSearchButton({ query, filters }: SaveSearchButtonProps) {
           description,
           query,
           filters,
+          alertFrequency,
         }),
       });
   
@@ -61,6 +71,7 @@ export function SaveSearchButton({ query, filters }: SaveSearchButtonProps) {
       setIsOpen(false);
       setName('');
       setDescription('');
+      setAlertFrequency('none');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to save search');
     } finally {
@@ -104,6 +115,22 @@ export function SaveSearchButton({ query, filters }: SaveSearchButtonProps) {
               placeholder="Add a description"
             />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="alert-frequency">Email me new results</Label>
+            <Select
+              value={alertFrequency}
+              onValueChange={(value: AlertFrequency) => setAlertFrequency(value)}
+            >
+              <SelectTrigger id="alert-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Never</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
           <Button
             onClick={handleSave}
             disabled={!name.trim() || isSaving}
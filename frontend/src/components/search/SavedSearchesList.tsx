@@ -4,6 +4,7 @@ import { ChevronLeft, ChevronRight } from 'lucide-react'
 import { useRouter } from 'next/navigation';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { 
   Pagination,
   PaginationContent,
@@ -14,8 +15,15 @@ import {
   PaginationPrevious,
 } from '@/components/ui/pagination';
 import { toast } from 'sonner';
-import { PlayIcon, PencilIcon, TrashIcon, CalendarIcon, HashIcon } from 'lucide-react';
-import { SavedSearch } from '@thinkleap/shared/types/saved-search';
+import { PlayIcon, PencilIcon, TrashIcon, CalendarIcon, HashIcon, BellIcon } from 'lucide-react';
+import { SavedSearch, AlertFrequency } from '@thinkleap/shared/types/saved-search';
+import { useAuth } from '@/lib/auth';
+
+const ALERT_LABELS: Record<AlertFrequency, string> = {
+  none: 'No alerts',
+  daily: 'Daily alerts',
+  weekly: 'Weekly alerts',
+};
 
 interface SavedSearchesListProps {
   sortBy: string;
@@ -23,6 +31,7 @@ interface SavedSearchesListProps {
 
 export function SavedSearchesList({ sortBy }: SavedSearchesListProps) {
   const router = useRouter();
+  const { authFetch } = useAuth();
   const [searches, setSearches] = useState<SavedSearch[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(1);
@@ -33,7 +42,7 @@ export function SavedSearchesList({ sortBy }: SavedSearchesListProps) {
   const fetchSearches = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await fetch(
+      const response = await authFetch(
         `/api/saved-searches?page=${page}&limit=${itemsPerPage}&sortBy=${sortBy}`
       );
       
@@ -49,7 +58,7 @@ export function SavedSearchesList({ sortBy }: SavedSearchesListProps) {
     } finally {
       setLoading(false);
     }
-  }, [page, sortBy, itemsPerPage]);
+  }, [page, sortBy, itemsPerPage, authFetch]);
 
   useEffect(() => {
     fetchSearches();
@@ -57,7 +66,8 @@ export function SavedSearchesList({ sortBy }: SavedSearchesListProps) {
 
   
 
-  const executeSearch = async (id: string) => {
+  const executeSearch = async (search: SavedSearch) => {
+    const id = search.id;
     try {
       setActionLoading(`execute-${id}`);
       const response = await fetch(`/api/saved-searches/${id}/execute`, {
@@ -69,6 +79,13 @@ export function SavedSearchesList({ sortBy }: SavedSearchesListProps) {
       }
       
       const data = await response.json();
+
+      // Viewing the results clears the "new since last run" badge
+      if (search.newResultsCount > 0) {
+        await authFetch(`/api/saved-searches/${id}/new-results/seen`, {
+          method: 'POST',
+        });
+      }
       
       // Only navigate after successful response
       router.push(`/dashboard/search?q=${encodeURIComponent(data.data.query)}`);
@@ -127,7 +144,14 @@ export function SavedSearchesList({ sortBy }: SavedSearchesListProps) {
               <Card key={search.id} className="p-6">
                 <div className="flex items-start justify-between">
                   <div className="space-y-2">
-                    <h3 className="font-medium">{search.name}</h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-medium">{search.name}</h3>
+                      {search.newResultsCount > 0 && (
+                        <Badge title="New since last run">
+                          {search.newResultsCount} new
+                        </Badge>
+                      )}
+                    </div>
                     {search.description && (
                       <p className="text-sm text-gray-500">{search.description}</p>
                     )}
@@ -142,13 +166,20 @@ export function SavedSearchesList({ sortBy }: SavedSearchesListProps) {
                         <HashIcon className="h-4 w-4" />
                         Used {search.executionCount} times
                       </span>
+                      <span className="flex items-center gap-1">
+                        <BellIcon className="h-4 w-4" />
+                        {ALERT_LABELS[search.alertFrequency || 'none']}
+                        {search.lastAlertAt && search.alertFrequency !== 'none' && (
+                          <> (last run {new Date(search.lastAlertAt).toLocaleDateString()})</>
+                        )}
+                      </span>
                     </div>
                   </div>
                   <div className="flex gap-2">
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => executeSearch(search.id)}
+                      onClick={() => executeSearch(search)}
                     >
                       <PlayIcon className="h-4 w-4" />
                     </Button>
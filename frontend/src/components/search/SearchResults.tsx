@@ -3,21 +3,71 @@ import { usePreferences } from '@/lib/preferences/PreferencesContext';
 import { Card } from '@/components/ui/card';
 import { Pagination } from '@/components/search/Pagination';
 import { Badge } from '@/components/ui/badge';
-import { ExternalLink, Calendar, FileText, Globe, Link, BookOpen } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ExternalLink, Calendar, FileText, Globe, Link, BookOpen, Loader2, AlertCircle } from 'lucide-react';
 import { SearchResult, SearchResponse } from '@thinkleap/shared/types/search';
+import { QueryWarning } from '@thinkleap/shared/types/query';
 import { cn } from '@/lib/utils';
 import { ExportDialog } from './ExportDialog';
 import { SearchResultsSkeleton } from './SearchResultsSkeleton';
+import { SearchStreamState, SourceProgress } from '@/hooks/useSearchStream';
 import { useSearchParams } from 'next/navigation';
+import NextLink from 'next/link';
+import { recordPath } from '@/config/routes';
 
 interface SearchResultsProps {
   results: {data: SearchResponse} | null;
   isLoading: boolean;
-  onPageChange: (page: number) => void;
+  onPageChange: (page: number, cursor?: string) => void;
   filters?: Record<string, any>;
+  stream?: Pick<SearchStreamState, 'sources' | 'partialResults'>;
 }
 
-export function SearchResults({ results, isLoading, onPageChange, filters = {} }: SearchResultsProps) {
+function StreamProgress({ sources }: { sources: SourceProgress[] }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-500">
+      <Loader2 className="h-4 w-4 animate-spin" />
+      <span>
+        {sources.length ? 'Still searching. Answered so far:' : 'Searching databases...'}
+      </span>
+      {sources.map(source => (
+        <Badge
+          key={source.source}
+          variant={source.status === 'error' ? 'destructive' : 'outline'}
+          title={source.error}
+        >
+          {source.source}
+          {source.status === 'done'
+            ? ` (${source.total ?? 0} results${source.durationMs !== undefined ? `, ${source.durationMs} ms` : ''})`
+            : ' failed'}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function QueryWarnings({ warnings }: { warnings?: QueryWarning[] }) {
+  if (!warnings?.length) return null;
+
+  return (
+    <Alert>
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>Your query was adjusted</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-1">
+          {warnings.map((warning, index) => (
+            <li key={index}>
+              {warning.source !== 'query' && <span className="font-medium">{warning.source}: </span>}
+              {warning.message}
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export function SearchResults({ results, isLoading, onPageChange, filters = {}, stream }: SearchResultsProps) {
   const searchParams = useSearchParams();
   const { preferences } = usePreferences();
   const isDense = preferences.display.density === 'compact';
@@ -28,20 +78,147 @@ export function SearchResults({ results, isLoading, onPageChange, filters = {} }
     return `${authors[0].name}, ${authors[1].name}, et al.`;
   };
 
-    // Early return for loading state
+  const renderResult = (result: SearchResult) => (
+    <Card 
+      key={`${result.databaseId}:${result.id}`}
+      className={cn(
+        isDense ? "p-3 space-y-2" : "p-6 space-y-4"
+      )}
+    >
+      {/* Title and Type */}
+      <div className="flex justify-between items-start gap-4">
+        <h3 className={cn(
+          "font-medium",
+          isDense ? "text-sm" : "text-base"
+        )}>
+          <NextLink href={recordPath(result.databaseId, result.id)} className="hover:underline">
+            {result.title}
+          </NextLink>
+        </h3>
+        {result.articleType && (
+          <Badge variant="secondary" className="shrink-0">
+            {result.articleType}
+          </Badge>
+        )}
+      </div>
+
+      {/* Authors and Journal */}
+      <div className={cn(
+        "text-gray-600",
+        isDense ? "text-xs space-y-1" : "text-sm space-y-2"
+      )}>
+        <p>{formatAuthors(result.authors)}</p>
+        {result.journal && (
+          <p className="flex items-center gap-2">
+            <BookOpen className="h-4 w-4" />
+            {result.journal.name}
+            {result.journal.volume && `, Volume ${result.journal.volume}`}
+            {result.journal.issue && `, Issue ${result.journal.issue}`}
+            {result.journal.pages && `, Pages ${result.journal.pages}`}
+          </p>
+        )}
+      </div>
+
+      {/* Abstract */}
+      {result.abstract && (
+        <p className={cn(
+          "text-gray-600",
+          isDense ? "text-xs" : "text-sm"
+        )}>
+          {result.abstract}
+        </p>
+      )}
+
+      {/* Metadata Footer */}
+      <div className={cn(
+        "flex flex-wrap items-center gap-4 text-gray-500",
+        isDense ? "text-xs" : "text-sm"
+      )}>
+        {result.publicationDate && (
+          <span className="flex items-center gap-1">
+            <Calendar className="h-4 w-4" />
+            {new Date(result.publicationDate).toLocaleDateString()}
+          </span>
+        )}
+        
+        {result.citationCount !== undefined && (
+          <span className="flex items-center gap-1">
+            <FileText className="h-4 w-4" />
+            {result.citationCount} citations
+          </span>
+        )}
+
+        {result.language && (
+          <span className="flex items-center gap-1">
+            <Globe className="h-4 w-4" />
+            {result.language}
+          </span>
+        )}
+
+        {result.doi && (
+          <a 
+            href={`https://doi.org/${result.doi}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 hover:text-gray-900"
+          >
+            <Link className="h-4 w-4" />
+            DOI
+          </a>
+        )}
+
+        {result.fullTextUrl && (
+          <a 
+            href={result.fullTextUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 hover:text-gray-900"
+          >
+            <ExternalLink className="h-4 w-4" />
+            Full Text
+          </a>
+        )}
+
+        <Badge variant="outline" className="ml-auto">
+          {result.databaseId}
+        </Badge>
+      </div>
+    </Card>
+  );
+
+    // While streaming, show what the databases that have answered so far returned
     if (isLoading) {
-      return <SearchResultsSkeleton />;
+      if (!stream?.partialResults.length) {
+        return (
+          <div className="space-y-4">
+            {stream && <StreamProgress sources={stream.sources} />}
+            <SearchResultsSkeleton />
+          </div>
+        );
+      }
+
+      return (
+        <div className="space-y-6">
+          <StreamProgress sources={stream.sources} />
+          <div className="space-y-4">
+            {stream.partialResults.map(renderResult)}
+          </div>
+        </div>
+      );
     }
   
     // Early return for no results
     if (!results || !results.data || !results.data.results || results.data.results.length === 0) {
       return (
-        <Card className={cn(
-          "text-center text-gray-500",
-          isDense ? "p-3" : "p-6"
-        )}>
-          No results found
-        </Card>
+        <div className="space-y-4">
+          <QueryWarnings warnings={results?.data?.warnings} />
+          <Card className={cn(
+            "text-center text-gray-500",
+            isDense ? "p-3" : "p-6"
+          )}>
+            No results found
+          </Card>
+        </div>
       );
     }
 
@@ -59,117 +236,16 @@ export function SearchResults({ results, isLoading, onPageChange, filters = {} }
         />
       </div>
 
+      <QueryWarnings warnings={results.data.warnings} />
+
       <div className="space-y-4">
-        {results.data.results.map((result) => (
-          <Card 
-            key={result.id} 
-            className={cn(
-              isDense ? "p-3 space-y-2" : "p-6 space-y-4"
-            )}
-          >
-            {/* Title and Type */}
-            <div className="flex justify-between items-start gap-4">
-              <h3 className={cn(
-                "font-medium",
-                isDense ? "text-sm" : "text-base"
-              )}>
-                {result.title}
-              </h3>
-              {result.articleType && (
-                <Badge variant="secondary" className="shrink-0">
-                  {result.articleType}
-                </Badge>
-              )}
-            </div>
-
-            {/* Authors and Journal */}
-            <div className={cn(
-              "text-gray-600",
-              isDense ? "text-xs space-y-1" : "text-sm space-y-2"
-            )}>
-              <p>{formatAuthors(result.authors)}</p>
-              {result.journal && (
-                <p className="flex items-center gap-2">
-                  <BookOpen className="h-4 w-4" />
-                  {result.journal.name}
-                  {result.journal.volume && `, Volume ${result.journal.volume}`}
-                  {result.journal.issue && `, Issue ${result.journal.issue}`}
-                  {result.journal.pages && `, Pages ${result.journal.pages}`}
-                </p>
-              )}
-            </div>
-
-            {/* Abstract */}
-            {result.abstract && (
-              <p className={cn(
-                "text-gray-600",
-                isDense ? "text-xs" : "text-sm"
-              )}>
-                {result.abstract}
-              </p>
-            )}
-
-            {/* Metadata Footer */}
-            <div className={cn(
-              "flex flex-wrap items-center gap-4 text-gray-500",
-              isDense ? "text-xs" : "text-sm"
-            )}>
-              {result.publicationDate && (
-                <span className="flex items-center gap-1">
-                  <Calendar className="h-4 w-4" />
-                  {new Date(result.publicationDate).toLocaleDateString()}
-                </span>
-              )}
-              
-              {result.citationCount !== undefined && (
-                <span className="flex items-center gap-1">
-                  <FileText className="h-4 w-4" />
-                  {result.citationCount} citations
-                </span>
-              )}
-
-              {result.language && (
-                <span className="flex items-center gap-1">
-                  <Globe className="h-4 w-4" />
-                  {result.language}
-                </span>
-              )}
-
-              {result.doi && (
-                <a 
-                  href={`https://doi.org/${result.doi}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center gap-1 hover:text-gray-900"
-                >
-                  <Link className="h-4 w-4" />
-                  DOI
-                </a>
-              )}
-
-              {result.fullTextUrl && (
-                <a 
-                  href={result.fullTextUrl}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center gap-1 hover:text-gray-900"
-                >
-                  <ExternalLink className="h-4 w-4" />
-                  Full Text
-                </a>
-              )}
-
-              <Badge variant="outline" className="ml-auto">
-                {result.databaseId}
-              </Badge>
-            </div>
-          </Card>
-        ))}
+        {results.data.results.map(renderResult)}
       </div>
 
       <Pagination
         currentPage={results.data.page}
         totalPages={results.data.totalPages}
+        nextCursor={results.data.nextCursor}
         onPageChange={onPageChange}
       />
     </div>
@@ -0,0 +1,106 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Loader2 } from 'lucide-react';
+import { SimilarArticlesResponse, SimilarityMethod } from '@thinkleap/shared/types/record';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { recordPath } from '@/config/routes';
+import { useAuth } from '@/lib/auth';
+
+const METHOD_LABELS: Record<SimilarityMethod, string> = {
+  neighbors: 'Ranked by the database\'s similar-articles score',
+  'tf-idf': 'Ranked by similarity of title, keywords and abstract',
+};
+
+interface SimilarArticlesProps {
+  databaseId: string;
+  id: string;
+  limit?: number;
+}
+
+/**
+ * Records most like the given one, best match first, with their similarity score
+ */
+export function SimilarArticles({ databaseId, id, limit = 10 }: SimilarArticlesProps) {
+  const { authFetch } = useAuth();
+  const [similar, setSimilar] = useState<SimilarArticlesResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSimilar = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await authFetch(
+          `/api/records/${encodeURIComponent(databaseId)}/${encodeURIComponent(id)}/similar?limit=${limit}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to fetch similar articles');
+        }
+
+        setSimilar(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSimilar();
+  }, [databaseId, id, limit, authFetch]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Finding similar articles...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!similar?.results.length) {
+    return <p className="text-sm text-muted-foreground">No similar articles were found.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">{METHOD_LABELS[similar.method]}</p>
+      <ol className="space-y-2 text-sm">
+        {similar.results.map(({ result, score }) => (
+          <li key={`${result.databaseId}:${result.id}`} className="flex items-start gap-3">
+            <span
+              className="mt-0.5 w-12 shrink-0 rounded bg-muted px-1.5 py-0.5 text-center text-xs tabular-nums"
+              title="Similarity score"
+            >
+              {Math.round(score * 100)}%
+            </span>
+            <div>
+              <Link href={recordPath(result.databaseId, result.id)} className="font-medium hover:underline">
+                {result.title}
+              </Link>
+              <div className="text-xs text-muted-foreground">
+                {[
+                  result.authors[0] && (result.authors.length > 1 ? `${result.authors[0].name} et al.` : result.authors[0].name),
+                  result.publicationDate && new Date(result.publicationDate).getFullYear(),
+                  result.journal?.name,
+                ].filter(Boolean).join(' · ')}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
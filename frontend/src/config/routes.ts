@@ -14,6 +14,7 @@ export const routes = {
   projects: '/dashboard/projects',
   search: '/dashboard/search',
   savedSearches: '/dashboard/saved-searches',
+  records: '/dashboard/records',
 
   // API routes
   api: {
@@ -33,6 +34,11 @@ export const routes = {
   },
 } as const;
 
+// Page of a single record; ids such as DOIs contain slashes, so both parts are encoded
+export function recordPath(databaseId: string, id: string): string {
+  return `${routes.records}/${encodeURIComponent(databaseId)}/${encodeURIComponent(id)}`;
+}
+
 type RouteValue = typeof routes;
 type PublicPaths = RouteValue['home'] | RouteValue['about'] | RouteValue['login'] | RouteValue['signup'] | RouteValue['forgotPassword'];
 type AuthPaths = RouteValue['login'] | RouteValue['signup'] | RouteValue['forgotPassword'];
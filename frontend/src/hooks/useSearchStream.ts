@@ -0,0 +1,173 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+  SearchResponse,
+  SearchResult,
+  SourceResultsEvent,
+  SourceErrorEvent,
+} from '@thinkleap/shared/types/search';
+import { useAuth } from '@/lib/auth';
+
+export interface SourceProgress {
+  source: string;
+  status: 'done' | 'error';
+  total?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface SearchStreamState {
+  isStreaming: boolean;
+  sources: SourceProgress[];
+  partialResults: SearchResult[]; // Results of the sources that have answered, in arrival order
+  response: SearchResponse | null;
+  error: string | null;
+}
+
+const INITIAL_STATE: SearchStreamState = {
+  isStreaming: false,
+  sources: [],
+  partialResults: [],
+  response: null,
+  error: null,
+};
+
+// Stream events as sent by the backend: `event: <type>` and `data: <json>` lines, blank-line separated
+interface StreamEvent {
+  type: string;
+  data: string;
+}
+
+const CONNECTION_LOST = 'Lost connection to the search service';
+
+function parseEvent(block: string): StreamEvent | null {
+  let type = 'message';
+  const data: string[] = [];
+
+  block.split(/\r?\n/).forEach(line => {
+    if (line.startsWith('event:')) type = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+  });
+
+  return data.length ? { type, data: data.join('\n') } : null;
+}
+
+/**
+ * Run a search over /api/search/stream, collecting each database's results as they arrive.
+ * `start` resolves with the merged summary. The stream is read with fetch rather than
+ * EventSource, which can't send the Authorization header.
+ */
+export function useSearchStream() {
+  const { authFetch } = useAuth();
+  const abortRef = useRef<AbortController | null>(null);
+  const [state, setState] = useState<SearchStreamState>(INITIAL_STATE);
+
+  const close = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  }, []);
+
+  // Stop listening when the component goes away
+  useEffect(() => close, [close]);
+
+  const start = useCallback((params: URLSearchParams): Promise<SearchResponse> => {
+    close();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ ...INITIAL_STATE, isStreaming: true });
+
+    // A cancelled stream settles neither way, as a superseded search has nothing left to report
+    return new Promise((resolve, reject) => {
+      const fail = (message: string) => {
+        if (controller.signal.aborted) return;
+        close();
+        setState(prev => ({ ...prev, isStreaming: false, error: message }));
+        reject(new Error(message));
+      };
+
+      const handle = (event: StreamEvent): boolean => {
+        switch (event.type) {
+          case 'source': {
+            const data: SourceResultsEvent = JSON.parse(event.data);
+            setState(prev => ({
+              ...prev,
+              sources: [...prev.sources, {
+                source: data.source,
+                status: 'done',
+                total: data.total,
+                durationMs: data.telemetry?.durationMs,
+              }],
+              partialResults: [...prev.partialResults, ...data.results],
+            }));
+            return false;
+          }
+          case 'source-error': {
+            const data: SourceErrorEvent = JSON.parse(event.data);
+            setState(prev => ({
+              ...prev,
+              sources: [...prev.sources, {
+                source: data.source,
+                status: 'error',
+                durationMs: data.telemetry?.durationMs,
+                error: data.error.message,
+              }],
+            }));
+            return false;
+          }
+          case 'summary': {
+            const response: SearchResponse = JSON.parse(event.data);
+            close();
+            setState(prev => ({ ...prev, isStreaming: false, response }));
+            resolve(response);
+            return true;
+          }
+          case 'error':
+            fail(JSON.parse(event.data).message || CONNECTION_LOST);
+            return true;
+          default:
+            return false;
+        }
+      };
+
+      const read = async () => {
+        const response = await authFetch(`/api/search/stream?${params}`, {
+          headers: { 'Accept': 'text/event-stream' },
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          const body = await response.json().catch(() => ({}));
+          fail(body.message || CONNECTION_LOST);
+          return;
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const blocks = buffer.split(/\r?\n\r?\n/);
+          buffer = blocks.pop() || '';
+
+          for (const block of blocks) {
+            const event = parseEvent(block);
+            if (event && handle(event)) {
+              reader.cancel().catch(() => undefined);
+              return;
+            }
+          }
+        }
+
+        // The stream ended without a summary or error event
+        fail(CONNECTION_LOST);
+      };
+
+      read().catch(() => fail(CONNECTION_LOST));
+    });
+  }, [close, authFetch]);
+
+  return { ...state, start, cancel: close };
+}
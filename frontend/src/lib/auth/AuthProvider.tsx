@@ -1,7 +1,7 @@
 // src/lib/auth/AuthProvider.tsx
 "use client"
 
-import { ReactNode, useState, useEffect, useCallback } from 'react';
+import { ReactNode, useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { AuthContext } from './context';
 import { User } from './types';
@@ -84,9 +84,23 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [accessToken, setAccessToken] = useState<TokenData | null>(null);
+  const [accessToken, setAccessTokenState] = useState<TokenData | null>(null);
   const router = useRouter();
 
+  // authFetch reads the token from a ref, so callers don't re-run their effects on every refresh
+  const accessTokenRef = useRef<TokenData | null>(null);
+  const setAccessToken = useCallback((token: TokenData | null) => {
+    accessTokenRef.current = token;
+    setAccessTokenState(token);
+  }, []);
+
+  // Resolved once the initial token refresh settles; requests made on mount wait for it
+  const [authReady] = useState(() => {
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>(done => { resolve = done; });
+    return { promise, resolve };
+  });
+
   // Parse JWT and extract expiration
   const parseJwt = (token: string): TokenData | null => {
     if (!token) return null;
@@ -207,7 +221,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       setUser(null);
       return null;
     }
-  }, []);
+  }, [setAccessToken]);
 
   // Setup token refresh interval
   useEffect(() => {
@@ -278,11 +292,24 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
         console.error('Auth initialization error:', error);
       } finally {
         setLoading(false);
+        authReady.resolve();
       }
     };
 
     initAuth();
-  }, [fetchUserProfile, refreshTokens]);
+  }, [fetchUserProfile, refreshTokens, authReady]);
+
+  // fetch for the app's own API routes, which forward the bearer token to the backend
+  const authFetch = useCallback(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    await authReady.promise;
+
+    const headers = new Headers(init.headers);
+    if (accessTokenRef.current) {
+      headers.set('Authorization', `Bearer ${accessTokenRef.current.token}`);
+    }
+
+    return fetch(input, { ...init, headers });
+  }, [authReady]);
 
   const login = async (email: string, password: string) => {
     try {
@@ -421,7 +448,8 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       login,
       signup,
       logout,
-      clearError
+      clearError,
+      authFetch
     }}>
       {children}
     </AuthContext.Provider>
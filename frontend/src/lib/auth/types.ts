@@ -14,4 +14,5 @@ export interface User {
     signup: (email: string, password: string, fullName: string) => Promise<void>;
     logout: () => Promise<void>;
     clearError: () => void;
+    authFetch: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;  // Sends the access token
   }
\ No newline at end of file
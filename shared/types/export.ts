@@ -0,0 +1,59 @@
+// shared/types/export.ts
+import { SearchFilters, SortOrder } from './search';
+
+export type ExportFormat =
+  | 'csv'
+  | 'bibtex'
+  | 'ris'
+  | 'endnote'  // EndNote XML
+  | 'csl-json'
+  | 'nbib';  // MEDLINE/PubMed tagged format
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'bibtex', 'ris', 'endnote', 'csl-json', 'nbib'];
+
+export type ExportField =
+  | 'title'
+  | 'authors'
+  | 'journal'
+  | 'publicationDate'
+  | 'doi'
+  | 'abstract'
+  | 'keywords'
+  | 'citationCount'
+  | 'articleType'
+  | 'language'
+  | 'url'
+  | 'source';
+
+export const EXPORT_FIELDS: ExportField[] = [
+  'title',
+  'authors',
+  'journal',
+  'publicationDate',
+  'doi',
+  'abstract',
+  'keywords',
+  'citationCount',
+  'articleType',
+  'language',
+  'url',
+  'source'
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  fields?: ExportField[];  // Defaults to every field except the abstract
+  includeAbstract?: boolean;
+}
+
+/**
+ * Body of POST /api/search/export: either explicit records or a query to export in full
+ */
+export interface ExportRequest {
+  resultIds?: string[];  // `<databaseId>:<id>` for every source record to export
+  query?: string;
+  filters?: SearchFilters;
+  sortBy?: SortOrder;
+  databases?: string[];
+  options: ExportOptions;
+}
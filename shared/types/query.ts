@@ -0,0 +1,94 @@
+// shared/types/query.ts
+
+/**
+ * Fields a term can be restricted to, as `title:term` or `term[ti]`
+ */
+export type QueryField = 'title' | 'abstract' | 'author' | 'journal' | 'year';
+
+export const QUERY_FIELDS: QueryField[] = ['title', 'abstract', 'author', 'journal', 'year'];
+
+/**
+ * A single word. `*` matches any run of characters and `?` a single character.
+ */
+export interface QueryTermNode {
+  type: 'term';
+  value: string;
+  field?: Exclude<QueryField, 'year'>;
+  wildcard?: boolean;
+}
+
+/**
+ * Quoted words, optionally allowed to sit up to `proximity` words apart ("a b"~5)
+ */
+export interface QueryPhraseNode {
+  type: 'phrase';
+  value: string;
+  field?: Exclude<QueryField, 'year'>;
+  proximity?: number;
+}
+
+/**
+ * Publication year or inclusive range of years (year:2020, year:2015-2020)
+ */
+export interface QueryYearNode {
+  type: 'year';
+  from: number;
+  to: number;
+}
+
+export interface QueryAndNode {
+  type: 'and';
+  children: QueryNode[];
+}
+
+export interface QueryOrNode {
+  type: 'or';
+  children: QueryNode[];
+}
+
+export interface QueryNotNode {
+  type: 'not';
+  child: QueryNode;
+}
+
+export type QueryNode =
+  | QueryTermNode
+  | QueryPhraseNode
+  | QueryYearNode
+  | QueryAndNode
+  | QueryOrNode
+  | QueryNotNode;
+
+export interface ParsedQuery {
+  ast: QueryNode | null;  // Null when nothing searchable is left
+  warnings: string[];  // Syntax problems that were repaired or skipped
+}
+
+/**
+ * Something in the query a source couldn't honor exactly, or a syntax problem (source `query`)
+ */
+export interface QueryWarning {
+  source: string;
+  message: string;
+}
+
+/**
+ * What a query turns into for one database, for previewing before it is run
+ */
+export interface QueryTranslation {
+  databaseId: string;
+  database: string;
+  query: string;  // Native query sent upstream, filters included
+  filters: {
+    applied: string[];  // Names of the set SearchFilters the database honors
+    dropped: string[];  // Set but ignored by this database
+  };
+  warnings: string[];  // Parts of the query that couldn't be expressed exactly
+  estimatedCount?: number;  // Hits from a count-only request, where the database has one
+  error?: string;  // Why the query couldn't be translated or counted
+}
+
+export interface QueryTranslationResponse {
+  lint: string[];  // Likely mistakes in the query itself
+  translations: QueryTranslation[];
+}
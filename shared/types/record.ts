@@ -0,0 +1,80 @@
+// shared/types/record.ts
+import { AbstractSection, Author, MeshHeading, SearchError, SearchResult } from './search';
+
+/**
+ * An identifier of a record or reference, e.g. doi, pmid, pmcid, issn, orcid
+ */
+export interface RecordIdentifier {
+  type: string;
+  value: string;
+  url?: string;  // Resolver link, where the identifier has one
+}
+
+export interface RecordAuthor extends Author {
+  affiliations: string[];  // Every listed affiliation; `affiliation` holds the first
+}
+
+/**
+ * A work cited by the record, as far as the database resolved it
+ */
+export interface RecordReference {
+  citation?: string;  // Unstructured citation text
+  title?: string;
+  authors?: string;
+  journal?: string;
+  year?: string;
+  identifiers: RecordIdentifier[];
+}
+
+/**
+ * Response of GET /api/records/:databaseId/:id
+ */
+export interface RecordDetail extends Omit<SearchResult, 'authors'> {
+  authors: RecordAuthor[];
+  abstractSections?: AbstractSection[];  // Only for structured abstracts
+  meshHeadings?: MeshHeading[];
+  references?: RecordReference[];  // Undefined when the database doesn't list them
+  identifiers: RecordIdentifier[];
+}
+
+/**
+ * `references` are the works a record cites; `citations` are the works citing it
+ */
+export type CitationDirection = 'references' | 'citations';
+
+/**
+ * Response of GET /api/records/:databaseId/:id/references and /citations
+ */
+export interface CitationResponse {
+  databaseId: string;
+  id: string;
+  direction: CitationDirection;
+  results: SearchResult[];  // Merged across databases, most cited first
+  total: number;  // Largest count any database reported; their lists overlap
+  sourceTotals: Record<string, number>;  // Count per connector id that has citation data for the record
+  errors?: Array<{ source: string; error: SearchError }>;
+  cache?: {
+    status: 'hit' | 'miss';
+    cachedAt?: string;
+  };
+}
+
+/**
+ * `neighbors` are scores computed by the database; `tf-idf` compares the records' text locally
+ */
+export type SimilarityMethod = 'neighbors' | 'tf-idf';
+
+export interface SimilarArticle {
+  result: SearchResult;
+  score: number;  // Between 0 and 1, relative to the record itself
+}
+
+/**
+ * Response of GET /api/records/:databaseId/:id/similar
+ */
+export interface SimilarArticlesResponse {
+  databaseId: string;
+  id: string;
+  method: SimilarityMethod;
+  results: SimilarArticle[];  // Most similar first
+}
@@ -1,3 +1,10 @@
+import { SearchResult } from './search';
+
+// How often a saved search is re-run to look for new results
+export type AlertFrequency = 'none' | 'daily' | 'weekly';
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['none', 'daily', 'weekly'];
+
 export interface SavedSearch {
     id: string;
     userId: string;
@@ -7,6 +14,10 @@ export interface SavedSearch {
     filters: Record<string, any>;
     lastExecutedAt?: Date;
     executionCount: number;
+    alertFrequency: AlertFrequency;
+    lastAlertAt?: Date;
+    nextAlertAt?: Date;
+    newResultsCount: number;  // New hits found by alerts that the user hasn't looked at yet
     createdAt: Date;
     updatedAt: Date;
   }
@@ -15,21 +26,33 @@ export interface SavedSearch {
     id: string;
     savedSearchId: string;
     resultsCount: number;
+    newResultsCount: number;
     executionTimeMs: number;
     executedAt: Date;
   }
+
+  /**
+   * A record first seen by an alert run of a saved search
+   */
+  export interface SavedSearchNewResult {
+    recordKey: string;  // `<databaseId>:<id>`
+    result: SearchResult;
+    firstSeenAt: Date;
+  }
   
   export interface CreateSavedSearchDTO {
     name: string;
     description?: string;
     query: string;
     filters: Record<string, any>;
+    alertFrequency?: AlertFrequency;
   }
   
   export interface UpdateSavedSearchDTO {
     name?: string;
     description?: string;
     filters?: Record<string, any>;
+    alertFrequency?: AlertFrequency;
   }
   
   export interface SavedSearchQueryOptions {
@@ -1,4 +1,5 @@
 // shared/types/search.ts
+import { QueryWarning } from './query';
 
 export interface DateRange {
     start?: Date;
@@ -11,8 +12,50 @@ export interface DateRange {
     journals?: string[];
     articleTypes?: string[];
     languages?: string[];
+    categories?: string[];  // Subject categories, e.g. arXiv's cs.LG or q-bio.NC
+    // Connectors that can't filter on these ignore them
+    institutions?: string[];  // Institution names, OpenAlex ids (I...) or ROR ids
+    concepts?: string[];  // Concept or topic names, or OpenAlex ids (C... / T...)
+    // Trial registry filters
+    recruitmentStatus?: TrialRecruitmentStatus[];
+    phases?: TrialPhase[];
   }
   
+  // Values follow the ClinicalTrials.gov v2 API enums
+  export type TrialRecruitmentStatus =
+    | 'NOT_YET_RECRUITING'
+    | 'RECRUITING'
+    | 'ENROLLING_BY_INVITATION'
+    | 'ACTIVE_NOT_RECRUITING'
+    | 'SUSPENDED'
+    | 'TERMINATED'
+    | 'COMPLETED'
+    | 'WITHDRAWN'
+    | 'UNKNOWN';
+
+  export const TRIAL_RECRUITMENT_STATUSES: TrialRecruitmentStatus[] = [
+    'NOT_YET_RECRUITING',
+    'RECRUITING',
+    'ENROLLING_BY_INVITATION',
+    'ACTIVE_NOT_RECRUITING',
+    'SUSPENDED',
+    'TERMINATED',
+    'COMPLETED',
+    'WITHDRAWN',
+    'UNKNOWN'
+  ];
+
+  export type TrialPhase = 'EARLY_PHASE1' | 'PHASE1' | 'PHASE2' | 'PHASE3' | 'PHASE4' | 'NA';
+
+  export const TRIAL_PHASES: TrialPhase[] = ['EARLY_PHASE1', 'PHASE1', 'PHASE2', 'PHASE3', 'PHASE4', 'NA'];
+
+  // articleType of registry records, as opposed to published trial reports
+  export const CLINICAL_TRIAL_REGISTRATION = 'clinical trial registration';
+
+  export type SortOrder = 'relevance' | 'date_desc' | 'date_asc' | 'citations';
+
+  export const SORT_ORDERS: SortOrder[] = ['relevance', 'date_desc', 'date_asc', 'citations'];
+
   export interface SearchQuery {
     term: string;
     filters?: SearchFilters;
@@ -20,6 +63,8 @@ export interface DateRange {
       page: number;
       limit: number;
     };
+    sortBy?: SortOrder;
+    cursor?: string;  // Opaque token from a previous SearchResponse.nextCursor
   }
   
   export interface Author {
@@ -51,9 +96,94 @@ export interface DateRange {
     fullTextUrl?: string;
     citationCount?: number;
     metadata: Record<string, unknown>;  // Database-specific additional data
+    sources?: ResultSource[];  // Every database record merged into this result
+  }
+
+  /**
+   * `SearchResult.metadata` of a clinical trial registration
+   */
+  export interface ClinicalTrialMetadata {
+    nctId: string;
+    url: string;
+    status?: TrialRecruitmentStatus;
+    phases: TrialPhase[];
+    studyType?: string;
+    conditions: string[];
+    interventions: Array<{ type?: string; name: string }>;
+    enrollment?: {
+      count: number;
+      type?: 'ACTUAL' | 'ESTIMATED';
+    };
+    sponsor?: string;
+    startDate?: string;
+    completionDate?: string;
+    hasResults?: boolean;
+    pmids: string[];  // Publications the registration links to
+  }
+
+  export interface AbstractSection {
+    label?: string;  // e.g. BACKGROUND, METHODS
+    category?: string;  // NLM category the label maps to
+    text: string;
+  }
+
+  export interface MeshHeading {
+    descriptor: string;
+    ui?: string;  // MeSH unique identifier, e.g. D003920
+    majorTopic: boolean;
+    qualifiers: Array<{ name: string; ui?: string; majorTopic: boolean }>;
+  }
+
+  /**
+   * `SearchResult.metadata` of a PubMed record
+   */
+  export interface PubMedMetadata {
+    pmid: string;
+    pmcid?: string;
+    publicationTypes: string[];
+    meshHeadings: MeshHeading[];
+    chemicals: Array<{ name: string; ui?: string; registryNumber?: string }>;
+    grants: Array<{ id?: string; acronym?: string; agency?: string; country?: string }>;
+    corrections: Array<{ type: string; source?: string; pmid?: string }>;  // Errata, retractions and comments
+    retracted: boolean;
+    abstractSections?: AbstractSection[];  // Only for structured abstracts
+  }
+
+  /**
+   * How one database behaved while serving a search
+   */
+  export interface SourceTelemetry {
+    durationMs: number;
+    requests: number;  // Upstream HTTP requests, including retries
+    queueWaitMs: number;  // Time spent waiting for the outbound rate limiter
+    rateLimited: number;  // 429 responses received
+  }
+
+  export interface ResultSource {
+    databaseId: string;
+    id: string;
   }
 
   
+/**
+ * What a facet counts. Each maps onto a filter, except `database`.
+ */
+export type FacetField = 'year' | 'journal' | 'articleType' | 'language' | 'author' | 'database';
+
+export const FACET_FIELDS: FacetField[] = ['year', 'journal', 'articleType', 'language', 'author', 'database'];
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacet {
+  field: FacetField;
+  buckets: FacetBucket[];
+  // Upstream counts cover every hit; `results` counts only the merged records fetched for this page
+  origin: 'upstream' | 'results';
+}
+
 export interface SearchError {
   source: string;
   type: 'auth' | 'rate_limit' | 'timeout' | 'parse' | 'network' | 'unknown';
@@ -68,6 +198,72 @@ export interface SearchResponse {
   page: number;
   totalPages: number;
   executionTimeMs: number;
-  databasesSearched: string[];
+  databasesSearched: string[];  // Connector ids
   errors?: Array<{ source: string; error: SearchError }>;
-}
\ No newline at end of file
+  duplicatesRemoved?: number;  // Records collapsed by cross-database deduplication
+  sortBy?: SortOrder;
+  nextCursor?: string;  // Pass back as SearchQuery.cursor to fetch the following page
+  sourceTotals?: Record<string, number>;  // Upstream hit count per connector id
+  telemetry?: Record<string, SourceTelemetry>;  // Per connector id, for freshly executed searches only
+  warnings?: QueryWarning[];  // Parts of the query that were repaired or couldn't be searched exactly
+  facets?: SearchFacet[];
+  cache?: {
+    status: 'hit' | 'stale' | 'miss';
+    cachedAt?: string;
+  };
+}
+
+/**
+ * Results of one database as soon as it answers. They are provisional: the
+ * summary event carries the deduplicated, ranked page.
+ */
+export interface SourceResultsEvent {
+  source: string;  // Connector id
+  results: SearchResult[];
+  total: number;  // Upstream hit count
+  telemetry?: SourceTelemetry;
+}
+
+export interface SourceErrorEvent {
+  source: string;  // Connector id
+  error: SearchError;
+  telemetry?: SourceTelemetry;
+}
+
+/**
+ * Events of GET /api/search/stream; `type` is sent as the SSE event name and `data` as its payload
+ */
+export type SearchStreamEvent =
+  | { type: 'source'; data: SourceResultsEvent }
+  | { type: 'source-error'; data: SourceErrorEvent }
+  | { type: 'summary'; data: SearchResponse }
+  | { type: 'error'; data: { message: string } };
+
+/**
+ * Circuit breaker state of a database connector
+ */
+export type DatabaseHealthState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A search source as listed by GET /api/databases
+ */
+export interface DatabaseStatus {
+  id: string;
+  name: string;
+  enabled: boolean;
+  available: boolean;  // Enabled, accessible to the user and not tripped
+  authType: 'none' | 'apiKey' | 'oauth' | 'shibboleth';
+  features: {
+    supportsPagination: boolean;
+    supportsFullText: boolean;
+    supportsCitationCounts: boolean;
+    supportsAdvancedFilters: boolean;
+  };
+  health: {
+    state: DatabaseHealthState;
+    errorRate: number;  // Share of failed calls in the rolling window
+    requests: number;  // Calls in the rolling window
+    latencyMs?: number;  // Mean latency over the rolling window
+    retryAt?: string;  // When an open circuit lets a trial request through
+  };
+}
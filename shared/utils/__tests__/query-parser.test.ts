@@ -0,0 +1,96 @@
+// shared/utils/__tests__/query-parser.test.ts
+import { formatQuery, lintQuery, parseQuery } from '../query-parser';
+
+describe('parseQuery', () => {
+  it('parses boolean operators, grouping and exclusions', () => {
+    expect(parseQuery('cancer AND (therapy OR treatment) NOT mouse')).toEqual({
+      ast: {
+        type: 'and',
+        children: [
+          { type: 'term', value: 'cancer' },
+          {
+            type: 'or',
+            children: [
+              { type: 'term', value: 'therapy' },
+              { type: 'term', value: 'treatment' }
+            ]
+          },
+          { type: 'not', child: { type: 'term', value: 'mouse' } }
+        ]
+      },
+      warnings: []
+    });
+  });
+
+  it('ANDs adjacent terms and reads -term as an exclusion', () => {
+    expect(parseQuery('heart -attack').ast).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'heart' },
+        { type: 'not', child: { type: 'term', value: 'attack' } }
+      ]
+    });
+  });
+
+  it('reads field prefixes, proximity phrases, wildcards and year ranges', () => {
+    expect(parseQuery('title:"deep learning"~3 au:smith immun* year:2015-2020').ast).toEqual({
+      type: 'and',
+      children: [
+        { type: 'phrase', value: 'deep learning', field: 'title', proximity: 3 },
+        { type: 'term', value: 'smith', field: 'author' },
+        { type: 'term', value: 'immun*', wildcard: true },
+        { type: 'year', from: 2015, to: 2020 }
+      ]
+    });
+  });
+
+  it('expands the [tiab] tag into a title or abstract match', () => {
+    expect(parseQuery('heart[tiab]').ast).toEqual({
+      type: 'or',
+      children: [
+        { type: 'term', value: 'heart', field: 'title' },
+        { type: 'term', value: 'heart', field: 'abstract' }
+      ]
+    });
+  });
+
+  it('repairs unbalanced parentheses and reports it', () => {
+    expect(parseQuery('(cancer')).toEqual({
+      ast: { type: 'term', value: 'cancer' },
+      warnings: ['Missing closing parenthesis was added']
+    });
+  });
+
+  it('rejects a query that only excludes terms', () => {
+    expect(parseQuery('NOT mouse')).toEqual({
+      ast: null,
+      warnings: ['The query only excludes terms; add at least one term to search for']
+    });
+  });
+});
+
+describe('formatQuery', () => {
+  it('writes the AST back in canonical syntax', () => {
+    const { ast } = parseQuery('cancer (therapy OR treatment) -mouse title:"deep learning"~3');
+
+    expect(formatQuery(ast!)).toBe(
+      'cancer AND (therapy OR treatment) AND NOT mouse AND title:"deep learning"~3'
+    );
+  });
+
+  it('round-trips through the parser', () => {
+    const { ast } = parseQuery('vaccin? "mrna vaccine"[tiab] year:2020');
+
+    expect(parseQuery(formatQuery(ast!)).ast).toEqual(ast);
+  });
+});
+
+describe('lintQuery', () => {
+  it('returns nothing for a well-formed query', () => {
+    expect(lintQuery('cancer AND therapy')).toEqual([]);
+  });
+
+  it('returns the repairs the parser would make', () => {
+    expect(lintQuery('(cancer')).toEqual(['Missing closing parenthesis was added']);
+  });
+});
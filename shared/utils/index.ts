@@ -1,4 +1,5 @@
 export const formatDate = (date: Date): string => {
     return date.toISOString().split('T')[0];
   };
-  
\ No newline at end of file
+  
+export * from './query-parser';
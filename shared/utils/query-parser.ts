@@ -0,0 +1,425 @@
+// shared/utils/query-parser.ts
+import { ParsedQuery, QueryField, QueryNode } from '../types/query';
+
+// Names accepted for each field, both as `name:term` prefixes and `term[name]` tags
+const FIELD_ALIASES: Record<string, QueryField> = {
+  title: 'title',
+  ti: 'title',
+  abstract: 'abstract',
+  abs: 'abstract',
+  ab: 'abstract',
+  author: 'author',
+  au: 'author',
+  journal: 'journal',
+  ta: 'journal',
+  jr: 'journal',
+  so: 'journal',
+  year: 'year',
+  py: 'year',
+  dp: 'year'
+};
+
+// PubMed's title/abstract tag expands to either field
+const TITLE_ABSTRACT_TAG = 'tiab';
+
+// Words most databases drop from free-text searches (PubMed's list, abridged)
+const STOP_WORDS = new Set([
+  'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how', 'if', 'in', 'into', 'is',
+  'it', 'its', 'not', 'of', 'on', 'or', 'our', 'should', 'so', 'such', 'than', 'that', 'the',
+  'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'was', 'we', 'were',
+  'what', 'when', 'which', 'while', 'who', 'will', 'with', 'would'
+]);
+
+type Token =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { kind: 'field'; field: QueryField }
+  | { kind: 'word'; value: string; tag?: string }
+  | { kind: 'phrase'; value: string; proximity?: number; tag?: string };
+
+/**
+ * Parse a boolean search query into an AST.
+ *
+ * Supports AND / OR / NOT (upper case; adjacent terms are ANDed), `-term`, parentheses,
+ * quoted phrases with optional proximity ("a b"~5), `*` and `?` wildcards and field tags
+ * written as `title:term` or `term[ti]`. Free text never fails to parse: problems such
+ * as unbalanced parentheses are repaired and reported in `warnings`.
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const warnings: string[] = [];
+  let ast = new QueryParser(tokenize(input, warnings), warnings).parse();
+
+  if (ast && !hasPositiveTerm(ast)) {
+    warnings.push('The query only excludes terms; add at least one term to search for');
+    ast = null;
+  }
+
+  return { ast, warnings };
+}
+
+/**
+ * Check a query for likely mistakes before it is run: the parser's own repairs plus
+ * AND and OR mixed without parentheses, lower case operators and stop-word-only terms
+ */
+export function lintQuery(input: string): string[] {
+  const { warnings } = parseQuery(input);
+  const lint = new Set(warnings);
+  const tokens = tokenize(input, []);
+
+  // One frame per parenthesis depth: which operators join its operands
+  const newFrame = () => ({ and: false, or: false, operand: false });
+  const frames = [newFrame()];
+  const closeFrame = () => {
+    const frame = frames.pop()!;
+    if (frame.and && frame.or) {
+      lint.add('AND and OR are mixed without parentheses; OR binds loosest, so "a AND b OR c" means "(a AND b) OR c"');
+    }
+  };
+
+  tokens.forEach(token => {
+    const frame = frames[frames.length - 1];
+    switch (token.kind) {
+      case 'and':
+        frame.and = true;
+        frame.operand = false;
+        break;
+      case 'or':
+        frame.or = true;
+        frame.operand = false;
+        break;
+      case 'not':
+      case 'field':
+      case 'lparen':
+        // Adjacent to an operand these imply AND
+        if (frame.operand) frame.and = true;
+        frame.operand = false;
+        if (token.kind === 'lparen') {
+          frames.push(newFrame());
+        }
+        break;
+      case 'rparen':
+        if (frames.length > 1) {
+          closeFrame();
+          frames[frames.length - 1].operand = true;
+        }
+        break;
+      default:
+        if (frame.operand) frame.and = true;
+        frame.operand = true;
+
+        if (token.kind === 'word'
+          && /^(and|or|not)$/i.test(token.value)
+          && token.value !== token.value.toUpperCase()) {
+          lint.add(`"${token.value}" is searched as a word; write ${token.value.toUpperCase()} in capitals to use it as an operator`);
+        } else if (token.value.toLowerCase().split(' ').every(word => STOP_WORDS.has(word))) {
+          lint.add(token.value.includes(' ')
+            ? `"${token.value}" only contains stop words, which most databases ignore`
+            : `"${token.value}" is a stop word, which most databases ignore`);
+        }
+    }
+  });
+  while (frames.length) closeFrame();
+
+  return Array.from(lint);
+}
+
+/**
+ * Render an AST back into query syntax, e.g. for warnings about a part of the query
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return `${node.field ? `${node.field}:` : ''}${node.value}`;
+    case 'phrase':
+      return `${node.field ? `${node.field}:` : ''}"${node.value}"${node.proximity ? `~${node.proximity}` : ''}`;
+    case 'year':
+      return `year:${node.from === node.to ? node.from : `${node.from}-${node.to}`}`;
+    case 'and':
+      return node.children
+        .map(child => child.type === 'or' ? `(${formatQuery(child)})` : formatQuery(child))
+        .join(' AND ');
+    case 'or':
+      return node.children.map(child => formatQuery(child)).join(' OR ');
+    case 'not':
+      return node.child.type === 'and' || node.child.type === 'or'
+        ? `NOT (${formatQuery(node.child)})`
+        : `NOT ${formatQuery(node.child)}`;
+  }
+}
+
+function hasPositiveTerm(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'not':
+      return false;
+    case 'and':
+      return node.children.some(hasPositiveTerm);
+    case 'or':
+      return node.children.every(hasPositiveTerm);
+    default:
+      return true;
+  }
+}
+
+function tokenize(input: string, warnings: string[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // A `[tag]` directly after a word or phrase
+  const readTag = (): string | undefined => {
+    const match = /^\[([^\]]*)\]/.exec(input.slice(i));
+    if (!match) return undefined;
+    i += match[0].length;
+    return match[1].trim().toLowerCase();
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen' });
+      i++;
+    } else if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      let value: string;
+      if (end === -1) {
+        warnings.push('Closing quote added to an unterminated phrase');
+        value = input.slice(i + 1);
+        i = input.length;
+      } else {
+        value = input.slice(i + 1, end);
+        i = end + 1;
+      }
+
+      let proximity: number | undefined;
+      const distance = /^~(\d+)/.exec(input.slice(i));
+      if (distance) {
+        proximity = parseInt(distance[1], 10);
+        i += distance[0].length;
+      }
+
+      value = value.trim().replace(/\s+/g, ' ');
+      const tag = readTag();
+      if (value) {
+        tokens.push({ kind: 'phrase', value, proximity: proximity || undefined, tag });
+      }
+    } else if (char === '-' && i + 1 < input.length && !/[\s)-]/.test(input[i + 1])) {
+      // `-term` excludes, like NOT
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      // A stray `[` starts a word rather than stalling the scan
+      let end = i + 1;
+      while (end < input.length && !/[\s()"[]/.test(input[end])) end++;
+      let word = input.slice(i, end);
+      i = end;
+
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ kind: word === 'AND' ? 'and' : word === 'OR' ? 'or' : 'not' });
+        continue;
+      }
+
+      const prefix = /^([A-Za-z]+):(.*)$/.exec(word);
+      if (prefix && FIELD_ALIASES[prefix[1].toLowerCase()]) {
+        tokens.push({ kind: 'field', field: FIELD_ALIASES[prefix[1].toLowerCase()] });
+        word = prefix[2];
+      }
+
+      const tag = readTag();
+      if (word) {
+        tokens.push({ kind: 'word', value: word, tag });
+      } else if (tag !== undefined) {
+        warnings.push(`Field tag [${tag}] without a term was ignored`);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent over the tokens; OR binds loosest, then AND, then NOT
+ */
+class QueryParser {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly warnings: string[]
+  ) {}
+
+  parse(): QueryNode | null {
+    let node = this.parseOr();
+
+    // Only an unmatched `)` stops the top level early
+    while (this.position < this.tokens.length) {
+      this.warnings.push('Unmatched closing parenthesis was ignored');
+      this.position++;
+      const rest = this.parseOr();
+      node = combine('and', [node, rest]);
+    }
+
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(field?: QueryField): QueryNode | null {
+    const children: Array<QueryNode | null> = [this.parseAnd(field)];
+
+    while (this.peek()?.kind === 'or') {
+      this.position++;
+      const next = this.parseAnd(field);
+      if (!children[children.length - 1] || !next) {
+        this.warnings.push('OR without a term on both sides was ignored');
+      }
+      children.push(next);
+    }
+
+    return combine('or', children);
+  }
+
+  private parseAnd(field?: QueryField): QueryNode | null {
+    const children: Array<QueryNode | null> = [];
+
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.kind === 'rparen' || token.kind === 'or') break;
+
+      if (token.kind === 'and') {
+        this.position++;
+        const next = this.peek();
+        if (!children.length || !next || next.kind === 'rparen' || next.kind === 'or' || next.kind === 'and') {
+          this.warnings.push('AND without a term on both sides was ignored');
+        }
+        continue;
+      }
+
+      children.push(this.parseUnary(field));
+    }
+
+    return combine('and', children);
+  }
+
+  private parseUnary(field?: QueryField): QueryNode | null {
+    const token = this.peek();
+
+    if (token?.kind === 'not') {
+      this.position++;
+      const child = this.atOperand() ? this.parseUnary(field) : null;
+      if (!child) {
+        this.warnings.push('NOT without a term after it was ignored');
+        return null;
+      }
+      return child.type === 'not' ? child.child : { type: 'not', child };
+    }
+
+    if (token?.kind === 'field') {
+      this.position++;
+      if (!this.atOperand()) {
+        this.warnings.push(`${token.field}: without a term was ignored`);
+        return null;
+      }
+      return this.parseUnary(token.field);
+    }
+
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field?: QueryField): QueryNode | null {
+    const token = this.tokens[this.position++];
+
+    switch (token.kind) {
+      case 'lparen': {
+        const node = this.parseOr(field);
+        if (this.peek()?.kind === 'rparen') {
+          this.position++;
+        } else {
+          this.warnings.push('Missing closing parenthesis was added');
+        }
+        return node;
+      }
+      case 'word':
+      case 'phrase':
+        return this.leaf(token, field);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Whether the next token can start a term, group or negation
+   */
+  private atOperand(): boolean {
+    const next = this.peek();
+    return Boolean(next) && next!.kind !== 'rparen' && next!.kind !== 'or' && next!.kind !== 'and';
+  }
+
+  private leaf(
+    token: Extract<Token, { kind: 'word' | 'phrase' }>,
+    outerField?: QueryField
+  ): QueryNode | null {
+    let field = outerField;
+    if (token.tag !== undefined) {
+      if (token.tag === TITLE_ABSTRACT_TAG) {
+        return combine('or', [
+          this.leaf({ ...token, tag: 'title' }),
+          this.leaf({ ...token, tag: 'abstract' })
+        ]);
+      }
+
+      if (FIELD_ALIASES[token.tag]) {
+        field = FIELD_ALIASES[token.tag];
+      } else {
+        this.warnings.push(`Unknown field tag [${token.tag}] was ignored`);
+      }
+    }
+
+    if (field === 'year') {
+      const range = /^(\d{4})(?:\s*(?:-|\.\.|:)\s*(\d{4}))?$/.exec(token.value);
+      if (!range) {
+        this.warnings.push(`"${token.value}" is not a year or range of years and was ignored`);
+        return null;
+      }
+      const from = parseInt(range[1], 10);
+      const to = range[2] ? parseInt(range[2], 10) : from;
+      return { type: 'year', from: Math.min(from, to), to: Math.max(from, to) };
+    }
+
+    if (token.kind === 'phrase') {
+      return { type: 'phrase', value: token.value, field, proximity: token.proximity };
+    }
+
+    if (!token.value.replace(/[*?]/g, '')) {
+      this.warnings.push(`Wildcard "${token.value}" without any letters was ignored`);
+      return null;
+    }
+
+    return {
+      type: 'term',
+      value: token.value,
+      field,
+      wildcard: /[*?]/.test(token.value) || undefined
+    };
+  }
+}
+
+/**
+ * Join nodes with an operator, dropping the empty ones and flattening nested groups of the same kind
+ */
+function combine(type: 'and' | 'or', nodes: Array<QueryNode | null>): QueryNode | null {
+  const children: QueryNode[] = [];
+  nodes.forEach(node => {
+    if (!node) return;
+    if (node.type === type) {
+      children.push(...node.children);
+    } else {
+      children.push(node);
+    }
+  });
+
+  if (!children.length) return null;
+  return children.length === 1 ? children[0] : { type, children };
+}